@@ -16,14 +16,31 @@ const __dirname = dirname(__filename);
 import type { Menu } from '../src/types/menu';
 import type { DisplayMenu } from '../src/model/menu-model';
 import type { OrderPageData } from '../src/model/order-model';
-import type { PageStaticData } from '../src/types/page-data';
+import type { FloorIndex, PageStaticData, TablesPageData } from '../src/types/page-data';
 
 // Import the actual page templates
 import * as MenuPage from '../src/pages/menu-page';
 import * as OrderPage from '../src/pages/order-page';
+import * as TablesPage from '../src/pages/tables-page';
+import * as BillPage from '../src/pages/bill-page';
+import * as PaymentPage from '../src/pages/payment-page';
+import * as KitchenPage from '../src/pages/kitchen-page';
+import * as OrderHistoryPage from '../src/pages/order-history-page';
+import * as MenuEditorPage from '../src/pages/menu-editor-page';
+import * as LoginPage from '../src/pages/login-page';
 import { buildHTML } from '../src/lib/template';
 // Import the proper conversion function
 import { toDisplayMenu } from '../src/model/menu-model';
+import { emptyOrder, NO_CHARGES, orderTotals } from '../src/model/order-model';
+import { orderCharges, type OrderConfig } from '../src/services/menu-data-service';
+import { emptyBill } from '../src/model/bill-model';
+import { collectPromotions } from '../src/model/discount-model';
+import { emptyPayment } from '../src/model/payment-model';
+import { emptyKitchen } from '../src/model/kitchen-model';
+import { emptyOrderHistory } from '../src/model/order-history-model';
+import { emptyMenuEditor } from '../src/model/menu-editor-model';
+import { emptyLogin } from '../src/model/staff-model';
+import { reportIssues, validateMenuFiles } from './validate-menus';
 
 // Read the Vite-generated assets from dist/assets
 async function getViteAssets(): Promise<{ js: string; css?: string }> {
@@ -123,10 +140,52 @@ async function loadConfig() {
   return JSON.parse(configContent);
 }
 
+// Load the seatmap floor index
+async function loadFloorIndex(): Promise<FloorIndex> {
+  const indexPath = path.join(__dirname, '../public/data/seatmap/index.json');
+  return JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+}
+
+// Vite's entry templates, not pages of their own
+const ENTRY_TEMPLATES = ['index-dyn.html', 'index-ssg.html'];
+
+// List the files under a directory, as URL paths relative to dist
+async function listFiles(distDir: string, dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listFiles(distDir, fullPath);
+      return [`/${path.relative(distDir, fullPath).split(path.sep).join('/')}`];
+    })
+  );
+  return files.flat();
+}
+
+// Write the list of files the service worker caches for offline use:
+// the generated pages, the built assets and the menu data
+async function writePrecacheManifest(distDir: string) {
+  const files = await listFiles(distDir, distDir);
+  const urls = files.filter((url) =>
+    (url.endsWith('.html') && !ENTRY_TEMPLATES.includes(url.slice(1))) ||
+    url.startsWith('/assets/') ||
+    (url.startsWith('/data/') && url.endsWith('.json'))
+  );
+  
+  const manifest = { version: Date.now().toString(36), urls: urls.sort() };
+  await fs.writeFile(path.join(distDir, 'precache.json'), JSON.stringify(manifest, null, 2));
+  console.log(`\n  ✓ Generated precache.json (${urls.length} files)`);
+}
+
 // Main generation function
 async function generateStaticPages() {
   console.log('🚀 Starting static page generation...');
   
+  // A broken reference renders an empty group or a dead link, stop before generating
+  if (reportIssues(await validateMenuFiles())) {
+    throw new Error('Menu validation failed, see the errors above');
+  }
+  
   const config = await loadConfig();
   const languages = config.languages;
   const defaultLang = config.defaultLanguage;
@@ -164,6 +223,7 @@ async function generateStaticPages() {
     
     // Read all menu files for this language
     const menuFiles = await fs.readdir(langMenuDir);
+    const menus: Menu[] = [];
     
     for (const file of menuFiles) {
       if (!file.endsWith('.json')) continue;
@@ -178,6 +238,7 @@ async function generateStaticPages() {
       const menuData = JSON.parse(
         await fs.readFile(path.join(langMenuDir, file), 'utf-8')
       ) as Menu;
+      menus.push(menuData);
       
       // Transform to DisplayMenu using the proper conversion function
       const displayMenu = toDisplayMenu(menuData);
@@ -225,19 +286,24 @@ async function generateStaticPages() {
     
     // Generate order page for this language
     // Load order configuration
-    let orderConfig = { currency: 'ALL', taxRate: 0, serviceFee: 0 };
+    let orderConfig: OrderConfig = { currency: 'ALL', ...NO_CHARGES };
     try {
       const orderConfigPath = path.join(__dirname, '../public/data/order.json');
       const orderConfigContent = await fs.readFile(orderConfigPath, 'utf-8');
-      orderConfig = JSON.parse(orderConfigContent);
+      orderConfig = { ...NO_CHARGES, ...JSON.parse(orderConfigContent) };
     } catch (err) {
       console.log(`    ⚠️  Using default order config (order.json not found)`);
     }
+    const charges = orderCharges(orderConfig);
     
     const emptyOrderData: OrderPageData = {
-      order: { itemIds: [], total: 0, currency: orderConfig.currency },
+      order: emptyOrder(orderConfig.currency),
       items: {},
-      currency: orderConfig.currency
+      currency: orderConfig.currency,
+      charges,
+      totals: orderTotals(emptyOrder(orderConfig.currency), charges),
+      // Promotions of all menus in this language, evaluated on the order page
+      promotions: collectPromotions(menus, config.timeZone)
     };
     
     const orderPageData: PageStaticData = {
@@ -273,10 +339,106 @@ async function generateStaticPages() {
     await fs.writeFile(orderOutputPath, orderHtml);
     const orderRelativePath = lang === defaultLang ? 'order.html' : `${lang}/order.html`;
     console.log(`    ✓ Generated ${orderRelativePath}`);
+    
+    // Generate bill page - the order is split client-side from the session
+    const billData = emptyBill(orderConfig.currency, charges);
+    const billHtml = await generateHTMLDocument(
+      buildHTML(BillPage.template(billData, orderContext)),
+      { type: 'bill', data: billData },
+      'Bill - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'bill.html'), billHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'bill.html' : `${lang}/bill.html`}`);
+    
+    // Generate payment page - the amount due is read client-side from the session
+    const paymentData = emptyPayment(orderConfig.currency, charges);
+    const paymentHtml = await generateHTMLDocument(
+      buildHTML(PaymentPage.template(paymentData, orderContext)),
+      { type: 'payment', data: paymentData },
+      'Payment - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'payment.html'), paymentHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'payment.html' : `${lang}/payment.html`}`);
+    
+    // Generate kitchen display - tickets are fetched client-side from the server
+    const kitchenData = emptyKitchen();
+    const kitchenHtml = await generateHTMLDocument(
+      buildHTML(KitchenPage.template(kitchenData, orderContext)),
+      { type: 'kitchen', data: kitchenData },
+      'Kitchen - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'kitchen.html'), kitchenHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'kitchen.html' : `${lang}/kitchen.html`}`);
+    
+    // Generate order history - orders are fetched client-side from the server
+    const historyData = emptyOrderHistory(orderConfig.currency, charges);
+    const historyHtml = await generateHTMLDocument(
+      buildHTML(OrderHistoryPage.template(historyData, orderContext)),
+      { type: 'history', data: historyData },
+      'Order History - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'history.html'), historyHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'history.html' : `${lang}/history.html`}`);
+    
+    // Generate the menu editor - menus are fetched client-side from the server
+    const menuEditorData = emptyMenuEditor();
+    const menuEditorHtml = await generateHTMLDocument(
+      buildHTML(MenuEditorPage.template(menuEditorData, orderContext)),
+      { type: 'menu-editor', data: menuEditorData },
+      'Menu Editor - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'menu-editor.html'), menuEditorHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'menu-editor.html' : `${lang}/menu-editor.html`}`);
+    
+    // Generate the staff login - the PIN pad needs no data
+    const loginData = emptyLogin();
+    const loginHtml = await generateHTMLDocument(
+      buildHTML(LoginPage.template(loginData, orderContext)),
+      { type: 'login', data: loginData },
+      'Sign In - NRP POS'
+    );
+    await fs.writeFile(path.join(htmlOutputDir, 'login.html'), loginHtml);
+    console.log(`    ✓ Generated ${lang === defaultLang ? 'login.html' : `${lang}/login.html`}`);
+    
+    // Generate tables pages - one per floor, /tables shows the default floor
+    // (tables/index.html, since /tables is redirected to the directory)
+    const floorIndex = await loadFloorIndex();
+    const tablesOutputDir = path.join(htmlOutputDir, 'tables');
+    await fs.mkdir(tablesOutputDir, { recursive: true });
+    
+    for (const floor of floorIndex.floors) {
+      const floorPath = path.join(__dirname, '../public/data/seatmap', `${floor.id}.json`);
+      const floorData = JSON.parse(await fs.readFile(floorPath, 'utf-8'));
+      const tablesData: TablesPageData = { ...floorData, floors: floorIndex.floors };
+      
+      const tablesPageData: PageStaticData = {
+        type: 'tables',
+        data: tablesData
+      };
+      
+      const tablesContent = buildHTML(TablesPage.template(tablesData, orderContext));
+      const tablesHtml = await generateHTMLDocument(
+        tablesContent,
+        tablesPageData,
+        `${tablesData.name} - NRP POS`
+      );
+      
+      const outputPaths = [path.join(tablesOutputDir, `${floor.id}.html`)];
+      if (floor.id === floorIndex.defaultFloor) {
+        outputPaths.push(path.join(tablesOutputDir, 'index.html'));
+      }
+      
+      for (const outputPath of outputPaths) {
+        await fs.writeFile(outputPath, tablesHtml);
+        console.log(`    ✓ Generated ${path.relative(distDir, outputPath)}`);
+      }
+    }
   }
   
   // No longer copying to root - all languages have their own directories
   
+  await writePrecacheManifest(distDir);
+  
   console.log('\n✨ Static generation complete!');
 }
 
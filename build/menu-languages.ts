@@ -0,0 +1,159 @@
+/**
+ * Menu Languages Script
+ * Keeps the per-language menu files in step with each other
+ *
+ * Usage: npm run menu-languages -- <command>
+ *   check     Compare every language with the default language: missing or
+ *             extra menus and items, differing prices, variants and constraints,
+ *             untranslated texts, and files that differ from menu-source/
+ *   extract   Merge the language files into one source file per menu in menu-source/
+ *   generate  Write the language files from menu-source/
+ *
+ * In menu-source/ a text is either one string for all languages or given per
+ * language, e.g. "name": { "sq": "Kafe", "en": "Coffee", "it": "Caffè" }.
+ * Prices and everything else are written once.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+import type { Menu } from '../src/types/menu';
+import { compareMenuLanguages, localizeMenu, SourceMenu, toSourceMenu } from '../src/model/menu-languages';
+import { LanguageIssue, loadMenus, reportIssues } from './validate-menus';
+
+// Get __dirname equivalent in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const menuDir = path.join(__dirname, '../public/data/menu');
+const sourceDir = path.join(__dirname, '../menu-source');
+
+// Same formatting as the existing menu files
+function toJSON(menu: unknown): string {
+  return JSON.stringify(menu, null, 2);
+}
+
+async function loadConfig(): Promise<{ languages: string[]; defaultLanguage: string }> {
+  return JSON.parse(await fs.readFile(path.join(__dirname, '../menu-config.json'), 'utf-8'));
+}
+
+// The default language first, it is the base the others are compared with
+function orderedLanguages(config: { languages: string[]; defaultLanguage: string }): string[] {
+  return [config.defaultLanguage, ...config.languages.filter((lang) => lang !== config.defaultLanguage)];
+}
+
+async function loadLanguages(languages: string[]): Promise<{ trees: Record<string, Menu[]>; issues: LanguageIssue[] }> {
+  const trees: Record<string, Menu[]> = {};
+  const issues: LanguageIssue[] = [];
+  for (const lang of languages) {
+    const loaded = await loadMenus(path.join(menuDir, lang), lang);
+    trees[lang] = loaded.menus;
+    issues.push(...loaded.issues);
+  }
+  return { trees, issues };
+}
+
+async function loadSources(): Promise<SourceMenu[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(sourceDir)).filter((file) => file.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+  return Promise.all(files.map(async (file) => JSON.parse(await fs.readFile(path.join(sourceDir, file), 'utf-8'))));
+}
+
+/**
+ * Compare the languages, and the language files with menu-source/
+ */
+async function check(languages: string[]): Promise<LanguageIssue[]> {
+  const { trees, issues } = await loadLanguages(languages);
+  for (const issue of compareMenuLanguages(trees, languages[0])) {
+    issues.push({ ...issue, file: `${issue.menuId}.json` });
+  }
+
+  for (const source of await loadSources()) {
+    for (const lang of languages) {
+      const file = `${source.id}.json`;
+      const current = await fs.readFile(path.join(menuDir, lang, file), 'utf-8').catch(() => undefined);
+      if (current !== toJSON(localizeMenu(source, lang, languages))) {
+        const message = `differs from menu-source/${file}, edit the source and run generate`;
+        issues.push({ severity: 'error', lang, file, menuId: source.id, path: '', message });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Write menu-source/ from the language files, which have to agree in structure
+ */
+async function extract(languages: string[]): Promise<boolean> {
+  const { trees, issues } = await loadLanguages(languages);
+  for (const issue of compareMenuLanguages(trees, languages[0])) {
+    issues.push({ ...issue, file: `${issue.menuId}.json` });
+  }
+  if (reportIssues(issues, 'Menu languages')) {
+    console.log('\n  Fix the errors above before extracting');
+    return false;
+  }
+
+  await fs.mkdir(sourceDir, { recursive: true });
+  for (const menu of trees[languages[0]]) {
+    const versions: Record<string, Menu> = {};
+    for (const lang of languages) {
+      versions[lang] = trees[lang].find((m) => m.id === menu.id)!;
+    }
+    await fs.writeFile(path.join(sourceDir, `${menu.id}.json`), toJSON(toSourceMenu(versions)));
+    console.log(`  ✓ menu-source/${menu.id}.json`);
+  }
+  return true;
+}
+
+/**
+ * Write the language files from menu-source/
+ */
+async function generate(languages: string[]): Promise<boolean> {
+  const sources = await loadSources();
+  if (sources.length === 0) {
+    console.log('  No menus in menu-source/, run extract first');
+    return false;
+  }
+
+  for (const source of sources) {
+    for (const lang of languages) {
+      await fs.mkdir(path.join(menuDir, lang), { recursive: true });
+      await fs.writeFile(path.join(menuDir, lang, `${source.id}.json`), toJSON(localizeMenu(source, lang, languages)));
+    }
+    console.log(`  ✓ ${source.id}.json (${languages.join(', ')})`);
+  }
+  return true;
+}
+
+async function main(command: string): Promise<boolean> {
+  const languages = orderedLanguages(await loadConfig());
+  switch (command) {
+    case 'check':
+      return !reportIssues(await check(languages), 'Menu languages');
+    case 'extract':
+      return extract(languages);
+    case 'generate':
+      return generate(languages);
+    default:
+      console.error(`Unknown command '${command}', use check, extract or generate`);
+      return false;
+  }
+}
+
+// Run if called directly
+if (process.argv[1] === __filename) {
+  main(process.argv[2] ?? 'check')
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((error) => {
+      console.error('❌ Menu languages failed:', error);
+      process.exit(1);
+    });
+}
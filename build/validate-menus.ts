@@ -0,0 +1,104 @@
+/**
+ * Menu Validation Script
+ * Checks the menu JSON files of every language for dangling references,
+ * missing variant prices, unsatisfiable choices and unreachable menus
+ *
+ * Usage: npm run validate-menus [-- --strict]
+ * Exits with 1 on errors, and on warnings too with --strict
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+import type { Menu } from '../src/types/menu';
+import { MenuIssue, validateMenus } from '../src/model/menu-validation';
+
+// Get __dirname equivalent in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export type LanguageIssue = MenuIssue & { lang: string; file: string };
+
+// Read the menus of one language; a file that isn't JSON is an issue, not a crash
+export async function loadMenus(langMenuDir: string, lang: string): Promise<{ menus: Menu[]; issues: LanguageIssue[] }> {
+  const menus: Menu[] = [];
+  const issues: LanguageIssue[] = [];
+
+  for (const file of (await fs.readdir(langMenuDir)).sort()) {
+    if (!file.endsWith('.json')) continue;
+
+    try {
+      const menu = JSON.parse(await fs.readFile(path.join(langMenuDir, file), 'utf-8')) as Menu;
+      menus.push(menu);
+      // The app fetches a menu by its ID
+      if (`${menu.id}.json` !== file) {
+        issues.push({ lang, file, severity: 'error', menuId: menu.id, path: 'id', message: `file should be named ${menu.id}.json` });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      issues.push({ lang, file, severity: 'error', menuId: file.replace('.json', ''), path: '', message });
+    }
+  }
+
+  return { menus, issues };
+}
+
+/**
+ * Validate the menus of every configured language
+ */
+export async function validateMenuFiles(): Promise<LanguageIssue[]> {
+  const config = JSON.parse(await fs.readFile(path.join(__dirname, '../menu-config.json'), 'utf-8'));
+  const menuDir = path.join(__dirname, '../public/data/menu');
+  const issues: LanguageIssue[] = [];
+
+  for (const lang of config.languages as string[]) {
+    const langMenuDir = path.join(menuDir, lang);
+    try {
+      await fs.access(langMenuDir);
+    } catch {
+      continue;
+    }
+
+    const loaded = await loadMenus(langMenuDir, lang);
+    issues.push(...loaded.issues);
+    for (const issue of validateMenus(loaded.menus)) {
+      issues.push({ ...issue, lang, file: `${issue.menuId}.json` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Print the issues, e.g. "  ✗ en/yogurt-menu.json items.X.subMenu.menuId: 'y' is not a menu"
+ * @returns Whether there were errors
+ */
+export function reportIssues(issues: LanguageIssue[], title = 'Menu validation'): boolean {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  for (const issue of [...errors, ...warnings]) {
+    const mark = issue.severity === 'error' ? '✗' : '⚠️ ';
+    const location = issue.path ? `${issue.lang}/${issue.file} ${issue.path}` : `${issue.lang}/${issue.file}`;
+    console.log(`  ${mark} ${location}: ${issue.message}`);
+  }
+  console.log(`\n  ${title}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+
+  return errors.length > 0;
+}
+
+// Run if called directly
+if (process.argv[1] === __filename) {
+  const strict = process.argv.includes('--strict');
+  validateMenuFiles()
+    .then((issues) => {
+      const failed = reportIssues(issues);
+      process.exit(failed || (strict && issues.length > 0) ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('❌ Menu validation failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,114 @@
+/**
+ * Service Worker - keeps the POS usable offline
+ *
+ * Installs the pages and menu data listed in /precache.json (written by
+ * generate-static). Pages and data are fetched from the network first and
+ * fall back to the cache; hashed assets come from the cache first.
+ * API calls are never cached - orders sent offline go to the outbound queue.
+ */
+
+const CACHE_PREFIX = 'nrp-pos-';
+const MANIFEST_URL = '/precache.json';
+
+async function readManifest() {
+  const response = await fetch(MANIFEST_URL, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch precache manifest: ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Cache named after the build, so a new build starts from a fresh cache
+let cacheName;
+async function currentCache() {
+  if (!cacheName) {
+    const keys = await caches.keys();
+    cacheName = keys.filter((key) => key.startsWith(CACHE_PREFIX)).sort().pop() || `${CACHE_PREFIX}runtime`;
+  }
+  return caches.open(cacheName);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const manifest = await readManifest();
+      cacheName = `${CACHE_PREFIX}${manifest.version}`;
+      const cache = await caches.open(cacheName);
+      await cache.addAll(manifest.urls);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== cacheName).map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+/**
+ * Cached response for a page URL - "/order" is stored as "/order.html",
+ * "/it/" as "/it/index.html"
+ */
+async function matchPage(cache, url) {
+  const candidates = [url.pathname];
+  if (url.pathname.endsWith('/')) {
+    candidates.push(`${url.pathname}index.html`);
+  } else if (!url.pathname.endsWith('.html')) {
+    candidates.push(`${url.pathname}.html`, `${url.pathname}/index.html`);
+  }
+
+  for (const candidate of candidates) {
+    const response = await cache.match(candidate);
+    if (response) return response;
+  }
+  return undefined;
+}
+
+async function networkFirst(request, url) {
+  const cache = await currentCache();
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = request.mode === 'navigate' ? await matchPage(cache, url) : await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await currentCache();
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate' || url.pathname.startsWith('/data/')) {
+    event.respondWith(networkFirst(request, url));
+  }
+});
@@ -112,6 +112,7 @@ function transformOrderForERP(nrpOrder, nrpItems) {
       quantity: orderItem.quantity,
       price: orderItem.price,
       productName: orderItem.menuItem.name,
+      notes: orderItem.notes,
       modifiers: []
     };
     
@@ -3,7 +3,45 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import compression from 'compression';
 import fs from 'fs';
+import crypto from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
 import { initializeErpPos, mapOrderItemsToErp, createSessionMetadata, getPaymentMethod } from './server/erp-config.js';
+import { collectPromotions, NO_CHARGES, validateDiscount, validateLinePricing } from './server/pricing.js';
+import { bumpTicket, createTicket, listTickets, recallTicket, setItemDone } from './server/kitchen.js';
+import { buildStationIndex, listStations, splitByStation } from './server/stations.js';
+import { claimKey, releaseKey, storeAnswer } from './server/idempotency.js';
+import { checkStock, isSoldOut, listSoldOut, setSoldOut, setTimeZone } from './server/availability.js';
+import { validateMenuUpload, writeMenuFiles } from './server/menu-files.js';
+import { openMenuEvents, publishMenuVersion, watchMenuFiles } from './server/menu-events.js';
+import {
+  adjustItem,
+  createOrder,
+  deleteOrder,
+  findOrder,
+  listOrders,
+  mergePayments,
+  openOrderStore,
+  paymentsCover,
+  recordRound,
+  updateOrder,
+  validateAdjustment,
+  validateOrderChanges
+} from './server/order-store.js';
+import {
+  accountKey,
+  approve,
+  bearerToken,
+  findSession,
+  hasPermission,
+  lockedFor,
+  loadStaff,
+  login,
+  logout,
+  publicSession,
+  sessionFor,
+  throttleFor,
+  validatePin
+} from './server/staff.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,17 +52,37 @@ const PORT = process.env.PORT || 3000;
 // Track active table sessions
 const tableSessions = new Map();
 
+// Live table status shown on the seatmap
+// Structure: { [tableNumber]: { status, guestCount, openTotal, currency, updatedAt } }
+const TABLE_STATUSES = ['free', 'occupied', 'order-sent', 'bill-requested', 'needs-cleaning'];
+const tableStatus = new Map();
+
+function setTableStatus(tableNumber, changes) {
+  const current = tableStatus.get(tableNumber) || { status: 'free', guestCount: 0, openTotal: 0, currency: null };
+  const next = { ...current, ...changes, updatedAt: new Date().toISOString() };
+  tableStatus.set(tableNumber, next);
+  return next;
+}
+
 // ERP POS instance (initialized on startup)
 let erpPos = null;
 
 // Menu cache to store all menus in memory
 const menuCache = {
   languages: [], // Available languages
+  timeZone: undefined, // Restaurant's time zone, promotion schedules and sold out days are in it
   menus: {},     // Structure: { [lang]: { [menuId]: menuData } }
-  itemIndex: {}  // Structure: { [lang]: { [itemId]: { item, menuId } } }
+  itemIndex: {}, // Structure: { [lang]: { [itemId]: { item, menuId } } }
+  stations: {},  // Structure: { [lang]: { [itemId]: station } }
+  version: 0,    // Goes up whenever the menu files change
+  checksum: null // Of the menu files behind the version
 };
 
-// Load all menu files at startup
+const menuDir = path.join(__dirname, 'public/data/menu');
+
+// Load all menu files into a new cache and swap it in at once, so requests
+// never see half-loaded menus. A file that can't be read, e.g. while it is
+// being copied, keeps the menu loaded before.
 function loadMenus() {
   console.log('Loading menu files...');
   
@@ -32,21 +90,22 @@ function loadMenus() {
     // Load configuration
     const configPath = path.join(__dirname, 'menu-config.json');
     const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-    menuCache.languages = config.languages;
+    const next = { languages: config.languages, timeZone: config.timeZone, menus: {}, itemIndex: {}, stations: {} };
+    const hash = crypto.createHash('sha1');
     
     // Load menus for each language
     for (const lang of config.languages) {
-      menuCache.menus[lang] = {};
-      menuCache.itemIndex[lang] = {};
+      next.menus[lang] = {};
+      next.itemIndex[lang] = {};
       
-      const langDir = path.join(__dirname, 'public/data/menu', lang);
+      const langDir = path.join(menuDir, lang);
       
       if (!fs.existsSync(langDir)) {
         console.log(`  ⚠️  Language directory ${lang} not found`);
         continue;
       }
       
-      const files = fs.readdirSync(langDir);
+      const files = fs.readdirSync(langDir).sort();
       
       for (const file of files) {
         if (!file.endsWith('.json') || file.includes('.backup')) continue;
@@ -54,39 +113,87 @@ function loadMenus() {
         const menuId = file.replace('.json', '');
         const menuPath = path.join(langDir, file);
         
+        let menuData;
         try {
-          const menuData = JSON.parse(fs.readFileSync(menuPath, 'utf-8'));
-          menuCache.menus[lang][menuId] = menuData;
-          
-          // Index all items for quick lookup
-          if (menuData.items) {
-            for (const [itemId, item] of Object.entries(menuData.items)) {
-              menuCache.itemIndex[lang][itemId] = {
-                item,
-                menuId,
-                menuName: menuData.name
-              };
-            }
-          }
-          
-          console.log(`  ✓ Loaded ${lang}/${menuId}`);
+          const text = fs.readFileSync(menuPath, 'utf-8');
+          menuData = JSON.parse(text);
+          hash.update(`${lang}/${file}\n${text}\n`);
         } catch (err) {
           console.error(`  ✗ Failed to load ${lang}/${menuId}:`, err.message);
+          menuData = menuCache.menus[lang]?.[menuId];
+          if (!menuData) continue;
+          hash.update(`${lang}/${file}\n${JSON.stringify(menuData)}\n`);
+        }
+        next.menus[lang][menuId] = menuData;
+        
+        // Index all items for quick lookup
+        if (menuData.items) {
+          for (const [itemId, item] of Object.entries(menuData.items)) {
+            next.itemIndex[lang][itemId] = {
+              item,
+              menuId,
+              menuName: menuData.name
+            };
+          }
         }
+        
+        console.log(`  ✓ Loaded ${lang}/${menuId}`);
       }
+      
+      // Stations are inherited through subMenus, so resolve them once all menus are loaded
+      next.stations[lang] = buildStationIndex(next.menus[lang]);
     }
     
-    console.log('Menu loading complete!');
+    const checksum = hash.digest('hex');
+    const changed = checksum !== menuCache.checksum;
+    Object.assign(menuCache, next, {
+      checksum,
+      version: changed ? menuCache.version + 1 : menuCache.version
+    });
+    setTimeZone(menuCache.timeZone);
+    
+    console.log(`Menu loading complete${changed ? `, version ${menuCache.version}` : ', nothing changed'}`);
     console.log(`  Languages: ${menuCache.languages.join(', ')}`);
     console.log(`  Total menus: ${Object.values(menuCache.menus).reduce((sum, langMenus) => sum + Object.keys(langMenus).length, 0)}`);
+    return changed;
   } catch (error) {
     console.error('Failed to load menus:', error);
-    // Continue running even if menu loading fails
+    // Continue running with the menus loaded before
+    return false;
   }
 }
 
-// Load menus at startup
+// Load menus again when their files change and tell the open POS clients
+function reloadMenus() {
+  if (loadMenus()) {
+    const clients = publishMenuVersion(menuCache.version);
+    console.log(`  Told ${clients} clients about menu version ${menuCache.version}`);
+  }
+}
+
+// Load menus at startup and watch their files
 loadMenus();
+watchMenuFiles(menuDir, menuCache.languages, reloadMenus);
+
+// Order history journal, kept across restarts
+const orderStorePath = process.env.ORDER_STORE_PATH || path.join(__dirname, 'data/orders.jsonl');
+try {
+  console.log(`Loaded ${openOrderStore(orderStorePath)} orders from ${orderStorePath}`);
+} catch (error) {
+  console.error('Failed to open the order store, orders are only kept in memory:', error);
+}
+
+// Staff who can sign in; the demo staff only outside production
+const staffPath = process.env.STAFF_PATH || path.join(__dirname, 'data/staff.json');
+const staffFile = fs.existsSync(staffPath) || process.env.NODE_ENV === 'production'
+  ? staffPath
+  : path.join(__dirname, 'staff.example.json');
+try {
+  const timeoutMinutes = Number(process.env.SESSION_TIMEOUT_MINUTES) || undefined;
+  console.log(`Loaded ${loadStaff(staffFile, { timeoutMinutes })} staff from ${staffFile}`);
+} catch (error) {
+  console.error('Failed to load staff, no one can sign in:', error.message);
+}
 
 // Enable gzip compression
 app.use(compression());
@@ -102,31 +209,101 @@ app.use((req, res, next) => {
   next();
 });
 
+// Serve data files from public directory, ahead of the copies built into dist
+// so changed menus are served without a rebuild
+app.use('/data', express.static(path.join(__dirname, 'public/data'), {
+  maxAge: '1h',  // Cache data files for 1 hour
+  etag: true,
+  setHeaders: (res, path) => {
+    // Menus change while the server runs, clients check them every time and
+    // compare the version with the ones announced on /api/menu/events
+    if (path.startsWith(menuDir)) {
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('X-Menu-Version', String(menuCache.version));
+    }
+  }
+}));
+
 // Serve static files from dist with proper caching
 app.use(express.static(path.join(__dirname, 'dist'), {
   maxAge: '1y',
   etag: true,
   setHeaders: (res, path) => {
-    // Don't cache HTML files
-    if (path.endsWith('.html')) {
+    // Don't cache HTML files, the service worker or its precache list
+    if (path.endsWith('.html') || path.endsWith('sw.js') || path.endsWith('precache.json')) {
       res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
     }
   }
 }));
 
-// Serve data files from public directory
-app.use('/data', express.static(path.join(__dirname, 'public/data'), {
-  maxAge: '1h',  // Cache data files for 1 hour
-  etag: true
-}));
-
 // API routes (add your server-side features here)
+// Every /api route but the health check, the login and the menu events needs a staff session
+const PUBLIC_API_PATHS = ['/health', '/auth/login', '/menu/events'];
+
+app.use('/api', (req, res, next) => {
+  if (PUBLIC_API_PATHS.includes(req.path)) return next();
+
+  const session = findSession(bearerToken(req));
+  if (!session) {
+    return res.status(401).json({ error: 'Login required' });
+  }
+  req.session = session;
+  next();
+});
+
+/**
+ * Reject requests of staff without a permission
+ */
+function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!hasPermission(req.session, permission)) {
+      return res.status(403).json({ error: `Permission '${permission}' required` });
+    }
+    next();
+  };
+}
+
+function tooManyPins(waitMs) {
+  const minutes = Math.ceil(waitMs / 60000);
+  return `Too many wrong PINs, try again in ${minutes === 1 ? 'a minute' : `${minutes} minutes`}`;
+}
+
+// Sign in with a PIN; after too many wrong PINs the client's answers slow down
+app.post('/api/auth/login', async (req, res) => {
+  const invalid = validatePin(req.body.pin);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  const delay = throttleFor(req.ip);
+  if (delay > 0) {
+    await sleep(delay);
+  }
+  
+  const session = login(req.body.pin, req.ip);
+  if (!session) {
+    return res.status(401).json({ error: 'Wrong PIN' });
+  }
+  console.log(`${session.staff.name} (${session.staff.role}) signed in`);
+  res.json({ session: publicSession(session) });
+});
+
+// Current session, extended by the request like any other
+app.get('/api/auth/session', (req, res) => {
+  res.json({ session: publicSession(req.session) });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  logout(req.session.token);
+  res.json({ success: true });
+});
+
 app.get('/api/health', (req, res) => {
   res.json({ 
     status: 'healthy', 
     timestamp: new Date().toISOString(),
     menuCacheStatus: {
       languages: menuCache.languages,
+      version: menuCache.version,
       menuCount: Object.values(menuCache.menus).reduce((sum, langMenus) => sum + Object.keys(langMenus).length, 0)
     }
   });
@@ -214,15 +391,30 @@ app.post('/api/translateOrder', (req, res) => {
 });
 
 // Validate and send order
+// Requests with an Idempotency-Key header are processed once; retries get the first answer
 app.post('/api/sendOrder', async (req, res) => {
+  const idempotencyKey = req.get('Idempotency-Key');
+  
   try {
-    const { order, items, language = 'en', tableNumber } = req.body;
+    const { order, items, language = 'en', tableNumber, staffId } = req.body;
     
     if (!order || !items) {
       return res.status(400).json({ 
         error: 'Missing required fields: order, items' 
       });
     }
+    // Rounds queued offline name the staff member who took them, the till may have changed hands since
+    const roundSession = sessionFor(req.session, staffId);
+    
+    if (idempotencyKey) {
+      const claim = claimKey(idempotencyKey);
+      if (claim === 'pending') {
+        return res.status(409).json({ error: `Order '${idempotencyKey}' is already being processed` });
+      }
+      if (claim !== 'new') {
+        return res.json({ ...claim, replayed: true });
+      }
+    }
     
     // Validation results
     const validation = {
@@ -237,6 +429,11 @@ app.post('/api/sendOrder', async (req, res) => {
       validation.warnings.push(`Language '${language}' not in cache, using default validation`);
     }
     
+    const promotions = collectPromotions(menuCache.menus[language], menuCache.timeZone);
+    // nth-item promotions count on from the units the order already has
+    const previousOrder = order.orderNumber ? findOrder(order.orderNumber) : null;
+    const precedingItems = Object.values(previousOrder?.items || {});
+    
     // Validate each order item
     for (const [itemId, displayItem] of Object.entries(items)) {
       const orderItem = displayItem.item;
@@ -253,16 +450,28 @@ app.post('/api/sendOrder', async (req, res) => {
       
       const menuItem = menuInfo.item;
       
-      // Validate price (if item has fixed price)
+      if (isSoldOut(baseItemId)) {
+        validation.errors.push(`'${orderItem.menuItem.name}' is sold out`);
+        validation.valid = false;
+      }
+      
+      // Validate unit base price (if item has fixed price)
       if (typeof menuItem.price === 'number') {
-        const expectedPrice = menuItem.price * orderItem.quantity;
+        const expectedPrice = menuItem.price;
         const actualBasePrice = orderItem.price;
         
         if (Math.abs(expectedPrice - actualBasePrice) > 0.01) {
-          validation.errors.push(
-            `Price mismatch for '${orderItem.menuItem.name}': expected ${expectedPrice}, got ${actualBasePrice}`
-          );
-          validation.valid = false;
+          // Staff allowed to override prices send what they charge
+          if (hasPermission(roundSession, 'price-override')) {
+            validation.warnings.push(
+              `Price override for '${orderItem.menuItem.name}' by ${roundSession.staff.name}: menu ${expectedPrice}, charged ${actualBasePrice}`
+            );
+          } else {
+            validation.errors.push(
+              `Price mismatch for '${orderItem.menuItem.name}': expected ${expectedPrice}, got ${actualBasePrice}`
+            );
+            validation.valid = false;
+          }
         }
       }
       
@@ -271,6 +480,11 @@ app.post('/api/sendOrder', async (req, res) => {
         for (const modifier of orderItem.modifiers) {
           const modInfo = menuCache.itemIndex[language]?.[modifier.menuItemId];
           
+          if (modifier.quantity > 0 && isSoldOut(modifier.menuItemId)) {
+            validation.errors.push(`'${modifier.name}' for '${orderItem.menuItem.name}' is sold out`);
+            validation.valid = false;
+          }
+          
           if (!modInfo) {
             validation.warnings.push(
               `Modifier '${modifier.menuItemId}' not found for validation`
@@ -287,10 +501,38 @@ app.post('/api/sendOrder', async (req, res) => {
         }
       }
       
+      if (orderItem.discount && !hasPermission(roundSession, 'discount')) {
+        validation.errors.push(`Discount on '${orderItem.menuItem.name}' needs a manager`);
+        validation.valid = false;
+      }
+      
+      // Validate promotion and discount against the line total
+      const pricingErrors = validateLinePricing(orderItem, promotions, order.currency, new Date(), precedingItems);
+      if (pricingErrors.length > 0) {
+        validation.errors.push(...pricingErrors);
+        validation.valid = false;
+      }
+      precedingItems.push(orderItem);
+      
       // Add to calculated total
       validation.totalCalculated += orderItem.total;
     }
     
+    // The order discount is applied to the open balance when paying
+    const orderDiscountError = validateDiscount(order.discount, 'the order');
+    if (orderDiscountError) {
+      validation.errors.push(orderDiscountError);
+      validation.valid = false;
+    }
+    
+    // Later rounds carry the order discount again, only a new one needs the permission
+    const previousDiscount = previousOrder?.discount;
+    if (order.discount && JSON.stringify(order.discount) !== JSON.stringify(previousDiscount)
+      && !hasPermission(roundSession, 'discount')) {
+      validation.errors.push('Discount on the order needs a manager');
+      validation.valid = false;
+    }
+    
     // Validate order total
     if (Math.abs(validation.totalCalculated - order.total) > 0.01) {
       validation.errors.push(
@@ -320,7 +562,7 @@ app.post('/api/sendOrder', async (req, res) => {
               // Create new session
               const session = await erpPos.tables.openTable({
                 tableNumber: tableNumber || 'Takeaway',
-                waiter: order.waiter || 'POS User',
+                waiter: order.waiter || roundSession.staff.name,
                 customerCount: order.customerCount || 1,
                 notes: order.notes
               });
@@ -362,14 +604,50 @@ app.post('/api/sendOrder', async (req, res) => {
       
       const orderNumber = erpResult?.orderId || `ORD-${Date.now()}`;
       
+      // The round joins the order history; the kitchen gets it even if the journal can't be written
+      try {
+        recordRound({
+          orderNumber,
+          previousNumber: order.orderNumber,
+          tableNumber,
+          sessionId: erpResult?.sessionId || order.sessionId,
+          round: (order.round || 0) + 1,
+          staff: roundSession.staff.name,
+          order,
+          items
+        });
+      } catch (storeError) {
+        console.error('Order store error:', storeError);
+        validation.warnings.push(`Order history not saved: ${storeError.message}`);
+      }
+      
+      // Each round adds to the table's open total
+      if (tableNumber) {
+        const current = tableStatus.get(tableNumber);
+        setTableStatus(tableNumber, {
+          status: 'order-sent',
+          guestCount: order.customerCount || current?.guestCount || 0,
+          openTotal: (current?.openTotal || 0) + (order.total || 0),
+          currency: order.currency
+        });
+      }
+      
+      // The round goes to the kitchen display, one ticket per preparation station
+      const round = (order.round || 0) + 1;
+      const byStation = splitByStation(items, menuCache.stations[language]);
+      const tickets = Object.entries(byStation).map(([station, stationItems]) =>
+        createTicket({ orderNumber, tableNumber, round, station, items: stationItems })
+      );
+      
       console.log(`Order ${orderNumber} validated successfully:`, {
         items: Object.keys(items).length,
         total: order.total,
         currency: order.currency,
-        erpSynced: !!erpResult
+        erpSynced: !!erpResult,
+        tickets: tickets.map((ticket) => `${ticket.id}@${ticket.station}`)
       });
       
-      res.json({
+      const answer = {
         success: true,
         orderNumber,
         message: 'Order validated successfully',
@@ -377,8 +655,11 @@ app.post('/api/sendOrder', async (req, res) => {
         order,
         erp: erpResult,
         timestamp: new Date().toISOString()
-      });
+      };
+      if (idempotencyKey) storeAnswer(idempotencyKey, answer);
+      res.json(answer);
     } else {
+      if (idempotencyKey) releaseKey(idempotencyKey);
       res.status(400).json({
         success: false,
         message: 'Order validation failed',
@@ -387,6 +668,7 @@ app.post('/api/sendOrder', async (req, res) => {
     }
     
   } catch (error) {
+    if (idempotencyKey) releaseKey(idempotencyKey);
     console.error('Order processing error:', error);
     res.status(500).json({ 
       error: 'Failed to process order',
@@ -408,15 +690,394 @@ app.get('/api/menu', async (req, res) => {
   }
 });
 
-// API route for orders (example)
-app.get('/api/orders', async (req, res) => {
+// Order history, newest first
+// Query: from and to (ISO dates, inclusive), table, status, limit
+app.get('/api/orders', (req, res) => {
+  const { from, to, table, status } = req.query;
+  const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+  
+  if (status && validateOrderChanges({ status })) {
+    return res.status(400).json({ error: validateOrderChanges({ status }) });
+  }
+  if (limit !== undefined && !(limit > 0)) {
+    return res.status(400).json({ error: 'Limit must be a positive number' });
+  }
+  
+  res.json({ orders: listOrders({ from, to, table, status, limit }) });
+});
+
+// One order with its items, rounds and payments, by ID or round number
+app.get('/api/orders/:orderId', (req, res) => {
+  const order = findOrder(req.params.orderId);
+  if (!order) {
+    return res.status(404).json({ error: `Order '${req.params.orderId}' not found` });
+  }
+  res.json({ order });
+});
+
+// Add an order that was not sent through /api/sendOrder
+app.post('/api/orders', (req, res) => {
+  const { currency, items } = req.body;
+  if (!currency || !items) {
+    return res.status(400).json({ error: 'Missing required fields: currency, items' });
+  }
+  if (req.body.id && findOrder(req.body.id)) {
+    return res.status(409).json({ error: `Order '${req.body.id}' already exists` });
+  }
+  const invalid = validateOrderChanges(req.body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  
+  try {
+    res.status(201).json({ order: createOrder(req.body) });
+  } catch (error) {
+    console.error('Order store error:', error);
+    res.status(500).json({ error: 'Failed to create order', message: error.message });
+  }
+});
+
+// Tax and service charge the payment page charges, read like the client does on every use
+function orderCharges() {
   try {
-    const orderData = JSON.parse(
-      fs.readFileSync(path.join(__dirname, 'dist/data/order.json'), 'utf-8')
+    const { taxRate, taxMode, serviceFee } = JSON.parse(fs.readFileSync(path.join(__dirname, 'public/data/order.json'), 'utf-8'));
+    return { ...NO_CHARGES, ...(taxRate != null ? { taxRate } : {}), ...(taxMode ? { taxMode } : {}), ...(serviceFee != null ? { serviceFee } : {}) };
+  } catch {
+    return NO_CHARGES;
+  }
+}
+
+// Record payments, refunds or a table change; payments are added to the recorded ones
+// Refunds need the void permission, reopening a paid or refunded order the reopen permission;
+// marking an order paid that its payments don't cover writes off the rest, like a void
+app.patch('/api/orders/:orderId', (req, res) => {
+  const invalid = validateOrderChanges(req.body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  
+  const current = findOrder(req.params.orderId);
+  const { status } = req.body;
+  const unpaid = status === 'paid' && current && current.status !== 'paid'
+    && !paymentsCover(current, mergePayments(current.payments, req.body.payments), orderCharges());
+  const permission = status === 'refunded' && current?.status !== 'refunded' ? 'void'
+    : status === 'open' && current && current.status !== 'open' ? 'reopen'
+    : unpaid ? 'void'
+    : null;
+  if (permission && !hasPermission(req.session, permission)) {
+    return res.status(403).json({ error: `Permission '${permission}' required` });
+  }
+  
+  try {
+    const order = updateOrder(req.params.orderId, req.body);
+    if (!order) {
+      return res.status(404).json({ error: `Order '${req.params.orderId}' not found` });
+    }
+    res.json({ order });
+  } catch (error) {
+    console.error('Order store error:', error);
+    res.status(500).json({ error: 'Failed to update order', message: error.message });
+  }
+});
+
+app.delete('/api/orders/:orderId', requirePermission('void'), (req, res) => {
+  try {
+    if (!deleteOrder(req.params.orderId)) {
+      return res.status(404).json({ error: `Order '${req.params.orderId}' not found` });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Order store error:', error);
+    res.status(500).json({ error: 'Failed to delete order', message: error.message });
+  }
+});
+
+// Void or comp a sent item with a reason
+// Staff without the void permission need a manager's PIN (body: kind, reason, managerPin)
+app.post('/api/orders/:orderId/items/:itemId/adjustment', async (req, res) => {
+  const invalid = validateAdjustment(req.body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  // Slow down wrong manager PINs before looking at the order, which may change meanwhile
+  const delay = req.body.managerPin && !hasPermission(req.session, 'void') ? throttleFor(req.ip) : 0;
+  if (delay > 0) {
+    await sleep(delay);
+  }
+  
+  const { orderId, itemId } = req.params;
+  const order = findOrder(orderId);
+  if (!order || !order.items[itemId]) {
+    return res.status(404).json({ error: `Item '${itemId}' of order '${orderId}' not found` });
+  }
+  if (order.status !== 'open') {
+    return res.status(409).json({ error: `Order '${orderId}' is ${order.status}` });
+  }
+  if (order.items[itemId].adjustment) {
+    return res.status(409).json({ error: `Item '${itemId}' was already ${order.items[itemId].adjustment.kind}ed` });
+  }
+  
+  let approver = req.session.staff;
+  if (!hasPermission(req.session, 'void')) {
+    if (!req.body.managerPin) {
+      return res.status(403).json({ error: 'Manager approval required' });
+    }
+    const account = accountKey(req.session.staff.id);
+    const wait = lockedFor(account);
+    if (wait > 0) {
+      return res.status(429).json({ error: tooManyPins(wait) });
+    }
+    // Not 401: the cashier's own session is still valid
+    approver = approve(String(req.body.managerPin), 'void', req.ip, account);
+    if (!approver) {
+      return res.status(403).json({ error: 'Wrong manager PIN' });
+    }
+  }
+  
+  try {
+    const updated = adjustItem(orderId, itemId, {
+      kind: req.body.kind,
+      reason: req.body.reason,
+      staff: req.session.staff.name,
+      approvedBy: approver.name
+    });
+    console.log(`${req.session.staff.name} ${req.body.kind}ed item ${itemId} of ${updated.id} (${req.body.reason}), approved by ${approver.name}`);
+    res.json({ order: updated, adjustment: updated.items[itemId].adjustment });
+  } catch (error) {
+    console.error('Order store error:', error);
+    res.status(500).json({ error: 'Failed to adjust item', message: error.message });
+  }
+});
+
+// Items and modifiers sold out today
+app.get('/api/availability', (req, res) => {
+  res.json({ soldOut: listSoldOut() });
+});
+
+// Mark an item or modifier sold out for the rest of the day, or available again
+// Body: soldOut (boolean), name (shown in the list)
+app.post('/api/availability/:menuItemId', requirePermission('availability'), (req, res) => {
+  if (typeof req.body.soldOut !== 'boolean') {
+    return res.status(400).json({ error: 'soldOut must be true or false' });
+  }
+  
+  const { menuItemId } = req.params;
+  const entry = setSoldOut(menuItemId, { soldOut: req.body.soldOut, name: req.body.name, by: req.session.staff.name });
+  console.log(`${req.session.staff.name} marked '${menuItemId}' ${entry ? 'sold out' : 'available'}`);
+  res.json({ soldOut: listSoldOut() });
+});
+
+// Check order lines before they are sent
+// Body: items [{ itemId?, menuItemId, quantity, modifierIds? }]
+app.post('/api/validateStock', (req, res) => {
+  const { items } = req.body;
+  if (!Array.isArray(items) || items.some((item) => !item?.menuItemId)) {
+    return res.status(400).json({ error: 'Items array required' });
+  }
+  
+  const results = checkStock(items);
+  res.json({ success: true, available: results.every((result) => result.isAvailable), items: results });
+});
+
+// Menu version as server-sent events, pushed whenever the menu files change
+// Public like the menus themselves, EventSource can't send a session token
+app.get('/api/menu/events', (req, res) => {
+  openMenuEvents(req, res, menuCache.version);
+});
+
+// Promotions of all menus in a language, evaluated by the order page
+app.get('/api/promotions', (req, res) => {
+  const language = req.query.language || 'en';
+  if (!menuCache.menus[language]) {
+    return res.status(400).json({ error: `Language '${language}' not available` });
+  }
+  res.setHeader('X-Menu-Version', String(menuCache.version));
+  res.json({ success: true, promotions: collectPromotions(menuCache.menus[language], menuCache.timeZone) });
+});
+
+// Every menu of a language, for the menu editor
+app.get('/api/menus', requirePermission('menu-edit'), (req, res) => {
+  const language = req.query.language || 'en';
+  if (!menuCache.menus[language]) {
+    return res.status(400).json({ error: `Language '${language}' not available` });
+  }
+  res.json({ success: true, menus: menuCache.menus[language] });
+});
+
+// A menu in every language
+app.get('/api/menus/:menuId', requirePermission('menu-edit'), (req, res) => {
+  const { menuId } = req.params;
+  const menus = {};
+  for (const lang of menuCache.languages) {
+    if (menuCache.menus[lang]?.[menuId]) menus[lang] = menuCache.menus[lang][menuId];
+  }
+  if (Object.keys(menus).length === 0) {
+    return res.status(404).json({ error: `Menu '${menuId}' not found` });
+  }
+  res.json({ success: true, menus });
+});
+
+// Save a menu from the menu editor and load the menus again
+// Body: menus ({ [lang]: menu } for every language), source (single-source menu)
+app.put('/api/menus/:menuId', requirePermission('menu-edit'), (req, res) => {
+  const { menuId } = req.params;
+  const { languages } = menuCache;
+  if (!languages.some((lang) => menuCache.menus[lang]?.[menuId])) {
+    return res.status(404).json({ error: `Menu '${menuId}' not found` });
+  }
+  
+  const invalid = validateMenuUpload(req.body, menuId, languages);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  
+  try {
+    const menus = Object.fromEntries(languages.map((lang) => [lang, req.body.menus[lang]]));
+    writeMenuFiles(
+      { menuDir: path.join(__dirname, 'public/data/menu'), sourceDir: path.join(__dirname, 'menu-source') },
+      menuId,
+      menus,
+      req.body.source
     );
-    res.json(orderData);
+    reloadMenus();
+    console.log(`${req.session.staff.name} saved menu '${menuId}'`);
+    
+    const saved = Object.fromEntries(languages.map((lang) => [lang, menuCache.menus[lang][menuId]]));
+    res.json({ success: true, menus: saved });
+  } catch (error) {
+    console.error('Failed to save menu:', error);
+    res.status(500).json({ error: 'Failed to save menu', message: error.message });
+  }
+});
+
+// Table status for the seatmap overlay
+app.get('/api/tables/status', async (req, res) => {
+  try {
+    // Tables with an open ERP session are at least occupied
+    for (const session of tableSessions.values()) {
+      if (session.status === 'active' && session.tableNumber && !tableStatus.has(session.tableNumber)) {
+        setTableStatus(session.tableNumber, { status: 'occupied', guestCount: session.customerCount || 0 });
+      }
+    }
+    
+    if (erpPos) {
+      try {
+        const tables = await erpPos.tables.getAllTables();
+        for (const table of tables) {
+          if (table.status === 'occupied' && !tableStatus.has(table.number)) {
+            setTableStatus(table.number, { status: 'occupied' });
+          }
+        }
+      } catch (erpError) {
+        console.error('Failed to get ERP tables:', erpError);
+      }
+    }
+    
+    res.json({
+      success: true,
+      tables: Object.fromEntries(tableStatus),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Failed to get table status:', error);
+    res.status(500).json({ error: 'Failed to get table status', message: error.message });
+  }
+});
+
+// Update a table's status (bill requested, cleaned, ...)
+app.post('/api/tables/:tableNumber/status', (req, res) => {
+  const { tableNumber } = req.params;
+  const { status, guestCount } = req.body;
+  
+  if (!TABLE_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `Invalid table status: ${status}` });
+  }
+  if (guestCount !== undefined && (!Number.isInteger(guestCount) || guestCount < 0)) {
+    return res.status(400).json({ error: `Invalid guest count: ${guestCount}` });
+  }
+  
+  const changes = { status };
+  if (guestCount !== undefined) changes.guestCount = guestCount;
+  // A freed table starts over
+  if (status === 'free') Object.assign(changes, { guestCount: 0, openTotal: 0 });
+  
+  res.json({ success: true, table: setTableStatus(tableNumber, changes) });
+});
+
+// Kitchen display tickets - open ones and the recently bumped ones, optionally of one station
+app.get('/api/kitchen/tickets', (req, res) => {
+  const { station, language = 'en' } = req.query;
+  res.json({
+    success: true,
+    tickets: listTickets(station),
+    stations: listStations(menuCache.stations[language]),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Bump a ticket off the kitchen display
+app.post('/api/kitchen/tickets/:ticketId/bump', (req, res) => {
+  const ticket = bumpTicket(req.params.ticketId);
+  if (!ticket) {
+    return res.status(404).json({ error: `Ticket '${req.params.ticketId}' not found` });
+  }
+  res.json({ success: true, ticket });
+});
+
+// Put a bumped ticket back on the kitchen display
+app.post('/api/kitchen/tickets/:ticketId/recall', (req, res) => {
+  const ticket = recallTicket(req.params.ticketId);
+  if (!ticket) {
+    return res.status(404).json({ error: `Ticket '${req.params.ticketId}' not found` });
+  }
+  res.json({ success: true, ticket });
+});
+
+// Mark an item of a ticket as done
+app.post('/api/kitchen/tickets/:ticketId/items/:itemId/done', (req, res) => {
+  const { ticketId, itemId } = req.params;
+  const { done } = req.body;
+  
+  if (typeof done !== 'boolean') {
+    return res.status(400).json({ error: 'Missing required field: done' });
+  }
+  
+  const ticket = setItemDone(ticketId, itemId, done);
+  if (!ticket) {
+    return res.status(404).json({ error: `Item '${itemId}' not found on ticket '${ticketId}'` });
+  }
+  res.json({ success: true, ticket });
+});
+
+// Print a receipt or kitchen ticket
+// Body: { data: base64 ESC/POS bytes, printer?: name the print server knows }
+app.post('/api/print', async (req, res) => {
+  const printServerUrl = process.env.PRINT_SERVER_URL;
+  if (!printServerUrl) {
+    return res.status(503).json({ error: 'Print server not configured' });
+  }
+  
+  const { data, printer } = req.body;
+  if (typeof data !== 'string' || data.length === 0) {
+    return res.status(400).json({ error: 'Missing required field: data' });
+  }
+  
+  try {
+    const url = new URL(printServerUrl);
+    if (printer) url.searchParams.set('printer', printer);
+    
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: Buffer.from(data, 'base64')
+    });
+    if (!response.ok) {
+      throw new Error(`Print server answered ${response.status} ${response.statusText}`);
+    }
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to load order data' });
+    console.error('Print error:', error);
+    res.status(500).json({ error: 'Failed to print', message: error.message });
   }
 });
 
@@ -459,7 +1120,7 @@ app.post('/api/erp/tables/open', async (req, res) => {
     
     const session = await erpPos.tables.openTable({
       tableNumber: tableNumber || 'Takeaway',
-      waiter: waiter || 'POS User',
+      waiter: waiter || req.session.staff.name,
       customerCount: customerCount || 1,
       notes
     });
@@ -557,27 +1218,67 @@ app.get('/api/erp/bill/:sessionId', async (req, res) => {
 });
 
 // Process payment
+// Accepts one or more tender lines (cash + card); without ERPNext the payment
+// is only validated and recorded locally
 app.post('/api/erp/payments/process', async (req, res) => {
-  if (!erpPos) {
-    return res.status(503).json({ error: 'ERP integration not configured' });
-  }
-  
   try {
-    const { sessionId, amount, paymentMethod, tip } = req.body;
+    // final is false while other checks of a split bill are still open
+    const { sessionId, tableNumber, amount, paymentMethod, tip, tenders, final = true } = req.body;
+    const lines = Array.isArray(tenders) && tenders.length > 0
+      ? tenders
+      : [{ method: paymentMethod || 'cash', amount }];
     
-    const result = await erpPos.payments.processPayment({
-      sessionId,
-      amount,
-      paymentMethod: paymentMethod || 'cash',
-      tip
-    });
+    if (!(amount > 0)) {
+      return res.status(400).json({ success: false, error: 'Payment amount must be positive' });
+    }
+    
+    const tendered = lines.reduce((sum, line) => sum + (Number(line.amount) || 0), 0);
+    if (tendered < amount) {
+      return res.status(400).json({ success: false, error: `Tendered ${tendered} is less than the amount due ${amount}` });
+    }
     
-    // Clear local session if payment successful
+    // Only cash can be over-tendered, the difference is the change due
+    const nonCash = lines.filter(line => line.method !== 'cash').reduce((sum, line) => sum + line.amount, 0);
+    if (nonCash > amount) {
+      return res.status(400).json({ success: false, error: 'Card payments cannot exceed the amount due' });
+    }
+    const change = tendered - amount;
+    
+    let result = { success: true, paymentId: `PAY-${Date.now()}` };
+    
+    if (erpPos && sessionId) {
+      // Post each tender line, cash is capped at what is still due
+      let remaining = amount;
+      for (const [index, line] of lines.entries()) {
+        const applied = Math.min(line.amount, remaining);
+        if (applied <= 0) continue;
+        remaining -= applied;
+        result = await erpPos.payments.processPayment({
+          sessionId,
+          amount: applied,
+          paymentMethod: line.method || 'cash',
+          tip: index === 0 ? tip : undefined
+        });
+        if (!result.success) break;
+      }
+    }
+    
+    // Clear local session once the whole order is paid
     if (result.success) {
-      tableSessions.delete(sessionId);
+      const session = sessionId ? tableSessions.get(sessionId) : null;
+      const paidTable = session?.tableNumber || tableNumber;
+      if (paidTable && final) {
+        setTableStatus(paidTable, { status: 'needs-cleaning', openTotal: 0 });
+      } else if (paidTable) {
+        const openTotal = tableStatus.get(paidTable)?.openTotal || 0;
+        setTableStatus(paidTable, { openTotal: Math.max(0, openTotal - amount) });
+      }
+      if (sessionId && final) {
+        tableSessions.delete(sessionId);
+      }
     }
     
-    res.json(result);
+    res.json({ ...result, amount, tendered, change });
   } catch (error) {
     console.error('Failed to process payment:', error);
     res.status(500).json({ error: 'Failed to process payment', message: error.message });
@@ -0,0 +1,102 @@
+/**
+ * Menu item availability ("86" list)
+ * Managers mark items and modifiers sold out for the rest of the day; the
+ * list starts empty every day and is written to the order journal like the
+ * kitchen tickets, so a restart keeps it
+ */
+
+import { journalRecords } from './order-store.js';
+
+// Structure: { [menuItemId]: { menuItemId, name, by, at, date } }
+const soldOut = new Map();
+
+// IANA time zone from menu-config.json, the server's own when missing
+let timeZone;
+
+// Journal entries: { op: 'sold-out', menuItemId, entry }, entry is null once the item is available again
+const journal = journalRecords('sold-out', {
+  apply({ menuItemId, entry }) {
+    if (entry) {
+      soldOut.set(menuItemId, entry);
+    } else {
+      soldOut.delete(menuItemId);
+    }
+  },
+  entries: () => Array.from(soldOut.values()).map((entry) => ({ menuItemId: entry.menuItemId, entry }))
+});
+
+/**
+ * Days start at midnight in the restaurant's time zone, not the server's
+ */
+export function setTimeZone(zone) {
+  timeZone = zone;
+}
+
+/**
+ * Service day of a time, as YYYY-MM-DD in the restaurant's time zone
+ */
+function dayOf(now) {
+  const format = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  const parts = Object.fromEntries(format.formatToParts(now).map((part) => [part.type, part.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+function forgetOtherDays(now) {
+  const today = dayOf(now);
+  for (const [menuItemId, entry] of soldOut) {
+    if (entry.date !== today) {
+      soldOut.delete(menuItemId);
+    }
+  }
+}
+
+/**
+ * Items sold out today, most recent first
+ */
+export function listSoldOut(now = new Date()) {
+  forgetOtherDays(now);
+  return Array.from(soldOut.values()).sort((a, b) => b.at.localeCompare(a.at));
+}
+
+export function isSoldOut(menuItemId, now = new Date()) {
+  forgetOtherDays(now);
+  return soldOut.has(menuItemId);
+}
+
+/**
+ * Mark an item or modifier sold out for the rest of the day, or available again
+ * @param by - Name of the staff member who changed it
+ * @returns The entry, or null when the item is available
+ */
+export function setSoldOut(menuItemId, { soldOut: out, name, by }, now = new Date()) {
+  if (!out) {
+    if (soldOut.delete(menuItemId)) {
+      journal({ menuItemId, entry: null });
+    }
+    return null;
+  }
+
+  const entry = { menuItemId, name: name || menuItemId, by, at: now.toISOString(), date: dayOf(now) };
+  soldOut.set(menuItemId, entry);
+  journal({ menuItemId, entry });
+  return entry;
+}
+
+/**
+ * Check order lines against the sold out list
+ * @param items - [{ itemId?, menuItemId, quantity, modifierIds? }]
+ * @returns One result per line; a line is unavailable when its item or one of its modifiers is sold out
+ */
+export function checkStock(items, now = new Date()) {
+  forgetOtherDays(now);
+  return items.map(({ itemId, menuItemId, quantity, modifierIds = [] }) => {
+    const soldOutIds = [menuItemId, ...modifierIds].filter((id) => soldOut.has(id));
+    return {
+      ...(itemId ? { itemId } : {}),
+      menuItemId,
+      requested: quantity,
+      isAvailable: soldOutIds.length === 0,
+      ...(soldOutIds.length > 0 ? { soldOut: soldOutIds } : {})
+    };
+  });
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { isSoldOut, listSoldOut, setSoldOut, setTimeZone } from './availability.js';
+
+describe('availability', () => {
+    afterEach(() => {
+        setTimeZone(undefined);
+    });
+
+    describe('setSoldOut', () => {
+        it('should keep an item sold out until midnight in the restaurant time zone', () => {
+            // Tirana is an hour ahead of UTC in March
+            setTimeZone('Europe/Tirane');
+            const entry = setSoldOut('burger', { soldOut: true, name: 'Burger', by: 'Ana' }, new Date('2026-03-14T22:30:00Z'));
+            expect(entry.date).toBe('2026-03-14');
+
+            expect(isSoldOut('burger', new Date('2026-03-14T22:59:00Z'))).toBe(true);
+            expect(isSoldOut('burger', new Date('2026-03-14T23:01:00Z'))).toBe(false);
+        });
+
+        it('should start a new day after midnight where the restaurant is, even on a UTC server', () => {
+            setTimeZone('America/New_York');
+            setSoldOut('soup', { soldOut: true, name: 'Soup', by: 'Ben' }, new Date('2026-03-15T02:00:00Z'));
+
+            // Still the 14th in New York, though already the 15th in UTC
+            expect(listSoldOut(new Date('2026-03-15T03:59:00Z')).map((entry) => entry.menuItemId)).toEqual(['soup']);
+            expect(listSoldOut(new Date('2026-03-15T04:01:00Z'))).toEqual([]);
+        });
+    });
+});
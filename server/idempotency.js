@@ -0,0 +1,46 @@
+/**
+ * Idempotency keys for order submission
+ * Clients retry rounds queued while offline with the key they were sent with;
+ * the first accepted answer is replayed instead of creating the order again
+ */
+
+// Answers kept for replay, oldest dropped first
+const ANSWER_LIMIT = 500;
+
+// Structure: { [key]: { status: 'pending' } | { status: 'done', body } }
+const answers = new Map();
+
+/**
+ * Claim a key for a request
+ * @returns 'new' when the request should be processed, 'pending' while another
+ *   request with the key is still running, or the stored answer body
+ */
+export function claimKey(key) {
+  const entry = answers.get(key);
+  if (!entry) {
+    answers.set(key, { status: 'pending' });
+    return 'new';
+  }
+  return entry.status === 'pending' ? 'pending' : entry.body;
+}
+
+/**
+ * Keep the answer of an accepted request for replay
+ */
+export function storeAnswer(key, body) {
+  answers.delete(key);
+  answers.set(key, { status: 'done', body });
+  
+  while (answers.size > ANSWER_LIMIT) {
+    answers.delete(answers.keys().next().value);
+  }
+}
+
+/**
+ * Release a key whose request failed, so a retry is processed again
+ */
+export function releaseKey(key) {
+  if (answers.get(key)?.status === 'pending') {
+    answers.delete(key);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Kitchen tickets for the kitchen display
+ * Each sent round becomes one ticket per preparation station; bumped tickets
+ * are kept for a while so they can be recalled. Every change is written to the
+ * order journal, so open tickets survive a restart.
+ */
+
+import { journalRecords } from './order-store.js';
+
+// Bumped tickets kept for recall, most recent first
+const RECALL_LIMIT = 20;
+
+// Structure: { [ticketId]: ticket }
+const tickets = new Map();
+let ticketCounter = 0;
+
+// Journal entries: { op: 'ticket', ticket }, the ticket as it is after the change
+const journal = journalRecords('ticket', {
+  apply({ ticket }) {
+    tickets.set(ticket.id, ticket);
+    ticketCounter = Math.max(ticketCounter, Number(ticket.id.slice(1)) || 0);
+    pruneBumped();
+  },
+  entries: () => Array.from(tickets.values()).map((ticket) => ({ ticket }))
+});
+
+function save(ticket) {
+  journal({ ticket });
+  return ticket;
+}
+
+/**
+ * Kitchen view of an order item - what to make, not what it costs
+ */
+function toKitchenItem(orderItem) {
+  return {
+    id: orderItem.id,
+    name: orderItem.menuItem?.name || orderItem.id,
+    icon: orderItem.menuItem?.icon,
+    variant: orderItem.variant?.name,
+    quantity: orderItem.quantity,
+    modifiers: (orderItem.modifiers || []).map(({ menuItemId, name, quantity, price, modType }) => ({
+      menuItemId,
+      name,
+      quantity,
+      price,
+      modType
+    })),
+    notes: orderItem.notes,
+    done: false
+  };
+}
+
+/**
+ * Create a station's ticket for a sent round
+ * @param items - { [itemId]: displayItem } as posted to /api/sendOrder
+ */
+export function createTicket({ orderNumber, tableNumber, round, station, items }) {
+  const kitchenItems = Object.values(items).map((displayItem) => toKitchenItem(displayItem.item));
+  const ticket = {
+    id: `T${++ticketCounter}`,
+    orderNumber,
+    tableNumber: tableNumber || null,
+    round: round || 1,
+    station,
+    sentAt: new Date().toISOString(),
+    status: 'open',
+    itemIds: kitchenItems.map((item) => item.id),
+    items: Object.fromEntries(kitchenItems.map((item) => [item.id, item]))
+  };
+  tickets.set(ticket.id, ticket);
+  return save(ticket);
+}
+
+/**
+ * Open tickets and the most recently bumped ones
+ * @param station - Only the tickets of this station, all if not given
+ */
+export function listTickets(station) {
+  const all = Array.from(tickets.values()).filter((ticket) => !station || ticket.station === station);
+  const open = all.filter((ticket) => ticket.status === 'open');
+  const bumped = all
+    .filter((ticket) => ticket.status === 'bumped')
+    .sort((a, b) => b.bumpedAt.localeCompare(a.bumpedAt))
+    .slice(0, RECALL_LIMIT);
+  return [...open, ...bumped];
+}
+
+function pruneBumped() {
+  const bumped = Array.from(tickets.values())
+    .filter((ticket) => ticket.status === 'bumped')
+    .sort((a, b) => b.bumpedAt.localeCompare(a.bumpedAt));
+  for (const ticket of bumped.slice(RECALL_LIMIT)) {
+    tickets.delete(ticket.id);
+  }
+}
+
+/**
+ * Take a ticket off the board
+ * @returns The ticket, or null if there is no such ticket
+ */
+export function bumpTicket(ticketId) {
+  const ticket = tickets.get(ticketId);
+  if (!ticket) return null;
+  ticket.status = 'bumped';
+  ticket.bumpedAt = new Date().toISOString();
+  pruneBumped();
+  return save(ticket);
+}
+
+/**
+ * Put a bumped ticket back on the board
+ * @returns The ticket, or null if there is no such ticket
+ */
+export function recallTicket(ticketId) {
+  const ticket = tickets.get(ticketId);
+  if (!ticket) return null;
+  ticket.status = 'open';
+  delete ticket.bumpedAt;
+  return save(ticket);
+}
+
+/**
+ * Mark a ticket's item as done or not done
+ * @returns The ticket, or null if there is no such ticket or item
+ */
+export function setItemDone(ticketId, itemId, done) {
+  const ticket = tickets.get(ticketId);
+  if (!ticket?.items[itemId]) return null;
+  ticket.items[itemId].done = done;
+  return save(ticket);
+}
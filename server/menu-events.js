@@ -0,0 +1,91 @@
+/**
+ * Menu changes pushed to open POS clients
+ * The menu directories are watched so edited or deployed menu files are loaded
+ * without a restart; every client with an open event stream is told the new
+ * menu version and fetches its menu again.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Editors and deploys write several files in a row, load them once
+const RELOAD_DELAY_MS = 250;
+
+// Proxies close streams that stay quiet for too long
+const KEEP_ALIVE_MS = 25000;
+
+// Open event streams
+const clients = new Set();
+
+/**
+ * Watch each language's menu directory and call onChange once writes settle
+ * Files being written (*.tmp) and backups are ignored
+ * @returns A function that stops watching
+ */
+export function watchMenuFiles(menuDir, languages, onChange, delay = RELOAD_DELAY_MS) {
+  let timer = null;
+  const watchers = [];
+
+  const changed = (_event, file) => {
+    if (file && (!String(file).endsWith('.json') || String(file).includes('.backup'))) return;
+    clearTimeout(timer);
+    timer = setTimeout(onChange, delay);
+  };
+
+  for (const lang of languages) {
+    const langDir = path.join(menuDir, lang);
+    if (!fs.existsSync(langDir)) continue;
+    try {
+      const watcher = fs.watch(langDir, changed);
+      watcher.on('error', (error) => console.error(`Stopped watching ${langDir}:`, error.message));
+      watchers.push(watcher);
+    } catch (error) {
+      console.error(`Failed to watch ${langDir}, menu changes need a restart:`, error.message);
+    }
+  }
+
+  return () => {
+    clearTimeout(timer);
+    watchers.forEach((watcher) => watcher.close());
+  };
+}
+
+function send(res, version) {
+  res.write(`event: menu-version\ndata: ${JSON.stringify({ version })}\n\n`);
+  // Compression buffers the response until it is flushed
+  res.flush?.();
+}
+
+/**
+ * Keep a request open as an event stream, starting with the current version
+ */
+export function openMenuEvents(req, res, version) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  send(res, version);
+  clients.add(res);
+
+  const keepAlive = setInterval(() => {
+    res.write(': keep-alive\n\n');
+    res.flush?.();
+  }, KEEP_ALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    clients.delete(res);
+  });
+}
+
+/**
+ * Tell every open event stream the new menu version
+ */
+export function publishMenuVersion(version) {
+  for (const res of clients) {
+    send(res, version);
+  }
+  return clients.size;
+}
@@ -0,0 +1,69 @@
+/**
+ * Menu files written by the menu editor
+ * A menu is saved in every language at once, together with its single-source
+ * file in menu-source/ when the menus are kept there, so the languages stay in
+ * step. The editor checks the references between menus before it saves; here
+ * only the shape of the files is checked.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+function isObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a menu saved from the editor
+ * @param body - { menus: { [lang]: menu }, source }
+ * @returns An error message, or null if the menu can be written
+ */
+export function validateMenuUpload(body, menuId, languages) {
+  const { menus, source } = body || {};
+  if (!isObject(menus)) {
+    return 'Menus must be an object keyed by language';
+  }
+  for (const lang of languages) {
+    const menu = menus[lang];
+    if (!isObject(menu)) {
+      return `Menu missing in '${lang}'`;
+    }
+    if (menu.id !== menuId) {
+      return `Menu ID '${menu.id}' in '${lang}' differs from '${menuId}'`;
+    }
+    if (typeof menu.name !== 'string' || typeof menu.currency !== 'string') {
+      return `Menu in '${lang}' needs a name and a currency`;
+    }
+    if (!isObject(menu.items) || !isObject(menu.itemGroups) || !Array.isArray(menu.layout)) {
+      return `Menu in '${lang}' needs items, itemGroups and a layout`;
+    }
+    const badItem = Object.entries(menu.items).find(([key, item]) => !isObject(item) || item.id !== key);
+    if (badItem) {
+      return `Item '${badItem[0]}' in '${lang}' must be an object with the same ID`;
+    }
+  }
+  if (source !== undefined && (!isObject(source) || source.id !== menuId)) {
+    return `Source menu ID must be '${menuId}'`;
+  }
+  return null;
+}
+
+// Same formatting as the menu files written by the menu-languages script
+function writeJSON(file, value) {
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(value, null, 2));
+  fs.renameSync(temporary, file);
+}
+
+/**
+ * Write a menu's language files, and its source file if menu-source/ exists
+ * Each file is replaced at once, so the server never reads half a file
+ */
+export function writeMenuFiles({ menuDir, sourceDir }, menuId, menus, source) {
+  for (const [lang, menu] of Object.entries(menus)) {
+    writeJSON(path.join(menuDir, lang, `${menuId}.json`), menu);
+  }
+  if (source && fs.existsSync(sourceDir)) {
+    writeJSON(path.join(sourceDir, `${menuId}.json`), source);
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * Order store
+ * Sent orders and their payments, kept in a JSON-lines journal so the order
+ * history survives a restart without a database. Every change appends one
+ * line; the journal is rewritten from memory once most of its lines are stale.
+ * Kitchen tickets and sold out items are kept in the same journal.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { computeTotals, currencyDecimals, discountAmount, NO_CHARGES } from './pricing.js';
+
+export const ORDER_STATUSES = ['open', 'paid', 'refunded'];
+
+// Tender methods, mirrored by the client's payment model
+export const PAYMENT_METHODS = ['cash', 'card'];
+
+// Sent items are voided (taken off the bill) or comped (kept but not charged),
+// always with a reason; mirrored by the client's adjustment model
+export const ADJUSTMENT_REASONS = {
+  void: ['wrong-item', 'changed-mind', 'kitchen-error', 'not-served'],
+  comp: ['quality', 'long-wait', 'guest-relations', 'staff-meal']
+};
+
+// Lines beyond one per order before the journal is compacted
+const COMPACT_SLACK = 1000;
+
+// Orders listed when no limit is given
+const DEFAULT_LIMIT = 100;
+
+// Structure: { [orderId]: order }
+const orders = new Map();
+
+// Every round has its own order number. Structure: { [orderNumber]: orderId }
+const orderIds = new Map();
+
+// Other state kept in the journal, by op. Structure: { [op]: { apply, entries } }
+const records = new Map();
+
+let journalPath = null;
+let journalLines = 0;
+
+function apply(entry) {
+  if (records.has(entry.op)) {
+    records.get(entry.op).apply(entry);
+  } else if (entry.op === 'put') {
+    orders.set(entry.order.id, entry.order);
+    for (const orderNumber of entry.order.orderNumbers) {
+      orderIds.set(orderNumber, entry.order.id);
+    }
+  } else if (entry.op === 'delete') {
+    const order = orders.get(entry.id);
+    if (!order) return;
+    order.orderNumbers.forEach((orderNumber) => orderIds.delete(orderNumber));
+    orders.delete(entry.id);
+  }
+}
+
+function liveEntries() {
+  const orderEntries = Array.from(orders.values()).map((order) => ({ op: 'put', order }));
+  const recordEntries = Array.from(records).flatMap(([op, record]) => record.entries().map((fields) => ({ op, ...fields })));
+  return [...orderEntries, ...recordEntries];
+}
+
+function compact() {
+  const temporary = `${journalPath}.tmp`;
+  const lines = liveEntries().map((entry) => JSON.stringify(entry) + '\n');
+  fs.writeFileSync(temporary, lines.join(''));
+  fs.renameSync(temporary, journalPath);
+  journalLines = lines.length;
+}
+
+function isStale() {
+  return journalLines > orders.size + COMPACT_SLACK && journalLines > liveEntries().length + COMPACT_SLACK;
+}
+
+function write(entry) {
+  if (!journalPath) return;
+
+  fs.appendFileSync(journalPath, JSON.stringify(entry) + '\n');
+  journalLines++;
+  if (isStale()) {
+    compact();
+  }
+}
+
+function append(entry) {
+  apply(entry);
+  write(entry);
+}
+
+/**
+ * Keep other server state in the journal, e.g. the kitchen tickets; call before
+ * the journal is opened
+ * @param op - Op of the state's journal entries
+ * @param handlers - apply(entry) restores an entry while the journal is loaded,
+ *   entries() lists the entries that rebuild the current state when it is compacted
+ * @returns A function that appends an entry of the op for a change already made in memory
+ */
+export function journalRecords(op, { apply: applyRecord, entries }) {
+  records.set(op, { apply: applyRecord, entries });
+  return (fields) => write({ op, ...fields });
+}
+
+/**
+ * Load the journal; without a call orders are only kept in memory
+ * A line cut short by a crash is skipped
+ * @returns The number of orders loaded
+ */
+export function openOrderStore(file) {
+  journalPath = file;
+  journalLines = 0;
+  orders.clear();
+  orderIds.clear();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  if (fs.existsSync(file)) {
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        apply(JSON.parse(line));
+        journalLines++;
+      } catch (err) {
+        console.error('Skipping damaged order journal line:', err.message);
+      }
+    }
+  }
+
+  if (isStale()) {
+    compact();
+  }
+  return orders.size;
+}
+
+/**
+ * Order by its ID or the number of any of its rounds
+ * @returns The order, or null if there is no such order
+ */
+export function findOrder(idOrNumber) {
+  if (!idOrNumber) return null;
+  return orders.get(idOrNumber) || orders.get(orderIds.get(idOrNumber)) || null;
+}
+
+/**
+ * Voided and comped amounts of an order's items
+ */
+function adjustmentTotals(items) {
+  const totals = { voidAmount: 0, compAmount: 0 };
+  for (const item of Object.values(items)) {
+    if (item.adjustment) {
+      totals[`${item.adjustment.kind}Amount`] += item.adjustment.amount;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Order without its items and rounds, for lists
+ */
+function summarize(order) {
+  const { items, itemIds, rounds, payments, ...summary } = order;
+  return { ...summary, itemCount: itemIds.length, roundCount: rounds.length, ...adjustmentTotals(items) };
+}
+
+/**
+ * Orders matching a filter, newest first
+ * from and to are ISO dates or date-times compared with the order's creation
+ * time (UTC), both inclusive, so to=2024-05-01 covers the whole day
+ */
+export function listOrders({ from, to, table, status, limit = DEFAULT_LIMIT } = {}) {
+  return Array.from(orders.values())
+    .filter((order) => !from || order.createdAt.slice(0, from.length) >= from)
+    .filter((order) => !to || order.createdAt.slice(0, to.length) <= to)
+    .filter((order) => !table || order.tableNumber === table)
+    .filter((order) => !status || order.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map(summarize);
+}
+
+/**
+ * Check the fields a client may set on an order
+ * @returns An error message, or null if the changes are valid
+ */
+export function validateOrderChanges(changes) {
+  if (changes.status !== undefined && !ORDER_STATUSES.includes(changes.status)) {
+    return `Status must be one of: ${ORDER_STATUSES.join(', ')}`;
+  }
+  if (changes.payments !== undefined) {
+    if (!Array.isArray(changes.payments)) {
+      return 'Payments must be a list';
+    }
+    const invalid = changes.payments.map(validatePayment).find(Boolean);
+    if (invalid) return invalid;
+  }
+  if (changes.tableNumber !== undefined && changes.tableNumber !== null && typeof changes.tableNumber !== 'string') {
+    return 'Table number must be a string';
+  }
+  if (changes.items !== undefined && (typeof changes.items !== 'object' || changes.items === null)) {
+    return 'Items must be an object keyed by item ID';
+  }
+  return null;
+}
+
+function isPositive(amount) {
+  return typeof amount === 'number' && Number.isFinite(amount) && amount > 0;
+}
+
+/**
+ * Check one payment record: { paymentId, amount, tenders: [{ method, amount }], ... }
+ * @returns An error message, or null if the payment is valid
+ */
+function validatePayment(payment) {
+  if (typeof payment !== 'object' || payment === null || typeof payment.paymentId !== 'string' || !payment.paymentId) {
+    return 'Each payment needs a paymentId';
+  }
+  if (!isPositive(payment.amount)) {
+    return `Payment '${payment.paymentId}' needs an amount above 0`;
+  }
+  const tenders = Array.isArray(payment.tenders) ? payment.tenders : [];
+  if (tenders.length === 0 || tenders.some((tender) => !PAYMENT_METHODS.includes(tender?.method) || !isPositive(tender.amount))) {
+    return `Payment '${payment.paymentId}' needs tender lines paid by ${PAYMENT_METHODS.join(' or ')}`;
+  }
+  return null;
+}
+
+/**
+ * Recorded payments with the new ones added; payments already recorded keep
+ * their first version, so a client cannot rewrite or drop them
+ */
+export function mergePayments(recorded = [], payments = []) {
+  const ids = new Set(recorded.map((payment) => payment.paymentId));
+  return [...recorded, ...payments.filter((payment) => !ids.has(payment.paymentId))];
+}
+
+/**
+ * Amount the guest pays for an order: its items after the order discount, with
+ * service charge and tax, the amount the payment page charges
+ * @param charges - { taxRate, taxMode, serviceFee } from /data/order.json
+ */
+export function amountDue(order, charges = NO_CHARGES) {
+  const decimals = currencyDecimals(order.currency);
+  const factor = Math.pow(10, decimals);
+  const net = Math.round(((order.total || 0) - (order.discountAmount || 0)) * factor) / factor;
+  return computeTotals(net, charges, decimals).total;
+}
+
+/**
+ * Whether the payments cover the amount due for the order
+ */
+export function paymentsCover(order, payments, charges = NO_CHARGES) {
+  const factor = Math.pow(10, currencyDecimals(order.currency));
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  return Math.round(paid * factor) >= Math.round(amountDue(order, charges) * factor);
+}
+
+// Timestamps kept for the status an order moves to
+const STATUS_TIMES = { paid: 'paidAt', refunded: 'refundedAt' };
+
+function withStatus(order, status, now) {
+  if (!status || status === order.status) return order;
+  const timeField = STATUS_TIMES[status];
+  return { ...order, status, ...(timeField ? { [timeField]: now } : {}) };
+}
+
+/**
+ * Store an order created outside of /api/sendOrder, e.g. imported from another till
+ * @param fields - { id?, tableNumber?, currency, status?, items: { [itemId]: orderItem }, payments? }
+ */
+export function createOrder(fields) {
+  const now = new Date().toISOString();
+  const id = fields.id || `ORD-${Date.now()}`;
+  const items = fields.items || {};
+  const order = withStatus({
+    id,
+    orderNumbers: [id],
+    tableNumber: fields.tableNumber || null,
+    sessionId: fields.sessionId || null,
+    status: 'open',
+    currency: fields.currency,
+    total: Object.values(items).reduce((sum, item) => sum + (item.total || 0), 0),
+    itemIds: Object.keys(items),
+    items,
+    rounds: [],
+    payments: fields.payments || [],
+    createdAt: now,
+    updatedAt: now
+  }, fields.status, now);
+  append({ op: 'put', order });
+  return order;
+}
+
+/**
+ * Record a round accepted by /api/sendOrder
+ * Rounds join the order of their previous round, or the table's open order;
+ * the first round of a table starts a new order named after its number
+ * @param staff - Name of the staff member who took the round
+ * @param items - { [itemId]: displayItem } as posted to /api/sendOrder
+ */
+export function recordRound({ orderNumber, previousNumber, tableNumber, sessionId, round, staff, order, items }) {
+  const now = new Date().toISOString();
+  const byNumber = findOrder(previousNumber);
+  const existing = byNumber?.status === 'open'
+    ? byNumber
+    : tableNumber
+      ? Array.from(orders.values()).find((o) => o.tableNumber === tableNumber && o.status === 'open')
+      : null;
+
+  const roundItems = Object.fromEntries(Object.values(items).map(({ item }) => [item.id, item]));
+  const base = existing || {
+    id: orderNumber,
+    orderNumbers: [],
+    tableNumber: tableNumber || null,
+    sessionId: null,
+    status: 'open',
+    currency: order.currency,
+    total: 0,
+    itemIds: [],
+    items: {},
+    rounds: [],
+    payments: [],
+    createdAt: now
+  };
+
+  const stored = {
+    ...base,
+    orderNumbers: [...base.orderNumbers, orderNumber],
+    sessionId: base.sessionId || sessionId || null,
+    total: base.total + (order.total || 0),
+    itemIds: [...base.itemIds, ...Object.keys(roundItems).filter((id) => !base.items[id])],
+    items: { ...base.items, ...roundItems },
+    rounds: [...base.rounds, { round, orderNumber, sentAt: now, ...(staff ? { staff } : {}), itemIds: Object.keys(roundItems), total: order.total || 0 }],
+    ...(order.discount ? { discount: order.discount, discountAmount: order.discountAmount || 0 } : {}),
+    updatedAt: now
+  };
+  append({ op: 'put', order: stored });
+  return stored;
+}
+
+/**
+ * Change an order's status or table and add payments
+ * @returns The order, or null if there is no such order
+ */
+export function updateOrder(idOrNumber, changes) {
+  const order = findOrder(idOrNumber);
+  if (!order) return null;
+
+  const now = new Date().toISOString();
+  const updated = withStatus({
+    ...order,
+    ...(changes.payments !== undefined ? { payments: mergePayments(order.payments, changes.payments) } : {}),
+    ...(changes.tableNumber !== undefined ? { tableNumber: changes.tableNumber || null } : {}),
+    updatedAt: now
+  }, changes.status, now);
+  append({ op: 'put', order: updated });
+  return updated;
+}
+
+/**
+ * Check a void or comp request
+ * @returns An error message, or null if the request is valid
+ */
+export function validateAdjustment({ kind, reason } = {}) {
+  if (!ADJUSTMENT_REASONS[kind]) {
+    return `Kind must be one of: ${Object.keys(ADJUSTMENT_REASONS).join(', ')}`;
+  }
+  if (!ADJUSTMENT_REASONS[kind].includes(reason)) {
+    return `Reason must be one of: ${ADJUSTMENT_REASONS[kind].join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Void or comp a sent item; the item stays on the order for the history, its
+ * total moves to the adjustment and comes off the order's total, so the order
+ * discount is taken off what is left
+ * @param adjustment - { kind, reason, staff, approvedBy }
+ * @returns The order, or null if there is no such order
+ */
+export function adjustItem(idOrNumber, itemId, adjustment) {
+  const order = findOrder(idOrNumber);
+  if (!order) return null;
+
+  const item = order.items[itemId];
+  const now = new Date().toISOString();
+  const amount = item.total || 0;
+  const decimals = currencyDecimals(order.currency);
+  const total = Math.round((order.total - amount) * Math.pow(10, decimals)) / Math.pow(10, decimals);
+  const updated = {
+    ...order,
+    total,
+    ...(order.discount ? { discountAmount: discountAmount(order.discount, total, decimals) } : {}),
+    items: { ...order.items, [itemId]: { ...item, total: 0, discountAmount: 0, adjustment: { ...adjustment, amount, at: now } } },
+    updatedAt: now
+  };
+  append({ op: 'put', order: updated });
+  return updated;
+}
+
+/**
+ * Remove an order from the history
+ * @returns Whether there was such an order
+ */
+export function deleteOrder(idOrNumber) {
+  const order = findOrder(idOrNumber);
+  if (!order) return false;
+  append({ op: 'delete', id: order.id });
+  return true;
+}
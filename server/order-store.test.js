@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { amountDue, mergePayments, paymentsCover, recordRound, updateOrder } from './order-store.js';
+
+function payment(paymentId, amount) {
+    return { paymentId, amount, tenders: [{ id: 't1', method: 'cash', amount }] };
+}
+
+describe('order-store', () => {
+    describe('paymentsCover', () => {
+        // Sent with a 10% order discount: 1.000 L of items, 900 L charged
+        const discounted = () => recordRound({
+            orderNumber: 'ORD-1',
+            tableNumber: '7',
+            round: 1,
+            order: { currency: 'ALL', total: 1000, discount: { kind: 'percent', value: 10, reason: 'loyalty' }, discountAmount: 100 },
+            items: { a: { item: { id: 'a', total: 1000 } } }
+        });
+
+        it('should take a discounted order as paid once the discounted amount is paid', () => {
+            const order = discounted();
+            expect(amountDue(order)).toBe(900);
+            expect(paymentsCover(order, [payment('p1', 900)])).toBe(true);
+            expect(paymentsCover(order, [payment('p1', 899)])).toBe(false);
+
+            const paid = updateOrder(order.id, { payments: [payment('p1', 900)], status: 'paid' });
+            expect(paid).toMatchObject({ status: 'paid', payments: [{ paymentId: 'p1', amount: 900 }] });
+        });
+
+        it('should add service charge and exclusive tax like the payment page', () => {
+            const order = discounted();
+            const charges = { taxRate: 0.2, taxMode: 'exclusive', serviceFee: 0.1 };
+            expect(amountDue(order, charges)).toBe(1188);
+            expect(paymentsCover(order, [payment('p1', 900)], charges)).toBe(false);
+            expect(paymentsCover(order, [payment('p1', 900), payment('p2', 288)], charges)).toBe(true);
+        });
+    });
+
+    describe('mergePayments', () => {
+        it('should keep recorded payments as they were', () => {
+            const merged = mergePayments([payment('p1', 500)], [payment('p1', 1), payment('p2', 300)]);
+            expect(merged.map((p) => [p.paymentId, p.amount])).toEqual([['p1', 500], ['p2', 300]]);
+        });
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Promotions and discounts for /api/sendOrder validation
+ * Mirrors src/model/discount-model.ts so the server accepts exactly the
+ * line totals the order page computes
+ */
+
+import fs from 'fs';
+
+export const DISCOUNT_REASONS = ['promotion', 'loyalty', 'staff', 'complaint', 'manager'];
+
+// Items added just before a happy hour ends may be sent a little later
+const PROMOTION_GRACE_MINUTES = 5;
+
+// Currency formats shared with the client, unknown currencies are formatted like USD
+const currencies = JSON.parse(fs.readFileSync(new URL('../currencies.json', import.meta.url), 'utf-8'));
+
+export function currencyDecimals(currency) {
+  return (currencies[currency] || currencies.USD).decimals;
+}
+
+function round(amount, decimals) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Amount a manual discount takes off a base amount, never more than the base
+ */
+export function discountAmount(discount, base, decimals) {
+  if (!discount || base <= 0 || discount.value <= 0) return 0;
+  const amount = discount.kind === 'percent' ? (base * Math.min(discount.value, 100)) / 100 : discount.value;
+  return round(Math.min(amount, base), decimals);
+}
+
+export const NO_CHARGES = { taxRate: 0, taxMode: 'inclusive', serviceFee: 0 };
+
+/**
+ * Service charge, tax and grand total of a subtotal, as computeTotals in
+ * src/model/order-model.ts; the service charge is taxed like the items
+ * @param charges - { taxRate, taxMode, serviceFee } from /data/order.json
+ */
+export function computeTotals(subtotal, charges, decimals) {
+  const service = round(subtotal * charges.serviceFee, decimals);
+  const taxable = subtotal + service;
+  if (charges.taxMode === 'inclusive') {
+    const tax = round(taxable - taxable / (1 + charges.taxRate), decimals);
+    return { subtotal, service, tax, total: round(taxable, decimals) };
+  }
+
+  const tax = round(taxable * charges.taxRate, decimals);
+  return { subtotal, service, tax, total: round(taxable + tax, decimals) };
+}
+
+function minutes(time) {
+  const [hours, mins] = time.split(':').map(Number);
+  return hours * 60 + (mins || 0);
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Day of the week and minutes since midnight, in a time zone if given
+function localTime(now, timeZone) {
+  if (!timeZone) {
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() };
+  }
+
+  const format = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23' });
+  const parts = Object.fromEntries(format.formatToParts(now).map((part) => [part.type, part.value]));
+  return { day: WEEKDAYS.indexOf(parts.weekday), minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+export function isScheduled(schedule, now) {
+  if (!schedule) return true;
+
+  const from = minutes(schedule.from);
+  const to = minutes(schedule.to);
+  const { day, minutes: current } = localTime(now, schedule.timeZone);
+
+  const spansMidnight = to <= from;
+  const inWindow = spansMidnight ? current >= from || current < to : current >= from && current < to;
+  if (!inWindow || !schedule.days) return inWindow;
+
+  return schedule.days.includes(spansMidnight && current < to ? (day + 6) % 7 : day);
+}
+
+/**
+ * Promotions of a language's menus with item groups resolved to item IDs
+ * Schedules get the restaurant's time zone, the server's clock may be UTC
+ * @param menus - { [menuId]: menuData } from the menu cache
+ * @param timeZone - IANA time zone from menu-config.json
+ */
+export function collectPromotions(menus, timeZone) {
+  const promotions = {};
+
+  for (const menu of Object.values(menus || {})) {
+    for (const promotion of Object.values(menu.promotions || {})) {
+      const groupItemIds = promotion.itemGroupId ? (menu.itemGroups?.[promotion.itemGroupId]?.itemIds || []) : [];
+      const existing = promotions[promotion.id];
+      promotions[promotion.id] = {
+        ...promotion,
+        itemIds: [...new Set([...(existing?.itemIds || []), ...(promotion.itemIds || []), ...groupItemIds])],
+        ...(promotion.schedule && timeZone ? { schedule: { ...promotion.schedule, timeZone } } : {}),
+      };
+    }
+  }
+
+  return Object.values(promotions);
+}
+
+/**
+ * Check a manual discount's shape
+ * @returns An error message, or null if the discount is valid
+ */
+export function validateDiscount(discount, label) {
+  if (!discount) return null;
+  if (discount.kind !== 'percent' && discount.kind !== 'fixed') {
+    return `Invalid discount type for ${label}`;
+  }
+  if (typeof discount.value !== 'number' || discount.value < 0 || (discount.kind === 'percent' && discount.value > 100)) {
+    return `Invalid discount value for ${label}`;
+  }
+  if (!DISCOUNT_REASONS.includes(discount.reason)) {
+    return `Missing or unknown discount reason for ${label}`;
+  }
+  return null;
+}
+
+/**
+ * Units of an order line an nth-item promotion discounts, counting on from the
+ * promoted units before it: voided and comped lines still count, as on the till
+ * @param precedingItems - Items already in the order, then the round's earlier lines
+ */
+export function nthItemUnits(promotion, orderItem, precedingItems) {
+  const counted = precedingItems
+    .filter((item) => promotion.itemIds.includes(item.menuItem?.id))
+    .reduce((sum, item) => sum + item.quantity, 0);
+  return Math.floor((counted + orderItem.quantity) / promotion.rule.nth) - Math.floor(counted / promotion.rule.nth);
+}
+
+/**
+ * Check an order line's promotion and discount against its total
+ * @param precedingItems - Items already in the order, then the round's earlier lines, for nth-item promotions
+ * @returns Error messages, empty if the line is priced correctly
+ */
+export function validateLinePricing(orderItem, promotions, currency, now = new Date(), precedingItems = []) {
+  const errors = [];
+  const name = orderItem.menuItem?.name || orderItem.id;
+  const decimals = currencyDecimals(currency);
+  const gross = round(orderItem.quantity * orderItem.unitPrice, decimals);
+
+  let promotionAmount = 0;
+  const applied = orderItem.promotion;
+  if (applied) {
+    const promotion = promotions.find((p) => p.id === applied.promotionId);
+    const earlier = new Date(now.getTime() - PROMOTION_GRACE_MINUTES * 60 * 1000);
+
+    if (!promotion || !promotion.itemIds.includes(orderItem.menuItem?.id)) {
+      errors.push(`Promotion '${applied.promotionId}' does not apply to '${name}'`);
+    } else if (!isScheduled(promotion.schedule, now) && !isScheduled(promotion.schedule, earlier)) {
+      errors.push(`Promotion '${promotion.name}' is not active`);
+    } else {
+      const units = promotion.rule.type === 'percent'
+        ? orderItem.quantity
+        : nthItemUnits(promotion, orderItem, precedingItems);
+      const expected = round((units * orderItem.unitPrice * promotion.rule.percent) / 100, decimals);
+
+      if (applied.units !== units || Math.abs(expected - applied.amount) > 0.01) {
+        errors.push(`Promotion amount mismatch for '${name}': expected ${expected}, got ${applied.amount}`);
+      }
+      promotionAmount = Math.min(applied.amount, gross);
+    }
+  }
+
+  const discountError = validateDiscount(orderItem.discount, `'${name}'`);
+  if (discountError) {
+    errors.push(discountError);
+  }
+
+  const manual = discountAmount(orderItem.discount, gross - promotionAmount, decimals);
+  const expectedTotal = round(gross - promotionAmount - manual, decimals);
+  if (Math.abs(expectedTotal - orderItem.total) > 0.01) {
+    errors.push(`Line total mismatch for '${name}': expected ${expectedTotal}, got ${orderItem.total}`);
+  }
+
+  return errors;
+}
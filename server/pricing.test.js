@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { validateLinePricing } from './pricing.js';
+
+// Every 2nd coffee half price
+const promotions = [{ id: 'coffee-2nd', name: '2nd coffee half price', itemIds: ['coffee'], rule: { type: 'nth-item', nth: 2, percent: 50 } }];
+
+function coffee(quantity, units) {
+    const amount = units * 1;
+    return {
+        id: `line-${quantity}-${units}`,
+        menuItem: { id: 'coffee', name: 'Coffee' },
+        quantity,
+        unitPrice: 2,
+        ...(units > 0 ? { promotion: { promotionId: 'coffee-2nd', units, amount } } : {}),
+        total: quantity * 2 - amount
+    };
+}
+
+describe('pricing', () => {
+    describe('validateLinePricing', () => {
+        it('should count nth-item units on from the coffees already in the order', () => {
+            expect(validateLinePricing(coffee(1, 1), promotions, 'EUR', new Date(), [coffee(1, 0)])).toEqual([]);
+            expect(validateLinePricing(coffee(3, 2), promotions, 'EUR', new Date(), [coffee(1, 0)])).toEqual([]);
+            expect(validateLinePricing(coffee(3, 1), promotions, 'EUR', new Date())).toEqual([]);
+        });
+
+        it('should reject more discounted units than the promotion gives', () => {
+            expect(validateLinePricing(coffee(1, 1), promotions, 'EUR', new Date())).toEqual([
+                "Promotion amount mismatch for 'Coffee': expected 0, got 1"
+            ]);
+            expect(validateLinePricing(coffee(2, 2), promotions, 'EUR', new Date(), [coffee(1, 0)])).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,273 @@
+/**
+ * Staff login and role-based permissions
+ * Staff sign in with a PIN and get a session token for the /api routes;
+ * a session ends after a period without requests. Sensitive actions need a
+ * permission of the staff member's role.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+export const ROLES = ['cashier', 'manager', 'admin'];
+
+// Sensitive actions: voids and refunds, manual discounts, prices other than
+// the menu's, reopening paid or refunded orders, marking items sold out and
+// editing the menus
+export const PERMISSIONS = ['void', 'discount', 'price-override', 'reopen', 'availability', 'menu-edit'];
+
+export const ROLE_PERMISSIONS = {
+  cashier: [],
+  manager: ['void', 'discount', 'price-override', 'reopen', 'availability'],
+  admin: ['void', 'discount', 'price-override', 'reopen', 'availability', 'menu-edit']
+};
+
+const DEFAULT_TIMEOUT_MINUTES = 15;
+
+// Wrong approval PINs against one account before it is locked;
+// every lockout in a row lasts twice as long as the one before, up to MAX_LOCKOUT_MS
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 30 * 60 * 1000;
+
+// Wrong PINs from one client before its attempts are slowed down rather than
+// refused, so a correct PIN still gets through; every further wrong PIN doubles
+// the delay up to MAX_THROTTLE_MS, and THROTTLE_RESET_MS without one forgets them
+const FREE_ATTEMPTS = 5;
+const THROTTLE_MS = 1000;
+const MAX_THROTTLE_MS = 30 * 1000;
+const THROTTLE_RESET_MS = 15 * 60 * 1000;
+
+// Structure: [{ id, name, role, pin } | { id, name, role, pinHash }]
+let roster = [];
+
+// Structure: { [token]: { token, staff, expiresAt } }
+const sessions = new Map();
+
+// Structure: { [accountKey]: { count, lockouts, lockedUntil } }
+const failures = new Map();
+
+// Structure: { [clientKey]: { count, lastFailure, nextAttempt } }
+const clients = new Map();
+
+let timeoutMs = DEFAULT_TIMEOUT_MINUTES * 60 * 1000;
+
+/**
+ * Hash a PIN for the staff file's pinHash field
+ * @returns 'salt:hash', both hex
+ */
+export function hashPin(pin, salt = crypto.randomBytes(16).toString('hex')) {
+  return `${salt}:${crypto.scryptSync(String(pin), salt, 32).toString('hex')}`;
+}
+
+function pinMatches(pin, member) {
+  if (member.pinHash) {
+    const [salt, hash] = member.pinHash.split(':');
+    const expected = Buffer.from(hash || '', 'hex');
+    const actual = crypto.scryptSync(pin, salt || '', 32);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+  const expected = Buffer.from(String(member.pin ?? ''));
+  const actual = Buffer.from(pin);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check a PIN entered on the login pad
+ * @returns An error message, or null when the PIN is well-formed
+ */
+export function validatePin(pin) {
+  if (typeof pin !== 'string' || !/^\d{4,8}$/.test(pin)) {
+    return 'PIN must be 4 to 8 digits';
+  }
+  return null;
+}
+
+/**
+ * Load the staff list and session timeout
+ * @param file - JSON file: { staff: [{ id, name, role, pin | pinHash }] }
+ * @param options - { timeoutMinutes }
+ * @returns Number of staff members
+ */
+export function loadStaff(file, { timeoutMinutes = DEFAULT_TIMEOUT_MINUTES } = {}) {
+  const { staff = [] } = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+  for (const member of staff) {
+    if (!member.id || !member.name) {
+      throw new Error('Every staff member needs an id and a name');
+    }
+    if (!ROLES.includes(member.role)) {
+      throw new Error(`Unknown role '${member.role}' for ${member.id}, must be one of: ${ROLES.join(', ')}`);
+    }
+    if (!member.pinHash && validatePin(String(member.pin ?? ''))) {
+      throw new Error(`Staff member ${member.id} needs a pinHash or a PIN of 4 to 8 digits`);
+    }
+  }
+
+  const pins = staff.filter((member) => !member.pinHash).map((member) => String(member.pin));
+  if (new Set(pins).size !== pins.length) {
+    throw new Error('Staff PINs must be unique');
+  }
+
+  roster = staff;
+  timeoutMs = timeoutMinutes * 60 * 1000;
+  sessions.clear();
+  return staff.length;
+}
+
+function staffOf(member) {
+  return { id: member.id, name: member.name, role: member.role, permissions: ROLE_PERMISSIONS[member.role] };
+}
+
+/**
+ * Session as sent to the client
+ */
+export function publicSession(session) {
+  return {
+    token: session.token,
+    staff: session.staff,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    timeoutMinutes: timeoutMs / 60000
+  };
+}
+
+/**
+ * Failure key of a staff account, e.g. the signed-in cashier asking for approval
+ */
+export function accountKey(staffId) {
+  return `staff:${staffId}`;
+}
+
+/**
+ * How long an account is still locked after too many wrong approval PINs
+ * @returns Milliseconds, 0 when a PIN may be tried
+ */
+export function lockedFor(account, now = Date.now()) {
+  return Math.max(0, (failures.get(account)?.lockedUntil ?? 0) - now);
+}
+
+/**
+ * Reserve the client's next PIN attempt; after too many wrong PINs attempts
+ * are spaced out, so parallel requests cannot try more PINs in the same time
+ * @param clientKey - Identifies the client, e.g. its IP
+ * @returns Milliseconds to wait before checking the PIN, 0 to check it now
+ */
+export function throttleFor(clientKey, now = Date.now()) {
+  const entry = clients.get(clientKey);
+  if (!entry) return 0;
+  if (now - entry.lastFailure >= THROTTLE_RESET_MS) {
+    clients.delete(clientKey);
+    return 0;
+  }
+  if (entry.count < FREE_ATTEMPTS) return 0;
+
+  const delay = Math.min(THROTTLE_MS * Math.pow(2, entry.count - FREE_ATTEMPTS), MAX_THROTTLE_MS);
+  const attemptAt = Math.max(now, entry.nextAttempt);
+  entry.nextAttempt = attemptAt + delay;
+  return attemptAt + delay - now;
+}
+
+function recordFailure(clientKey, account, now) {
+  const client = clients.get(clientKey) || { count: 0, lastFailure: 0, nextAttempt: 0 };
+  client.count++;
+  client.lastFailure = now;
+  clients.set(clientKey, client);
+
+  if (!account) return;
+  const entry = failures.get(account) || { count: 0, lockouts: 0, lockedUntil: 0 };
+  entry.count++;
+  if (entry.count >= MAX_FAILURES) {
+    entry.count = 0;
+    entry.lockedUntil = now + Math.min(LOCKOUT_MS * Math.pow(2, entry.lockouts), MAX_LOCKOUT_MS);
+    entry.lockouts++;
+  }
+  failures.set(account, entry);
+}
+
+function clearFailures(clientKey, account) {
+  clients.delete(clientKey);
+  if (account) failures.delete(account);
+}
+
+/**
+ * Start a session for the staff member with this PIN
+ * Signing in again, e.g. to switch staff, leaves other sessions alone
+ * @param clientKey - Identifies the client for slowing down wrong PINs, e.g. its IP
+ * @returns The new session, or null when no one has this PIN
+ */
+export function login(pin, clientKey, now = Date.now()) {
+  const member = roster.find((candidate) => pinMatches(pin, candidate));
+  if (!member) {
+    recordFailure(clientKey, null, now);
+    return null;
+  }
+
+  clearFailures(clientKey, null);
+  const session = { token: crypto.randomBytes(24).toString('base64url'), staff: staffOf(member), expiresAt: now + timeoutMs };
+  sessions.set(session.token, session);
+  return session;
+}
+
+/**
+ * Check the PIN of a staff member approving an action they may take, e.g. a
+ * manager approving a cashier's void; wrong PINs slow down the client and
+ * count towards the lockout of the account asking for approval
+ * @param clientKey - Identifies the client, e.g. its IP
+ * @param account - Account asking for approval, e.g. accountKey(session.staff.id)
+ * @returns The approving staff member, or null when no one with the permission has this PIN
+ */
+export function approve(pin, permission, clientKey, account, now = Date.now()) {
+  const member = roster.find((candidate) => pinMatches(pin, candidate));
+  if (!member || !ROLE_PERMISSIONS[member.role].includes(permission)) {
+    recordFailure(clientKey, account, now);
+    return null;
+  }
+
+  clearFailures(clientKey, account);
+  return staffOf(member);
+}
+
+/**
+ * Find a live session by token and extend it
+ * @returns The session, or null when the token is unknown or the session timed out
+ */
+export function findSession(token, now = Date.now()) {
+  const session = token ? sessions.get(token) : null;
+  if (!session) return null;
+
+  if (session.expiresAt <= now) {
+    sessions.delete(token);
+    return null;
+  }
+  session.expiresAt = now + timeoutMs;
+  return session;
+}
+
+export function logout(token) {
+  return sessions.delete(token);
+}
+
+export function hasPermission(session, permission) {
+  return session?.staff.permissions.includes(permission) ?? false;
+}
+
+/**
+ * Session a round is checked and recorded under: the staff member who took it,
+ * e.g. offline before someone else signed in on the till, with no permission
+ * the sending session lacks
+ * @param staffId - Staff member who took the round, the sending session's when missing or unknown
+ */
+export function sessionFor(session, staffId) {
+  const member = staffId && staffId !== session.staff.id ? roster.find((candidate) => candidate.id === staffId) : null;
+  if (!member) return session;
+
+  const staff = staffOf(member);
+  return { ...session, staff: { ...staff, permissions: staff.permissions.filter((permission) => hasPermission(session, permission)) } };
+}
+
+/**
+ * Bearer token of a request's Authorization header
+ */
+export function bearerToken(req) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+  return match ? match[1] : null;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { accountKey, approve, loadStaff, lockedFor, login, sessionFor, throttleFor } from './staff.js';
+
+describe('staff', () => {
+    beforeAll(() => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'staff-')), 'staff.json');
+        fs.writeFileSync(file, JSON.stringify({ staff: [
+            { id: 'cashier', name: 'Cashier', role: 'cashier', pin: '1111' },
+            { id: 'manager', name: 'Manager', role: 'manager', pin: '2222' }
+        ] }));
+        loadStaff(file);
+    });
+
+    describe('login', () => {
+        it('should slow down a client after wrong PINs but still let a correct PIN in', () => {
+            const now = 1000000;
+            for (let i = 0; i < 5; i++) {
+                expect(throttleFor('10.0.0.1', now)).toBe(0);
+                expect(login('0000', '10.0.0.1', now)).toBeNull();
+            }
+
+            expect(throttleFor('10.0.0.1', now)).toBe(1000);
+            // Parallel attempts queue up behind each other
+            expect(throttleFor('10.0.0.1', now)).toBe(2000);
+            expect(throttleFor('10.0.0.2', now)).toBe(0);
+
+            expect(login('1111', '10.0.0.1', now)?.staff.id).toBe('cashier');
+            expect(throttleFor('10.0.0.1', now)).toBe(0);
+        });
+    });
+
+    describe('approve', () => {
+        it('should lock only the account asking for approval', () => {
+            const now = 2000000;
+            const account = accountKey('cashier');
+            for (let i = 0; i < 5; i++) {
+                expect(approve('0000', 'void', '10.0.0.3', account, now)).toBeNull();
+            }
+
+            expect(lockedFor(account, now)).toBe(60 * 1000);
+            expect(lockedFor(accountKey('manager'), now)).toBe(0);
+            expect(login('1111', '10.0.0.4', now)?.staff.id).toBe('cashier');
+        });
+    });
+
+    describe('sessionFor', () => {
+        it('should take a round for its staff member without permissions the sending session lacks', () => {
+            const cashier = login('1111', '10.0.0.5');
+            const manager = login('2222', '10.0.0.5');
+
+            expect(sessionFor(manager, 'cashier').staff).toMatchObject({ id: 'cashier', permissions: [] });
+            expect(sessionFor(cashier, 'manager').staff).toMatchObject({ id: 'manager', permissions: [] });
+            expect(sessionFor(cashier, 'nobody')).toBe(cashier);
+            expect(sessionFor(cashier, undefined)).toBe(cashier);
+        });
+    });
+});
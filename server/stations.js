@@ -0,0 +1,75 @@
+/**
+ * Preparation stations for kitchen routing
+ * An item's station is its own, else its item group's, else the station of the
+ * item that navigates to its menu (e.g. the "Crepes" category), else the default
+ */
+
+export const DEFAULT_STATION = 'kitchen';
+
+/**
+ * Station of every item of a language's menus
+ * @param menus - { [menuId]: menuData } from the menu cache
+ * @returns { [itemId]: station }
+ */
+export function buildStationIndex(menus) {
+  const parents = {}; // { [menuId]: [{ menuId, item }] } items navigating to a menu
+  for (const [menuId, menu] of Object.entries(menus || {})) {
+    for (const item of Object.values(menu.items || {})) {
+      const target = item.subMenu?.menuId;
+      if (target) {
+        (parents[target] = parents[target] || []).push({ menuId, item });
+      }
+    }
+  }
+
+  const menuStations = {};
+  function menuStation(menuId, visiting = new Set()) {
+    if (menuId in menuStations) return menuStations[menuId];
+    if (visiting.has(menuId)) return undefined;
+    visiting.add(menuId);
+
+    let station;
+    for (const parent of parents[menuId] || []) {
+      station = ownStation(parent.menuId, parent.item) ?? menuStation(parent.menuId, visiting);
+      if (station) break;
+    }
+    menuStations[menuId] = station;
+    return station;
+  }
+
+  function ownStation(menuId, item) {
+    if (item.station) return item.station;
+    const groups = Object.values(menus[menuId]?.itemGroups || {});
+    return groups.find((group) => group.station && group.itemIds?.includes(item.id))?.station;
+  }
+
+  const index = {};
+  for (const [menuId, menu] of Object.entries(menus || {})) {
+    for (const item of Object.values(menu.items || {})) {
+      index[item.id] = ownStation(menuId, item) ?? menuStation(menuId) ?? DEFAULT_STATION;
+    }
+  }
+  return index;
+}
+
+/**
+ * Stations used by a language's menus, the default first
+ */
+export function listStations(stationIndex) {
+  const stations = new Set([DEFAULT_STATION, ...Object.values(stationIndex || {})]);
+  return Array.from(stations);
+}
+
+/**
+ * Split sent items by station
+ * @param items - { [itemId]: displayItem } as posted to /api/sendOrder
+ * @returns { [station]: { [itemId]: displayItem } }
+ */
+export function splitByStation(items, stationIndex) {
+  const byStation = {};
+  for (const [id, displayItem] of Object.entries(items)) {
+    const station = stationIndex?.[displayItem.item.menuItem?.id] || DEFAULT_STATION;
+    (byStation[station] = byStation[station] || {})[id] = displayItem;
+  }
+  return byStation;
+}
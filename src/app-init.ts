@@ -7,7 +7,14 @@ import { initializeGlobalClickHandler } from "@/lib/events";
 import { initTheme } from "@/lib/theme";
 import { getPageRenderer } from "@/pages/page-renderer";
 import { listen, AppEvents, type NavigateEvent } from "@/lib/dom-events";
-import { navigate } from "@/pages/page-router";
+import { isLoginPage, navigate } from "@/pages/page-router";
+import { startOrderQueue } from "@/services/order-queue";
+import { openIndexedDB } from "@/lib/storage";
+import { migrateOrderStorage } from "@/model/order-model";
+import { migrateBillStorage } from "@/model/bill-model";
+import { migratePaymentStorage } from "@/model/payment-model";
+import { clearStaffSession, getStaffSession, needsRefresh, touchSession } from "@/model/staff-model";
+import { refreshSession } from "@/services/staff-service";
 import "./styles/theme.css";
 import "./styles/global.css";
 
@@ -20,6 +27,12 @@ export function initializeApp(): void {
   
   // Initialize global click handler
   initializeGlobalClickHandler();
+
+  // Send rounds that were queued while offline
+  openStorage().then(startOrderQueue).catch(console.error);
+
+  // Lock the till when the staff session ends
+  startSessionTimer();
   
   // Set up navigation event listener at document body
   listen<NavigateEvent>(document.body, AppEvents.NAVIGATE, (data) => {
@@ -51,6 +64,12 @@ export function initializeApp(): void {
         }
         navigate.toOrder();
         break;
+      case "bill":
+        navigate.toBill();
+        break;
+      case "payment":
+        navigate.toPayment(data.check);
+        break;
       case "tables":
         navigate.toTables();
         break;
@@ -61,6 +80,63 @@ export function initializeApp(): void {
   });
 }
 
+// How often the session timeout is checked
+const SESSION_CHECK_MS = 15000;
+
+/**
+ * Keep the staff session alive while the till is used and go to the login
+ * once it times out here or on the server
+ */
+function startSessionTimer(): void {
+  const lock = () => {
+    if (isLoginPage()) return;
+    clearStaffSession();
+    navigate.toLogin(window.location.pathname + window.location.search, { replace: true });
+  };
+
+  listen(document.body, AppEvents.SESSION_ENDED, lock);
+  document.addEventListener("pointerdown", () => touchSession(), { passive: true });
+  document.addEventListener("keydown", () => touchSession());
+
+  setInterval(() => {
+    const session = getStaffSession();
+    if (!session) {
+      lock();
+    } else if (needsRefresh(session)) {
+      refreshSession().catch(console.error);
+    }
+  }, SESSION_CHECK_MS);
+}
+
+let storageReady: Promise<void> | undefined;
+
+/**
+ * Open the durable order storage and move orders over from sessionStorage
+ * Pages read the order while hydrating, so entry points await this first
+ */
+export function openStorage(): Promise<void> {
+  storageReady ??= openIndexedDB().then(() => {
+    migrateOrderStorage();
+    migrateBillStorage();
+    migratePaymentStorage();
+  });
+  return storageReady;
+}
+
+/**
+ * Register the service worker that caches the pages and menu data for offline use
+ * Only the static build has the precache list it installs from
+ */
+export function registerServiceWorker(): void {
+  if (!("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
 /**
  * Get the app root element with validation
  */
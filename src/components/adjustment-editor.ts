@@ -0,0 +1,161 @@
+/**
+ * Adjustment Editor Component
+ * Inline form to void or comp a sent order line with a reason code; staff who
+ * may not void enter a manager's PIN to approve it
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./adjustment-editor.css";
+import { html, Template, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, hasPermission } from "@/lib/context";
+import {
+  AdjustmentDraft,
+  AdjustmentKind,
+  AdjustmentReason,
+  isReason,
+  ItemAdjustment,
+  reasonsFor,
+} from "@/model/adjustment-model";
+import { PIN_MAX_LENGTH } from "@/model/staff-model";
+
+// Event types - data-item-id is the order item's ID
+export const APPLY_ADJUSTMENT_EVENT = "apply-adjustment-event";
+export const CANCEL_ADJUSTMENT_EVENT = "cancel-adjustment-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  reason: createTranslation({ sq: "Arsyeja", en: "Reason", it: "Motivo" }),
+  chooseReason: createTranslation({ sq: "Zgjidhni arsyen", en: "Choose a reason", it: "Scegli un motivo" }),
+  managerPin: createTranslation({ sq: "PIN i menaxherit", en: "Manager PIN", it: "PIN del responsabile" }),
+  cancel: createTranslation({ sq: "Anulo", en: "Cancel", it: "Annulla" }),
+  approving: createTranslation({ sq: "Duke miratuar...", en: "Approving...", it: "Approvazione..." }),
+};
+
+/**
+ * Why a void or comp was not sent to the server
+ */
+export const messages = {
+  reasonRequired: createTranslation({ sq: "Zgjidhni një arsye", en: "Choose a reason", it: "Scegli un motivo" }),
+  pinRequired: createTranslation({
+    sq: "Një menaxher duhet të miratojë me PIN-in e tij",
+    en: "A manager has to approve with their PIN",
+    it: "Un responsabile deve approvare con il suo PIN",
+  }),
+  notSynced: createTranslation({
+    sq: "Porosia nuk ka arritur ende në server",
+    en: "The order has not reached the server yet",
+    it: "L'ordine non ha ancora raggiunto il server",
+  }),
+};
+
+const kindLabels: Record<AdjustmentKind, ReturnType<typeof createTranslation>> = {
+  void: createTranslation({ sq: "Anulo artikullin", en: "Void", it: "Storna" }),
+  comp: createTranslation({ sq: "Falas", en: "Comp", it: "Omaggio" }),
+};
+
+const reasonLabels: Record<AdjustmentReason, ReturnType<typeof createTranslation>> = {
+  "wrong-item": createTranslation({ sq: "Artikull i gabuar", en: "Wrong item", it: "Articolo sbagliato" }),
+  "changed-mind": createTranslation({ sq: "Klienti ndryshoi mendje", en: "Guest changed mind", it: "Il cliente ha cambiato idea" }),
+  "kitchen-error": createTranslation({ sq: "Gabim i kuzhinës", en: "Kitchen error", it: "Errore della cucina" }),
+  "not-served": createTranslation({ sq: "Nuk u servir", en: "Not served", it: "Non servito" }),
+  quality: createTranslation({ sq: "Cilësia", en: "Quality", it: "Qualità" }),
+  "long-wait": createTranslation({ sq: "Pritje e gjatë", en: "Long wait", it: "Attesa lunga" }),
+  "guest-relations": createTranslation({ sq: "Marrëdhënie me klientin", en: "Guest relations", it: "Cortesia al cliente" }),
+  "staff-meal": createTranslation({ sq: "Vakt stafi", en: "Staff meal", it: "Pasto del personale" }),
+};
+
+/**
+ * Short label for a recorded void or comp, e.g. "Comp · Long wait"
+ */
+export function adjustmentLabel(adjustment: ItemAdjustment, context: Context): string {
+  return `${kindLabels[adjustment.kind](context)} · ${reasonLabels[adjustment.reason](context)}`;
+}
+
+/**
+ * Adjustment editor template
+ */
+export function template(itemId: string, draft: AdjustmentDraft, context: Context): Template {
+  const approving = draft.status === "approving";
+
+  return html`
+    <div class="${classes.editor}" data-adjustment-item="${itemId}" data-kind="${draft.kind}">
+      <div class="${classes.fields}">
+        <label class="${classes.field}">
+          <span class="${classes.label}">${translations.reason(context)}</span>
+          <select class="${classes.reason}" required>
+            <option value="" disabled ${draft.reason ? "" : attributes("selected")}>${translations.chooseReason(context)}</option>
+            ${reasonsFor(draft.kind).map(
+              (r) => html`<option value="${r}" ${r === draft.reason ? attributes("selected") : ""}>${reasonLabels[r](context)}</option>`,
+            )}
+          </select>
+        </label>
+        ${hasPermission(context, "void")
+          ? ""
+          : html`<label class="${classes.field}">
+              <span class="${classes.label}">${translations.managerPin(context)}</span>
+              <input
+                class="${classes.pin}"
+                type="password"
+                inputmode="numeric"
+                autocomplete="off"
+                maxlength="${PIN_MAX_LENGTH}"
+              />
+            </label>`}
+      </div>
+      ${draft.error ? html`<div class="${classes.error}" role="alert">${draft.error}</div>` : ""}
+      <div class="${classes.actions}">
+        <button class="${classes.button}" data-item-id="${itemId}" ${onClick(CANCEL_ADJUSTMENT_EVENT)}>
+          ${translations.cancel(context)}
+        </button>
+        <button
+          class="${classes.button} ${classes.buttonDestructive}"
+          data-item-id="${itemId}"
+          ${onClick(APPLY_ADJUSTMENT_EVENT)}
+          ${approving ? attributes("disabled") : ""}
+        >
+          ${approving ? translations.approving(context) : kindLabels[draft.kind](context)}
+        </button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Read the reason and manager PIN entered in an item's editor
+ * The reason is undefined until one was chosen
+ */
+export function readAdjustment(
+  itemId: string,
+  kind: AdjustmentKind,
+): { reason?: AdjustmentReason; managerPin?: string } {
+  const editor = document.querySelector(`[data-adjustment-item="${itemId}"]`);
+  const reason = (editor?.querySelector(`.${classes.reason}`) as HTMLSelectElement | null)?.value;
+  const managerPin = (editor?.querySelector(`.${classes.pin}`) as HTMLInputElement | null)?.value.trim();
+  return {
+    ...(isReason(kind, reason) ? { reason } : {}),
+    ...(managerPin ? { managerPin } : {}),
+  };
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  editor: "adjustment-editor",
+  fields: "adjustment-editor-fields",
+  field: "adjustment-editor-field",
+  label: "adjustment-editor-label",
+  reason: "adjustment-editor-reason",
+  pin: "adjustment-editor-pin",
+  error: "adjustment-editor-error",
+  actions: "adjustment-editor-actions",
+  button: "adjustment-editor-button",
+  buttonDestructive: "adjustment-editor-button-destructive",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -16,14 +16,17 @@ export const VIEW_ORDER_EVENT = "view-order-event";
 export const ADD_TO_ORDER_EVENT = "add-to-order-event";
 export const SEND_ORDER_EVENT = "send-order-event";
 export const SAVE_CHANGES_EVENT = "save-changes-event";
+export const VIEW_BILL_EVENT = "view-bill-event";
+export const COMPLETE_PAYMENT_EVENT = "complete-payment-event";
 
 // Type definitions
-export type BottomBarMode = 'add-to-order' | 'modify-order' | 'quick-order' | 'view-order' | 'send-order';
+export type BottomBarMode = 'add-to-order' | 'modify-order' | 'quick-order' | 'view-order' | 'send-order' | 'view-bill' | 'complete-payment';
 
 export type BottomBarData = {
   mode: BottomBarMode;
   quantity: number;
   price: number;
+  disabled: boolean;
 };
 
 type BottomBarConfig = {
@@ -59,6 +62,20 @@ function getConfig(mode: BottomBarMode, context: Context): BottomBarConfig {
         actionLabel: t('sendOrder'),
         actionEvent: SEND_ORDER_EVENT,
       };
+    case 'view-bill':
+      return {
+        quantityLabel: t('items'),
+        priceLabel: t('total'),
+        actionLabel: t('viewBill'),
+        actionEvent: VIEW_BILL_EVENT,
+      };
+    case 'complete-payment':
+      return {
+        quantityLabel: t('payments'),
+        priceLabel: t('change'),
+        actionLabel: t('completePayment'),
+        actionEvent: COMPLETE_PAYMENT_EVENT,
+      };
     case 'quick-order':
       return {
         quantityLabel: t('selected'),
@@ -145,6 +162,14 @@ export function update(
       priceElement.textContent = formatPrice(changes.price);
     }
   }
+
+  // Enable or disable the primary action
+  if ('disabled' in changes && changes.disabled !== undefined) {
+    const button = container.querySelector('[data-bottom-bar-button]') as HTMLButtonElement | null;
+    if (button) {
+      button.disabled = changes.disabled;
+    }
+  }
 }
 
 /**
@@ -6,8 +6,8 @@
  */
 
 import './app-header.css';
-import { html, Template } from '@/lib/template';
-import { Context, commonTranslations } from '@/lib/context';
+import { html, Template, unsafeHTML, UnsafeHTML, attributes } from '@/lib/template';
+import { Context, commonTranslations, createTranslation } from '@/lib/context';
 import { getIcon } from '@/lib/icons';
 import * as AppMenu from './app-menu';
 
@@ -27,17 +27,27 @@ export interface LeftButtonConfig {
 export interface HeaderData {
   leftButton?: LeftButtonConfig;
   searchPlaceholder?: string;
+  tableNumber?: string;
 }
 
+/**
+ * Table label translation
+ */
+const tableLabel = createTranslation({
+  sq: 'Tavolina',
+  en: 'Table',
+  it: 'Tavolo'
+});
+
 /**
  * Get icon for left button type
  */
-function getLeftButtonIcon(type: LeftButtonType): string {
+function getLeftButtonIcon(type: LeftButtonType): UnsafeHTML {
   switch (type) {
     case 'back': return getIcon('arrow_back');
     case 'home': return getIcon('home');
     case 'add': return getIcon('add_circle_outline');
-    default: return '';
+    default: return unsafeHTML('');
   }
 }
 
@@ -70,6 +80,10 @@ export function template(data: HeaderData = {}, context: Context): Template {
         />
       </div>
       
+      <span class="${classes.tableChip}" data-table-chip ${data.tableNumber ? '' : attributes('hidden')}>
+        ${data.tableNumber ? `${tableLabel(context)} ${data.tableNumber}` : ''}
+      </span>
+      
       <button class="${classes.iconButton} ${classes.menuButton}" data-action="toggle-app-menu">
         ${getIcon('menu')}
       </button>
@@ -89,7 +103,8 @@ export const classes = {
   menuButton: 'app-header-menu-button',
   searchContainer: 'app-header-search-container',
   searchIcon: 'app-header-search-icon',
-  searchInput: 'app-header-search-input'
+  searchInput: 'app-header-search-input',
+  tableChip: 'app-header-table-chip'
 } as const;
 
 // Export as styles for backward compatibility
@@ -105,6 +120,13 @@ export function hydrate(container: Element, context: Context, data: HeaderData =
     leftButton.addEventListener('click', data.leftButton.onClick);
   }
   
+  // Table number is only known on the client (pages are pre-rendered)
+  const tableChip = container.querySelector('[data-table-chip]') as HTMLElement | null;
+  if (tableChip) {
+    tableChip.textContent = data.tableNumber ? `${tableLabel(context)} ${data.tableNumber}` : '';
+    tableChip.hidden = !data.tableNumber;
+  }
+  
   // App menu toggle
   const menuButton = container.querySelector('[data-action="toggle-app-menu"]');
   if (menuButton) {
@@ -22,6 +22,7 @@ import {
   setTheme,
   Theme 
 } from '@/lib/theme';
+import { loadPage, navigate } from '@/pages/page-router';
 
 export interface AppMenuData {
   isOpen?: boolean;
@@ -42,6 +43,8 @@ export function template(context: Context): Template {
   const languageText = () => commonTranslations.language(context);
   const themeText = () => commonTranslations.theme(context);
   const aboutText = () => commonTranslations.about(context);
+  const staffText = () => commonTranslations.staff(context);
+  const switchStaffText = () => commonTranslations.switchStaff(context);
   
   return html`
     <div class="${classes.overlay} ${isOpen ? classes.overlayOpen : ''}" data-action="close-menu"></div>
@@ -100,6 +103,22 @@ export function template(context: Context): Template {
           </div>
         </div>
         
+        <!-- Staff Section -->
+        <div class="${classes.section}">
+          <h3 class="${classes.sectionTitle}">
+            <span class="${classes.sectionIcon}">${getIcon('person')}</span>
+            ${staffText()}
+          </h3>
+          <div class="${classes.optionGroup}">
+            <button class="${classes.option}" data-action="switch-staff">
+              <span class="${classes.optionLabel}">
+                <span data-staff-name>${context.staff?.name ?? ''}</span>
+                <span class="${classes.optionHint}">${switchStaffText()}</span>
+              </span>
+            </button>
+          </div>
+        </div>
+        
         <!-- About Section -->
         <div class="${classes.section}">
           <h3 class="${classes.sectionTitle}">
@@ -137,6 +156,7 @@ export const classes = {
   optionIcon: 'app-menu-option-icon',
   optionLabel: 'app-menu-option-label',
   optionCheck: 'app-menu-option-check',
+  optionHint: 'app-menu-option-hint',
   about: 'app-menu-about',
   version: 'app-menu-version'
 } as const;
@@ -186,12 +206,23 @@ export function toggle(container: Element): void {
 /**
  * Hydrate app menu with event handlers
  */
-export function hydrate(container: Element, _context: Context): void {
+export function hydrate(container: Element, context: Context): void {
   // Close menu handlers
   container.querySelectorAll('[data-action="close-menu"]').forEach(element => {
     element.addEventListener('click', () => close(container));
   });
   
+  // Pages are generated without staff, the name is filled in here
+  const staffName = container.querySelector('[data-staff-name]');
+  if (staffName) {
+    staffName.textContent = context.staff?.name ?? '';
+  }
+  
+  // Switching staff goes through the login and comes back here
+  container.querySelector('[data-action="switch-staff"]')?.addEventListener('click', () => {
+    navigate.toLogin(window.location.pathname + window.location.search);
+  });
+  
   // Language selection
   container.querySelectorAll('[data-action="select-language"]').forEach(element => {
     element.addEventListener('click', (e) => {
@@ -200,7 +231,7 @@ export function hydrate(container: Element, _context: Context): void {
       if (lang) {
         setCurrentLanguage(lang as any);
         const currentPath = window.location.pathname;
-        window.location.href = buildLanguageUrl(currentPath, lang as any);
+        loadPage(buildLanguageUrl(currentPath, lang as any));
       }
     });
   });
@@ -0,0 +1,261 @@
+/**
+ * Bill Content Component
+ * Splits the order into checks evenly, by items or by seat
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./bill-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, withContext } from "@/lib/context";
+import { BillPageData, Check, CheckLine, MAX_CHECKS, SHARED, SplitMode, sharedQuantity } from "@/model/bill-model";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types
+export const SET_SPLIT_MODE_EVENT = "set-split-mode-event";
+export const ADD_CHECK_EVENT = "add-check-event";
+export const REMOVE_CHECK_EVENT = "remove-check-event";
+export const SELECT_LINE_EVENT = "select-line-event";
+export const MOVE_TO_CHECK_EVENT = "move-to-check-event";
+export const PAY_CHECK_EVENT = "pay-check-event";
+export const PAY_BALANCE_EVENT = "pay-balance-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  even: createTranslation({ sq: "Në mënyrë të barabartë", en: "Evenly", it: "In parti uguali" }),
+  items: createTranslation({ sq: "Sipas artikujve", en: "By items", it: "Per articoli" }),
+  seat: createTranslation({ sq: "Sipas vendit", en: "By seat", it: "Per posto" }),
+  check: createTranslation({ sq: "Fatura", en: "Check", it: "Conto" }),
+  seatLabel: createTranslation({ sq: "Vendi", en: "Seat", it: "Posto" }),
+  shared: createTranslation({ sq: "E përbashkët", en: "Shared", it: "Condiviso" }),
+  moveHere: createTranslation({ sq: "Zhvendos këtu", en: "Move here", it: "Sposta qui" }),
+  orderTotal: createTranslation({ sq: "Totali i porosisë", en: "Order total", it: "Totale ordine" }),
+  emptyCheck: createTranslation({ sq: "Asnjë artikull", en: "No items", it: "Nessun articolo" }),
+  pay: createTranslation({ sq: "Paguaj", en: "Pay", it: "Paga" }),
+  paid: createTranslation({ sq: "Paguar", en: "Paid", it: "Pagato" }),
+  payAll: createTranslation({ sq: "Paguaj gjithçka", en: "Pay all", it: "Paga tutto" }),
+  moveHint: createTranslation({
+    sq: "Tërhiq ose prek një artikull, pastaj prek një faturë për të zhvendosur një copë",
+    en: "Drag or tap an item, then tap a check to move one unit",
+    it: "Trascina o tocca un articolo, poi tocca un conto per spostarne un'unità",
+  }),
+};
+
+const modes: SplitMode[] = ["even", "items", "seat"];
+
+/**
+ * Single line on a check (or in the shared pool)
+ */
+function lineTemplate(data: BillPageData, line: CheckLine, check: number, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  const item = data.items[line.itemId];
+  const name = item.variant ? `${item.menuItem.name} (${item.variant.name})` : item.menuItem.name;
+  const selected = data.selectedItemId === line.itemId && data.selectedCheck === check;
+  const sharedQty = sharedQuantity(data.split, item);
+
+  return html`
+    <li
+      class="${classes.line}"
+      draggable="true"
+      data-item-id="${line.itemId}"
+      data-check="${check}"
+      data-selected="${selected}"
+      ${onClick(SELECT_LINE_EVENT)}
+    >
+      <span class="${classes.lineQuantity}">
+        ${line.quantity > 0 ? `${line.quantity}×` : ""}${line.shared > 0 ? html`<span class="${classes.lineShared}">${line.quantity > 0 ? " + " : ""}${sharedQty}/${data.split.count}</span>` : ""}
+      </span>
+      <span class="${classes.lineName}">${name}</span>
+      <span class="${classes.lineAmount}">${formatPrice(line.amount)}</span>
+    </li>
+  `;
+}
+
+/**
+ * Check card with its lines and total
+ */
+function checkTemplate(data: BillPageData, check: Check, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  const label = data.split.mode === "seat" ? translations.seatLabel(context) : translations.check(context);
+  const lines = check.lines.filter((line) => line.quantity > 0);
+  const canMove = data.selectedItemId != null && data.selectedCheck !== check.index;
+  const paid = data.paidChecks.includes(check.index);
+
+  return html`
+    <section class="${classes.check}" data-check="${check.index}" data-paid="${paid}" data-drop-target>
+      <header class="${classes.checkHeader}">
+        <h3 class="${classes.checkTitle}">${label} ${check.index + 1}</h3>
+        ${canMove
+          ? html`<button class="${classes.moveButton}" data-check="${check.index}" ${onClick(MOVE_TO_CHECK_EVENT)}>
+              ${translations.moveHere(context)}
+            </button>`
+          : ""}
+        ${paid
+          ? html`<span class="${classes.paidChip}">${translations.paid(context)}</span>`
+          : check.total > 0 && !canMove
+            ? html`<button class="${classes.payButton}" data-check="${check.index}" ${onClick(PAY_CHECK_EVENT)}>
+                ${translations.pay(context)}
+              </button>`
+            : ""}
+      </header>
+      ${data.split.mode !== "even"
+        ? html`<ul class="${classes.lines}">
+            ${lines.length > 0
+              ? lines.map((line) => lineTemplate(data, line, check.index, context))
+              : html`<li class="${classes.emptyLine}">${translations.emptyCheck(context)}</li>`}
+          </ul>`
+        : ""}
+      <footer class="${classes.checkTotal}">
+        <span>${withContext(context).t("total")}</span>
+        <span>${formatPrice(check.total)}</span>
+      </footer>
+    </section>
+  `;
+}
+
+/**
+ * Pool of shared items when splitting by seat
+ */
+function sharedTemplate(data: BillPageData, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  const sharedItems = Object.values(data.items).filter((item) => sharedQuantity(data.split, item) > 0);
+  const canMove = data.selectedItemId != null && data.selectedCheck !== SHARED;
+
+  return html`
+    <section class="${classes.check} ${classes.sharedPool}" data-check="${SHARED}" data-drop-target>
+      <header class="${classes.checkHeader}">
+        <h3 class="${classes.checkTitle}">${translations.shared(context)}</h3>
+        ${canMove
+          ? html`<button class="${classes.moveButton}" data-check="${SHARED}" ${onClick(MOVE_TO_CHECK_EVENT)}>
+              ${translations.moveHere(context)}
+            </button>`
+          : ""}
+      </header>
+      <ul class="${classes.lines}">
+        ${sharedItems.length > 0
+          ? sharedItems.map((item) => {
+              const quantity = sharedQuantity(data.split, item);
+              const selected = data.selectedItemId === item.id && data.selectedCheck === SHARED;
+              return html`
+                <li
+                  class="${classes.line}"
+                  draggable="true"
+                  data-item-id="${item.id}"
+                  data-check="${SHARED}"
+                  data-selected="${selected}"
+                  ${onClick(SELECT_LINE_EVENT)}
+                >
+                  <span class="${classes.lineQuantity}">${quantity}×</span>
+                  <span class="${classes.lineName}">${item.menuItem.name}</span>
+                  <span class="${classes.lineAmount}">${formatPrice((item.total / item.quantity) * quantity)}</span>
+                </li>
+              `;
+            })
+          : html`<li class="${classes.emptyLine}">${translations.emptyCheck(context)}</li>`}
+      </ul>
+    </section>
+  `;
+}
+
+/**
+ * Main template for bill content
+ */
+export function template(data: BillPageData, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  const { mode, count } = data.split;
+
+  return html`
+    <div class="${classes.container}">
+      <div class="${classes.toolbar}">
+        <div class="${classes.modes}" role="tablist">
+          ${modes.map(
+            (m) => html`
+              <button class="${classes.mode}" role="tab" aria-selected="${m === mode}" data-mode="${m}" ${onClick(SET_SPLIT_MODE_EVENT)}>
+                ${translations[m](context)}
+              </button>
+            `,
+          )}
+        </div>
+        <div class="${classes.counter}">
+          <button class="${classes.counterButton}" ${onClick(REMOVE_CHECK_EVENT)} ${count <= 1 ? attributes("disabled") : ""}>−</button>
+          <span class="${classes.counterValue}">${count}</span>
+          <button class="${classes.counterButton}" ${onClick(ADD_CHECK_EVENT)} ${count >= MAX_CHECKS ? attributes("disabled") : ""}>+</button>
+        </div>
+      </div>
+
+      ${mode !== "even" ? html`<p class="${classes.hint}">${translations.moveHint(context)}</p>` : ""}
+
+      <div class="${classes.checks}">
+        ${mode === "seat" ? sharedTemplate(data, context) : ""}
+        ${data.checks.map((check) => checkTemplate(data, check, context))}
+      </div>
+
+      <div class="${classes.summary}">
+        <span>${translations.orderTotal(context)}</span>
+        <span>${formatPrice(data.totals.total)}</span>
+      </div>
+
+      ${data.paidChecks.length === 0 && data.totals.total > 0
+        ? html`<button class="${classes.payButton}" ${onClick(PAY_BALANCE_EVENT)}>${translations.payAll(context)}</button>`
+        : ""}
+    </div>
+  `;
+}
+
+/**
+ * Render bill content from session data
+ */
+export function init(container: HTMLElement, data: BillPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Update bill content - re-renders on any change, checks depend on the whole split
+ */
+export function update(
+  container: Element,
+  changes: DataChange<BillPageData>,
+  context: Context,
+  data: BillPageData,
+): void {
+  if (Object.keys(changes).length > 0) {
+    render(template(data, context), container);
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "bill-content-container",
+  toolbar: "bill-content-toolbar",
+  modes: "bill-content-modes",
+  mode: "bill-content-mode",
+  counter: "bill-content-counter",
+  counterButton: "bill-content-counter-button",
+  counterValue: "bill-content-counter-value",
+  hint: "bill-content-hint",
+  checks: "bill-content-checks",
+  check: "bill-content-check",
+  sharedPool: "bill-content-shared-pool",
+  checkHeader: "bill-content-check-header",
+  checkTitle: "bill-content-check-title",
+  moveButton: "bill-content-move-button",
+  payButton: "bill-content-pay-button",
+  paidChip: "bill-content-paid-chip",
+  lines: "bill-content-lines",
+  line: "bill-content-line",
+  lineQuantity: "bill-content-line-quantity",
+  lineShared: "bill-content-line-shared",
+  lineName: "bill-content-line-name",
+  lineAmount: "bill-content-line-amount",
+  emptyLine: "bill-content-empty-line",
+  checkTotal: "bill-content-check-total",
+  summary: "bill-content-summary",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -0,0 +1,128 @@
+/**
+ * Discount Editor Component
+ * Inline form for a percentage or fixed discount with a reason code,
+ * used for order lines and for the whole order
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./discount-editor.css";
+import { html, Template, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, withContext } from "@/lib/context";
+import { Discount, DiscountKind, DiscountReason, DISCOUNT_REASONS } from "@/model/discount-model";
+
+// Event types - data-target is an order item ID or "order"
+export const APPLY_DISCOUNT_EVENT = "apply-discount-event";
+export const REMOVE_DISCOUNT_EVENT = "remove-discount-event";
+export const CANCEL_DISCOUNT_EVENT = "cancel-discount-event";
+
+export const ORDER_TARGET = "order";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  value: createTranslation({ sq: "Zbritja", en: "Discount", it: "Sconto" }),
+  reason: createTranslation({ sq: "Arsyeja", en: "Reason", it: "Motivo" }),
+  apply: createTranslation({ sq: "Apliko", en: "Apply", it: "Applica" }),
+  remove: createTranslation({ sq: "Hiq", en: "Remove", it: "Rimuovi" }),
+  cancel: createTranslation({ sq: "Anulo", en: "Cancel", it: "Annulla" }),
+};
+
+const reasonLabels: Record<DiscountReason, ReturnType<typeof createTranslation>> = {
+  promotion: createTranslation({ sq: "Promocion", en: "Promotion", it: "Promozione" }),
+  loyalty: createTranslation({ sq: "Klient besnik", en: "Loyalty", it: "Fedeltà" }),
+  staff: createTranslation({ sq: "Staf", en: "Staff", it: "Personale" }),
+  complaint: createTranslation({ sq: "Ankesë", en: "Complaint", it: "Reclamo" }),
+  manager: createTranslation({ sq: "Menaxher", en: "Manager", it: "Responsabile" }),
+};
+
+/**
+ * Short label for an applied discount, e.g. "−10% · Loyalty"
+ */
+export function discountLabel(discount: Discount, context: Context): string {
+  const { formatPrice } = withContext(context);
+  const value = discount.kind === "percent" ? `${discount.value}%` : formatPrice(discount.value);
+  return `−${value} · ${reasonLabels[discount.reason](context)}`;
+}
+
+/**
+ * Discount editor template
+ */
+export function template(target: string, discount: Discount | undefined, context: Context): Template {
+  const kind = discount?.kind ?? "percent";
+  const reason = discount?.reason ?? DISCOUNT_REASONS[0];
+
+  return html`
+    <div class="${classes.editor}" data-discount-target="${target}">
+      <div class="${classes.fields}">
+        <label class="${classes.field}">
+          <span class="${classes.label}">${translations.value(context)}</span>
+          <span class="${classes.valueRow}">
+            <input class="${classes.value}" type="number" min="0" step="any" inputmode="decimal" value="${discount?.value ?? ""}" />
+            <select class="${classes.kind}">
+              <option value="percent" ${kind === "percent" ? attributes("selected") : ""}>%</option>
+              <option value="fixed" ${kind === "fixed" ? attributes("selected") : ""}>${context.currency.symbol}</option>
+            </select>
+          </span>
+        </label>
+        <label class="${classes.field}">
+          <span class="${classes.label}">${translations.reason(context)}</span>
+          <select class="${classes.reason}">
+            ${DISCOUNT_REASONS.map(
+              (r) => html`<option value="${r}" ${r === reason ? attributes("selected") : ""}>${reasonLabels[r](context)}</option>`,
+            )}
+          </select>
+        </label>
+      </div>
+      <div class="${classes.actions}">
+        ${discount
+          ? html`<button class="${classes.button}" data-target="${target}" ${onClick(REMOVE_DISCOUNT_EVENT)}>
+              ${translations.remove(context)}
+            </button>`
+          : ""}
+        <button class="${classes.button}" data-target="${target}" ${onClick(CANCEL_DISCOUNT_EVENT)}>
+          ${translations.cancel(context)}
+        </button>
+        <button class="${classes.button} ${classes.buttonPrimary}" data-target="${target}" ${onClick(APPLY_DISCOUNT_EVENT)}>
+          ${translations.apply(context)}
+        </button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Read the discount entered in a target's editor
+ * Returns undefined for an empty or zero value
+ */
+export function readDiscount(target: string): Discount | undefined {
+  const editor = document.querySelector(`[data-discount-target="${target}"]`);
+  const value = parseFloat((editor?.querySelector(`.${classes.value}`) as HTMLInputElement | null)?.value ?? "");
+  if (!editor || !Number.isFinite(value) || value <= 0) return undefined;
+
+  const kind = (editor.querySelector(`.${classes.kind}`) as HTMLSelectElement).value as DiscountKind;
+  const reason = (editor.querySelector(`.${classes.reason}`) as HTMLSelectElement).value as DiscountReason;
+  return { kind, value: kind === "percent" ? Math.min(value, 100) : value, reason };
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  editor: "discount-editor",
+  fields: "discount-editor-fields",
+  field: "discount-editor-field",
+  label: "discount-editor-label",
+  valueRow: "discount-editor-value-row",
+  value: "discount-editor-value",
+  kind: "discount-editor-kind",
+  reason: "discount-editor-reason",
+  actions: "discount-editor-actions",
+  button: "discount-editor-button",
+  buttonPrimary: "discount-editor-button-primary",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -0,0 +1,155 @@
+/**
+ * Kitchen Content Component
+ * Board of open tickets, or the recently bumped ones for recall,
+ * for one station or all of them
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./kitchen-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation } from "@/lib/context";
+import { KitchenPageData } from "@/model/kitchen-model";
+import { routes } from "@/pages/page-router";
+import * as KitchenTicketUI from "./kitchen-ticket";
+import { styles as itemListStyles } from "./item-list";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types - data-show is "open" or "bumped"
+export const SHOW_TICKETS_EVENT = "show-tickets-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  kitchen: createTranslation({ sq: "Kuzhina", en: "Kitchen", it: "Cucina" }),
+  open: createTranslation({ sq: "Në pritje", en: "Open", it: "Aperti" }),
+  bumped: createTranslation({ sq: "Të përfunduara", en: "Bumped", it: "Evasi" }),
+  allStations: createTranslation({ sq: "Të gjitha", en: "All stations", it: "Tutte le postazioni" }),
+  noTickets: createTranslation({ sq: "Asnjë porosi", en: "No tickets", it: "Nessun ordine" }),
+  noTicketsMessage: createTranslation({
+    sq: "Porositë e dërguara shfaqen këtu",
+    en: "Sent orders show up here",
+    it: "Gli ordini inviati appaiono qui",
+  }),
+};
+
+function boardTemplate(data: KitchenPageData, context: Context): Template {
+  const ids = data.showBumped ? data.bumpedIds : data.openIds;
+  if (ids.length === 0) {
+    return html`
+      <div class="${itemListStyles.emptyContainer}">
+        <div class="${itemListStyles.emptyIcon}">🍳</div>
+        <h2 class="${itemListStyles.emptyTitle}">${translations.noTickets(context)}</h2>
+        <p class="${itemListStyles.emptyMessage}">${translations.noTicketsMessage(context)}</p>
+      </div>
+    `;
+  }
+
+  return html`
+    <div class="${classes.board}">
+      ${ids
+        .map((id) => data.tickets[id])
+        .filter((t) => t != null)
+        .map((t) => KitchenTicketUI.template(t, context, !data.station))}
+    </div>
+  `;
+}
+
+/**
+ * Station links - each station's display is its own page
+ */
+function stationsTemplate(data: KitchenPageData, context: Context): Template {
+  if (data.stations.length < 2) return html``;
+
+  return html`
+    <nav class="${classes.stations}">
+      <a class="${classes.station}" href="${routes.kitchen(context.lang)}" ${!data.station ? attributes('aria-current="page"') : ""}>
+        ${translations.allStations(context)}
+      </a>
+      ${data.stations.map(
+        (station) => html`
+          <a
+            class="${classes.station}"
+            href="${routes.kitchenStation(station, context.lang)}"
+            ${station === data.station ? attributes('aria-current="page"') : ""}
+          >
+            ${KitchenTicketUI.stationLabel(station, context)}
+          </a>
+        `,
+      )}
+    </nav>
+  `;
+}
+
+/**
+ * Main template for the kitchen display
+ */
+export function template(data: KitchenPageData, context: Context): Template {
+  return html`
+    <div class="${classes.container}">
+      <div class="${classes.toolbar}">
+        <h1 class="${classes.title}">
+          ${data.station ? KitchenTicketUI.stationLabel(data.station, context) : translations.kitchen(context)}
+        </h1>
+        <div class="${classes.tabs}">
+          <button class="${classes.tab}" data-show="open" aria-selected="${!data.showBumped}" ${onClick(SHOW_TICKETS_EVENT)}>
+            ${translations.open(context)} <span class="${classes.count}">${data.openIds.length}</span>
+          </button>
+          <button class="${classes.tab}" data-show="bumped" aria-selected="${data.showBumped}" ${onClick(SHOW_TICKETS_EVENT)}>
+            ${translations.bumped(context)}
+          </button>
+        </div>
+      </div>
+      ${stationsTemplate(data, context)}
+      <div class="${classes.boardContainer}">${boardTemplate(data, context)}</div>
+    </div>
+  `;
+}
+
+export function init(container: HTMLElement, data: KitchenPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Update the kitchen display
+ * Ticket order or view changes re-render the board, other changes go to the tickets
+ */
+export function update(container: Element, changes: DataChange<KitchenPageData>, context: Context, data: KitchenPageData): void {
+  if ("showBumped" in changes || "openIds" in changes || "bumpedIds" in changes || "stations" in changes) {
+    render(template(data, context), container);
+    return;
+  }
+
+  if (!changes.tickets) return;
+
+  for (const ticketId of Object.keys(changes.tickets)) {
+    const change = (changes.tickets as any)[ticketId];
+    const ticketElement = document.getElementById(`kitchen-ticket-${ticketId}`);
+    const displayTicket = data.tickets[ticketId];
+
+    if (ticketElement && change !== undefined && displayTicket) {
+      KitchenTicketUI.update(ticketElement, change, context, displayTicket, !data.station);
+    }
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "kitchen-content-container",
+  toolbar: "kitchen-content-toolbar",
+  title: "kitchen-content-title",
+  tabs: "kitchen-content-tabs",
+  tab: "kitchen-content-tab",
+  count: "kitchen-content-count",
+  stations: "kitchen-content-stations",
+  station: "kitchen-content-station",
+  boardContainer: "kitchen-content-board-container",
+  board: "kitchen-content-board",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -0,0 +1,183 @@
+/**
+ * Kitchen Ticket Component
+ * One sent round on the kitchen display: items with modifier tokens and notes,
+ * elapsed time, and bump/recall
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./kitchen-ticket.css";
+import { html, Template, replaceElement } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation } from "@/lib/context";
+import { DisplayTicket } from "@/model/kitchen-model";
+import { KitchenItem } from "@/services/kitchen-service";
+import { Station } from "@/types";
+import { generateModificationTokens, modificationTokenTemplate } from "./order-item";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types - data-ticket-id, and data-item-id for item toggles
+export const TOGGLE_KITCHEN_ITEM_EVENT = "toggle-kitchen-item-event";
+export const BUMP_TICKET_EVENT = "bump-ticket-event";
+export const RECALL_TICKET_EVENT = "recall-ticket-event";
+export const PRINT_TICKET_EVENT = "print-ticket-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  table: createTranslation({ sq: "Tavolina", en: "Table", it: "Tavolo" }),
+  takeaway: createTranslation({ sq: "Për të marrë", en: "Takeaway", it: "Da asporto" }),
+  round: createTranslation({ sq: "Raundi", en: "Round", it: "Giro" }),
+  minutes: createTranslation({ sq: "min", en: "min", it: "min" }),
+  bump: createTranslation({ sq: "Gati", en: "Bump", it: "Evadi" }),
+  recall: createTranslation({ sq: "Rikthe", en: "Recall", it: "Richiama" }),
+  print: createTranslation({ sq: "Printo", en: "Print", it: "Stampa" }),
+};
+
+const stationLabels: Record<string, ReturnType<typeof createTranslation>> = {
+  kitchen: createTranslation({ sq: "Kuzhina", en: "Kitchen", it: "Cucina" }),
+  bar: createTranslation({ sq: "Bari", en: "Bar", it: "Bar" }),
+  crepes: createTranslation({ sq: "Krepat", en: "Crepes", it: "Crêpes" }),
+};
+
+/**
+ * Display name of a station; stations without a translation show their ID
+ */
+export function stationLabel(station: Station, context: Context): string {
+  return stationLabels[station]?.(context) ?? station;
+}
+
+function elapsedLabel(data: DisplayTicket, context: Context) {
+  return `${data.elapsed} ${translations.minutes(context)}`;
+}
+
+/**
+ * Ticket item - tap to mark it done
+ */
+function itemTemplate(ticketId: string, item: KitchenItem): Template {
+  const tokens = generateModificationTokens(item.modifiers);
+
+  return html`
+    <li>
+      <button
+        class="${classes.item}"
+        data-ticket-id="${ticketId}"
+        data-item-id="${item.id}"
+        data-done="${item.done}"
+        ${onClick(TOGGLE_KITCHEN_ITEM_EVENT)}
+      >
+        <span class="${classes.quantity}">${item.quantity}×</span>
+        <span class="${classes.itemBody}">
+          <span class="${classes.name}">
+            ${item.icon ? html`<span class="${classes.icon}">${item.icon}</span>` : ""}${item.name}
+            ${item.variant ? html`<span class="${classes.variant}">${item.variant}</span>` : ""}
+          </span>
+          ${tokens.length > 0 ? html`<span class="${classes.tokens}">${tokens.map(modificationTokenTemplate)}</span>` : ""}
+          ${item.notes ? html`<span class="${classes.note}">${item.notes}</span>` : ""}
+        </span>
+      </button>
+    </li>
+  `;
+}
+
+/**
+ * Kitchen ticket template
+ * The station is shown on displays that show all stations
+ */
+export function template(data: DisplayTicket, context: Context, showStation = false): Template {
+  const { ticket } = data;
+  const bumped = ticket.status === "bumped";
+
+  return html`
+    <article
+      class="${classes.ticket}"
+      id="kitchen-ticket-${ticket.id}"
+      data-urgency="${data.urgency}"
+      data-ready="${data.ready}"
+      data-status="${ticket.status}"
+    >
+      <header class="${classes.header}">
+        <span class="${classes.table}">
+          ${ticket.tableNumber ? `${translations.table(context)} ${ticket.tableNumber}` : translations.takeaway(context)}
+        </span>
+        ${ticket.round > 1 ? html`<span class="${classes.round}">${translations.round(context)} ${ticket.round}</span>` : ""}
+        ${showStation ? html`<span class="${classes.station}">${stationLabel(ticket.station, context)}</span>` : ""}
+        <span class="${classes.elapsed}">${elapsedLabel(data, context)}</span>
+      </header>
+      <ul class="${classes.items}">
+        ${ticket.itemIds.map((id) => ticket.items[id]).filter((item) => item != null).map((item) => itemTemplate(ticket.id, item))}
+      </ul>
+      <footer class="${classes.footer}">
+        <span class="${classes.orderNumber}">${ticket.orderNumber}</span>
+        <button class="${classes.action}" data-ticket-id="${ticket.id}" ${onClick(PRINT_TICKET_EVENT)}>${translations.print(context)}</button>
+        <button
+          class="${classes.action} ${bumped ? "" : classes.actionPrimary}"
+          data-ticket-id="${ticket.id}"
+          ${onClick(bumped ? RECALL_TICKET_EVENT : BUMP_TICKET_EVENT)}
+        >
+          ${bumped ? translations.recall(context) : translations.bump(context)}
+        </button>
+      </footer>
+    </article>
+  `;
+}
+
+/**
+ * Update a ticket - the clock only touches the elapsed time, anything else re-renders
+ */
+export function update(
+  container: Element,
+  changes: DataChange<DisplayTicket>,
+  context: Context,
+  data: DisplayTicket,
+  showStation = false,
+): void {
+  if (changes.ticket) {
+    replaceElement(container, template(data, context, showStation));
+    return;
+  }
+
+  if ("ready" in changes) {
+    container.setAttribute("data-ready", String(data.ready));
+  }
+
+  if ("urgency" in changes) {
+    container.setAttribute("data-urgency", data.urgency);
+  }
+
+  if ("elapsed" in changes) {
+    const elapsed = container.querySelector(`.${classes.elapsed}`);
+    if (elapsed) {
+      elapsed.textContent = elapsedLabel(data, context);
+    }
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  ticket: "kitchen-ticket",
+  header: "kitchen-ticket-header",
+  table: "kitchen-ticket-table",
+  round: "kitchen-ticket-round",
+  station: "kitchen-ticket-station",
+  elapsed: "kitchen-ticket-elapsed",
+  items: "kitchen-ticket-items",
+  item: "kitchen-ticket-item",
+  quantity: "kitchen-ticket-quantity",
+  itemBody: "kitchen-ticket-item-body",
+  name: "kitchen-ticket-name",
+  icon: "kitchen-ticket-icon",
+  variant: "kitchen-ticket-variant",
+  tokens: "kitchen-ticket-tokens",
+  note: "kitchen-ticket-note",
+  footer: "kitchen-ticket-footer",
+  orderNumber: "kitchen-ticket-order-number",
+  action: "kitchen-ticket-action",
+  actionPrimary: "kitchen-ticket-action-primary",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -0,0 +1,137 @@
+/**
+ * Login Content Component
+ * PIN pad to sign in or switch staff, with the staff member signed in now
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./login-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, StaffRole } from "@/lib/context";
+import { canSignIn, LoginPageData, PIN_MAX_LENGTH } from "@/model/staff-model";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types
+export const PIN_KEY_EVENT = "pin-key-event";
+export const CLEAR_PIN_EVENT = "clear-pin-event";
+export const SIGN_IN_EVENT = "sign-in-event";
+export const SIGN_OUT_EVENT = "sign-out-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  title: createTranslation({ sq: "Hyr me PIN", en: "Sign in with your PIN", it: "Accedi con il PIN" }),
+  signedInAs: createTranslation({ sq: "I identifikuar si", en: "Signed in as", it: "Connesso come" }),
+  switchHint: createTranslation({
+    sq: "Futni një PIN tjetër për të ndërruar stafin",
+    en: "Enter another PIN to switch staff",
+    it: "Inserisci un altro PIN per cambiare operatore",
+  }),
+  signIn: createTranslation({ sq: "Hyr", en: "Sign in", it: "Accedi" }),
+  signOut: createTranslation({ sq: "Dil", en: "Sign out", it: "Esci" }),
+  checking: createTranslation({ sq: "Duke kontrolluar...", en: "Checking...", it: "Verifica..." }),
+};
+
+const roleLabels: Record<StaffRole, ReturnType<typeof createTranslation>> = {
+  cashier: createTranslation({ sq: "Arkëtar", en: "Cashier", it: "Cassiere" }),
+  manager: createTranslation({ sq: "Menaxher", en: "Manager", it: "Responsabile" }),
+  admin: createTranslation({ sq: "Administrator", en: "Admin", it: "Amministratore" }),
+};
+
+const keys = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+/**
+ * One dot per digit entered, the PIN itself is never shown
+ */
+function pinTemplate(pin: string): Template {
+  return html`
+    <div class="${classes.pin}" data-pin aria-live="polite">
+      ${Array.from({ length: Math.max(pin.length, 4) }, (_, i) =>
+        html`<span class="${classes.dot} ${i < pin.length ? classes.dotFilled : ""}"></span>`,
+      )}
+    </div>
+  `;
+}
+
+/**
+ * Staff member signed in on this till, if any
+ */
+function currentTemplate(context: Context): Template | string {
+  if (!context.staff) return "";
+  return html`
+    <div class="${classes.current}">
+      <span>${translations.signedInAs(context)} <strong>${context.staff.name}</strong> · ${roleLabels[context.staff.role](context)}</span>
+      <button class="${classes.signOut}" ${onClick(SIGN_OUT_EVENT)}>${translations.signOut(context)}</button>
+    </div>
+    <p class="${classes.hint}">${translations.switchHint(context)}</p>
+  `;
+}
+
+/**
+ * Main template for the login
+ */
+export function template(data: LoginPageData, context: Context): Template {
+  const checking = data.status === "checking";
+  const full = data.pin.length >= PIN_MAX_LENGTH;
+
+  return html`
+    <div class="${classes.container}">
+      <h1 class="${classes.title}">${translations.title(context)}</h1>
+      ${currentTemplate(context)}
+      ${pinTemplate(data.pin)}
+      ${data.error ? html`<div class="${classes.error}" role="alert">${data.error}</div>` : ""}
+
+      <div class="${classes.keypad}">
+        ${keys.map(
+          (key) => html`
+            <button class="${classes.key}" data-key="${key}" ${onClick(PIN_KEY_EVENT)} ${checking || full ? attributes("disabled") : ""}>${key}</button>
+          `,
+        )}
+        <button class="${classes.key}" ${onClick(CLEAR_PIN_EVENT)} ${checking ? attributes("disabled") : ""}>C</button>
+        <button class="${classes.key}" data-key="0" ${onClick(PIN_KEY_EVENT)} ${checking || full ? attributes("disabled") : ""}>0</button>
+        <button class="${classes.key}" data-key="back" ${onClick(PIN_KEY_EVENT)} ${checking ? attributes("disabled") : ""}>⌫</button>
+      </div>
+
+      <button class="${classes.submit}" ${onClick(SIGN_IN_EVENT)} ${canSignIn(data) ? "" : attributes("disabled")}>
+        ${checking ? translations.checking(context) : translations.signIn(context)}
+      </button>
+    </div>
+  `;
+}
+
+export function init(container: HTMLElement, data: LoginPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Update the login
+ * The pad is small, so any change renders the content again
+ */
+export function update(container: Element, changes: DataChange<LoginPageData>, context: Context, data: LoginPageData): void {
+  if (Object.keys(changes).length > 0) {
+    render(template(data, context), container);
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "login-content-container",
+  title: "login-content-title",
+  current: "login-content-current",
+  signOut: "login-content-sign-out",
+  hint: "login-content-hint",
+  pin: "login-content-pin",
+  dot: "login-content-dot",
+  dotFilled: "login-content-dot-filled",
+  error: "login-content-error",
+  keypad: "login-content-keypad",
+  key: "login-content-key",
+  submit: "login-content-submit",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -6,7 +6,7 @@
  */
 
 import "./menu-content.css";
-import { html, Template, reconcileChildren, buildHTML } from "@/lib/template";
+import { html, Template, reconcileChildren, buildHTML, attributes } from "@/lib/template";
 import { Context } from "@/lib/context";
 import { DataCell, ItemGroup } from "@/types";
 import { headerCells, DataCellRenderer } from "./menu-header";
@@ -61,7 +61,7 @@ function itemGroupTemplate(menu: DisplayMenu, group: ItemGroup, context: Context
   const isEmpty = group.itemIds.length === 0;
 
   return html`
-    <div class="${classes.group}" data-group-id="${group.id}" ${isEmpty ? 'style="display: none;"' : ""}>
+    <div class="${classes.group}" data-group-id="${group.id}" ${isEmpty ? attributes('style="display: none;"') : ""}>
       ${group.name ? html` <div class="${classes.groupHeader}">${group.name}</div> ` : ""}
       <div class="${classes.groupItems}">
         ${group.itemIds.map((itemId) => {
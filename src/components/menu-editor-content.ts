@@ -0,0 +1,657 @@
+/**
+ * Menu Editor Content Component
+ * Form for a menu's items, prices, variant groups, choices, item groups and
+ * included items, with the issues found and a preview rendered by the menu's
+ * own content component
+ *
+ * Fields carry the path of their value in the menu (data-path) and how to read
+ * it (data-value-type); the page listens for input events and sets the value.
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./menu-editor-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createContext, createTranslation, getCurrencyFormat, hasPermission } from "@/lib/context";
+import { isVariantPricing, Menu, MenuItem } from "@/types";
+import { hasErrors, ItemPricing, MenuEditorPageData, MenuPath, MenuSection } from "@/model/menu-editor-model";
+import { MenuPageData, toDisplayMenu } from "@/model/menu-model";
+import * as MenuContentUI from "./menu-content";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types
+export const OPEN_MENU_EVENT = "open-menu-event";
+export const SAVE_MENU_EVENT = "save-menu-event";
+export const REVERT_MENU_EVENT = "revert-menu-event";
+// data-section is the MenuSection, data-id the entry's ID
+export const ADD_ENTRY_EVENT = "add-menu-entry-event";
+export const REMOVE_ENTRY_EVENT = "remove-menu-entry-event";
+// data-group-id and data-variant-id
+export const ADD_VARIANT_EVENT = "add-variant-event";
+export const REMOVE_VARIANT_EVENT = "remove-variant-event";
+// data-list is the JSON path of an item group's itemIds or an item's subMenu.included
+export const ADD_LIST_ENTRY_EVENT = "add-list-entry-event";
+export const REMOVE_LIST_ENTRY_EVENT = "remove-list-entry-event";
+export const MOVE_LIST_ENTRY_EVENT = "move-list-entry-event";
+
+// How a field's value is read: optional values are removed when left empty
+export type FieldType = "text" | "optional-text" | "number" | "optional-number";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  menuEditor: createTranslation({ sq: "Redaktori i menusë", en: "Menu editor", it: "Editor del menu" }),
+  menu: createTranslation({ sq: "Menuja", en: "Menu", it: "Menu" }),
+  open: createTranslation({ sq: "Hap", en: "Open", it: "Apri" }),
+  save: createTranslation({ sq: "Ruaj", en: "Save", it: "Salva" }),
+  saving: createTranslation({ sq: "Duke ruajtur...", en: "Saving...", it: "Salvataggio..." }),
+  saved: createTranslation({ sq: "U ruajt", en: "Saved", it: "Salvato" }),
+  unsaved: createTranslation({ sq: "Ndryshime të paruajtura", en: "Unsaved changes", it: "Modifiche non salvate" }),
+  revert: createTranslation({ sq: "Anulo ndryshimet", en: "Discard changes", it: "Annulla modifiche" }),
+  loading: createTranslation({ sq: "Duke ngarkuar...", en: "Loading...", it: "Caricamento..." }),
+  noPermission: createTranslation({
+    sq: "Vetëm administratorët mund të ndryshojnë menutë",
+    en: "Only admins can edit the menus",
+    it: "Solo gli amministratori possono modificare i menu",
+  }),
+  languageNote: createTranslation({
+    sq: "Tekstet ndryshohen në këtë gjuhë; çmimet dhe pjesa tjetër në të gjitha gjuhët",
+    en: "Texts are changed in this language; prices and everything else in all languages",
+    it: "I testi cambiano in questa lingua; prezzi e tutto il resto in tutte le lingue",
+  }),
+  name: createTranslation({ sq: "Emri", en: "Name", it: "Nome" }),
+  description: createTranslation({ sq: "Përshkrimi", en: "Description", it: "Descrizione" }),
+  icon: createTranslation({ sq: "Ikona", en: "Icon", it: "Icona" }),
+  items: createTranslation({ sq: "Artikujt", en: "Items", it: "Articoli" }),
+  variantGroups: createTranslation({ sq: "Grupet e varianteve", en: "Variant groups", it: "Gruppi di varianti" }),
+  choices: createTranslation({ sq: "Zgjedhjet", en: "Choices", it: "Scelte" }),
+  itemGroups: createTranslation({ sq: "Grupet e artikujve", en: "Item groups", it: "Gruppi di articoli" }),
+  newId: createTranslation({ sq: "ID e re", en: "New ID", it: "Nuovo ID" }),
+  add: createTranslation({ sq: "Shto", en: "Add", it: "Aggiungi" }),
+  remove: createTranslation({ sq: "Hiq", en: "Remove", it: "Rimuovi" }),
+  moveUp: createTranslation({ sq: "Lart", en: "Move up", it: "Su" }),
+  moveDown: createTranslation({ sq: "Poshtë", en: "Move down", it: "Giù" }),
+  pricing: createTranslation({ sq: "Çmimi", en: "Pricing", it: "Prezzo" }),
+  category: createTranslation({ sq: "Kategori (pa çmim)", en: "Category (no price)", it: "Categoria (senza prezzo)" }),
+  fixedPrice: createTranslation({ sq: "Çmim fiks", en: "Fixed price", it: "Prezzo fisso" }),
+  price: createTranslation({ sq: "Çmimi", en: "Price", it: "Prezzo" }),
+  choice: createTranslation({ sq: "Zgjedhja", en: "Choice", it: "Scelta" }),
+  none: createTranslation({ sq: "Asnjë", en: "None", it: "Nessuno" }),
+  min: createTranslation({ sq: "Min", en: "Min", it: "Min" }),
+  max: createTranslation({ sq: "Max", en: "Max", it: "Max" }),
+  subMenu: createTranslation({ sq: "Nënmenuja", en: "Sub menu", it: "Sottomenu" }),
+  included: createTranslation({ sq: "Të përfshira", en: "Included", it: "Inclusi" }),
+  display: createTranslation({ sq: "Shfaqja", en: "Display", it: "Visualizzazione" }),
+  shown: createTranslation({ sq: "Si artikull", en: "As an item", it: "Come articolo" }),
+  shownIncluded: createTranslation({ sq: "Si i përfshirë", en: "As included", it: "Come incluso" }),
+  hidden: createTranslation({ sq: "I fshehur", en: "Hidden", it: "Nascosto" }),
+  defaultVariant: createTranslation({ sq: "I parazgjedhuri", en: "Default", it: "Predefinito" }),
+  variants: createTranslation({ sq: "Variantet", en: "Variants", it: "Varianti" }),
+  issues: createTranslation({ sq: "Problemet", en: "Issues", it: "Problemi" }),
+  noIssues: createTranslation({ sq: "Asnjë problem", en: "No issues", it: "Nessun problema" }),
+  preview: createTranslation({ sq: "Parapamja", en: "Preview", it: "Anteprima" }),
+};
+
+function pathAttr(path: MenuPath): string {
+  return JSON.stringify(path);
+}
+
+/**
+ * Labelled input for the value at a path
+ */
+function field(label: string, path: MenuPath, value: unknown, type: FieldType = "text"): Template {
+  const numeric = type === "number" || type === "optional-number";
+  return html`
+    <label class="${classes.field}">
+      <span class="${classes.label}">${label}</span>
+      <input
+        class="${classes.input}"
+        type="${numeric ? "number" : "text"}"
+        ${numeric ? attributes('step="any"') : ""}
+        value="${value ?? ""}"
+        data-path="${pathAttr(path)}"
+        data-value-type="${type}"
+      />
+    </label>
+  `;
+}
+
+/**
+ * Labelled select for the value at a path; the empty option removes the value
+ */
+function selectField(
+  label: string,
+  path: MenuPath,
+  value: string | undefined,
+  options: [string, string][],
+  emptyLabel?: string,
+): Template {
+  return html`
+    <label class="${classes.field}">
+      <span class="${classes.label}">${label}</span>
+      <select class="${classes.input}" data-path="${pathAttr(path)}" data-value-type="optional-text">
+        ${emptyLabel !== undefined ? html`<option value="">${emptyLabel}</option>` : ""}
+        ${options.map(([id, text]) => html`<option value="${id}" ${id === value ? attributes("selected") : ""}>${text}</option>`)}
+      </select>
+    </label>
+  `;
+}
+
+/**
+ * ID input and button adding an entry to a section
+ */
+function addEntryTemplate(section: MenuSection, context: Context): Template {
+  return html`
+    <div class="${classes.addRow}">
+      <input class="${classes.input}" name="new-${section}" placeholder="${translations.newId(context)}" />
+      <button type="button" class="${classes.button}" data-section="${section}" ${onClick(ADD_ENTRY_EVENT)}>
+        ${translations.add(context)}
+      </button>
+    </div>
+  `;
+}
+
+function removeEntryButton(section: MenuSection, id: string, context: Context): Template {
+  return html`
+    <button type="button" class="${classes.button} ${classes.buttonDanger}" data-section="${section}" data-id="${id}" ${onClick(REMOVE_ENTRY_EVENT)}>
+      ${translations.remove(context)}
+    </button>
+  `;
+}
+
+function itemLabel(items: Record<string, MenuItem> | undefined, itemId: string): string {
+  const item = items?.[itemId];
+  return item ? `${item.name} (${itemId})` : itemId;
+}
+
+/**
+ * Ordered list of item IDs with move and remove buttons, and a select to add one
+ * @param entries - The IDs in the list
+ * @param items - The items the list may hold
+ */
+function listTemplate(
+  list: MenuPath,
+  entries: string[],
+  items: Record<string, MenuItem> | undefined,
+  context: Context,
+  entryFields?: (index: number) => Template,
+): Template {
+  const listAttr = pathAttr(list);
+  const candidates = Object.keys(items ?? {}).filter((id) => !entries.includes(id));
+
+  return html`
+    <ol class="${classes.list}">
+      ${entries.map(
+        (itemId, index) => html`
+          <li class="${classes.listEntry}">
+            <span class="${classes.listName}">${itemLabel(items, itemId)}</span>
+            ${entryFields ? entryFields(index) : ""}
+            <button type="button" class="${classes.iconButton}" aria-label="${translations.moveUp(context)}"
+              data-list="${listAttr}" data-index="${index}" data-offset="-1" ${onClick(MOVE_LIST_ENTRY_EVENT)}>↑</button>
+            <button type="button" class="${classes.iconButton}" aria-label="${translations.moveDown(context)}"
+              data-list="${listAttr}" data-index="${index}" data-offset="1" ${onClick(MOVE_LIST_ENTRY_EVENT)}>↓</button>
+            <button type="button" class="${classes.iconButton}" aria-label="${translations.remove(context)}"
+              data-list="${listAttr}" data-index="${index}" ${onClick(REMOVE_LIST_ENTRY_EVENT)}>✕</button>
+          </li>
+        `,
+      )}
+    </ol>
+    ${candidates.length > 0
+      ? html`
+          <div class="${classes.addRow}">
+            <select class="${classes.input}" name="add:${listAttr}">
+              ${candidates.map((id) => html`<option value="${id}">${itemLabel(items, id)}</option>`)}
+            </select>
+            <button type="button" class="${classes.button}" data-list="${listAttr}" ${onClick(ADD_LIST_ENTRY_EVENT)}>
+              ${translations.add(context)}
+            </button>
+          </div>
+        `
+      : ""}
+  `;
+}
+
+function pricingValue(item: MenuItem): string {
+  if (item.price == null) return "category";
+  return isVariantPricing(item.price) ? `variants:${item.price.groupId}` : "fixed";
+}
+
+function pricingTemplate(menu: Menu, item: MenuItem, context: Context): Template {
+  const current = pricingValue(item);
+  const groups = Object.values(menu.variants ?? {});
+  const options: [string, string][] = [
+    ["category", translations.category(context)],
+    ["fixed", translations.fixedPrice(context)],
+    ...groups.map((group): [string, string] => [`variants:${group.id}`, `${translations.variants(context)}: ${group.name ?? group.id}`]),
+  ];
+
+  let prices: Template | string = "";
+  if (typeof item.price === "number") {
+    prices = field(translations.price(context), ["items", item.id, "price"], item.price, "number");
+  } else if (isVariantPricing(item.price)) {
+    const pricing = item.price;
+    const group = menu.variants?.[pricing.groupId];
+    prices = html`${(group?.variants ?? []).map((variant) =>
+      field(variant.name, ["items", item.id, "price", "prices", variant.id], pricing.prices[variant.id], "number"),
+    )}`;
+  }
+
+  return html`
+    <label class="${classes.field}">
+      <span class="${classes.label}">${translations.pricing(context)}</span>
+      <select class="${classes.input}" data-pricing-item-id="${item.id}">
+        ${options.map(([value, text]) => html`<option value="${value}" ${value === current ? attributes("selected") : ""}>${text}</option>`)}
+      </select>
+    </label>
+    ${prices}
+  `;
+}
+
+function itemTemplate(menu: Menu, item: MenuItem, data: MenuEditorPageData, context: Context): Template {
+  const at = ["items", item.id];
+  const subMenu = item.subMenu;
+  const target = subMenu ? data.menus[subMenu.menuId] : undefined;
+  const included = subMenu?.included ?? [];
+  const displayOptions: [string, string][] = [
+    ["included", translations.shownIncluded(context)],
+    ["none", translations.hidden(context)],
+  ];
+
+  return html`
+    <details class="${classes.entry}" data-key="items:${item.id}">
+      <summary class="${classes.summary}">
+        ${item.icon ?? ""} ${item.name} <span class="${classes.meta}">${item.id}</span>
+      </summary>
+      <div class="${classes.fields}">
+        ${field(translations.name(context), [...at, "name"], item.name)}
+        ${field(translations.description(context), [...at, "description"], item.description, "optional-text")}
+        ${field(translations.icon(context), [...at, "icon"], item.icon, "optional-text")}
+        ${pricingTemplate(menu, item, context)}
+        ${selectField(
+          translations.choice(context),
+          [...at, "constraints", "choiceId"],
+          item.constraints.choiceId,
+          Object.values(menu.choices ?? {}).map((choice) => [choice.id, choice.name || choice.id]),
+          translations.none(context),
+        )}
+        ${field(translations.min(context), [...at, "constraints", "min"], item.constraints.min, "optional-number")}
+        ${field(translations.max(context), [...at, "constraints", "max"], item.constraints.max, "optional-number")}
+        <label class="${classes.field}">
+          <span class="${classes.label}">${translations.subMenu(context)}</span>
+          <select class="${classes.input}" data-submenu-item-id="${item.id}">
+            <option value="">${translations.none(context)}</option>
+            ${Object.keys(data.menus)
+              .sort()
+              .map((id) => html`<option value="${id}" ${id === subMenu?.menuId ? attributes("selected") : ""}>${id}</option>`)}
+          </select>
+        </label>
+      </div>
+      ${subMenu
+        ? html`
+            <h4 class="${classes.label}">${translations.included(context)}</h4>
+            ${listTemplate(
+              [...at, "subMenu", "included"],
+              included.map((entry) => entry.itemId),
+              target?.items,
+              context,
+              (index) =>
+                selectField(
+                  translations.display(context),
+                  [...at, "subMenu", "included", index, "display"],
+                  included[index].display,
+                  displayOptions,
+                  translations.shown(context),
+                ),
+            )}
+          `
+        : ""}
+      <div class="${classes.actions}">${removeEntryButton("items", item.id, context)}</div>
+    </details>
+  `;
+}
+
+function variantGroupsTemplate(menu: Menu, context: Context): Template {
+  return html`${Object.values(menu.variants ?? {}).map((group) => {
+    const at = ["variants", group.id];
+    return html`
+      <details class="${classes.entry}" data-key="variants:${group.id}">
+        <summary class="${classes.summary}">${group.name ?? group.id} <span class="${classes.meta}">${group.id}</span></summary>
+        <div class="${classes.fields}">
+          ${field(translations.name(context), [...at, "name"], group.name, "optional-text")}
+          ${selectField(
+            translations.defaultVariant(context),
+            [...at, "selectedId"],
+            group.selectedId,
+            group.variants.map((variant) => [variant.id, variant.name]),
+          )}
+        </div>
+        <ol class="${classes.list}">
+          ${group.variants.map(
+            (variant, index) => html`
+              <li class="${classes.listEntry}">
+                <span class="${classes.meta}">${variant.id}</span>
+                ${field(translations.name(context), [...at, "variants", index, "name"], variant.name)}
+                <button type="button" class="${classes.iconButton}" aria-label="${translations.remove(context)}"
+                  data-group-id="${group.id}" data-variant-id="${variant.id}" ${onClick(REMOVE_VARIANT_EVENT)}>✕</button>
+              </li>
+            `,
+          )}
+        </ol>
+        <div class="${classes.addRow}">
+          <input class="${classes.input}" name="new-variant:${group.id}" placeholder="${translations.newId(context)}" />
+          <button type="button" class="${classes.button}" data-group-id="${group.id}" ${onClick(ADD_VARIANT_EVENT)}>
+            ${translations.add(context)}
+          </button>
+        </div>
+        <div class="${classes.actions}">${removeEntryButton("variants", group.id, context)}</div>
+      </details>
+    `;
+  })}`;
+}
+
+function choicesTemplate(menu: Menu, context: Context): Template {
+  return html`${Object.values(menu.choices ?? {}).map(
+    (choice) => html`
+      <div class="${classes.entry} ${classes.row}">
+        <span class="${classes.meta}">${choice.id}</span>
+        ${field(translations.name(context), ["choices", choice.id, "name"], choice.name, "optional-text")}
+        ${field(translations.min(context), ["choices", choice.id, "min"], choice.min, "optional-number")}
+        ${field(translations.max(context), ["choices", choice.id, "max"], choice.max, "optional-number")}
+        ${removeEntryButton("choices", choice.id, context)}
+      </div>
+    `,
+  )}`;
+}
+
+function itemGroupsTemplate(menu: Menu, context: Context): Template {
+  return html`${Object.values(menu.itemGroups).map(
+    (group) => html`
+      <details class="${classes.entry}" data-key="itemGroups:${group.id}">
+        <summary class="${classes.summary}">
+          ${group.name || group.id} <span class="${classes.meta}">${group.id} · ${group.itemIds.length}</span>
+        </summary>
+        <div class="${classes.fields}">${field(translations.name(context), ["itemGroups", group.id, "name"], group.name)}</div>
+        ${listTemplate(["itemGroups", group.id, "itemIds"], group.itemIds, menu.items, context)}
+        <div class="${classes.actions}">${removeEntryButton("itemGroups", group.id, context)}</div>
+      </details>
+    `,
+  )}`;
+}
+
+function sectionTemplate(title: string, section: MenuSection, content: Template, context: Context): Template {
+  return html`
+    <section class="${classes.section}">
+      <h2 class="${classes.sectionTitle}">${title}</h2>
+      ${content}
+      ${addEntryTemplate(section, context)}
+    </section>
+  `;
+}
+
+/**
+ * The form for the opened menu
+ */
+function formTemplate(data: MenuEditorPageData, context: Context): Template {
+  const menu = data.draft;
+  if (!menu) {
+    return html`<p class="${classes.meta}">${data.loading ? translations.loading(context) : ""}</p>`;
+  }
+
+  return html`
+    <section class="${classes.section}">
+      <div class="${classes.fields}">
+        ${field(translations.name(context), ["name"], menu.name)}
+      </div>
+      <p class="${classes.meta}">${translations.languageNote(context)}</p>
+    </section>
+    ${sectionTemplate(
+      translations.items(context),
+      "items",
+      html`${Object.values(menu.items).map((item) => itemTemplate(menu, item, data, context))}`,
+      context,
+    )}
+    ${sectionTemplate(translations.variantGroups(context), "variants", variantGroupsTemplate(menu, context), context)}
+    ${sectionTemplate(translations.choices(context), "choices", choicesTemplate(menu, context), context)}
+    ${sectionTemplate(translations.itemGroups(context), "itemGroups", itemGroupsTemplate(menu, context), context)}
+  `;
+}
+
+function issuesTemplate(data: MenuEditorPageData, context: Context): Template {
+  if (!data.draft) return html``;
+  return html`
+    <h2 class="${classes.sectionTitle}">${translations.issues(context)}</h2>
+    ${data.issues.length === 0
+      ? html`<p class="${classes.meta}">${translations.noIssues(context)}</p>`
+      : html`
+          <ul class="${classes.issues}">
+            ${data.issues.map(
+              (issue) => html`
+                <li class="${classes.issue}" data-severity="${issue.severity}">
+                  ${issue.menuId !== data.draft?.id ? `${issue.menuId} ` : ""}<code>${issue.path}</code> ${issue.message}
+                </li>
+              `,
+            )}
+          </ul>
+        `}
+  `;
+}
+
+/**
+ * The draft as the menu page shows it, in the menu's currency
+ * The preview is inert: its items can't be selected
+ */
+function previewTemplate(data: MenuEditorPageData, context: Context): Template {
+  if (!data.draft) return html``;
+  const previewContext = createContext(context.lang, getCurrencyFormat(data.draft.currency), context.staff);
+  return html`
+    <h2 class="${classes.sectionTitle}">${translations.preview(context)}</h2>
+    <div class="${classes.preview}" inert>
+      ${MenuContentUI.template(toDisplayMenu(data.draft) as MenuPageData, previewContext)}
+    </div>
+  `;
+}
+
+function toolbarTemplate(data: MenuEditorPageData, context: Context): Template {
+  const status = data.saving
+    ? translations.saving(context)
+    : data.dirty
+      ? translations.unsaved(context)
+      : data.saved
+        ? translations.saved(context)
+        : "";
+
+  return html`
+    <div class="${classes.toolbar}">
+      <h1 class="${classes.title}">${translations.menuEditor(context)}</h1>
+      <label class="${classes.field}">
+        <span class="${classes.label}">${translations.menu(context)}</span>
+        <select class="${classes.input}" name="menu-id">
+          ${Object.values(data.menus)
+            .sort((a, b) => a.id.localeCompare(b.id))
+            .map((menu) => html`<option value="${menu.id}" ${menu.id === data.menuId ? attributes("selected") : ""}>${menu.id} · ${menu.name}</option>`)}
+        </select>
+      </label>
+      <button type="button" class="${classes.button}" ${onClick(OPEN_MENU_EVENT)}>${translations.open(context)}</button>
+      <span class="${classes.status}">${status}</span>
+      <button type="button" class="${classes.button}" ${data.dirty ? "" : attributes("disabled")} ${onClick(REVERT_MENU_EVENT)}>
+        ${translations.revert(context)}
+      </button>
+      <button
+        type="button"
+        class="${classes.button} ${classes.buttonPrimary}"
+        ${data.dirty && !data.saving && !hasErrors(data.issues) ? "" : attributes("disabled")}
+        ${onClick(SAVE_MENU_EVENT)}
+      >
+        ${translations.save(context)}
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * Main template for the menu editor
+ */
+export function template(data: MenuEditorPageData, context: Context): Template {
+  if (!hasPermission(context, "menu-edit")) {
+    return html`
+      <div class="${classes.container}">
+        <h1 class="${classes.title}">${translations.menuEditor(context)}</h1>
+        <p class="${classes.meta}">${translations.noPermission(context)}</p>
+      </div>
+    `;
+  }
+
+  return html`
+    <div class="${classes.container}">
+      <div class="${classes.toolbarContainer}">${toolbarTemplate(data, context)}</div>
+      <div class="${classes.errorContainer}">${data.error ? html`<div class="${classes.error}">${data.error}</div>` : ""}</div>
+      <div class="${classes.body}">
+        <div class="${classes.form}">${formTemplate(data, context)}</div>
+        <aside class="${classes.side}">
+          <div class="${classes.issuesContainer}">${issuesTemplate(data, context)}</div>
+          <div class="${classes.previewContainer}">${previewTemplate(data, context)}</div>
+        </aside>
+      </div>
+    </div>
+  `;
+}
+
+export function init(container: HTMLElement, data: MenuEditorPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Value typed into a field, or undefined for fields that aren't menu values
+ * and numbers that can't be read
+ */
+export function readField(element: HTMLElement): { path: MenuPath; value: unknown } | undefined {
+  const { path, valueType } = element.dataset;
+  if (!path || !valueType) return undefined;
+
+  const raw = (element as HTMLInputElement | HTMLSelectElement).value;
+  const empty = raw.trim() === "";
+  let value: unknown = raw;
+  if (valueType === "optional-text") {
+    value = empty ? undefined : raw;
+  } else if (valueType === "number" || valueType === "optional-number") {
+    if (empty && valueType === "optional-number") {
+      value = undefined;
+    } else {
+      value = Number(raw);
+      if (empty || !Number.isFinite(value)) return undefined;
+    }
+  }
+  return { path: JSON.parse(path), value };
+}
+
+/**
+ * Pricing chosen for an item, from its pricing select
+ */
+export function readPricing(element: HTMLElement): { itemId: string; pricing: ItemPricing } | undefined {
+  const itemId = element.dataset.pricingItemId;
+  if (!itemId) return undefined;
+
+  const value = (element as HTMLSelectElement).value;
+  const pricing: ItemPricing = value.startsWith("variants:")
+    ? { kind: "variants", groupId: value.slice("variants:".length) }
+    : { kind: value === "category" ? "category" : "fixed" };
+  return { itemId, pricing };
+}
+
+/**
+ * Menu an item's subMenu leads to, from its sub menu select
+ */
+export function readSubMenu(element: HTMLElement): { itemId: string; menuId: string | undefined } | undefined {
+  const itemId = element.dataset.submenuItemId;
+  if (!itemId) return undefined;
+  return { itemId, menuId: (element as HTMLSelectElement).value || undefined };
+}
+
+/**
+ * Value of a named control of the editor, e.g. "new-items" or "menu-id"
+ */
+export function readValue(container: Element, name: string): string {
+  const control = container.querySelector(`[name="${CSS.escape(name)}"]`) as HTMLInputElement | HTMLSelectElement | null;
+  return control?.value.trim() ?? "";
+}
+
+/**
+ * Update the editor
+ * Values typed into the form only render the issues and the preview again, so
+ * the field keeps its focus; other changes render the form too, with the same
+ * entries opened
+ */
+export function update(
+  container: Element,
+  changes: DataChange<MenuEditorPageData>,
+  context: Context,
+  data: MenuEditorPageData,
+  typed = false,
+): void {
+  if (Object.keys(changes).length === 0) return;
+
+  const part = (selector: string, content: Template) => {
+    const element = container.querySelector(`.${selector}`);
+    if (element) render(content, element);
+  };
+
+  part(classes.toolbarContainer, toolbarTemplate(data, context));
+  part(classes.errorContainer, data.error ? html`<div class="${classes.error}">${data.error}</div>` : html``);
+  part(classes.issuesContainer, issuesTemplate(data, context));
+  part(classes.previewContainer, previewTemplate(data, context));
+
+  if (!typed) {
+    const form = container.querySelector(`.${classes.form}`) as HTMLElement | null;
+    if (!form) return;
+    const opened = Array.from(form.querySelectorAll<HTMLElement>("details[open]")).map((details) => details.dataset.key);
+    render(formTemplate(data, context), form);
+    form.querySelectorAll<HTMLDetailsElement>("details").forEach((details) => {
+      if (opened.includes(details.dataset.key)) details.open = true;
+    });
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "menu-editor-container",
+  toolbarContainer: "menu-editor-toolbar-container",
+  toolbar: "menu-editor-toolbar",
+  title: "menu-editor-title",
+  status: "menu-editor-status",
+  errorContainer: "menu-editor-error-container",
+  error: "menu-editor-error",
+  body: "menu-editor-body",
+  form: "menu-editor-form",
+  side: "menu-editor-side",
+  section: "menu-editor-section",
+  sectionTitle: "menu-editor-section-title",
+  entry: "menu-editor-entry",
+  summary: "menu-editor-summary",
+  row: "menu-editor-row",
+  fields: "menu-editor-fields",
+  field: "menu-editor-field",
+  label: "menu-editor-label",
+  input: "menu-editor-input",
+  meta: "menu-editor-meta",
+  list: "menu-editor-list",
+  listEntry: "menu-editor-list-entry",
+  listName: "menu-editor-list-name",
+  addRow: "menu-editor-add-row",
+  actions: "menu-editor-actions",
+  button: "menu-editor-button",
+  buttonPrimary: "menu-editor-button-primary",
+  buttonDanger: "menu-editor-button-danger",
+  iconButton: "menu-editor-icon-button",
+  issuesContainer: "menu-editor-issues-container",
+  issues: "menu-editor-issues",
+  issue: "menu-editor-issue",
+  previewContainer: "menu-editor-preview-container",
+  preview: "menu-editor-preview",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
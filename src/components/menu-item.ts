@@ -1,21 +1,36 @@
 /**
  * Menu Item Component
- * Individual menu item with selection states
+ * Individual menu item with selection states; sold out items are shown
+ * disabled, and managers can mark them sold out for the day
  *
  * @see /component-guidelines.md for component patterns and conventions
  */
 
 import "./menu-item.css";
-import { html, Template, replaceElements, dataAttr } from "@/lib/template";
+import { html, Template, replaceElements, dataAttr, attributes } from "@/lib/template";
 import { onClick, setDataAttribute } from "@/lib/events";
-import { Context, withContext } from "@/lib/context";
+import { Context, createTranslation, withContext } from "@/lib/context";
 import { DataChange } from "@/lib/data-model-types";
 import { DisplayMenuItem } from "@/model/menu-model";
+import { MenuItem } from "@/types";
 import { getIcon } from "@/lib/icons";
 
 export const ORDER_ITEM_EVENT = "order-item";
 export const OPEN_MENU_EVENT = "open-menu";
 export const MENU_ITEM_CLICK = "menu-item-click";
+export const TOGGLE_SOLD_OUT_EVENT = "toggle-sold-out-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  soldOut: createTranslation({ sq: "Mbaroi", en: "Sold out", it: "Esaurito" }),
+  markSoldOut: createTranslation({
+    sq: "Shëno si të mbaruar për sot",
+    en: "Mark sold out for today",
+    it: "Segna come esaurito per oggi",
+  }),
+};
 
 /**
  * Price template - renders the price or navigation chevron
@@ -28,6 +43,18 @@ function priceTemplate(context: Context, price?: number): Template {
   return html`<span class="${classes.price}">${getIcon('chevron_right')}</span>`;
 }
 
+/**
+ * Name and description
+ */
+function textTemplate(item: MenuItem): Template {
+  return html`
+    <div class="${classes.text}">
+      <span class="${classes.name}">${item.name}</span>
+      ${item.description ? html`<p class="${classes.description}">${item.description}</p>` : ""}
+    </div>
+  `;
+}
+
 /**
  * Menu item template - pure function
  */
@@ -44,16 +71,28 @@ export function template(item: DisplayMenuItem, context: Context): Template {
       ${dataAttr("included", item.included)}
       ${dataAttr("selected", item.selected)}
       ${dataAttr("required", item.isRequired)}
+      data-available="${item.available}"
+      ${item.available ? "" : attributes(`aria-disabled="true"`)}
       ${onClick(MENU_ITEM_CLICK)}
     >
       <div class="${classes.content}">
         <span class="${classes.control}"></span>
         <span class="${classes.icon}">${item.data.icon || ""}</span>
-        <div class="${classes.text}">
-          <span class="${classes.name}">${item.data.name}</span>
-          ${item.data.description ? html`<p class="${classes.description}">${item.data.description}</p>` : ""}
-        </div>
+        ${textTemplate(item.data)}
+        <span class="${classes.soldOut}">${translations.soldOut(context)}</span>
         ${priceTemplate(context, item.price)}
+        ${item.isCategory
+          ? ""
+          : html`<button
+              class="${classes.soldOutToggle}"
+              data-id="${item.data.id}"
+              data-name="${item.data.name}"
+              title="${translations.markSoldOut(context)}"
+              aria-pressed="${!item.available}"
+              ${onClick(TOGGLE_SOLD_OUT_EVENT)}
+            >
+              86
+            </button>`}
       </div>
     </div>
   `;
@@ -64,6 +103,14 @@ export function template(item: DisplayMenuItem, context: Context): Template {
  */
 export function update(container: Element, changes: DataChange<DisplayMenuItem>, context: Context): void {
   // Note: This component treats container AS the menu item element itself
+  // Item replaced after the menu changed on the server
+  if (changes.data && "name" in changes.data) {
+    const data = changes.data as MenuItem;
+    replaceElements(container, `.${classes.text}`, textTemplate(data));
+    const icon = container.querySelector(`.${classes.icon}`);
+    if (icon) icon.textContent = data.icon || "";
+  }
+
   // Check if price has changed
   if ("price" in changes) {
     replaceElements(container, `.${classes.price}`, priceTemplate(context, changes.price));
@@ -80,6 +127,16 @@ export function update(container: Element, changes: DataChange<DisplayMenuItem>,
   if ("isRequired" in changes) {
     setDataAttribute(container as HTMLElement, "required", changes.isRequired);
   }
+
+  if ("available" in changes) {
+    setDataAttribute(container as HTMLElement, "available", changes.available);
+    if (changes.available) {
+      container.removeAttribute("aria-disabled");
+    } else {
+      container.setAttribute("aria-disabled", "true");
+    }
+    container.querySelector(`.${classes.soldOutToggle}`)?.setAttribute("aria-pressed", String(!changes.available));
+  }
 }
 
 /**
@@ -94,6 +151,8 @@ export const classes = {
   name: "menu-item-name",
   description: "menu-item-description",
   price: "menu-item-price",
+  soldOut: "menu-item-sold-out",
+  soldOutToggle: "menu-item-sold-out-toggle",
 } as const;
 
 // Export as styles for backward compatibility
@@ -12,7 +12,7 @@ import * as MenuContent from "./menu-content";
 import * as AppHeader from "./app-header";
 import * as AppBottomBar from "./app-bottom-bar";
 import { styles as layoutStyles } from "./app-layout";
-import { getOrder } from "@/model/order-model";
+import { getActiveTable, getOrder } from "@/model/order-model";
 import { typeChange } from "tsqn";
 import { dom } from "@/lib/dom-node";
 
@@ -62,6 +62,7 @@ export function hydrate(container: Element, displayMenu: DisplayMenu, context: C
         type: leftButtonType,
         onClick: () => dom(document.body).dispatch("navigate", { to: leftButtonType === "home" ? "home" : "back" }),
       },
+      tableNumber: getActiveTable(),
     };
     AppHeader.hydrate(header, context, headerData);
   }
@@ -9,7 +9,7 @@ import { dom } from "@/lib/dom-node";
 import { Context, withContext, commonTranslations } from "@/lib/context";
 import { DisplayMenu, MenuPageData } from "@/model/menu-model";
 import { DataChange } from "@/lib/data-model-types";
-import { OrderItem } from "@/model/order-model";
+import { getActiveTable, OrderItem } from "@/model/order-model";
 import { getIcon } from "@/lib/icons";
 import * as MenuContent from "./menu-content";
 import * as AppHeader from "./app-header";
@@ -207,6 +207,13 @@ export function template(displayMenu: DisplayMenu, context: Context): Template {
         ${errorContentTemplate(context)}
         <div class="modifier-content" style="display: flex; flex-direction: column;">
           ${orderItemTemplate()}
+          <p class="modifier-save-error" role="alert" hidden style="
+            margin: 0 var(--md-sys-spacing-md);
+            padding: var(--md-sys-spacing-sm) var(--md-sys-spacing-md);
+            border-radius: var(--md-sys-shape-corner-medium);
+            background: var(--md-sys-color-error-container);
+            color: var(--md-sys-color-on-error-container);
+          "></p>
           ${MenuContent.template(displayMenu, context)}
         </div>
       </main>
@@ -268,6 +275,7 @@ export function hydrate(container: Element, _displayMenu: DisplayMenu, context:
         type: "back",
         onClick: () => dom(document.body).dispatch("navigate", { to: "back" }),
       },
+      tableNumber: getActiveTable(),
     };
     AppHeader.hydrate(header, context, headerData);
   }
@@ -306,6 +314,17 @@ function showError(container: Element): void {
   }
 }
 
+/**
+ * Show why the order item could not be saved
+ */
+export function showSaveError(container: Element, message: string): void {
+  const error = container.querySelector('.modifier-save-error') as HTMLElement;
+  if (!error) return;
+
+  error.textContent = message;
+  error.hidden = false;
+}
+
 /**
  * Update function for menu-page
  */
@@ -9,6 +9,7 @@ import { html, Template, render } from "@/lib/template";
 import { Context, commonTranslations } from "@/lib/context";
 import { OrderPageData } from "@/model/order-model";
 import * as OrderItemUI from "./order-item";
+import * as OrderTotalsUI from "./order-totals";
 import { styles as itemListStyles } from "./item-list";
 import { DataChange } from "@/lib/data-model-types";
 import { typeChange } from "@/lib/data-model";
@@ -44,6 +45,7 @@ function orderItemsTemplate(data: OrderPageData, context: Context): Template {
       <div class="${itemListStyles.items}" data-has-expanded="${data.expandedId != null}">
         ${orderedItems.map((displayItem) => OrderItemUI.template(displayItem, context))}
       </div>
+      <div class="${OrderTotalsUI.classes.container}">${OrderTotalsUI.template(data, context)}</div>
     </div>
   `;
 }
@@ -81,8 +83,21 @@ export function update(
     }
   }
 
+  if ("totals" in changes || "editingDiscount" in changes || (changes.order && "discount" in changes.order)) {
+    const totalsElement = container.querySelector(`.${OrderTotalsUI.classes.container}`);
+    if (totalsElement) {
+      OrderTotalsUI.update(totalsElement, data, context);
+    }
+  }
+
   if (!changes.items) return;
 
+  // The last item was removed
+  if (data.order.itemIds.length === 0) {
+    render(template(data, context), container);
+    return;
+  }
+
   // Check if any items are new (using typeChange to detect new keys)
   const hasNewItem = Object.keys(changes.items).some(
     (itemId) => typeChange(itemId, changes.items) && (changes.items as any)[itemId] != null,
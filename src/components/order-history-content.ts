@@ -0,0 +1,341 @@
+/**
+ * Order History Content Component
+ * Past orders from the server's order store, filtered by date, table and
+ * status, with the opened order's lines, totals and payments
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./order-history-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, formatPrice, getCurrencyFormat, hasPermission, withContext } from "@/lib/context";
+import { OrderHistoryPageData, reopenOrder } from "@/model/order-history-model";
+import { adjustmentTotals } from "@/model/adjustment-model";
+import { OrderFilter, StoredOrder, StoredOrderStatus, StoredOrderSummary } from "@/services/order-history-service";
+import { styles as itemListStyles } from "./item-list";
+import * as AdjustmentEditorUI from "./adjustment-editor";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types - data-order-id is the stored order's ID
+export const FILTER_ORDERS_EVENT = "filter-orders-event";
+export const SELECT_ORDER_EVENT = "select-order-event";
+export const CLOSE_ORDER_EVENT = "close-order-event";
+export const REPRINT_ORDER_EVENT = "reprint-order-event";
+export const REFUND_ORDER_EVENT = "refund-order-event";
+export const REOPEN_ORDER_EVENT = "reopen-order-event";
+
+const STATUSES: StoredOrderStatus[] = ["open", "paid", "refunded"];
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  history: createTranslation({ sq: "Historiku i porosive", en: "Order history", it: "Storico ordini" }),
+  from: createTranslation({ sq: "Nga", en: "From", it: "Dal" }),
+  to: createTranslation({ sq: "Deri", en: "To", it: "Al" }),
+  table: createTranslation({ sq: "Tavolina", en: "Table", it: "Tavolo" }),
+  takeaway: createTranslation({ sq: "Për të marrë", en: "Takeaway", it: "Da asporto" }),
+  status: createTranslation({ sq: "Statusi", en: "Status", it: "Stato" }),
+  all: createTranslation({ sq: "Të gjitha", en: "All", it: "Tutti" }),
+  show: createTranslation({ sq: "Shfaq", en: "Show", it: "Mostra" }),
+  items: createTranslation({ sq: "artikuj", en: "items", it: "articoli" }),
+  discounts: createTranslation({ sq: "Zbritjet", en: "Discounts", it: "Sconti" }),
+  voided: createTranslation({ sq: "Të anuluara", en: "Voided", it: "Stornati" }),
+  comped: createTranslation({ sq: "Falas", en: "Comped", it: "Omaggi" }),
+  approvedBy: createTranslation({ sq: "miratuar nga", en: "approved by", it: "approvato da" }),
+  service: createTranslation({ sq: "Shërbimi", en: "Service charge", it: "Servizio" }),
+  tax: createTranslation({ sq: "TVSH", en: "Tax", it: "IVA" }),
+  payments: createTranslation({ sq: "Pagesat", en: "Payments", it: "Pagamenti" }),
+  cash: createTranslation({ sq: "Para në dorë", en: "Cash", it: "Contanti" }),
+  card: createTranslation({ sq: "Kartë", en: "Card", it: "Carta" }),
+  close: createTranslation({ sq: "Mbyll", en: "Close", it: "Chiudi" }),
+  reprint: createTranslation({ sq: "Printo kopje", en: "Reprint", it: "Ristampa" }),
+  refund: createTranslation({ sq: "Rimburso", en: "Refund", it: "Rimborsa" }),
+  reopen: createTranslation({ sq: "Rihap", en: "Reopen", it: "Riapri" }),
+  loading: createTranslation({ sq: "Duke ngarkuar...", en: "Loading...", it: "Caricamento..." }),
+  noOrders: createTranslation({ sq: "Asnjë porosi", en: "No orders", it: "Nessun ordine" }),
+  noOrdersMessage: createTranslation({
+    sq: "Porositë e dërguara në këto ditë shfaqen këtu",
+    en: "Orders sent on these days show up here",
+    it: "Gli ordini inviati in questi giorni appaiono qui",
+  }),
+};
+
+const statusLabels: Record<StoredOrderStatus, ReturnType<typeof createTranslation>> = {
+  open: createTranslation({ sq: "E hapur", en: "Open", it: "Aperto" }),
+  paid: createTranslation({ sq: "E paguar", en: "Paid", it: "Pagato" }),
+  refunded: createTranslation({ sq: "E rimbursuar", en: "Refunded", it: "Rimborsato" }),
+};
+
+/**
+ * Amounts in the order's own currency
+ */
+function priceOf(currency: string) {
+  const format = getCurrencyFormat(currency);
+  return (amount: number) => formatPrice(amount, format);
+}
+
+/**
+ * Local date and time of an ISO timestamp, e.g. "2026-10-18 14:05"
+ */
+function localTime(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function whereLabel(tableNumber: string | null, context: Context): string {
+  return tableNumber ? `${translations.table(context)} ${tableNumber}` : translations.takeaway(context);
+}
+
+function filterTemplate(filter: OrderFilter, context: Context): Template {
+  return html`
+    <div class="${classes.filters}">
+      <label class="${classes.field}">
+        <span class="${classes.label}">${translations.from(context)}</span>
+        <input class="${classes.input}" name="from" type="date" value="${filter.from ?? ""}" />
+      </label>
+      <label class="${classes.field}">
+        <span class="${classes.label}">${translations.to(context)}</span>
+        <input class="${classes.input}" name="to" type="date" value="${filter.to ?? ""}" />
+      </label>
+      <label class="${classes.field}">
+        <span class="${classes.label}">${translations.table(context)}</span>
+        <input class="${classes.input}" name="table" type="text" inputmode="numeric" size="4" value="${filter.table ?? ""}" />
+      </label>
+      <label class="${classes.field}">
+        <span class="${classes.label}">${translations.status(context)}</span>
+        <select class="${classes.input}" name="status">
+          <option value="">${translations.all(context)}</option>
+          ${STATUSES.map(
+            (status) =>
+              html`<option value="${status}" ${status === filter.status ? attributes("selected") : ""}>${statusLabels[status](context)}</option>`,
+          )}
+        </select>
+      </label>
+      <button class="${classes.button} ${classes.buttonPrimary}" ${onClick(FILTER_ORDERS_EVENT)}>${translations.show(context)}</button>
+    </div>
+  `;
+}
+
+function rowTemplate(order: StoredOrderSummary, selected: boolean, context: Context): Template {
+  return html`
+    <button class="${classes.row}" data-order-id="${order.id}" aria-selected="${selected}" ${onClick(SELECT_ORDER_EVENT)}>
+      <span class="${classes.rowTime}">${localTime(order.createdAt)}</span>
+      <span class="${classes.rowName}">
+        ${whereLabel(order.tableNumber, context)}
+        <span class="${classes.rowMeta}">${order.id} · ${order.itemCount} ${translations.items(context)}</span>
+      </span>
+      <span class="${classes.status}" data-status="${order.status}">${statusLabels[order.status](context)}</span>
+      <span class="${classes.amount}">${priceOf(order.currency)(order.total - (order.discountAmount ?? 0))}</span>
+    </button>
+  `;
+}
+
+function listTemplate(data: OrderHistoryPageData, context: Context): Template {
+  if (data.orderIds.length === 0) {
+    return html`
+      <div class="${itemListStyles.emptyContainer}">
+        <div class="${itemListStyles.emptyIcon}">🧾</div>
+        <h2 class="${itemListStyles.emptyTitle}">
+          ${data.loading ? translations.loading(context) : translations.noOrders(context)}
+        </h2>
+        ${data.loading ? "" : html`<p class="${itemListStyles.emptyMessage}">${translations.noOrdersMessage(context)}</p>`}
+      </div>
+    `;
+  }
+
+  return html`
+    <div class="${classes.list}">
+      ${data.orderIds
+        .map((id) => data.orders[id])
+        .filter((order) => order != null)
+        .map((order) => rowTemplate(order, order.id === data.selected?.id, context))}
+    </div>
+  `;
+}
+
+/**
+ * Opened order: lines, totals and payments, with reprint and refund
+ */
+function detailTemplate(stored: StoredOrder, data: OrderHistoryPageData, context: Context): Template {
+  const { t } = withContext(context);
+  const price = priceOf(stored.currency);
+  const { order, items, totals } = reopenOrder(stored, data.charges);
+  const adjusted = adjustmentTotals(Object.values(stored.items));
+
+  const totalRow = (label: string, amount: string, strong = false) => html`
+    <div class="${classes.totalRow} ${strong ? classes.totalStrong : ""}">
+      <span>${label}</span><span class="${classes.amount}">${amount}</span>
+    </div>
+  `;
+
+  return html`
+    <section class="${classes.detail}" data-order-id="${stored.id}">
+      <div class="${classes.detailHeader}">
+        <h2 class="${classes.detailTitle}">${whereLabel(stored.tableNumber, context)}</h2>
+        <span class="${classes.status}" data-status="${stored.status}">${statusLabels[stored.status](context)}</span>
+      </div>
+      <div class="${classes.rowMeta}">${stored.orderNumbers.join(", ")} · ${localTime(stored.createdAt)}</div>
+
+      <ul class="${classes.lines}">
+        ${order.itemIds.map((id) => {
+          const { item } = items[id];
+          const { adjustment } = item;
+          return html`
+            <li class="${classes.line}">
+              <span>
+                ${item.quantity}× ${item.menuItem.name}${item.variant ? ` (${item.variant.name})` : ""}
+                ${adjustment
+                  ? html`<span class="${classes.rowMeta}">
+                      ${AdjustmentEditorUI.adjustmentLabel(adjustment, context)} · ${translations.approvedBy(context)}
+                      ${adjustment.approvedBy}
+                    </span>`
+                  : ""}
+              </span>
+              <span class="${classes.amount}">
+                ${adjustment ? html`<s>${price(adjustment.amount)}</s> ` : ""}${price(item.total)}
+              </span>
+            </li>
+          `;
+        })}
+      </ul>
+
+      <div class="${classes.totals}">
+        ${adjusted.void > 0 ? totalRow(translations.voided(context), `-${price(adjusted.void)}`) : ""}
+        ${adjusted.comp > 0 ? totalRow(translations.comped(context), `-${price(adjusted.comp)}`) : ""}
+        ${order.discountAmount ? totalRow(translations.discounts(context), `-${price(order.discountAmount)}`) : ""}
+        ${totals.service > 0 ? totalRow(translations.service(context), price(totals.service)) : ""}
+        ${totals.tax > 0 ? totalRow(translations.tax(context), price(totals.tax)) : ""}
+        ${totalRow(t("total"), price(totals.total), true)}
+      </div>
+
+      ${stored.payments.length > 0
+        ? html`
+            <h3 class="${classes.label}">${translations.payments(context)}</h3>
+            <ul class="${classes.lines}">
+              ${stored.payments.flatMap((payment) =>
+                payment.tenders.map(
+                  (tender) => html`
+                    <li class="${classes.line}">
+                      <span>${translations[tender.method](context)} · ${localTime(payment.paidAt)}</span>
+                      <span class="${classes.amount}">${price(tender.amount)}</span>
+                    </li>
+                  `,
+                ),
+              )}
+            </ul>
+          `
+        : ""}
+
+      <div class="${classes.actions}">
+        <button class="${classes.button}" ${onClick(CLOSE_ORDER_EVENT)}>${translations.close(context)}</button>
+        <button class="${classes.button}" data-order-id="${stored.id}" ${onClick(REPRINT_ORDER_EVENT)}>
+          ${translations.reprint(context)}
+        </button>
+        ${stored.status !== "open" && hasPermission(context, "reopen")
+          ? html`<button class="${classes.button}" data-order-id="${stored.id}" ${onClick(REOPEN_ORDER_EVENT)}>
+              ${translations.reopen(context)}
+            </button>`
+          : ""}
+        ${stored.status === "paid" && hasPermission(context, "void")
+          ? html`<button class="${classes.button} ${classes.buttonDanger}" data-order-id="${stored.id}" ${onClick(REFUND_ORDER_EVENT)}>
+              ${translations.refund(context)}
+            </button>`
+          : ""}
+      </div>
+    </section>
+  `;
+}
+
+/**
+ * Main template for the order history
+ */
+export function template(data: OrderHistoryPageData, context: Context): Template {
+  return html`
+    <div class="${classes.container}">
+      <div class="${classes.toolbar}">
+        <h1 class="${classes.title}">${translations.history(context)}</h1>
+      </div>
+      ${filterTemplate(data.filter, context)}
+      ${data.error ? html`<div class="${classes.error}">${data.error}</div>` : ""}
+      <div class="${classes.body}">
+        <div class="${classes.listContainer}">${listTemplate(data, context)}</div>
+        ${data.selected ? detailTemplate(data.selected, data, context) : ""}
+      </div>
+    </div>
+  `;
+}
+
+export function init(container: HTMLElement, data: OrderHistoryPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Read the filter entered in the filter bar; empty fields are left out
+ */
+export function readFilter(): OrderFilter {
+  const filters = document.querySelector(`.${classes.filters}`);
+  const value = (name: string) =>
+    (filters?.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLSelectElement | null)?.value.trim() || undefined;
+
+  const filter: OrderFilter = {};
+  const from = value("from");
+  const to = value("to");
+  const table = value("table");
+  const status = value("status") as StoredOrderStatus | undefined;
+  if (from) filter.from = from;
+  if (to) filter.to = to;
+  if (table) filter.table = table;
+  if (status && STATUSES.includes(status)) filter.status = status;
+  return filter;
+}
+
+/**
+ * Update the order history
+ * Lists are short, so any change renders the content again
+ */
+export function update(container: Element, changes: DataChange<OrderHistoryPageData>, context: Context, data: OrderHistoryPageData): void {
+  if (Object.keys(changes).length > 0) {
+    render(template(data, context), container);
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "order-history-container",
+  toolbar: "order-history-toolbar",
+  title: "order-history-title",
+  filters: "order-history-filters",
+  field: "order-history-field",
+  label: "order-history-label",
+  input: "order-history-input",
+  button: "order-history-button",
+  buttonPrimary: "order-history-button-primary",
+  buttonDanger: "order-history-button-danger",
+  error: "order-history-error",
+  body: "order-history-body",
+  listContainer: "order-history-list-container",
+  list: "order-history-list",
+  row: "order-history-row",
+  rowTime: "order-history-row-time",
+  rowName: "order-history-row-name",
+  rowMeta: "order-history-row-meta",
+  status: "order-history-status",
+  amount: "order-history-amount",
+  detail: "order-history-detail",
+  detailHeader: "order-history-detail-header",
+  detailTitle: "order-history-detail-title",
+  lines: "order-history-lines",
+  line: "order-history-line",
+  totals: "order-history-totals",
+  totalRow: "order-history-total-row",
+  totalStrong: "order-history-total-strong",
+  actions: "order-history-actions",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
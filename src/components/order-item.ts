@@ -6,12 +6,17 @@
  */
 
 import "./order-item.css";
-import { html, Template, dataAttr } from "@/lib/template";
-import { CLICK_EVENT, onClick } from "@/lib/events";
+import { html, Template, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
 import { replaceElement } from "@/lib/template";
-import { Context, withContext } from "@/lib/context";
+import { Context, createTranslation, hasPermission, withContext } from "@/lib/context";
 import { OrderModifier, DisplayItem } from "@/model/order-model";
+import { isEditable } from "@/model/order-lifecycle";
+import { canAdjust } from "@/model/adjustment-model";
 import { styles as itemListStyles } from "./item-list";
+import * as DiscountEditorUI from "./discount-editor";
+import * as AdjustmentEditorUI from "./adjustment-editor";
+import { dom } from "@/lib/dom-node";
 import { DataChange } from "@/lib/data-model-types";
 
 // Event constants
@@ -20,15 +25,108 @@ export const DECREASE_QUANTITY_EVENT = "decrease-quantity-event";
 export const MODIFY_ITEM_EVENT = "modify-item-event";
 export const TOGGLE_ITEM_EVENT = "toggle-item-event";
 export const COMMENT_ITEM_EVENT = "comment-item-event";
+export const SAVE_NOTE_EVENT = "save-note-event";
+export const CANCEL_NOTE_EVENT = "cancel-note-event";
+export const DISCOUNT_ITEM_EVENT = "discount-item-event";
+export const VOID_ITEM_EVENT = "void-item-event";
+export const COMP_ITEM_EVENT = "comp-item-event";
+export const REMOVE_ITEM_EVENT = "remove-item-event";
+
+// Share of the item's width a swipe has to cover to remove it
+const SWIPE_REMOVE_RATIO = 0.4;
 
 // Removed OrderItemData - using DisplayItem from model instead
 
+/**
+ * Status labels
+ */
+const statusLabels = {
+  newRound: createTranslation({ sq: "Raund i ri", en: "New round", it: "Nuovo giro" }),
+  sent: createTranslation({ sq: "Dërguar", en: "Sent", it: "Inviato" }),
+  preparing: createTranslation({ sq: "Në përgatitje", en: "Preparing", it: "In preparazione" }),
+  served: createTranslation({ sq: "Shërbyer", en: "Served", it: "Servito" }),
+  soldOut: createTranslation({ sq: "Mbaroi", en: "Sold out", it: "Esaurito" }),
+};
+
+/**
+ * Note editor labels
+ */
+const noteLabels = {
+  placeholder: createTranslation({
+    sq: "Udhëzime të veçanta",
+    en: "Special instructions",
+    it: "Istruzioni speciali",
+  }),
+  save: createTranslation({ sq: "Ruaj", en: "Save", it: "Salva" }),
+  cancel: createTranslation({ sq: "Anulo", en: "Cancel", it: "Annulla" }),
+};
+
+/**
+ * Inline note editor shown in the expanded view
+ */
+function noteEditorTemplate(displayItem: DisplayItem, context: Context): Template {
+  const item = displayItem.item;
+  return html`
+    <div class="${classes.noteEditor}">
+      <textarea class="${classes.noteInput}" rows="2" placeholder="${noteLabels.placeholder(context)}">${item.notes ?? ""}</textarea>
+      <div class="${classes.noteActions}">
+        <button class="${classes.actionBtn}" data-item-id="${item.id}" ${onClick(CANCEL_NOTE_EVENT)}>
+          ${noteLabels.cancel(context)}
+        </button>
+        <button class="${classes.actionBtn} ${classes.actionBtnSecondary}" data-item-id="${item.id}" ${onClick(SAVE_NOTE_EVENT)}>
+          ${noteLabels.save(context)}
+        </button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Read the note typed into an item's editor
+ */
+export function readNote(itemId: string): string {
+  const input = document.querySelector(`#order-item-${itemId} .${classes.noteInput}`) as HTMLTextAreaElement | null;
+  return input?.value.trim() ?? "";
+}
+
+/**
+ * Status chip - nothing for drafts on an unsent order, unless the stock
+ * check found them sold out
+ */
+function statusTemplate(displayItem: DisplayItem, context: Context): Template {
+  const status = displayItem.item.status;
+  if (status === "draft") {
+    if (displayItem.soldOut) {
+      return html`<span class="${classes.status}" data-status="sold-out">${statusLabels.soldOut(context)}</span>`;
+    }
+    return displayItem.newRound
+      ? html`<span class="${classes.status}" data-status="new-round">${statusLabels.newRound(context)}</span>`
+      : html``;
+  }
+  return html`<span class="${classes.status}" data-status="${status}">${statusLabels[status](context)}</span>`;
+}
+
+/**
+ * Promotion or discount chip - the promotion's name, or the manual discount;
+ * a voided or comped item shows the void or comp instead
+ */
+function discountTemplate(displayItem: DisplayItem, context: Context): Template {
+  const { promotion, discount, adjustment } = displayItem.item;
+  if (adjustment) {
+    return html`<span class="${classes.discount}">${AdjustmentEditorUI.adjustmentLabel(adjustment, context)}</span>`;
+  }
+  if (!promotion && !discount) return html``;
+
+  const labels = [promotion?.name, discount ? DiscountEditorUI.discountLabel(discount, context) : undefined];
+  return html`<span class="${classes.discount}">${labels.filter((label) => label).join(" · ")}</span>`;
+}
+
 /**
  * Modification token types
  */
-type ModificationTokenType = "removed" | "added-free" | "added-priced";
+export type ModificationTokenType = "removed" | "added-free" | "added-priced";
 
-interface ModificationToken {
+export interface ModificationToken {
   name: string;
   type: ModificationTokenType;
   price?: number;
@@ -37,7 +135,7 @@ interface ModificationToken {
 /**
  * Generate modification tokens from modifiers
  */
-function generateModificationTokens(modifiers: OrderModifier[]): ModificationToken[] {
+export function generateModificationTokens(modifiers: OrderModifier[]): ModificationToken[] {
   return modifiers.map((modifier) => {
     if (modifier.quantity === 0) {
       return { name: modifier.name, type: "removed", price: modifier.price };
@@ -61,7 +159,7 @@ function generateModificationTokens(modifiers: OrderModifier[]): ModificationTok
 /**
  * Modification token template for collapsed view (horizontal, no prices)
  */
-function modificationTokenTemplate(token: ModificationToken): Template {
+export function modificationTokenTemplate(token: ModificationToken): Template {
   const className =
     token.type === "removed"
       ? classes.tokenRemoved
@@ -92,6 +190,53 @@ function modificationItemTemplate(modifier: OrderModifier, formatPrice: (amount:
   `;
 }
 
+/**
+ * Remove button of a draft item
+ */
+function removeButtonTemplate(itemId: string): Template {
+  return html`
+    <button class="${classes.actionBtn} ${classes.actionBtnDestructive}" data-item-id="${itemId}" ${onClick(REMOVE_ITEM_EVENT)}>
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <path d="M3 6h18" />
+        <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+        <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+      </svg>
+      Remove
+    </button>
+  `;
+}
+
+/**
+ * Void and comp buttons of a sent item, disabled once it was voided or comped
+ */
+function adjustButtonsTemplate(displayItem: DisplayItem): Template {
+  const item = displayItem.item;
+  const disabled = !canAdjust(item) || displayItem.adjusting != null;
+  return html`
+    <button
+      class="${classes.actionBtn} ${classes.actionBtnDestructive}"
+      data-item-id="${item.id}"
+      ${onClick(VOID_ITEM_EVENT)}
+      ${disabled ? attributes("disabled") : ""}
+    >
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <circle cx="12" cy="12" r="9" />
+        <path d="m5.7 5.7 12.6 12.6" />
+      </svg>
+      Void
+    </button>
+    <button class="${classes.actionBtn}" data-item-id="${item.id}" ${onClick(COMP_ITEM_EVENT)} ${disabled ? attributes("disabled") : ""}>
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <rect x="3" y="8" width="18" height="4" rx="1" />
+        <path d="M12 8v13" />
+        <path d="M19 12v7a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2v-7" />
+        <path d="M7.5 8a2.5 2.5 0 0 1 0-5C11 3 12 8 12 8s1-5 4.5-5a2.5 2.5 0 0 1 0 5" />
+      </svg>
+      Comp
+    </button>
+  `;
+}
+
 /**
  * Order item template
  */
@@ -101,6 +246,7 @@ export function template(displayItem: DisplayItem, context: Context): Template {
   const hasModifiers = item.modifiers && item.modifiers.length > 0;
   const tokens = hasModifiers ? generateModificationTokens(item.modifiers) : [];
   const showQuantityInHeader = item.quantity > 1 && !displayItem.expanded;
+  const editable = isEditable(item);
 
   const itemClasses = `${itemListStyles.item} ${classes.orderItem}`;
 
@@ -110,6 +256,8 @@ export function template(displayItem: DisplayItem, context: Context): Template {
       id="order-item-${item.id}"
       data-expanded="${displayItem.expanded ? "true" : "false"}"
       data-flat-mode="${displayItem.flatMode ? "true" : "false"}"
+      data-status="${item.status}"
+      data-adjustment="${item.adjustment?.kind ?? ""}"
     >
       <div class="${classes.header}" data-item-id="${item.id}" ${onClick(TOGGLE_ITEM_EVENT)}>
         <div class="${classes.info}">
@@ -117,6 +265,12 @@ export function template(displayItem: DisplayItem, context: Context): Template {
           <div class="${classes.details}">
             <div class="${classes.titleSection}">
               <h3 class="${classes.name}">${item.menuItem.name}</h3>
+              ${statusTemplate(displayItem, context)}
+              ${item.adjustment
+                ? html`<s class="${classes.priceOriginal}">${formatPrice(item.adjustment.amount)}</s>`
+                : item.discountAmount
+                  ? html`<s class="${classes.priceOriginal}">${formatPrice(item.total + item.discountAmount)}</s>`
+                  : ""}
               <div class="${classes.price}">${formatPrice(item.total)}</div>
             </div>
             <div class="${classes.descriptionSection}">
@@ -127,6 +281,8 @@ export function template(displayItem: DisplayItem, context: Context): Template {
                     ? html`<p class="${classes.description}">${item.menuItem.description}</p>`
                     : ""
                 : ""}
+              ${!displayItem.expanded && item.notes ? html`<p class="${classes.note}">${item.notes}</p>` : ""}
+              ${discountTemplate(displayItem, context)}
               ${showQuantityInHeader
                 ? html`<span class="${classes.quantity}">${item.quantity} × ${formatPrice(item.unitPrice)}</span>`
                 : ""}
@@ -152,6 +308,13 @@ export function template(displayItem: DisplayItem, context: Context): Template {
               ${item.menuItem.description
                 ? html`<p class="${classes.expandedDescription}">${item.menuItem.description}</p>`
                 : ""}
+              ${displayItem.editingNote
+                ? noteEditorTemplate(displayItem, context)
+                : item.notes
+                  ? html`<p class="${classes.note} ${classes.noteExpanded}">${item.notes}</p>`
+                  : ""}
+              ${displayItem.editingDiscount ? DiscountEditorUI.template(item.id, item.discount, context) : ""}
+              ${displayItem.adjusting ? AdjustmentEditorUI.template(item.id, displayItem.adjusting, context) : ""}
               ${hasModifiers
                 ? html`<div class="${classes.modificationsList}">
                     ${item.modifiers.map((modifier) => modificationItemTemplate(modifier, formatPrice))}
@@ -164,14 +327,19 @@ export function template(displayItem: DisplayItem, context: Context): Template {
                     class="${classes.quantityBtn}"
                     data-item-id="${item.id}"
                     ${onClick(DECREASE_QUANTITY_EVENT)}
-                    ${item.quantity <= 1 ? "disabled" : ""}
+                    ${!editable || item.quantity <= 1 ? attributes("disabled") : ""}
                   >
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                       <path d="M5 12h14" />
                     </svg>
                   </button>
                   <span class="${classes.quantityDisplay}">${item.quantity}</span>
-                  <button class="${classes.quantityBtn}" data-item-id="${item.id}" ${onClick(INCREASE_QUANTITY_EVENT)}>
+                  <button
+                    class="${classes.quantityBtn}"
+                    data-item-id="${item.id}"
+                    ${onClick(INCREASE_QUANTITY_EVENT)}
+                    ${!editable ? attributes("disabled") : ""}
+                  >
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                       <path d="M5 12h14" />
                       <path d="M12 5v14" />
@@ -182,23 +350,22 @@ export function template(displayItem: DisplayItem, context: Context): Template {
 
               <div class="${classes.actions}">
                 <div class="${classes.actionsLeft}">
-                  <button
-                    class="${classes.actionBtn} ${classes.actionBtnDestructive}"
-                    ${dataAttr(CLICK_EVENT, { items: { [item.id]: [] } })}
-                  >
+                  ${editable ? removeButtonTemplate(item.id) : adjustButtonsTemplate(displayItem)}
+                </div>
+                <div class="${classes.actionsRight}">
+                  <button class="${classes.actionBtn}" data-item-id="${item.id}" ${onClick(DISCOUNT_ITEM_EVENT)} ${hasPermission(context, "discount") ? "" : attributes("disabled")}>
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-                      <path d="M3 6h18" />
-                      <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
-                      <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+                      <path d="M19 5 5 19" />
+                      <circle cx="6.5" cy="6.5" r="2.5" />
+                      <circle cx="17.5" cy="17.5" r="2.5" />
                     </svg>
-                    Remove
+                    Discount
                   </button>
-                </div>
-                <div class="${classes.actionsRight}">
                   <button
                     class="${classes.actionBtn}"
                     data-item-id="${item.id}"
                     ${onClick(COMMENT_ITEM_EVENT)}
+                    ${!editable ? attributes("disabled") : ""}
                   >
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                       <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
@@ -209,6 +376,7 @@ export function template(displayItem: DisplayItem, context: Context): Template {
                     class="${classes.actionBtn} ${classes.actionBtnSecondary}"
                     data-item-id="${item.id}"
                     ${onClick(MODIFY_ITEM_EVENT)}
+                    ${!editable ? attributes("disabled") : ""}
                   >
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                       <path d="m17 3 4 4-9 9-4 1 1-4 9-9z" />
@@ -225,6 +393,71 @@ export function template(displayItem: DisplayItem, context: Context): Template {
   `;
 }
 
+/**
+ * Swipe a draft item to the left to remove it
+ * Listens on the list so items rendered later can be swiped too; a swipe
+ * that falls short snaps back, one far enough dispatches REMOVE_ITEM_EVENT
+ */
+export function initSwipeToRemove(list: Element): void {
+  let swipe: { element: HTMLElement; itemId: string; startX: number; startY: number; dx: number } | undefined;
+  let swiped = false;
+
+  const reset = (element: HTMLElement) => {
+    element.classList.remove(classes.swiping);
+    element.style.transform = "";
+    element.style.opacity = "";
+  };
+
+  list.addEventListener("pointerdown", (event) => {
+    const e = event as PointerEvent;
+    const header = (e.target as HTMLElement).closest(`.${classes.header}`);
+    const element = header?.closest(`.${classes.orderItem}`) as HTMLElement | null;
+    if (!element || element.dataset.status !== "draft" || e.button !== 0) return;
+    swipe = { element, itemId: element.id.replace("order-item-", ""), startX: e.clientX, startY: e.clientY, dx: 0 };
+    swiped = false;
+  });
+
+  list.addEventListener("pointermove", (event) => {
+    const e = event as PointerEvent;
+    if (!swipe) return;
+    const dx = Math.min(0, e.clientX - swipe.startX);
+    // Vertical movement scrolls the list instead
+    if (!swipe.element.classList.contains(classes.swiping) && Math.abs(e.clientY - swipe.startY) > Math.abs(dx)) {
+      swipe = undefined;
+      return;
+    }
+    swipe.dx = dx;
+    swipe.element.classList.add(classes.swiping);
+    swipe.element.style.transform = `translateX(${dx}px)`;
+    swipe.element.style.opacity = String(1 + dx / swipe.element.offsetWidth);
+  });
+
+  const end = () => {
+    if (!swipe) return;
+    const { element, itemId, dx } = swipe;
+    swipe = undefined;
+    // A swipe is not a tap, so it does not toggle the item
+    swiped = dx < -8;
+    reset(element);
+    if (-dx >= element.offsetWidth * SWIPE_REMOVE_RATIO) {
+      dom(element).dispatch(REMOVE_ITEM_EVENT, { itemId });
+    }
+  };
+  list.addEventListener("pointerup", end);
+  list.addEventListener("pointercancel", end);
+
+  list.addEventListener(
+    "click",
+    (event) => {
+      if (swiped) {
+        swiped = false;
+        event.stopPropagation();
+      }
+    },
+    true,
+  );
+}
+
 export function update(
   container: Element,
   changes: DataChange<DisplayItem>,
@@ -232,9 +465,28 @@ export function update(
   data: DisplayItem
 ): void {
   const { formatPrice } = withContext(context);
-  // Handle expanded state changes - requires re-render
-  if ("expanded" in changes) {
+  // Handle expanded state, note editing and lifecycle changes - requires re-render
+  const itemRerender =
+    changes.item &&
+    ("status" in changes.item ||
+      "notes" in changes.item ||
+      "discount" in changes.item ||
+      "promotion" in changes.item ||
+      "discountAmount" in changes.item ||
+      "adjustment" in changes.item);
+  const stateRerender =
+    "expanded" in changes ||
+    "newRound" in changes ||
+    "soldOut" in changes ||
+    "editingNote" in changes ||
+    "editingDiscount" in changes ||
+    "adjusting" in changes;
+  if (stateRerender || itemRerender) {
     replaceElement(container, template(data, context));
+    if (data.editingNote) {
+      const input = document.querySelector(`#order-item-${data.item.id} .${classes.noteInput}`) as HTMLTextAreaElement | null;
+      input?.focus();
+    }
     return;
   }
 
@@ -271,7 +523,7 @@ export function update(
     if (quantityControls) {
       const decreaseBtn = quantityControls.querySelector("button") as HTMLButtonElement;
       if (decreaseBtn) {
-        decreaseBtn.disabled = itemData.quantity <= 1;
+        decreaseBtn.disabled = !isEditable(itemData) || itemData.quantity <= 1;
       }
     }
   }
@@ -290,13 +542,17 @@ export function update(
  */
 export const classes = {
   orderItem: "order-item-order-item",
+  swiping: "order-item-swiping",
   header: "order-item-header",
   info: "order-item-info",
   icon: "order-item-icon",
   details: "order-item-details",
   titleSection: "order-item-title-section",
   name: "order-item-name",
+  status: "order-item-status",
   price: "order-item-price",
+  priceOriginal: "order-item-price-original",
+  discount: "order-item-discount",
   descriptionSection: "order-item-description-section",
   description: "order-item-description",
   quantity: "order-item-quantity",
@@ -308,6 +564,11 @@ export const classes = {
   tokenPriced: "order-item-token-priced",
   tokenFree: "order-item-token-free",
   noModifiers: "order-item-no-modifiers",
+  note: "order-item-note",
+  noteExpanded: "order-item-note-expanded",
+  noteEditor: "order-item-note-editor",
+  noteInput: "order-item-note-input",
+  noteActions: "order-item-note-actions",
   expandedContent: "order-item-expanded-content",
   expandedDescription: "order-item-expanded-description",
   modificationsList: "order-item-modifications-list",
@@ -0,0 +1,132 @@
+/**
+ * Order Submission Component
+ * Shows progress and the server's validation result when an order is sent,
+ * and whether rounds sent while offline are still queued
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./order-submission.css";
+import { html, Template, render } from "@/lib/template";
+import { Context, createTranslation } from "@/lib/context";
+import { Order, OrderSubmission, OrderSync, orderSync } from "@/model/order-model";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  sending: createTranslation({
+    sq: "Po dërgohet porosia...",
+    en: "Sending order...",
+    it: "Invio dell'ordine...",
+  }),
+  sent: createTranslation({
+    sq: "Porosia u dërgua",
+    en: "Order sent",
+    it: "Ordine inviato",
+  }),
+  failed: createTranslation({
+    sq: "Porosia nuk u dërgua",
+    en: "Order could not be sent",
+    it: "Impossibile inviare l'ordine",
+  }),
+  queued: createTranslation({
+    sq: "Pa lidhje - porosia do të dërgohet kur të kthehet rrjeti",
+    en: "Offline - the order goes out when the network is back",
+    it: "Offline - l'ordine partirà al ritorno della rete",
+  }),
+  rejected: createTranslation({
+    sq: "Serveri refuzoi një porosi të ruajtur pa lidhje",
+    en: "The server rejected an order saved while offline",
+    it: "Il server ha rifiutato un ordine salvato offline",
+  }),
+  refused: createTranslation({
+    sq: "Ky ndryshim nuk lejohet",
+    en: "This change is not allowed",
+    it: "Questa modifica non è consentita",
+  }),
+  soldOut: createTranslation({ sq: "ka mbaruar", en: "is sold out", it: "è esaurito" }),
+};
+
+/**
+ * Error for an order line the stock check rejected, e.g. "'Pizza' is sold out"
+ */
+export function soldOutMessage(name: string, context: Context): string {
+  return `'${name}' ${translations.soldOut(context)}`;
+}
+
+const syncLabels: Record<OrderSync, ReturnType<typeof createTranslation>> = {
+  queued: createTranslation({ sq: "Në pritje", en: "Queued", it: "In coda" }),
+  synced: createTranslation({ sq: "Sinkronizuar", en: "Synced", it: "Sincronizzato" }),
+  rejected: createTranslation({ sq: "Refuzuar", en: "Rejected", it: "Rifiutato" }),
+};
+
+function syncBadge(sync: OrderSync | undefined, context: Context): Template | string {
+  return sync ? html` <span class="${classes.badge}" data-sync="${sync}">${syncLabels[sync](context)}</span>` : "";
+}
+
+/**
+ * Submission banner template
+ * Without a submission in progress the banner stays up while rounds are queued or were rejected
+ */
+export function template(submission: OrderSubmission | undefined, context: Context, order?: Order): Template {
+  const sync = order ? orderSync(order) : undefined;
+  if (!submission) {
+    if (sync !== "queued" && sync !== "rejected") return html``;
+    submission = { status: sync === "queued" ? "queued" : "failed", errors: order?.syncErrors ?? [], warnings: [] };
+  }
+
+  const title =
+    submission.status === "sending"
+      ? translations.sending(context)
+      : submission.status === "sent"
+        ? translations.sent(context)
+        : submission.status === "queued"
+          ? translations.queued(context)
+          : submission.status === "refused"
+            ? translations.refused(context)
+            : sync === "rejected"
+              ? translations.rejected(context)
+              : translations.failed(context);
+
+  return html`
+    <div class="${classes.banner}" data-status="${submission.status}" role="status">
+      <div class="${classes.title}">
+        ${title}${submission.orderNumber ? html` <span class="${classes.orderNumber}">#${submission.orderNumber}</span>` : ""}${syncBadge(sync, context)}
+      </div>
+      ${submission.errors.length > 0
+        ? html`<ul class="${classes.errors}">
+            ${submission.errors.map((error) => html`<li>${error}</li>`)}
+          </ul>`
+        : ""}
+      ${submission.warnings.length > 0
+        ? html`<ul class="${classes.warnings}">
+            ${submission.warnings.map((warning) => html`<li>${warning}</li>`)}
+          </ul>`
+        : ""}
+    </div>
+  `;
+}
+
+/**
+ * Update submission banner - always re-renders, the banner is small
+ */
+export function update(container: Element, submission: OrderSubmission | undefined, context: Context, order?: Order): void {
+  render(template(submission, context, order), container);
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "order-submission-container",
+  banner: "order-submission-banner",
+  title: "order-submission-title",
+  orderNumber: "order-submission-order-number",
+  badge: "order-submission-badge",
+  errors: "order-submission-errors",
+  warnings: "order-submission-warnings",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
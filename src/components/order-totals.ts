@@ -0,0 +1,112 @@
+/**
+ * Order Totals Component
+ * Footer with discounts, subtotal, service charge, tax and grand total
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./order-totals.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { Context, createTranslation, hasPermission, withContext } from "@/lib/context";
+import { onClick } from "@/lib/events";
+import { OrderPageData } from "@/model/order-model";
+import * as DiscountEditorUI from "./discount-editor";
+
+// Event types
+export const DISCOUNT_ORDER_EVENT = "discount-order-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  subtotal: createTranslation({ sq: "Nëntotali", en: "Subtotal", it: "Subtotale" }),
+  service: createTranslation({ sq: "Shërbimi", en: "Service charge", it: "Servizio" }),
+  tax: createTranslation({ sq: "TVSH", en: "Tax", it: "IVA" }),
+  taxIncluded: createTranslation({ sq: "përfshirë", en: "included", it: "inclusa" }),
+  discounts: createTranslation({ sq: "Zbritjet", en: "Discounts", it: "Sconti" }),
+  orderDiscount: createTranslation({ sq: "Zbritje në porosi", en: "Order discount", it: "Sconto sull'ordine" }),
+};
+
+function percent(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * Line promotions and discounts plus the order discount
+ */
+function discountTotal(data: OrderPageData): number {
+  const lines = Object.values(data.items).reduce((sum, { item }) => sum + (item.discountAmount ?? 0), 0);
+  return lines + (data.order.discountAmount ?? 0);
+}
+
+/**
+ * Totals footer template
+ * Subtotal and tax lines are only shown when there is a charge to explain
+ */
+export function template(data: OrderPageData, context: Context): Template {
+  const { formatPrice, t } = withContext(context);
+  const { totals, charges, order } = data;
+  const inclusive = charges.taxMode === "inclusive";
+  const showBreakdown = totals.service > 0 || (totals.tax > 0 && !inclusive);
+  const discounts = discountTotal(data);
+
+  return html`
+    <dl class="${classes.totals}">
+      ${discounts > 0
+        ? html`<div class="${classes.row} ${classes.discount}">
+            <dt>${translations.discounts(context)}</dt>
+            <dd>−${formatPrice(discounts)}</dd>
+          </div>`
+        : ""}
+      ${showBreakdown
+        ? html`<div class="${classes.row}">
+            <dt>${translations.subtotal(context)}</dt>
+            <dd>${formatPrice(totals.subtotal)}</dd>
+          </div>`
+        : ""}
+      ${totals.service > 0
+        ? html`<div class="${classes.row}">
+            <dt>${translations.service(context)} ${percent(charges.serviceFee)}</dt>
+            <dd>${formatPrice(totals.service)}</dd>
+          </div>`
+        : ""}
+      ${totals.tax > 0
+        ? html`<div class="${classes.row}" data-inclusive="${inclusive}">
+            <dt>${translations.tax(context)} ${percent(charges.taxRate)}${inclusive ? ` (${translations.taxIncluded(context)})` : ""}</dt>
+            <dd>${formatPrice(totals.tax)}</dd>
+          </div>`
+        : ""}
+      <div class="${classes.row} ${classes.total}">
+        <dt>${t("total")}</dt>
+        <dd>${formatPrice(totals.total)}</dd>
+      </div>
+    </dl>
+    ${data.editingDiscount
+      ? DiscountEditorUI.template(DiscountEditorUI.ORDER_TARGET, order.discount, context)
+      : html`<button class="${classes.discountButton}" ${onClick(DISCOUNT_ORDER_EVENT)} ${hasPermission(context, "discount") ? "" : attributes("disabled")}>
+          ${order.discount ? DiscountEditorUI.discountLabel(order.discount, context) : translations.orderDiscount(context)}
+        </button>`}
+  `;
+}
+
+/**
+ * Update totals footer - always re-renders, the footer is small
+ */
+export function update(container: Element, data: OrderPageData, context: Context): void {
+  render(template(data, context), container);
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "order-totals-container",
+  totals: "order-totals",
+  row: "order-totals-row",
+  total: "order-totals-total",
+  discount: "order-totals-discount",
+  discountButton: "order-totals-discount-button",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
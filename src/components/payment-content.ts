@@ -0,0 +1,243 @@
+/**
+ * Payment Content Component
+ * Amount due, keypad, quick cash tender and tender lines
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./payment-content.css";
+import { html, Template, render, attributes } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation, withContext } from "@/lib/context";
+import { PaymentPageData, Tender, TenderMethod, quickTenders } from "@/model/payment-model";
+import { DataChange } from "@/lib/data-model-types";
+
+// Event types
+export const KEYPAD_EVENT = "keypad-event";
+export const CLEAR_ENTRY_EVENT = "clear-entry-event";
+export const ADD_TENDER_EVENT = "add-tender-event";
+export const QUICK_TENDER_EVENT = "quick-tender-event";
+export const REMOVE_TENDER_EVENT = "remove-tender-event";
+export const PAYMENT_DONE_EVENT = "payment-done-event";
+export const PRINT_RECEIPT_EVENT = "print-receipt-event";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  amountDue: createTranslation({ sq: "Për t'u paguar", en: "Amount due", it: "Importo dovuto" }),
+  check: createTranslation({ sq: "Fatura", en: "Check", it: "Conto" }),
+  tendered: createTranslation({ sq: "Dhënë", en: "Tendered", it: "Versato" }),
+  remaining: createTranslation({ sq: "Mbetet", en: "Remaining", it: "Rimanente" }),
+  change: createTranslation({ sq: "Kusuri", en: "Change due", it: "Resto" }),
+  exact: createTranslation({ sq: "Saktë", en: "Exact", it: "Esatto" }),
+  cash: createTranslation({ sq: "Para në dorë", en: "Cash", it: "Contanti" }),
+  card: createTranslation({ sq: "Kartë", en: "Card", it: "Carta" }),
+  processing: createTranslation({ sq: "Po përpunohet pagesa...", en: "Processing payment...", it: "Elaborazione del pagamento..." }),
+  paid: createTranslation({ sq: "Pagesa u krye", en: "Payment complete", it: "Pagamento completato" }),
+  failed: createTranslation({ sq: "Pagesa dështoi", en: "Payment failed", it: "Pagamento non riuscito" }),
+  done: createTranslation({ sq: "Mbaro", en: "Done", it: "Fatto" }),
+  printReceipt: createTranslation({ sq: "Printo faturën", en: "Print receipt", it: "Stampa ricevuta" }),
+  notSent: createTranslation({
+    sq: "Dërgojeni porosinë në kuzhinë para pagesës",
+    en: "Send the order to the kitchen before taking payment",
+    it: "Invia l'ordine in cucina prima del pagamento",
+  }),
+  notRecorded: createTranslation({
+    sq: "Pagesa nuk u ruajt në historikun e porosive",
+    en: "The payment was not saved in the order history",
+    it: "Il pagamento non è stato salvato nello storico ordini",
+  }),
+  notClosed: createTranslation({ sq: "Porosia nuk u mbyll", en: "The order was not closed", it: "L'ordine non è stato chiuso" }),
+  nothingDue: createTranslation({ sq: "Asgjë për të paguar", en: "Nothing left to pay", it: "Niente da pagare" }),
+};
+
+const keys = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "00", "0", "."];
+const methods: TenderMethod[] = ["cash", "card"];
+
+/**
+ * Tender line with remove button
+ */
+function tenderTemplate(tender: Tender, locked: boolean, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  return html`
+    <li class="${classes.tender}">
+      <span class="${classes.tenderMethod}">${translations[tender.method](context)}</span>
+      <span class="${classes.tenderAmount}">${formatPrice(tender.amount)}</span>
+      <button class="${classes.tenderRemove}" data-tender-id="${tender.id}" ${onClick(REMOVE_TENDER_EVENT)} ${locked ? attributes("disabled") : ""} aria-label="×">×</button>
+    </li>
+  `;
+}
+
+/**
+ * Result panel shown once the payment went through
+ */
+function resultTemplate(data: PaymentPageData, context: Context): Template {
+  const { formatPrice } = withContext(context);
+  return html`
+    <div class="${classes.result}" data-status="paid">
+      <h2 class="${classes.resultTitle}">${translations.paid(context)}</h2>
+      ${data.change > 0
+        ? html`<div class="${classes.resultChange}">
+            <span>${translations.change(context)}</span>
+            <strong>${formatPrice(data.change)}</strong>
+          </div>`
+        : ""}
+      ${data.error
+        ? html`<p class="${classes.message}" data-status="failed">${translations.notClosed(context)}: ${data.error}</p>`
+        : ""}
+      ${data.historyError
+        ? html`<p class="${classes.message}" data-status="failed">${translations.notRecorded(context)}: ${data.historyError}</p>`
+        : ""}
+      <div class="${classes.resultActions}">
+        <button class="${classes.method}" data-variant="outlined" ${onClick(PRINT_RECEIPT_EVENT)}>${translations.printReceipt(context)}</button>
+        <button class="${classes.method}" ${onClick(PAYMENT_DONE_EVENT)}>${translations.done(context)}</button>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Main template for payment content
+ */
+export function template(data: PaymentPageData, context: Context): Template {
+  const { formatPrice } = withContext(context);
+
+  if (data.status === "paid") {
+    return html`<div class="${classes.container}">${resultTemplate(data, context)}</div>`;
+  }
+
+  const locked = data.status === "processing";
+  const denominations = context.currency.denominations ?? [];
+  const quick = data.remaining > 0 ? [data.remaining, ...quickTenders(data.remaining, denominations)] : [];
+
+  return html`
+    <div class="${classes.container}">
+      <section class="${classes.summary}">
+        <div class="${classes.due}">
+          <span class="${classes.dueLabel}">
+            ${translations.amountDue(context)}${data.check != null ? ` · ${translations.check(context)} ${data.check + 1}` : ""}
+          </span>
+          <span class="${classes.dueValue}">${formatPrice(data.amountDue)}</span>
+        </div>
+        <dl class="${classes.totals}">
+          <div><dt>${translations.tendered(context)}</dt><dd>${formatPrice(data.tendered)}</dd></div>
+          <div><dt>${translations.remaining(context)}</dt><dd>${formatPrice(data.remaining)}</dd></div>
+          <div class="${classes.changeRow}" data-has-change="${data.change > 0}">
+            <dt>${translations.change(context)}</dt><dd>${formatPrice(data.change)}</dd>
+          </div>
+        </dl>
+        ${data.amountDue <= 0 ? html`<p class="${classes.message}">${translations.nothingDue(context)}</p>` : ""}
+        ${data.unsent ? html`<p class="${classes.message}" data-status="failed">${translations.notSent(context)}</p>` : ""}
+        ${data.status === "processing" ? html`<p class="${classes.message}">${translations.processing(context)}</p>` : ""}
+        ${data.status === "failed"
+          ? html`<p class="${classes.message}" data-status="failed">${translations.failed(context)}${data.error ? `: ${data.error}` : ""}</p>`
+          : ""}
+      </section>
+
+      ${data.tenders.length > 0
+        ? html`<ul class="${classes.tenders}">${data.tenders.map((tender) => tenderTemplate(tender, locked, context))}</ul>`
+        : ""}
+
+      ${quick.length > 0
+        ? html`<div class="${classes.quick}">
+            ${quick.map(
+              (amount, i) => html`
+                <button class="${classes.quickButton}" data-amount="${amount}" ${onClick(QUICK_TENDER_EVENT)} ${locked ? attributes("disabled") : ""}>
+                  ${i === 0 ? translations.exact(context) : formatPrice(amount)}
+                </button>
+              `,
+            )}
+          </div>`
+        : ""}
+
+      <div class="${classes.entry}" data-entry>${data.entry ? data.entry : html`<span class="${classes.placeholder}">${formatPrice(data.remaining)}</span>`}</div>
+
+      <div class="${classes.keypad}">
+        ${keys.map(
+          (key) => html`
+            <button class="${classes.key}" data-key="${key}" ${onClick(KEYPAD_EVENT)} ${locked ? attributes("disabled") : ""}>${key}</button>
+          `,
+        )}
+        <button class="${classes.key}" ${onClick(CLEAR_ENTRY_EVENT)} ${locked ? attributes("disabled") : ""}>C</button>
+        <button class="${classes.key}" data-key="back" ${onClick(KEYPAD_EVENT)} ${locked ? attributes("disabled") : ""}>⌫</button>
+      </div>
+
+      <div class="${classes.methods}">
+        ${methods.map(
+          (method) => html`
+            <button class="${classes.method}" data-method="${method}" ${onClick(ADD_TENDER_EVENT)} ${locked || data.remaining <= 0 ? attributes("disabled") : ""}>
+              ${translations[method](context)}
+            </button>
+          `,
+        )}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Initialize payment content from session data
+ */
+export function init(container: HTMLElement, data: PaymentPageData, context: Context) {
+  render(template(data, context), container);
+}
+
+/**
+ * Update payment content
+ * Keypad input only touches the entry display, everything else re-renders
+ */
+export function update(
+  container: Element,
+  changes: DataChange<PaymentPageData>,
+  context: Context,
+  data: PaymentPageData,
+): void {
+  const keys = Object.keys(changes);
+  if (keys.length === 1 && keys[0] === "entry") {
+    const entry = container.querySelector("[data-entry]");
+    if (entry) {
+      const { formatPrice } = withContext(context);
+      entry.innerHTML = data.entry ? data.entry : `<span class="${classes.placeholder}">${formatPrice(data.remaining)}</span>`;
+      return;
+    }
+  }
+
+  if (keys.length > 0) {
+    render(template(data, context), container);
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "payment-content-container",
+  summary: "payment-content-summary",
+  due: "payment-content-due",
+  dueLabel: "payment-content-due-label",
+  dueValue: "payment-content-due-value",
+  totals: "payment-content-totals",
+  changeRow: "payment-content-change-row",
+  message: "payment-content-message",
+  tenders: "payment-content-tenders",
+  tender: "payment-content-tender",
+  tenderMethod: "payment-content-tender-method",
+  tenderAmount: "payment-content-tender-amount",
+  tenderRemove: "payment-content-tender-remove",
+  quick: "payment-content-quick",
+  quickButton: "payment-content-quick-button",
+  entry: "payment-content-entry",
+  placeholder: "payment-content-placeholder",
+  keypad: "payment-content-keypad",
+  key: "payment-content-key",
+  methods: "payment-content-methods",
+  method: "payment-content-method",
+  result: "payment-content-result",
+  resultTitle: "payment-content-result-title",
+  resultChange: "payment-content-result-change",
+  resultActions: "payment-content-result-actions",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
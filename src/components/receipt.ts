@@ -0,0 +1,331 @@
+/**
+ * Receipt Component
+ * Guest receipts and kitchen tickets for 80mm thermal printers, as an HTML
+ * page for the browser's print dialog or as an ESC/POS byte stream for a
+ * local print server. The printed page has no app stylesheet, so the styles
+ * travel inline with the document.
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html, Template, buildHTML, unsafeHTML } from "@/lib/template";
+import { Context, createTranslation, formatPrice, getCurrencyFormat, withContext } from "@/lib/context";
+import { escpos, columns, wrap, LINE_WIDTH_80MM } from "@/lib/escpos";
+import { ReceiptDocument, ReceiptLine, ReceiptModifier } from "@/model/receipt-model";
+import { printEscPos, printHTML } from "@/services/print-service";
+import { stationLabel } from "./kitchen-ticket";
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  receipt: createTranslation({ sq: "Faturë", en: "Receipt", it: "Ricevuta" }),
+  copy: createTranslation({ sq: "Kopje", en: "Copy", it: "Copia" }),
+  table: createTranslation({ sq: "Tavolina", en: "Table", it: "Tavolo" }),
+  takeaway: createTranslation({ sq: "Për të marrë", en: "Takeaway", it: "Da asporto" }),
+  check: createTranslation({ sq: "Fatura", en: "Check", it: "Conto" }),
+  round: createTranslation({ sq: "Raundi", en: "Round", it: "Giro" }),
+  subtotal: createTranslation({ sq: "Nëntotali", en: "Subtotal", it: "Subtotale" }),
+  service: createTranslation({ sq: "Shërbimi", en: "Service charge", it: "Servizio" }),
+  tax: createTranslation({ sq: "TVSH", en: "Tax", it: "IVA" }),
+  taxIncluded: createTranslation({ sq: "përfshirë", en: "included", it: "inclusa" }),
+  discounts: createTranslation({ sq: "Zbritjet", en: "Discounts", it: "Sconti" }),
+  cash: createTranslation({ sq: "Para në dorë", en: "Cash", it: "Contanti" }),
+  card: createTranslation({ sq: "Kartë", en: "Card", it: "Carta" }),
+  change: createTranslation({ sq: "Kusuri", en: "Change", it: "Resto" }),
+  thankYou: createTranslation({ sq: "Faleminderit!", en: "Thank you!", it: "Grazie!" }),
+};
+
+// Layout shared by the HTML and ESC/POS renderers
+type ReceiptRow = { label: string; amount: string; strong?: boolean };
+
+function percent(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * Printed time in the till's local time, e.g. "2026-10-18 14:05"
+ */
+function printedTime(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Share of a split item as a fraction, e.g. 0.333 -> "1/3"
+ */
+function fraction(share: number): string {
+  for (let denominator = 2; denominator <= 12; denominator++) {
+    const numerator = Math.round(share * denominator);
+    if (numerator > 0 && Math.abs(share * denominator - numerator) < 0.01) {
+      return `${numerator}/${denominator}`;
+    }
+  }
+  return String(Math.round(share * 100) / 100);
+}
+
+function quantityLabel(line: ReceiptLine): string {
+  if (!line.shared) return `${line.quantity}×`;
+  return line.quantity > 0 ? `${line.quantity}+${fraction(line.shared)}×` : `${fraction(line.shared)}×`;
+}
+
+function lineName(line: ReceiptLine): string {
+  return line.variant ? `${line.name} (${line.variant})` : line.name;
+}
+
+/**
+ * Modifier with its extra charge - kitchen tickets pass no price formatter
+ */
+function modifierLabel(modifier: ReceiptModifier, price?: (amount: number) => string): string {
+  if (modifier.removed) return `- ${modifier.name}`;
+  return price && modifier.price > 0 ? `+ ${modifier.name} ${price(modifier.price)}` : `+ ${modifier.name}`;
+}
+
+function headline(receipt: ReceiptDocument, context: Context): string {
+  const where = receipt.tableNumber ? `${translations.table(context)} ${receipt.tableNumber}` : translations.takeaway(context);
+  if (receipt.kind === "kitchen") {
+    return receipt.round && receipt.round > 1 ? `${where} · ${translations.round(context)} ${receipt.round}` : where;
+  }
+  return receipt.check !== undefined ? `${where} · ${translations.check(context)} ${receipt.check + 1}` : where;
+}
+
+function title(receipt: ReceiptDocument, context: Context): string {
+  if (receipt.kind === "kitchen" && receipt.station) return stationLabel(receipt.station, context);
+  return receipt.copy ? `${translations.receipt(context)} · ${translations.copy(context)}` : translations.receipt(context);
+}
+
+/**
+ * Price formatter for a receipt - its own currency, or the context's
+ */
+function priceFormatter(receipt: ReceiptDocument, context: Context) {
+  if (!receipt.currency) return withContext(context).formatPrice;
+  const format = getCurrencyFormat(receipt.currency);
+  return (amount: number) => formatPrice(amount, format);
+}
+
+/**
+ * Totals block: discounts, subtotal, service, tax, total, then the tenders and change
+ */
+function totalRows(receipt: ReceiptDocument, context: Context): ReceiptRow[] {
+  const { totals, charges, payment } = receipt;
+  if (!totals) return [];
+
+  const { t } = withContext(context);
+  const price = priceFormatter(receipt, context);
+  const inclusive = charges?.taxMode === "inclusive";
+  const rows: ReceiptRow[] = [];
+
+  if (receipt.discount && receipt.discount > 0) {
+    rows.push({ label: translations.discounts(context), amount: `-${price(receipt.discount)}` });
+  }
+  if (totals.service > 0 || (totals.tax > 0 && !inclusive)) {
+    rows.push({ label: translations.subtotal(context), amount: price(totals.subtotal) });
+  }
+  if (totals.service > 0) {
+    rows.push({ label: `${translations.service(context)} ${percent(charges?.serviceFee ?? 0)}`, amount: price(totals.service) });
+  }
+  if (totals.tax > 0) {
+    const rate = percent(charges?.taxRate ?? 0);
+    rows.push({
+      label: `${translations.tax(context)} ${rate}${inclusive ? ` (${translations.taxIncluded(context)})` : ""}`,
+      amount: price(totals.tax),
+    });
+  }
+  rows.push({ label: t("total"), amount: price(totals.total), strong: true });
+
+  for (const tender of payment?.tenders ?? []) {
+    rows.push({ label: translations[tender.method](context), amount: price(tender.amount) });
+  }
+  if (payment && payment.change > 0) {
+    rows.push({ label: translations.change(context), amount: price(payment.change) });
+  }
+
+  return rows;
+}
+
+/**
+ * Receipt line with variant, modifiers and notes
+ */
+function lineTemplate(line: ReceiptLine, receipt: ReceiptDocument, context: Context): Template {
+  const price = priceFormatter(receipt, context);
+  const modifierPrice = receipt.kind === "kitchen" ? undefined : price;
+  return html`
+    <li class="${classes.line}">
+      <div class="${classes.row}">
+        <span class="${classes.quantity}">${quantityLabel(line)}</span>
+        <span class="${classes.name}">${lineName(line)}</span>
+        ${line.amount !== undefined ? html`<span class="${classes.amount}">${price(line.amount)}</span>` : ""}
+      </div>
+      ${line.modifiers.map((modifier) => html`<div class="${classes.modifier}">${modifierLabel(modifier, modifierPrice)}</div>`)}
+      ${line.discount ? html`<div class="${classes.modifier}">${translations.discounts(context)} -${price(line.discount)}</div>` : ""}
+      ${line.notes ? html`<div class="${classes.notes}">${line.notes}</div>` : ""}
+    </li>
+  `;
+}
+
+/**
+ * Receipt body - guest receipts carry prices and totals, kitchen tickets only the items
+ */
+export function template(receipt: ReceiptDocument, context: Context): Template {
+  const rows = totalRows(receipt, context);
+
+  return html`
+    <article class="${classes.receipt}" data-kind="${receipt.kind}">
+      <header class="${classes.header}">
+        <h1 class="${classes.title}">${title(receipt, context)}</h1>
+        <div class="${classes.headline}">${headline(receipt, context)}</div>
+        <div class="${classes.meta}">${receipt.orderNumber ? `${receipt.orderNumber} · ` : ""}${printedTime(receipt.printedAt)}</div>
+      </header>
+      <ul class="${classes.lines}">
+        ${receipt.lines.map((line) => lineTemplate(line, receipt, context))}
+      </ul>
+      ${rows.length > 0
+        ? html`<dl class="${classes.totals}">
+            ${rows.map(
+              (row) => html`<div class="${classes.row} ${row.strong ? classes.total : ""}">
+                <dt>${row.label}</dt>
+                <dd>${row.amount}</dd>
+              </div>`,
+            )}
+          </dl>`
+        : ""}
+      ${receipt.kind === "receipt" ? html`<footer class="${classes.footer}">${translations.thankYou(context)}</footer>` : ""}
+    </article>
+  `;
+}
+
+/**
+ * Styles for the printed page, sized to the 72mm printable width of 80mm paper
+ */
+const PRINT_STYLES = `
+  @page { size: 80mm auto; margin: 0; }
+  body { margin: 0; }
+  .receipt { width: 72mm; padding: 4mm; font: 12px/1.35 monospace; color: #000; }
+  .receipt-header, .receipt-footer { text-align: center; }
+  .receipt-title { margin: 0; font-size: 16px; }
+  .receipt-lines { list-style: none; margin: 3mm 0; padding: 2mm 0; border-top: 1px dashed #000; border-bottom: 1px dashed #000; }
+  .receipt[data-kind="kitchen"] .receipt-lines { font-size: 15px; }
+  .receipt-row { display: flex; gap: 2mm; justify-content: space-between; }
+  .receipt-name, .receipt-row dt { flex: 1; }
+  .receipt-row dd { margin: 0; }
+  .receipt-modifier, .receipt-notes { padding-left: 6mm; }
+  .receipt-notes { font-style: italic; }
+  .receipt-totals { margin: 0; }
+  .receipt-total { font-weight: bold; font-size: 14px; }
+  .receipt-footer { margin-top: 3mm; }
+`;
+
+/**
+ * Standalone HTML page of a receipt, ready for window.print()
+ */
+export function receiptHTML(receipt: ReceiptDocument, context: Context): string {
+  return buildHTML(html`<!doctype html>
+    <html lang="${context.lang}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${title(receipt, context)}</title>
+        <style>
+          ${unsafeHTML(PRINT_STYLES)}
+        </style>
+      </head>
+      <body>
+        ${template(receipt, context)}
+      </body>
+    </html>`);
+}
+
+/**
+ * ESC/POS byte stream of a receipt, laid out in the 48 columns of 80mm paper
+ */
+export function receiptEscPos(receipt: ReceiptDocument, context: Context): Uint8Array {
+  const price = priceFormatter(receipt, context);
+  const kitchen = receipt.kind === "kitchen";
+  const printer = escpos();
+
+  printer
+    .align("center")
+    .bold(true)
+    .size(2, 2)
+    .line(title(receipt, context))
+    .size(1, 1)
+    .line(headline(receipt, context))
+    .bold(false)
+    .line(`${receipt.orderNumber ? `${receipt.orderNumber} - ` : ""}${printedTime(receipt.printedAt)}`)
+    .align("left")
+    .rule();
+
+  for (const line of receipt.lines) {
+    const name = `${quantityLabel(line)} ${lineName(line)}`;
+    // Kitchen tickets print the items in double height so they read from a distance
+    if (kitchen) printer.size(1, 2).bold(true);
+    if (line.amount !== undefined) {
+      printer.line(columns(name, price(line.amount)));
+    } else {
+      wrap(name).forEach((text) => printer.line(text));
+    }
+    if (kitchen) printer.size(1, 1).bold(false);
+
+    for (const modifier of line.modifiers) {
+      wrap(modifierLabel(modifier, kitchen ? undefined : price), LINE_WIDTH_80MM, "   ").forEach((text) => printer.line(text));
+    }
+    if (line.discount) {
+      printer.line(`   ${translations.discounts(context)} -${price(line.discount)}`);
+    }
+    if (line.notes) {
+      wrap(line.notes, LINE_WIDTH_80MM, "   ").forEach((text) => printer.line(text));
+    }
+  }
+
+  const rows = totalRows(receipt, context);
+  if (rows.length > 0) {
+    printer.rule();
+    for (const row of rows) {
+      printer.bold(!!row.strong).line(columns(row.label, row.amount)).bold(false);
+    }
+  }
+
+  if (!kitchen) {
+    printer.feed(1).align("center").line(translations.thankYou(context));
+  }
+
+  return printer.feed(3).cut().bytes();
+}
+
+/**
+ * Print a receipt on the thermal printer of the local print server,
+ * or through the browser's print dialog when there is none
+ */
+export async function printReceipt(receipt: ReceiptDocument, context: Context, printer?: string): Promise<void> {
+  try {
+    await printEscPos(receiptEscPos(receipt, context), printer);
+  } catch (error) {
+    console.error(error);
+    printHTML(receiptHTML(receipt, context));
+  }
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  receipt: "receipt",
+  header: "receipt-header",
+  title: "receipt-title",
+  headline: "receipt-headline",
+  meta: "receipt-meta",
+  lines: "receipt-lines",
+  line: "receipt-line",
+  row: "receipt-row",
+  quantity: "receipt-quantity",
+  name: "receipt-name",
+  amount: "receipt-amount",
+  modifier: "receipt-modifier",
+  notes: "receipt-notes",
+  totals: "receipt-totals",
+  total: "receipt-total",
+  footer: "receipt-footer",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -1,8 +1,21 @@
 /**
  * Seatmap Viewer Component
  * Provides map-like pan and zoom functionality for SVG floor plans
+ * and a status layer coloring tables by occupancy
  */
 
+import { TableStatus } from "@/services/table-service";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * What the status layer shows for one table
+ */
+export interface TableOverlay {
+  status: TableStatus;
+  badge?: string; // Text shown above the table, e.g. guests and open total
+}
+
 export class SeatmapViewer {
   private container: HTMLElement;
   private svg: SVGElement;
@@ -340,4 +353,47 @@ export class SeatmapViewer {
       this.container.scrollTop = (scrollHeight - viewportHeight) / 2;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Color tables by status and show their badges
+   * Tables without an overlay are shown as free
+   */
+  public setTableStatus(overlays: Record<string, TableOverlay>) {
+    this.svg.querySelectorAll('.seatmap-badge').forEach((badge) => badge.remove());
+    
+    this.svg.querySelectorAll('[id^="table-"][data-number]').forEach((table) => {
+      const overlay = overlays[table.getAttribute('data-number')!];
+      table.setAttribute('data-status', overlay?.status ?? 'free');
+      if (overlay?.badge) {
+        this.addBadge(table as SVGGraphicsElement, overlay);
+      }
+    });
+  }
+  
+  private addBadge(table: SVGGraphicsElement, overlay: TableOverlay) {
+    const box = table.getBBox();
+    const badge = document.createElementNS(SVG_NS, 'g');
+    badge.setAttribute('class', 'seatmap-badge');
+    badge.setAttribute('data-status', overlay.status);
+    
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String(box.x + box.width / 2));
+    text.setAttribute('y', String(box.y - 8));
+    text.setAttribute('text-anchor', 'middle');
+    text.textContent = overlay.badge ?? '';
+    badge.appendChild(text);
+    
+    // Append next to the table so the badge is drawn on top of it
+    table.parentNode?.appendChild(badge);
+    
+    // Size the background to the rendered text
+    const textBox = text.getBBox();
+    const background = document.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('x', String(textBox.x - 4));
+    background.setAttribute('y', String(textBox.y - 2));
+    background.setAttribute('width', String(textBox.width + 8));
+    background.setAttribute('height', String(textBox.height + 4));
+    background.setAttribute('rx', '4');
+    badge.insertBefore(background, text);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Undo Snackbar Component
+ * Short-lived message above the bottom bar with an Undo button, e.g. after an
+ * order item was removed
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import "./undo-snackbar.css";
+import { html, Template, render } from "@/lib/template";
+import { onClick } from "@/lib/events";
+import { Context, createTranslation } from "@/lib/context";
+
+// Event types
+export const UNDO_EVENT = "undo-event";
+
+// How long the snackbar stays up
+export const UNDO_TIMEOUT_MS = 5000;
+
+/**
+ * Module-level translations
+ */
+const translations = {
+  undo: createTranslation({ sq: "Zhbëj", en: "Undo", it: "Annulla" }),
+  removed: createTranslation({ sq: "u hoq", en: "removed", it: "rimosso" }),
+};
+
+/**
+ * Message for a removed order item, e.g. "Pizza removed"
+ */
+export function removedMessage(name: string, context: Context): string {
+  return `${name} ${translations.removed(context)}`;
+}
+
+/**
+ * Snackbar template, nothing without a message
+ */
+export function template(message: string | undefined, context: Context): Template {
+  if (!message) return html``;
+
+  return html`
+    <div class="${classes.snackbar}" role="status">
+      <span class="${classes.message}">${message}</span>
+      <button class="${classes.undo}" ${onClick(UNDO_EVENT)}>${translations.undo(context)}</button>
+    </div>
+  `;
+}
+
+/**
+ * Show or hide the snackbar - always re-renders, the snackbar is small
+ */
+export function update(container: Element, message: string | undefined, context: Context): void {
+  render(template(message, context), container);
+}
+
+/**
+ * CSS class names
+ */
+export const classes = {
+  container: "undo-snackbar-container",
+  snackbar: "undo-snackbar",
+  message: "undo-snackbar-message",
+  undo: "undo-snackbar-undo",
+} as const;
+
+// Export for backward compatibility
+export const styles = classes;
@@ -4,6 +4,7 @@
  */
 
 import { Language } from './language';
+import currencies from '../../currencies.json';
 
 /**
  * Currency formatting configuration
@@ -15,6 +16,27 @@ export interface CurrencyFormat {
   decimals: number;    // Number of decimal places
   separator: string;   // Decimal separator
   thousands: string;   // Thousands separator
+  denominations?: number[];  // Bank notes and coins used for quick cash tender
+}
+
+/**
+ * Staff roles, mirrored from server/staff.js
+ */
+export type StaffRole = 'cashier' | 'manager' | 'admin';
+
+/**
+ * Sensitive actions a role may be allowed
+ */
+export type Permission = 'void' | 'discount' | 'price-override' | 'reopen' | 'availability' | 'menu-edit';
+
+/**
+ * Staff member signed in on this till
+ */
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  permissions: Permission[];
 }
 
 /**
@@ -23,6 +45,7 @@ export interface CurrencyFormat {
 export interface Context {
   lang: Language;              // Current language
   currency: CurrencyFormat;    // Currency formatting preferences
+  staff?: StaffMember;         // Signed-in staff member, none while pages are generated
   // Additional context fields can be added here as needed
 }
 
@@ -43,33 +66,9 @@ export const DEFAULT_CONTEXT: Context = {
 
 /**
  * Default currency formats for different regions
+ * Shared with the server, which rounds order totals to the same decimals
  */
-export const CURRENCY_FORMATS: Record<string, CurrencyFormat> = {
-  USD: {
-    code: 'USD',
-    symbol: '$',
-    position: 'before',
-    decimals: 2,
-    separator: '.',
-    thousands: ','
-  },
-  EUR: {
-    code: 'EUR',
-    symbol: '€',
-    position: 'after',
-    decimals: 2,
-    separator: ',',
-    thousands: '.'
-  },
-  ALL: {
-    code: 'ALL',
-    symbol: 'L',
-    position: 'after',
-    decimals: 0,
-    separator: ',',
-    thousands: '.'
-  }
-};
+export const CURRENCY_FORMATS = currencies as Record<string, CurrencyFormat>;
 
 /**
  * Get currency format from currency code
@@ -123,13 +122,21 @@ export function formatPrice(amount: number, format: CurrencyFormat): string {
 /**
  * Create a context object with defaults
  */
-export function createContext(lang: Language, currencyFormat?: CurrencyFormat): Context {
+export function createContext(lang: Language, currencyFormat?: CurrencyFormat, staff?: StaffMember): Context {
   return {
     lang,
-    currency: currencyFormat || getCurrencyFormatForLanguage(lang)
+    currency: currencyFormat || getCurrencyFormatForLanguage(lang),
+    ...(staff ? { staff } : {})
   };
 }
 
+/**
+ * Whether the signed-in staff member may do a sensitive action
+ */
+export function hasPermission(context: Context, permission: Permission): boolean {
+  return context.staff?.permissions.includes(permission) ?? false;
+}
+
 /**
  * Common translations type
  * Can be extended by components for their specific translations
@@ -211,6 +218,18 @@ export const commonTranslations = {
     it: 'Sistema'
   }),
   
+  staff: createTranslation({
+    sq: 'Stafi',
+    en: 'Staff',
+    it: 'Personale'
+  }),
+  
+  switchStaff: createTranslation({
+    sq: 'Ndërro stafin',
+    en: 'Switch staff',
+    it: 'Cambia operatore'
+  }),
+  
   about: createTranslation({
     sq: 'Rreth',
     en: 'About',
@@ -311,6 +330,30 @@ export const commonTranslations = {
     sq: 'Dërgo porosinë',
     en: 'Send Order',
     it: 'Invia ordine'
+  }),
+  
+  viewBill: createTranslation({
+    sq: 'Fatura',
+    en: 'Bill',
+    it: 'Conto'
+  }),
+  
+  payments: createTranslation({
+    sq: 'Pagesa',
+    en: 'Payments',
+    it: 'Pagamenti'
+  }),
+  
+  change: createTranslation({
+    sq: 'Kusuri',
+    en: 'Change',
+    it: 'Resto'
+  }),
+  
+  completePayment: createTranslation({
+    sq: 'Përfundo pagesën',
+    en: 'Complete Payment',
+    it: 'Completa pagamento'
   })
 };
 
@@ -59,8 +59,9 @@ export function once<T = any>(
  * Navigation event types
  */
 export interface NavigateEvent {
-  to: "home" | "menu" | "order" | "tables" | "back";
+  to: "home" | "menu" | "order" | "bill" | "payment" | "tables" | "back";
   menuId?: string;
+  check?: number; // Check to pay when navigating to the payment page
   state?: any;
 }
 
@@ -72,6 +73,8 @@ export const AppEvents = {
   ORDER_ADD: "app:order:add",
   ORDER_UPDATE: "app:order:update",
   ORDER_REMOVE: "app:order:remove",
+  ORDER_SYNCED: "app:order:synced", // A round queued while offline reached the server
+  SESSION_ENDED: "app:session:ended", // The staff session timed out or was rejected by the server
   STATE_UPDATE: "app:state:update",
 } as const;
 
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { columns, escpos, toPrintable, wrap } from './escpos';
+
+describe('escpos', () => {
+    it('should start with initialize and end with the cut command', () => {
+        const bytes = escpos().line('Hi').cut().bytes();
+        expect(Array.from(bytes.slice(0, 2))).toEqual([0x1b, 0x40]);
+        expect(Array.from(bytes.slice(2, 5))).toEqual([0x48, 0x69, 0x0a]);
+        expect(Array.from(bytes.slice(-4))).toEqual([0x1d, 0x56, 0x42, 0x03]);
+    });
+
+    it('should encode alignment, bold and character size', () => {
+        const bytes = Array.from(escpos().align('center').bold(true).size(2, 2).bytes().slice(2));
+        expect(bytes).toEqual([0x1b, 0x61, 1, 0x1b, 0x45, 1, 0x1d, 0x21, 0x11]);
+    });
+
+    it('should print accented text as plain ASCII', () => {
+        expect(toPrintable('Kafé me qumësht')).toBe('Kafe me qumesht');
+        expect(toPrintable('2× Crêpe 3,50€')).toBe('2x Crepe 3,50EUR');
+        expect(toPrintable('☕')).toBe('?');
+    });
+
+    it('should pad columns to the line width and cut long names', () => {
+        expect(columns('Latte', '3.50', 20)).toBe('Latte           3.50');
+        expect(columns('A very long item name', '3.50', 20)).toBe('A very long ite 3.50');
+    });
+
+    it('should wrap at spaces and indent continuation lines', () => {
+        expect(wrap('no sugar and extra hot please', 12, '  ')).toEqual(['  no sugar', '  and extra', '  hot please']);
+        expect(wrap('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * ESC/POS Module - Byte streams for thermal receipt printers
+ *
+ * Builds the command stream a local print server forwards to the printer as is.
+ * Text is printed in the printer's default code page, so accents are dropped
+ * ("Kafé" prints as "Kafe") rather than printed as the wrong glyphs.
+ */
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type Align = "left" | "center" | "right";
+
+// Characters per line in font A: 48 on 80mm paper, 32 on 58mm paper
+export const LINE_WIDTH_80MM = 48;
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+// Characters without an ASCII base letter
+const REPLACEMENTS: Record<string, string> = {
+  "€": "EUR",
+  "×": "x",
+  "−": "-",
+  "–": "-",
+  "—": "-",
+  "·": "-",
+  "’": "'",
+  "‘": "'",
+  "“": '"',
+  "”": '"',
+  "ß": "ss",
+  "æ": "ae",
+  "ø": "o",
+};
+
+/**
+ * Printable ASCII for a text, accents stripped and unknown characters replaced by "?"
+ */
+export function toPrintable(text: string): string {
+  return Array.from(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""))
+    .map((char) => REPLACEMENTS[char] ?? (char >= " " && char <= "~" ? char : "?"))
+    .join("");
+}
+
+/**
+ * Left and right text on one line, the left text cut to make room
+ * Widths are measured on the printable text, where "€" takes three columns
+ */
+export function columns(text: string, amount: string, width = LINE_WIDTH_80MM): string {
+  const left = toPrintable(text);
+  const right = toPrintable(amount);
+  const room = Math.max(0, width - right.length - 1);
+  const cut = left.length > room ? left.slice(0, room) : left;
+  return cut + " ".repeat(Math.max(1, width - cut.length - right.length)) + right;
+}
+
+/**
+ * Split a text into lines of at most width characters, breaking at spaces where possible
+ */
+export function wrap(text: string, width = LINE_WIDTH_80MM, indent = ""): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of toPrintable(text).split(/\s+/).filter((w) => w.length > 0)) {
+    const candidate = line ? `${line} ${word}` : `${indent}${word}`;
+    if (candidate.length <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    let rest = `${indent}${word}`;
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width));
+      rest = indent + rest.slice(width);
+    }
+    line = rest;
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * ESC/POS command builder
+ * Usage: escpos().align("center").bold(true).line("Receipt").cut().bytes()
+ */
+export function escpos() {
+  const data: number[] = [ESC, 0x40]; // Initialize printer
+
+  const builder = {
+    text(text: string) {
+      for (const char of toPrintable(text)) {
+        data.push(char.charCodeAt(0));
+      }
+      return builder;
+    },
+    line(text = "") {
+      return builder.text(text).feed(1);
+    },
+    feed(lines = 1) {
+      for (let i = 0; i < lines; i++) {
+        data.push(LF);
+      }
+      return builder;
+    },
+    align(align: Align) {
+      data.push(ESC, 0x61, ALIGN_CODES[align]);
+      return builder;
+    },
+    bold(on: boolean) {
+      data.push(ESC, 0x45, on ? 1 : 0);
+      return builder;
+    },
+    // Character size multipliers, 1-8 each
+    size(width: number, height: number) {
+      const clamp = (n: number) => Math.min(8, Math.max(1, Math.round(n))) - 1;
+      data.push(GS, 0x21, (clamp(width) << 4) | clamp(height));
+      return builder;
+    },
+    rule(width = LINE_WIDTH_80MM, char = "-") {
+      return builder.line(char.repeat(width));
+    },
+    // Feed past the cutter and cut, leaving a small hinge
+    cut() {
+      data.push(GS, 0x56, 0x42, 0x03);
+      return builder;
+    },
+    bytes() {
+      return Uint8Array.from(data);
+    },
+  };
+
+  return builder;
+}
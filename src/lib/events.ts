@@ -5,13 +5,15 @@
  * Separate from the messaging system which handles app-level communication.
  */
 
+import { attributes, Attributes, escapeHTML } from "./template";
+
 export const CLICK_EVENT = "click-event";
 export const STATE_UPDATE_EVENT = "state-update";
 
 /**
  * Create data attributes for click handling
  */
-export function onClick(eventTypeOrUpdate: string | object | undefined): string {
+export function onClick(eventTypeOrUpdate: string | object | undefined): Attributes {
   return dataAttr(CLICK_EVENT, eventTypeOrUpdate);
 }
 
@@ -29,31 +31,26 @@ export function setDataAttribute(element: HTMLElement, name: string, value: any)
   if (value === undefined) {
     element.removeAttribute(`data-${name}`);
   } else {
-    element.setAttribute(`data-${name}`, escapeAttributeValue(value));
+    // setAttribute takes the value as it is, no escaping needed
+    element.setAttribute(`data-${name}`, attributeValue(value));
   }
 }
 
 /**
- * Helper to escape a value for HTML attributes
+ * Attribute value for a primitive, or JSON for an object
  */
-function escapeAttributeValue(value: any): string {
-  if (typeof value === "object" && value !== null) {
-    // For objects, JSON.stringify and escape quotes for HTML attribute
-    const json = JSON.stringify(value);
-    return json.replace(/"/g, "&quot;");
-  }
-  // For primitives, convert to string
-  return String(value);
+function attributeValue(value: any): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
 }
 
 /**
  * Conditionally outputs a data attribute if value is not undefined
  */
-function dataAttr(name: string, value: any): string {
+function dataAttr(name: string, value: any): Attributes {
   if (value === undefined) {
-    return "";
+    return attributes("");
   }
-  return `data-${name}="${escapeAttributeValue(value)}"`;
+  return attributes(`data-${name}="${escapeHTML(attributeValue(value))}"`);
 }
 
 /**
@@ -4,6 +4,8 @@
  * Eliminates the need for Material Icons font (~42KB)
  */
 
+import { unsafeHTML, UnsafeHTML } from './template';
+
 export type IconName = 
   | 'close'
   | 'language'
@@ -12,6 +14,7 @@ export type IconName =
   | 'light_mode'
   | 'dark_mode'
   | 'brightness_auto'
+  | 'person'
   | 'info'
   | 'shopping_cart'
   | 'search'
@@ -37,6 +40,8 @@ const icons: Record<IconName, string> = {
   
   brightness_auto: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="24" height="24"><path d="M10.85 12.65h2.3L12 9l-1.15 3.65zM20 8.69V4h-4.69L12 .69 8.69 4H4v4.69L.69 12 4 15.31V20h4.69L12 23.31 15.31 20H20v-4.69L23.31 12 20 8.69zM14.3 16l-.7-2h-3.2l-.7 2H7.8L11 7h2l3.2 9h-1.9z"/></svg>',
   
+  person: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="24" height="24"><path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z"/></svg>',
+  
   info: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="24" height="24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-6h2v6zm0-8h-2V7h2v2z"/></svg>',
   
   shopping_cart: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="24" height="24"><path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.48 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/></svg>',
@@ -61,12 +66,13 @@ const icons: Record<IconName, string> = {
  * @param name Icon name
  * @param className Optional CSS class to add
  * @param size Optional size (default 24)
+ * @returns The SVG, marked as trusted markup for templates
  */
-export function getIcon(name: IconName, className: string = '', size: number = 24): string {
+export function getIcon(name: IconName, className: string = '', size: number = 24): UnsafeHTML {
   const icon = icons[name];
   if (!icon) {
     console.warn(`Icon "${name}" not found`);
-    return '';
+    return unsafeHTML('');
   }
   
   // Replace width/height in the SVG
@@ -76,16 +82,16 @@ export function getIcon(name: IconName, className: string = '', size: number = 2
   
   // Add class if provided
   if (className) {
-    return sizedIcon.replace('<svg', `<svg class="${className}"`);
+    return unsafeHTML(sizedIcon.replace('<svg', `<svg class="${className}"`));
   }
   
-  return sizedIcon;
+  return unsafeHTML(sizedIcon);
 }
 
 /**
  * Get theme icon as SVG
  */
-export function getThemeIcon(theme: 'light' | 'dark' | 'system'): string {
+export function getThemeIcon(theme: 'light' | 'dark' | 'system'): UnsafeHTML {
   const iconMap = {
     light: 'light_mode' as IconName,
     dark: 'dark_mode' as IconName,
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { clearStores, createStore, flushStorage, getBackend, memoryBackend, migrateStores, setBackend, versionedKey } from './storage';
+
+describe('storage', () => {
+    beforeEach(() => {
+        setBackend('local', memoryBackend());
+        setBackend('session', memoryBackend());
+    });
+
+    it('should build schema-versioned keys', () => {
+        expect(versionedKey('order', 6, 'main')).toBe('order-v6-main');
+        expect(versionedKey('theme', 1)).toBe('theme-v1');
+    });
+
+    it('should read and write JSON through the backend of its type', () => {
+        const store = createStore<{ count: number }>('counter-v1', 'session');
+        expect(store.get({ count: 0 })).toEqual({ count: 0 });
+        store.set({ count: 1 });
+        expect(store.replace((old) => ({ count: (old?.count ?? 0) + 1 }))).toEqual({ count: 2 });
+        expect(getBackend('session').getItem('counter-v1')).toBe('{"count":2}');
+        expect(getBackend('local').getItem('counter-v1')).toBeNull();
+    });
+
+    it('should look up the backend on every call', () => {
+        const store = createStore<string>('name-v1', 'local');
+        store.set('a');
+        setBackend('local', memoryBackend({ 'name-v1': '"b"' }));
+        expect(store.get()).toBe('b');
+    });
+
+    it('should clear the stores under a prefix', () => {
+        setBackend('local', memoryBackend({ 'order-v6-a': '1', 'order-v6-b': '2', 'bill-v1-a': '3' }));
+        clearStores('order-v6-');
+        expect(getBackend('local').keys()).toEqual(['bill-v1-a']);
+    });
+
+    it('should migrate entries to a new prefix and backend', () => {
+        setBackend('session', memoryBackend({ 'item-v1-a': '{"n":1}', 'item-v1-b': '{"n":2}', 'other-v1': '0' }));
+        setBackend('local', memoryBackend({ 'item-v2-b': '{"n":20}' }));
+
+        const moved = migrateStores({
+            from: { prefix: 'item-v1-', storage: 'session' },
+            to: { prefix: 'item-v2-', storage: 'local' },
+            migrate: (value) => ({ ...value, migrated: true }),
+        });
+
+        expect(moved).toBe(1);
+        expect(createStore('item-v2-a').get()).toEqual({ n: 1, migrated: true });
+        expect(createStore('item-v2-b').get()).toEqual({ n: 20 });
+        expect(getBackend('session').keys()).toEqual(['other-v1']);
+    });
+
+    it('should wait for the writes of every backend', async () => {
+        let stored = false;
+        setBackend('memory', {
+            ...memoryBackend(),
+            flush: () => new Promise<void>((resolve) => setTimeout(() => {
+                stored = true;
+                resolve();
+            }, 10)),
+        });
+
+        await flushStorage();
+        expect(stored).toBe(true);
+    });
+});
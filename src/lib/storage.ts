@@ -1,3 +1,27 @@
+/**
+ * Storage Module - Typed key/value stores on pluggable backends
+ *
+ * Backends are synchronous so models can read and write without awaiting.
+ * The IndexedDB backend keeps its entries in memory and writes through to
+ * the database; open it with openIndexedDB() before using it, and await
+ * flushStorage() before leaving the page so no write is cut off.
+ */
+
+/**
+ * Key/value backend holding JSON strings
+ */
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  flush?(): Promise<void>; // Resolves once the writes made so far are stored
+}
+
+export type StorageType = 'local' | 'session' | 'indexeddb' | 'memory';
+
+type KeyValueStorage = Pick<StorageBackend, 'getItem' | 'setItem' | 'removeItem'>;
+
 interface StorageKey<T> {
   key: string;
   _type?: T;
@@ -7,10 +31,166 @@ export function createKey<T>(key: string): StorageKey<T> {
   return { key };
 }
 
-export function getItem<T>(storageKey: StorageKey<T>, storage: Storage = localStorage): T | null {
+/**
+ * Key with its schema version, e.g. versionedKey("order", 6, "main") is "order-v6-main"
+ * Bump the version when the stored shape changes and migrate the old keys
+ */
+export function versionedKey(name: string, version: number, id?: string): string {
+  return id === undefined ? `${name}-v${version}` : `${name}-v${version}-${id}`;
+}
+
+/**
+ * Backend over localStorage or sessionStorage
+ */
+export function webStorageBackend(storage: Storage): StorageBackend {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * Backend that lives as long as the page, e.g. for tests
+ */
+export function memoryBackend(entries: Record<string, string> = {}): StorageBackend {
+  const data = new Map(Object.entries(entries));
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+    keys: () => Array.from(data.keys()),
+  };
+}
+
+const IDB_NAME = 'nrp-pos';
+const IDB_VERSION = 2;
+const IDB_STORE = 'storage-v1';
+const IDB_LEGACY_STORES = ['order-queue-v1']; // Version 1 kept the order queue in its own store
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Backend over IndexedDB - reads come from memory, writes go to the database in the background
+ */
+async function indexedDBBackend(): Promise<StorageBackend> {
+  const open = indexedDB.open(IDB_NAME, IDB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    if (!db.objectStoreNames.contains(IDB_STORE)) {
+      db.createObjectStore(IDB_STORE);
+    }
+    IDB_LEGACY_STORES.filter((name) => db.objectStoreNames.contains(name)).forEach((name) => db.deleteObjectStore(name));
+  };
+  const db = await idbRequest(open);
+
+  const snapshot = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE);
+  const [keys, values] = await Promise.all([idbRequest(snapshot.getAllKeys()), idbRequest(snapshot.getAll())]);
+  const cache = memoryBackend(Object.fromEntries(keys.map((key, i) => [String(key), values[i] as string])));
+
+  // Transactions still running; a failed write is logged, the entry stays in memory
+  const pending = new Set<Promise<void>>();
+  const write = (change: (store: IDBObjectStore) => IDBRequest) => {
+    const transaction = db.transaction(IDB_STORE, 'readwrite');
+    change(transaction.objectStore(IDB_STORE));
+    const done = new Promise<void>((resolve) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = transaction.onabort = () => {
+        console.error('IndexedDB write failed:', transaction.error);
+        resolve();
+      };
+    });
+    pending.add(done);
+    done.then(() => pending.delete(done));
+  };
+
+  return {
+    ...cache,
+    setItem: (key, value) => {
+      cache.setItem(key, value);
+      write((store) => store.put(value, key));
+    },
+    removeItem: (key) => {
+      cache.removeItem(key);
+      write((store) => store.delete(key));
+    },
+    flush: async () => {
+      await Promise.all(pending);
+    },
+  };
+}
+
+const backends: Partial<Record<StorageType, StorageBackend>> = {};
+let indexedDBOpening: Promise<void> | undefined;
+
+/**
+ * Load the IndexedDB backend; stores of type 'indexeddb' can be used once this resolves
+ * Without IndexedDB (e.g. some private browsing modes) they fall back to localStorage
+ */
+export function openIndexedDB(): Promise<void> {
+  indexedDBOpening ??= indexedDBBackend()
+    .catch((error) => {
+      console.error('IndexedDB unavailable, using localStorage:', error);
+      return getBackend('local');
+    })
+    .then((backend) => {
+      backends.indexeddb = backend;
+    });
+  return indexedDBOpening;
+}
+
+/**
+ * Wait until the writes made so far are stored, e.g. before a page load that
+ * would cut off the IndexedDB transactions still running
+ */
+export async function flushStorage(): Promise<void> {
+  await Promise.all(Object.values(backends).map((backend) => backend?.flush?.()));
+}
+
+/**
+ * Replace the backend of a storage type, e.g. memoryBackend() for 'local' in tests
+ */
+export function setBackend(type: StorageType, backend: StorageBackend): void {
+  backends[type] = backend;
+}
+
+export function getBackend(type: StorageType): StorageBackend {
+  const backend = backends[type];
+  if (backend) return backend;
+
+  switch (type) {
+    case 'local':
+      return (backends.local = webStorageBackend(localStorage));
+    case 'session':
+      return (backends.session = webStorageBackend(sessionStorage));
+    case 'memory':
+      return (backends.memory = memoryBackend());
+    case 'indexeddb':
+      throw new Error('IndexedDB storage is not open yet, await openIndexedDB() first');
+  }
+}
+
+export function getItem<T>(storageKey: StorageKey<T>, storage: KeyValueStorage = getBackend('local')): T | null {
   const value = storage.getItem(storageKey.key);
   if (value === null) return null;
-  
+
   try {
     return JSON.parse(value) as T;
   } catch {
@@ -18,14 +198,18 @@ export function getItem<T>(storageKey: StorageKey<T>, storage: Storage = localSt
   }
 }
 
-export function setItem<T>(storageKey: StorageKey<T>, value: T, storage: Storage = localStorage): void {
+export function setItem<T>(storageKey: StorageKey<T>, value: T, storage: KeyValueStorage = getBackend('local')): void {
   storage.setItem(storageKey.key, JSON.stringify(value));
 }
 
+export function removeItem<T>(storageKey: StorageKey<T>, storage: KeyValueStorage = getBackend('local')): void {
+  storage.removeItem(storageKey.key);
+}
+
 export function replaceItem<T>(
-  storageKey: StorageKey<T>, 
+  storageKey: StorageKey<T>,
   updater: (currentValue: T | null) => T,
-  storage: Storage = localStorage
+  storage: KeyValueStorage = getBackend('local')
 ): T {
   const currentValue = getItem(storageKey, storage);
   const newValue = updater(currentValue);
@@ -38,18 +222,67 @@ export interface Store<T> {
   get(defaultValue: T): T;
   set(value: T): void;
   replace(updater: (currentValue: T | null) => T): T;
+  remove(): void;
 }
 
-export function createStore<T>(key: string, storageType: 'local' | 'session' = 'local'): Store<T> {
-  const storage = storageType === 'session' ? sessionStorage : localStorage;
+/**
+ * Store for one key; the backend is looked up on every call so it can be swapped
+ */
+export function createStore<T>(key: string, storageType: StorageType = 'local'): Store<T> {
   const storageKey = createKey<T>(key);
-  
+  const storage = () => getBackend(storageType);
+
   return {
     get: ((defaultValue?: T) => {
-      const value = getItem(storageKey, storage);
+      const value = getItem(storageKey, storage());
       return value !== null ? value : defaultValue ?? null;
     }) as any,
-    set: (value: T) => setItem(storageKey, value, storage),
-    replace: (updater: (currentValue: T | null) => T) => replaceItem(storageKey, updater, storage)
+    set: (value: T) => setItem(storageKey, value, storage()),
+    replace: (updater: (currentValue: T | null) => T) => replaceItem(storageKey, updater, storage()),
+    remove: () => removeItem(storageKey, storage())
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Remove every entry whose key starts with the given prefix
+ */
+export function clearStores(prefix: string, storageType: StorageType = 'local'): void {
+  const storage = getBackend(storageType);
+  storage.keys()
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => storage.removeItem(key));
+}
+
+/**
+ * Move entries to a new key prefix and/or backend
+ */
+export interface Migration {
+  from: { prefix: string; storage: StorageType };
+  to: { prefix: string; storage: StorageType };
+  // Convert a stored value to the new schema; values are kept as they are without it
+  migrate?: (value: any, key: string) => unknown;
+}
+
+/**
+ * Run a migration; entries already present under the new key win over the old ones
+ * Returns the number of entries moved
+ */
+export function migrateStores(migration: Migration): number {
+  const source = getBackend(migration.from.storage);
+  const target = getBackend(migration.to.storage);
+  if (source === target && migration.from.prefix === migration.to.prefix) return 0;
+  let moved = 0;
+
+  for (const oldKey of source.keys().filter((key) => key.startsWith(migration.from.prefix))) {
+    const newKey = migration.to.prefix + oldKey.slice(migration.from.prefix.length);
+    const value = getItem(createKey<unknown>(oldKey), source);
+
+    if (value !== null && target.getItem(newKey) === null) {
+      setItem(createKey(newKey), migration.migrate ? migration.migrate(value, oldKey) : value, target);
+      moved++;
+    }
+    source.removeItem(oldKey);
+  }
+
+  return moved;
+}
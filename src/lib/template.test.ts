@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { attributes, buildHTML, dataAttr, escapeHTML, html, unsafeHTML } from './template';
+import { onClick } from './events';
+
+describe('template', () => {
+    it('should escape text and attribute values', () => {
+        const name = '<img src=x onerror="alert(1)">';
+        expect(buildHTML(html`<p title="${name}">${name}</p>`)).toBe(
+            '<p title="&lt;img src=x onerror=&quot;alert(1)&quot;&gt;">&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>',
+        );
+        expect(buildHTML(html`<p title='${"it's"}'>Tom & Jerry</p>`)).toBe(`<p title='it&#39;s'>Tom & Jerry</p>`);
+        expect(escapeHTML(`&<>"'`)).toBe('&amp;&lt;&gt;&quot;&#39;');
+    });
+
+    it('should keep nested templates, arrays and trusted markup', () => {
+        const items = ['a', '<b>'].map((item) => html`<li>${item}</li>`);
+        expect(buildHTML(html`<ul>${items}</ul>`)).toBe('<ul><li>a</li><li>&lt;b&gt;</li></ul>');
+        expect(buildHTML(html`<i>${unsafeHTML('<svg></svg>')}</i>`)).toBe('<i><svg></svg></i>');
+        expect(buildHTML(html`<p>${null}${undefined}${0}</p>`)).toBe('<p>0</p>');
+    });
+
+    it('should allow attribute fragments inside a tag', () => {
+        const button = buildHTML(html`<button ${onClick('select-event')} ${dataAttr('item', { name: 'A "B"' })}>x</button>`);
+        expect(button).toBe('<button data-click-event="select-event" data-item="{&quot;name&quot;:&quot;A \\&quot;B\\&quot;&quot;}">x</button>');
+        expect(buildHTML(html`<a ${true ? attributes('aria-current="page"') : ''}>x</a>`)).toBe('<a aria-current="page">x</a>');
+    });
+
+    it('should drop anything else inside a tag and quote unquoted values', () => {
+        expect(buildHTML(html`<a ${'onclick=alert(1)><script>'}>x</a>`)).toBe('<a >x</a>');
+        expect(buildHTML(html`<a ${'onclick="alert(1)"'}>x</a>`)).toBe('<a >x</a>');
+        expect(buildHTML(html`<a ${unsafeHTML('onclick="alert(1)"')} ${[html`onclick="alert(1)"`]}>x</a>`)).toBe('<a  >x</a>');
+        expect(buildHTML(html`<a title=${'x onclick=alert(1)'}>x</a>`)).toBe('<a title="x onclick=alert(1)">x</a>');
+    });
+});
@@ -2,6 +2,13 @@
  * Template Module - Core templating functionality
  * 
  * Provides HTML template literals and rendering functions.
+ *
+ * Interpolated values are escaped for where they appear, so text and
+ * attribute values can hold any string. Trusted markup (icons, seatmap SVG)
+ * is inserted with unsafeHTML(). Values between a tag's name and its `>`
+ * have to be attributes() from code, e.g. from onClick() or dataAttr();
+ * anything else there is dropped, since an escaped string can still be an
+ * event handler like onclick="...".
  */
 
 export interface Template {
@@ -9,6 +16,69 @@ export interface Template {
   values: any[];
 }
 
+const UNSAFE_HTML = Symbol("unsafeHTML");
+
+/**
+ * Markup inserted into a template without escaping
+ */
+export interface UnsafeHTML {
+  readonly [UNSAFE_HTML]: string;
+  toString(): string;
+}
+
+/**
+ * Mark trusted markup, e.g. an SVG icon, to be inserted as it is
+ * Never pass it text that came from a menu file, a user or the server
+ */
+export function unsafeHTML(markup: string): UnsafeHTML {
+  return { [UNSAFE_HTML]: markup, toString: () => markup };
+}
+
+export function isUnsafeHTML(value: unknown): value is UnsafeHTML {
+  return typeof value === "object" && value !== null && UNSAFE_HTML in value;
+}
+
+const ATTRIBUTES = Symbol("attributes");
+
+/**
+ * Attribute markup for a tag's attribute list
+ */
+export interface Attributes {
+  readonly [ATTRIBUTES]: string;
+  toString(): string;
+}
+
+/**
+ * Mark attribute markup written in code, e.g. `disabled`, to go inside a tag
+ * Values belong in quoted attributes or dataAttr(), where they are escaped
+ */
+export function attributes(markup: string): Attributes {
+  return { [ATTRIBUTES]: markup, toString: () => markup };
+}
+
+function isAttributes(value: unknown): value is Attributes {
+  return typeof value === "object" && value !== null && ATTRIBUTES in value;
+}
+
+function isTemplate(value: unknown): value is Template {
+  return typeof value === "object" && value !== null && "strings" in value && "values" in value;
+}
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for HTML content and quoted attribute values
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
 /**
  * HTML template literal tag function
  */
@@ -24,35 +94,93 @@ export function render(template: Template, container: Element): void {
   container.innerHTML = htmlString;
 }
 
+// Where an interpolated value ends up
+type Part = "text" | "attribute" | "unquoted" | "tag" | "comment";
+
+// Parts of each template literal, computed once per call site
+const partsCache = new WeakMap<TemplateStringsArray, Part[]>();
+
+/**
+ * Find the part of the markup each value is interpolated into
+ * Only the literal strings are scanned - escaped values can't change it
+ */
+function partsOf(strings: TemplateStringsArray): Part[] {
+  const cached = partsCache.get(strings);
+  if (cached) return cached;
+
+  const parts: Part[] = [];
+  let state: "text" | "tag" | "double" | "single" | "comment" = "text";
+
+  for (let i = 0; i < strings.length - 1; i++) {
+    const chunk = strings[i];
+    for (let j = 0; j < chunk.length; j++) {
+      const char = chunk[j];
+      if (state === "text") {
+        if (chunk.startsWith("<!--", j)) {
+          state = "comment";
+          j += 3;
+        } else if (char === "<" && /[a-zA-Z\/!]/.test(chunk[j + 1] ?? "")) {
+          state = "tag";
+        }
+      } else if (state === "tag") {
+        if (char === '"') state = "double";
+        else if (char === "'") state = "single";
+        else if (char === ">") state = "text";
+      } else if (state === "double") {
+        if (char === '"') state = "tag";
+      } else if (state === "single") {
+        if (char === "'") state = "tag";
+      } else if (chunk.startsWith("-->", j)) {
+        state = "text";
+        j += 2;
+      }
+    }
+
+    if (state === "double" || state === "single") {
+      parts.push("attribute");
+    } else if (state === "tag") {
+      // attr=${value} without quotes gets its quotes when built
+      parts.push(/=\s*$/.test(chunk) ? "unquoted" : "tag");
+    } else {
+      parts.push(state);
+    }
+  }
+
+  partsCache.set(strings, parts);
+  return parts;
+}
+
+/**
+ * Markup for one interpolated value
+ */
+function valueHTML(value: any, part: Part): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map((item) => valueHTML(item, part)).join("");
+  if (part === "tag") return isAttributes(value) ? value[ATTRIBUTES] : "";
+  if (isTemplate(value)) return buildHTML(value);
+  if (isUnsafeHTML(value)) return value[UNSAFE_HTML];
+
+  const text = String(value);
+  if (part === "unquoted") return `"${escapeHTML(text)}"`;
+  if (part === "comment") return text.replace(/--/g, "- -");
+  return escapeHTML(text);
+}
+
 /**
  * Build HTML string from a template
+ * Nested templates, arrays and unsafeHTML() values are inserted as markup,
+ * attributes() inside tags, everything else is escaped
  */
 export function buildHTML(template: Template): string {
   const { strings, values } = template;
+  const parts = partsOf(strings);
   let result = "";
 
   for (let i = 0; i < strings.length; i++) {
     result += strings[i];
 
     if (i < values.length) {
-      const value = values[i];
-
-      if (value && typeof value === "object" && "strings" in value) {
-        // Nested template
-        result += buildHTML(value as Template);
-      } else if (Array.isArray(value)) {
-        // Array of templates or strings
-        result += value
-          .map((item) => {
-            if (item && typeof item === "object" && "strings" in item) {
-              return buildHTML(item as Template);
-            }
-            return String(item);
-          })
-          .join("");
-      } else if (value !== null && value !== undefined) {
-        result += String(value);
-      }
+      result += valueHTML(values[i], parts[i]);
     }
   }
 
@@ -86,23 +214,18 @@ export function styleMap(styleInfo: Record<string, any>): string {
  * Helper to escape a value for HTML attributes
  */
 function escapeAttributeValue(value: any): string {
-  if (typeof value === "object" && value !== null) {
-    // For objects, JSON.stringify and escape quotes for HTML attribute
-    const json = JSON.stringify(value);
-    return json.replace(/"/g, "&quot;");
-  }
-  // For primitives, convert to string
-  return String(value);
+  // Objects are passed as JSON
+  return escapeHTML(typeof value === "object" && value !== null ? JSON.stringify(value) : String(value));
 }
 
 /**
  * Conditionally outputs a data attribute if value is not undefined
  */
-export function dataAttr(name: string, value: any): string {
+export function dataAttr(name: string, value: any): Attributes {
   if (value === undefined) {
-    return "";
+    return attributes("");
   }
-  return `data-${name}="${escapeAttributeValue(value)}"`;
+  return attributes(`data-${name}="${escapeAttributeValue(value)}"`);
 }
 
 /**
@@ -6,6 +6,7 @@
 import { createStore } from "./storage";
 import { Context, commonTranslations } from "./context";
 import { getIcon } from "./icons";
+import { UnsafeHTML } from "./template";
 
 export type Theme = "light" | "dark" | "system";
 
@@ -122,7 +123,7 @@ export function getThemeName(theme: Theme, context?: Context): string {
 /**
  * Get theme icon
  */
-export function getThemeIcon(theme: Theme): string {
+export function getThemeIcon(theme: Theme): UnsafeHTML {
   const iconMap = {
     light: 'light_mode' as const,
     dark: 'dark_mode' as const,
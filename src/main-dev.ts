@@ -4,7 +4,7 @@
  * Includes popstate handling for client-side navigation
  */
 
-import { initializeApp, getAppElement, getPageRenderer } from "@/app-init";
+import { initializeApp, getAppElement, getPageRenderer, openStorage } from "@/app-init";
 import { fetchPageData } from "@/services/menu-data-service";
 
 // Initialize common app features
@@ -20,6 +20,7 @@ async function init() {
   
   // Dev mode - fetch data, render, then hydrate
   const pageData = await fetchPageData(path);
+  await openStorage();
   router.renderPage(app, pageData);
   router.hydratePage(app, pageData);
 }
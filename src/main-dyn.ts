@@ -4,7 +4,7 @@
  * Fetches data from JSON, renders HTML, then hydrates
  */
 
-import { initializeApp, getAppElement, getPageRenderer } from "@/app-init";
+import { initializeApp, getAppElement, getPageRenderer, openStorage } from "@/app-init";
 import { fetchPageData } from "@/services/menu-data-service";
 
 // Initialize common app features
@@ -18,6 +18,7 @@ async function init() {
   
   // Dynamic mode - fetch data, render, then hydrate
   const pageData = await fetchPageData(path);
+  await openStorage();
   router.renderPage(app, pageData);
   router.hydratePage(app, pageData);
 }
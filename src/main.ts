@@ -4,11 +4,14 @@
  * Only performs hydration of pre-existing HTML
  */
 
-import { initializeApp, getAppElement, getPageRenderer } from "@/app-init";
+import { initializeApp, getAppElement, getPageRenderer, openStorage, registerServiceWorker } from "@/app-init";
 
 // Initialize common app features
 initializeApp();
 
+// Cache the pages for offline use
+registerServiceWorker();
+
 // Hydrate the pre-rendered page
 async function init() {
   const app = getAppElement();
@@ -19,7 +22,8 @@ async function init() {
     throw new Error("No preloaded data found. This is a production build that requires SSG.");
   }
   
-  // Just hydrate - HTML is already rendered
+  // Just hydrate - HTML is already rendered, the order comes from storage
+  await openStorage();
   router.hydratePage(app, window.__PRELOADED_DATA__);
 }
 
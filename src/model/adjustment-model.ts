@@ -0,0 +1,57 @@
+import { isEditable } from "./order-lifecycle";
+import type { OrderItem } from "./order-model";
+
+// Data Types
+// Sent items are voided (taken off the bill) or comped (kept but not charged)
+export type AdjustmentKind = "void" | "comp";
+
+export const VOID_REASONS = ["wrong-item", "changed-mind", "kitchen-error", "not-served"] as const;
+export const COMP_REASONS = ["quality", "long-wait", "guest-relations", "staff-meal"] as const;
+export type AdjustmentReason = (typeof VOID_REASONS)[number] | (typeof COMP_REASONS)[number];
+
+// Void or comp recorded on a sent item, as answered by the server
+export type ItemAdjustment = {
+  kind: AdjustmentKind;
+  reason: AdjustmentReason;
+  amount: number; // Line total taken off the bill
+  staff: string; // Staff member who asked for it
+  approvedBy: string; // Manager who approved it, the same staff member if they may void
+  at: string;
+};
+
+// Void or comp being entered in an item's editor
+export type AdjustmentDraft = {
+  kind: AdjustmentKind;
+  reason?: AdjustmentReason; // Kept while the server is asked, the PIN is entered again
+  status?: "approving";
+  error?: string;
+};
+
+export function reasonsFor(kind: AdjustmentKind): readonly AdjustmentReason[] {
+  return kind === "void" ? VOID_REASONS : COMP_REASONS;
+}
+
+export function isReason(kind: AdjustmentKind, reason: string | undefined): reason is AdjustmentReason {
+  return reasonsFor(kind).includes(reason as AdjustmentReason);
+}
+
+/**
+ * Only sent items are voided or comped, and only once;
+ * draft items are removed or discounted instead
+ */
+export function canAdjust(item: Pick<OrderItem, "status" | "adjustment">): boolean {
+  return !isEditable(item) && item.adjustment == null;
+}
+
+/**
+ * Voided and comped amounts of a set of items, e.g. for a shift report
+ */
+export function adjustmentTotals(items: Pick<OrderItem, "adjustment">[]): Record<AdjustmentKind, number> {
+  const totals: Record<AdjustmentKind, number> = { void: 0, comp: 0 };
+  for (const item of items) {
+    if (item.adjustment) {
+      totals[item.adjustment.kind] += item.adjustment.amount;
+    }
+  }
+  return totals;
+}
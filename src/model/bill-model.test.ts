@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { allocate, BillSplit, computeChecks, initialAllocation, moveQuantity, resizeAllocation, SHARED } from './bill-model';
+import { OrderItem } from './order-model';
+
+function orderItem(id: string, quantity: number, total: number): OrderItem {
+    return {
+        id,
+        menuItem: { id: `menu-${id}`, name: id, constraints: {} },
+        currency: 'ALL',
+        quantity,
+        price: total / quantity,
+        modifiers: [],
+        modifiersPrice: 0,
+        unitPrice: total / quantity,
+        total,
+        status: 'sent',
+    };
+}
+
+const items = {
+    beer: orderItem('beer', 3, 900),
+    pizza: orderItem('pizza', 1, 1000),
+};
+
+function sum(values: number[]) {
+    return values.reduce((a, b) => a + b, 0);
+}
+
+describe('bill-model', () => {
+    describe('allocate', () => {
+        it('should add up exactly to the amount', () => {
+            expect(allocate(100, [1, 1, 1], 0)).toEqual([34, 33, 33]);
+            expect(sum(allocate(10, [1, 1, 1], 2))).toBeCloseTo(10);
+        });
+
+        it('should split proportionally to the weights', () => {
+            expect(allocate(900, [2, 1], 0)).toEqual([600, 300]);
+            expect(allocate(900, [0, 0], 0)).toEqual([0, 0]);
+        });
+    });
+
+    describe('computeChecks', () => {
+        it('should split evenly', () => {
+            const split: BillSplit = { mode: 'even', count: 3, allocation: {} };
+            const checks = computeChecks(items, split, 0);
+            expect(checks.map((c) => c.total)).toEqual([634, 633, 633]);
+        });
+
+        it('should split by items including partial quantities', () => {
+            const split: BillSplit = { mode: 'items', count: 2, allocation: initialAllocation('items', items, 2) };
+            split.allocation.beer = moveQuantity(split, items.beer, 0, 1)!;
+
+            const checks = computeChecks(items, split, 0);
+            expect(checks[0].total).toBe(1600);
+            expect(checks[1].total).toBe(300);
+            expect(checks[1].lines).toEqual([{ itemId: 'beer', quantity: 1, shared: 0, amount: 300 }]);
+        });
+
+        it('should share unassigned items between seats', () => {
+            const split: BillSplit = { mode: 'seat', count: 2, allocation: initialAllocation('seat', items, 2) };
+            split.allocation.pizza = moveQuantity(split, items.pizza, SHARED, 1)!;
+
+            const checks = computeChecks(items, split, 0);
+            expect(checks.map((c) => c.total)).toEqual([450, 1450]);
+            expect(sum(checks.map((c) => c.total))).toBe(1900);
+        });
+
+        it('should spread tax and service charge over the checks', () => {
+            const split: BillSplit = { mode: 'items', count: 2, allocation: initialAllocation('items', items, 2) };
+            split.allocation.beer = moveQuantity(split, items.beer, 0, 1)!;
+
+            const checks = computeChecks(items, split, 0, 2280);
+            expect(checks.map((c) => c.total)).toEqual([1920, 360]);
+        });
+    });
+
+    describe('moveQuantity', () => {
+        it('should not move more than is on the check', () => {
+            const split: BillSplit = { mode: 'items', count: 2, allocation: initialAllocation('items', items, 2) };
+            expect(moveQuantity(split, items.pizza, 1, 0)).toBeUndefined();
+            expect(moveQuantity(split, items.pizza, 0, SHARED)).toBeUndefined();
+        });
+
+        it('should return quantities of removed checks to the first check', () => {
+            const split: BillSplit = { mode: 'items', count: 3, allocation: { beer: [1, 1, 1] } };
+            expect(resizeAllocation(split, 2)).toEqual({ beer: [2, 1] });
+        });
+    });
+});
@@ -0,0 +1,318 @@
+import { createStore, migrateStores } from "@/lib/storage";
+import { DataBinding, Update } from "@/lib/data-model-types";
+import { state } from "@/lib/data-model";
+import { getCurrencyFormat } from "@/lib/context";
+import {
+  activeOrderId,
+  emptyOrder,
+  NO_CHARGES,
+  Order,
+  ORDER_STORAGE,
+  OrderCharges,
+  OrderItem,
+  OrderTotals,
+  orderTotals,
+  readOrderData,
+} from "./order-model";
+
+// Data Types
+export type SplitMode = "even" | "items" | "seat";
+
+export type BillSplit = {
+  mode: SplitMode;
+  count: number; // Number of checks (one per seat when splitting by seat)
+  // Quantity of each item on each check; by seat, the unallocated rest is shared
+  allocation: Record<string, number[]>;
+};
+
+export type CheckLine = {
+  itemId: string;
+  quantity: number;
+  shared: number; // Share of the item's shared quantity, e.g. 1/3
+  amount: number;
+};
+
+export type Check = {
+  index: number;
+  lines: CheckLine[];
+  total: number;
+};
+
+export type BillPageData = {
+  order: Order;
+  items: Record<string, OrderItem>;
+  split: BillSplit;
+  checks: Check[];
+  currency: string;
+  charges: OrderCharges;
+  totals: OrderTotals; // Check totals add up to totals.total
+  selectedItemId?: string; // Line picked for moving, tap a check to move one unit
+  selectedCheck?: number; // Check the picked line is on, -1 for shared
+  paidChecks: number[]; // Checks already settled on the payment page
+};
+
+export const SHARED = -1;
+export const MAX_CHECKS = 20;
+
+export function billStorageKey(orderId: string) {
+  return `bill-v1-${orderId}`;
+}
+
+/**
+ * Move bill splits from sessionStorage to the order storage, same layout
+ */
+export function migrateBillStorage() {
+  migrateStores({
+    from: { prefix: billStorageKey(""), storage: "session" },
+    to: { prefix: billStorageKey(""), storage: ORDER_STORAGE },
+  });
+}
+
+/**
+ * Split an amount by weights so the parts add up exactly to the amount
+ * Rounds to the currency's decimals and gives leftover units to the largest remainders
+ */
+export function allocate(amount: number, weights: number[], decimals: number): number[] {
+  const factor = Math.pow(10, decimals);
+  const units = Math.round(amount * factor);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((w) => (units * w) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = units - parts.reduce((sum, p) => sum + p, 0);
+
+  const byRemainder = exact.map((e, i) => ({ i, r: e - Math.floor(e) })).sort((a, b) => b.r - a.r || a.i - b.i);
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[i]++;
+    leftover--;
+  }
+
+  return parts.map((p) => p / factor);
+}
+
+/**
+ * Initial allocation: by items everything starts on the first check, by seat everything is shared
+ */
+export function initialAllocation(mode: SplitMode, items: Record<string, OrderItem>, count: number) {
+  const allocation: BillSplit["allocation"] = {};
+  if (mode === "even") return allocation;
+
+  for (const item of Object.values(items)) {
+    const quantities = new Array(count).fill(0);
+    if (mode === "items") {
+      quantities[0] = item.quantity;
+    }
+    allocation[item.id] = quantities;
+  }
+  return allocation;
+}
+
+/**
+ * Change the number of checks, moving quantities from removed checks back
+ * to the first check (by items) or to the shared pool (by seat)
+ */
+export function resizeAllocation(split: BillSplit, count: number): BillSplit["allocation"] {
+  const allocation: BillSplit["allocation"] = {};
+  for (const [itemId, quantities] of Object.entries(split.allocation)) {
+    const resized = new Array(count).fill(0).map((_, i) => quantities[i] ?? 0);
+    const removed = quantities.slice(count).reduce((sum, q) => sum + q, 0);
+    if (split.mode === "items") {
+      resized[0] += removed;
+    }
+    allocation[itemId] = resized;
+  }
+  return allocation;
+}
+
+/**
+ * Move units of an item between checks (or the shared pool, by seat)
+ * Returns the item's new quantities, or undefined if there is nothing to move
+ */
+export function moveQuantity(
+  split: BillSplit,
+  item: OrderItem,
+  from: number,
+  to: number,
+  quantity = 1,
+): number[] | undefined {
+  const quantities = [...(split.allocation[item.id] ?? new Array(split.count).fill(0))];
+  const allocated = quantities.reduce((sum, q) => sum + q, 0);
+  const available = from === SHARED ? item.quantity - allocated : (quantities[from] ?? 0);
+  const moved = Math.min(quantity, available);
+
+  if (from === to || moved <= 0) return undefined;
+  if (to === SHARED && split.mode !== "seat") return undefined;
+
+  if (from !== SHARED) quantities[from] -= moved;
+  if (to !== SHARED) quantities[to] += moved;
+  return quantities;
+}
+
+/**
+ * Quantity of an item that is not on any check (shared by all seats)
+ */
+export function sharedQuantity(split: BillSplit, item: OrderItem): number {
+  if (split.mode !== "seat") return 0;
+  const allocated = (split.allocation[item.id] ?? []).reduce((sum, q) => sum + q, 0);
+  return Math.max(0, item.quantity - allocated);
+}
+
+/**
+ * Per-check lines and totals for a split
+ * The check totals always add up to the order total; with a grand total
+ * (tax and service charge included) it is spread in proportion to the checks
+ */
+export function computeChecks(
+  items: Record<string, OrderItem>,
+  split: BillSplit,
+  decimals: number,
+  grandTotal?: number,
+): Check[] {
+  const checks: Check[] = new Array(split.count).fill(null).map((_, index) => ({ index, lines: [], total: 0 }));
+
+  if (split.mode === "even") {
+    const total = grandTotal ?? Object.values(items).reduce((sum, item) => sum + item.total, 0);
+    allocate(total, new Array(split.count).fill(1), decimals).forEach((amount, i) => {
+      checks[i].total = amount;
+    });
+    return checks;
+  }
+
+  for (const item of Object.values(items)) {
+    const quantities = split.allocation[item.id] ?? new Array(split.count).fill(0);
+    const shared = sharedQuantity(split, item) / split.count;
+    const weights = checks.map((_, i) => (quantities[i] ?? 0) + shared);
+    const amounts = allocate(item.total, weights, decimals);
+
+    checks.forEach((check, i) => {
+      const quantity = quantities[i] ?? 0;
+      if (quantity > 0 || shared > 0) {
+        check.lines.push({ itemId: item.id, quantity, shared, amount: amounts[i] });
+        check.total += amounts[i];
+      }
+    });
+  }
+
+  // Avoid floating point noise from summing rounded amounts
+  const factor = Math.pow(10, decimals);
+  checks.forEach((check) => (check.total = Math.round(check.total * factor) / factor));
+
+  if (grandTotal != null) {
+    const subtotals = checks.map((check) => check.total);
+    allocate(grandTotal, subtotals, decimals).forEach((amount, i) => (checks[i].total = amount));
+  }
+  return checks;
+}
+
+export function emptyBill(currency: string, charges = NO_CHARGES): BillPageData {
+  const split: BillSplit = { mode: "even", count: 2, allocation: {} };
+  const order = emptyOrder(currency);
+  return {
+    order,
+    items: {},
+    split,
+    checks: computeChecks({}, split, 0),
+    currency,
+    charges,
+    totals: orderTotals(order, charges),
+    paidChecks: [],
+  };
+}
+
+export function getSplit(orderId: string) {
+  return createStore<BillSplit>(billStorageKey(orderId), ORDER_STORAGE).get();
+}
+
+/**
+ * Make a stored split match the order's current items
+ * Items added after the split was made start unallocated (first check or shared)
+ */
+function normalizeSplit(split: BillSplit | null, items: Record<string, OrderItem>): BillSplit {
+  if (!split) {
+    return { mode: "even", count: 2, allocation: {} };
+  }
+
+  const initial = initialAllocation(split.mode, items, split.count);
+  const allocation: BillSplit["allocation"] = {};
+  for (const item of Object.values(items)) {
+    const quantities = split.allocation[item.id];
+    const total = quantities?.reduce((sum, q) => sum + q, 0) ?? 0;
+    const valid =
+      quantities?.length === split.count &&
+      (split.mode === "seat" ? total <= item.quantity : total === item.quantity);
+    allocation[item.id] = valid ? quantities : initial[item.id];
+  }
+  return { ...split, allocation: split.mode === "even" ? {} : allocation };
+}
+
+export function readBillData(orderId = activeOrderId(), charges = NO_CHARGES): BillPageData {
+  const { order, items: displayItems, currency, totals } = readOrderData(orderId, charges);
+  const items: Record<string, OrderItem> = {};
+  for (const id of order.itemIds) {
+    if (displayItems[id]) {
+      items[id] = displayItems[id].item;
+    }
+  }
+
+  const split = normalizeSplit(getSplit(orderId), items);
+  return { order, items, split, checks: [], currency, charges, totals, paidChecks: [] };
+}
+
+export function billModel(charges = NO_CHARGES) {
+  const bindings: DataBinding<BillPageData>[] = [
+    {
+      init: true,
+      onChange: ["split"],
+      update(data: BillPageData) {
+        const decimals = getCurrencyFormat(data.currency).decimals;
+        return { checks: [computeChecks(data.items, data.split, decimals, data.totals.total)] };
+      },
+    },
+  ];
+
+  const orderId = activeOrderId();
+  const data: BillPageData = readBillData(orderId, charges);
+  const model = state(bindings);
+  model.setData(data);
+
+  return {
+    getData() {
+      return data;
+    },
+    update(stmt: Update<BillPageData>) {
+      const changes = model.update(stmt);
+      if (changes?.split) {
+        createStore<BillSplit>(billStorageKey(orderId), ORDER_STORAGE).set(data.split);
+      }
+      return changes;
+    },
+    // Switch split mode, starting over with the mode's initial allocation
+    setMode(mode: SplitMode) {
+      const count = data.split.count;
+      return this.update({
+        split: [{ mode, count, allocation: initialAllocation(mode, data.items, count) }],
+        selectedItemId: [],
+        selectedCheck: [],
+      });
+    },
+    setCount(count: number) {
+      if (count < 1 || count > MAX_CHECKS) return undefined;
+      return this.update({
+        split: { count, allocation: [resizeAllocation(data.split, count)] },
+        selectedItemId: [],
+        selectedCheck: [],
+      });
+    },
+    // Move one unit of an item between checks
+    move(itemId: string, from: number, to: number) {
+      const item = data.items[itemId];
+      const quantities = item ? moveQuantity(data.split, item, from, to) : undefined;
+      if (!quantities) return undefined;
+      return this.update({ split: { allocation: { [itemId]: [quantities] } } });
+    },
+  };
+}
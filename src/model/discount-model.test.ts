@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { collectPromotions, discountAmount, isScheduled, priceLines, PricingLine } from './discount-model';
+import { Menu, Promotion } from '@/types';
+
+const secondCoffee: Promotion = {
+    id: 'second-coffee',
+    name: '2nd coffee half price',
+    itemIds: ['espresso'],
+    rule: { type: 'nth-item', nth: 2, percent: 50 },
+};
+
+// Example promotions of a coffee menu, as documented in the README
+const coffeeMenu = {
+    itemGroups: {
+        'group-hot-coffee': { id: 'group-hot-coffee', name: 'Hot', itemIds: ['espresso', 'latte'] },
+        'group-cold-coffee': { id: 'group-cold-coffee', name: 'Cold', itemIds: ['frappe'] },
+    },
+    promotions: {
+        'promo-second-coffee': {
+            id: 'promo-second-coffee',
+            name: '2nd coffee half price',
+            itemGroupId: 'group-hot-coffee',
+            rule: { type: 'nth-item', nth: 2, percent: 50 },
+        },
+        'promo-happy-hour-cold': {
+            id: 'promo-happy-hour-cold',
+            name: 'Happy hour',
+            itemGroupId: 'group-cold-coffee',
+            rule: { type: 'percent', percent: 20 },
+            schedule: { from: '16:00', to: '18:00' },
+        },
+    },
+} as unknown as Menu;
+
+function line(id: string, quantity: number, extra: Partial<PricingLine> = {}): PricingLine {
+    return { id, menuItemId: 'espresso', quantity, unitPrice: 100, locked: false, ...extra };
+}
+
+describe('discount-model', () => {
+    describe('discountAmount', () => {
+        it('should take a percentage or a fixed amount, never more than the base', () => {
+            const reason = 'loyalty' as const;
+            expect(discountAmount({ kind: 'percent', value: 10, reason }, 250, 0)).toBe(25);
+            expect(discountAmount({ kind: 'fixed', value: 3.5, reason }, 10, 2)).toBe(3.5);
+            expect(discountAmount({ kind: 'fixed', value: 500, reason }, 300, 0)).toBe(300);
+            expect(discountAmount(undefined, 300, 0)).toBe(0);
+        });
+    });
+
+    describe('isScheduled', () => {
+        it('should match times inside the window', () => {
+            const schedule = { from: '16:00', to: '18:00' };
+            expect(isScheduled(schedule, new Date(2024, 0, 1, 16, 30))).toBe(true);
+            expect(isScheduled(schedule, new Date(2024, 0, 1, 18, 0))).toBe(false);
+        });
+
+        it('should attribute windows spanning midnight to the day they started', () => {
+            // 2024-01-06 is a Saturday
+            const schedule = { from: '22:00', to: '02:00', days: [5] };
+            expect(isScheduled(schedule, new Date(2024, 0, 5, 23, 0))).toBe(true);
+            expect(isScheduled(schedule, new Date(2024, 0, 6, 1, 0))).toBe(true);
+            expect(isScheduled(schedule, new Date(2024, 0, 6, 23, 0))).toBe(false);
+        });
+
+        it('should read the time in the schedule\'s time zone', () => {
+            // Tirana is an hour ahead of UTC in January
+            const schedule = { from: '16:00', to: '18:00', days: [1], timeZone: 'Europe/Tirane' };
+            expect(isScheduled(schedule, new Date(Date.UTC(2024, 0, 1, 15, 30)))).toBe(true);
+            expect(isScheduled(schedule, new Date(Date.UTC(2024, 0, 1, 17, 30)))).toBe(false);
+            expect(isScheduled({ ...schedule, from: '00:00', to: '01:00' }, new Date(Date.UTC(2023, 11, 31, 23, 30)))).toBe(true);
+        });
+    });
+
+    describe('collectPromotions', () => {
+        it('should resolve item groups to item IDs', () => {
+            const menu = {
+                itemGroups: { 'group-hot': { id: 'group-hot', name: 'Hot', itemIds: ['espresso', 'latte'] } },
+                promotions: {
+                    hot: { id: 'hot', name: 'Hot drinks', itemGroupId: 'group-hot', rule: { type: 'percent', percent: 10 } },
+                },
+            } as unknown as Menu;
+
+            expect(collectPromotions([menu])[0].itemIds).toEqual(['espresso', 'latte']);
+        });
+
+        it('should give schedules the restaurant\'s time zone', () => {
+            const [secondCoffee, happyHour] = collectPromotions([coffeeMenu], 'Europe/Tirane');
+            expect(secondCoffee).not.toHaveProperty('schedule');
+            expect(happyHour.itemIds).toEqual(['frappe']);
+            expect(happyHour.schedule).toEqual({ from: '16:00', to: '18:00', timeZone: 'Europe/Tirane' });
+        });
+    });
+
+    describe('priceLines', () => {
+        it('should count nth-item units across lines', () => {
+            const prices = priceLines([line('a', 1), line('b', 3)], [secondCoffee], new Date(), 0);
+            expect(prices.a).toEqual({ promotion: undefined, discountAmount: 0, total: 100 });
+            expect(prices.b.promotion?.units).toBe(2);
+            expect(prices.b.total).toBe(200);
+        });
+
+        it('should keep the promotion of locked lines', () => {
+            const sent = line('a', 2, { locked: true });
+            const prices = priceLines([sent, line('b', 2)], [secondCoffee], new Date(), 0);
+            expect(prices.a).toEqual({ promotion: undefined, discountAmount: 0, total: 200 });
+            expect(prices.b.promotion?.units).toBe(1);
+        });
+
+        it('should charge nothing for voided or comped lines, which still count for nth-item rules', () => {
+            const comped = line('a', 1, { locked: true, adjusted: true });
+            const prices = priceLines([comped, line('b', 1)], [secondCoffee], new Date(), 0);
+            expect(prices.a).toEqual({ promotion: undefined, discountAmount: 0, total: 0 });
+            expect(prices.b.total).toBe(50);
+        });
+
+        it('should pick the best active promotion and apply the manual discount after it', () => {
+            const tenPercent: Promotion = {
+                id: 'ten',
+                name: '10% off',
+                itemIds: ['espresso'],
+                rule: { type: 'percent', percent: 10 },
+            };
+            const closed: Promotion = { ...tenPercent, id: 'closed', rule: { type: 'percent', percent: 90 }, schedule: { from: '03:00', to: '04:00' } };
+            const discounted = line('a', 2, { discount: { kind: 'percent', value: 50, reason: 'staff' } });
+
+            const prices = priceLines([discounted], [secondCoffee, tenPercent, closed], new Date(2024, 0, 1, 12, 0), 0);
+            expect(prices.a.promotion?.promotionId).toBe('second-coffee');
+            expect(prices.a.discountAmount).toBe(125);
+            expect(prices.a.total).toBe(75);
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { Menu, Promotion, PromotionSchedule } from "@/types";
+
+// Data Types
+export const DISCOUNT_REASONS = ["promotion", "loyalty", "staff", "complaint", "manager"] as const;
+export type DiscountReason = (typeof DISCOUNT_REASONS)[number];
+
+export type DiscountKind = "percent" | "fixed";
+
+// Manual discount on an order line or the whole order
+export type Discount = {
+  kind: DiscountKind;
+  value: number; // Percentage (10 = 10%) or amount in the order's currency
+  reason: DiscountReason;
+};
+
+// Promotion applied to an order line, computed by the order model
+export type AppliedPromotion = {
+  promotionId: string;
+  name: string;
+  units: number; // Discounted units of the line
+  amount: number;
+};
+
+// Line as seen by the pricing rules
+export type PricingLine = {
+  id: string;
+  menuItemId: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: Discount;
+  promotion?: AppliedPromotion;
+  locked: boolean; // Sent lines keep the promotion they were sent with
+  adjusted?: boolean; // Voided or comped, nothing is charged
+};
+
+export type LinePrice = {
+  promotion?: AppliedPromotion;
+  discountAmount: number; // Promotion and manual discount
+  total: number;
+};
+
+function round(amount: number, decimals: number) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Amount a manual discount takes off a base amount, never more than the base
+ */
+export function discountAmount(discount: Discount | undefined, base: number, decimals: number): number {
+  if (!discount || base <= 0 || discount.value <= 0) return 0;
+  const amount = discount.kind === "percent" ? (base * Math.min(discount.value, 100)) / 100 : discount.value;
+  return round(Math.min(amount, base), decimals);
+}
+
+function minutes(time: string) {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + (mins || 0);
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Day of the week and minutes since midnight, in a time zone if given
+ */
+function localTime(now: Date, timeZone?: string) {
+  if (!timeZone) {
+    return { day: now.getDay(), minutes: now.getHours() * 60 + now.getMinutes() };
+  }
+
+  const format = new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short", hour: "numeric", minute: "numeric", hourCycle: "h23" });
+  const parts = Object.fromEntries(format.formatToParts(now).map((part) => [part.type, part.value]));
+  return { day: WEEKDAYS.indexOf(parts.weekday), minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+/**
+ * Whether a schedule's window contains the given time
+ */
+export function isScheduled(schedule: PromotionSchedule | undefined, now: Date): boolean {
+  if (!schedule) return true;
+
+  const from = minutes(schedule.from);
+  const to = minutes(schedule.to);
+  const { day, minutes: current } = localTime(now, schedule.timeZone);
+
+  // A window spanning midnight belongs to the day it started on
+  const spansMidnight = to <= from;
+  const inWindow = spansMidnight ? current >= from || current < to : current >= from && current < to;
+  if (!inWindow || !schedule.days) return inWindow;
+
+  return schedule.days.includes(spansMidnight && current < to ? (day + 6) % 7 : day);
+}
+
+/**
+ * Promotions of a set of menus with item groups resolved to item IDs
+ * Schedules get the restaurant's time zone, so every till and the server agree
+ */
+export function collectPromotions(menus: Menu[], timeZone?: string): Promotion[] {
+  const promotions: Record<string, Promotion> = {};
+
+  for (const menu of menus) {
+    for (const promotion of Object.values(menu.promotions ?? {})) {
+      const groupItemIds = promotion.itemGroupId ? (menu.itemGroups[promotion.itemGroupId]?.itemIds ?? []) : [];
+      const itemIds = [...(promotion.itemIds ?? []), ...groupItemIds];
+      const existing = promotions[promotion.id];
+
+      promotions[promotion.id] = {
+        ...promotion,
+        itemIds: [...new Set([...(existing?.itemIds ?? []), ...itemIds])],
+        ...(promotion.schedule && timeZone ? { schedule: { ...promotion.schedule, timeZone } } : {}),
+      };
+    }
+  }
+
+  return Object.values(promotions);
+}
+
+/**
+ * Discounted units of each line for one promotion
+ * nth-item counts units across lines in order, so locked lines keep their place
+ */
+function promotionUnits(promotion: Promotion, lines: PricingLine[]): Map<string, number> {
+  const units = new Map<string, number>();
+  const itemIds = promotion.itemIds ?? [];
+  let counter = 0;
+
+  for (const line of lines) {
+    if (!itemIds.includes(line.menuItemId)) continue;
+
+    if (promotion.rule.type === "percent") {
+      units.set(line.id, line.quantity);
+      continue;
+    }
+
+    let discounted = 0;
+    for (let i = 0; i < line.quantity; i++) {
+      counter++;
+      if (counter % promotion.rule.nth === 0) discounted++;
+    }
+    units.set(line.id, discounted);
+  }
+
+  return units;
+}
+
+/**
+ * Price order lines: best active promotion per line, then the manual line discount
+ * Locked lines keep their stored promotion but still count towards nth-item rules;
+ * voided and comped lines still count too, but are not charged
+ */
+export function priceLines(
+  lines: PricingLine[],
+  promotions: Promotion[],
+  now: Date,
+  decimals: number,
+): Record<string, LinePrice> {
+  const best = new Map<string, AppliedPromotion>();
+
+  for (const promotion of promotions) {
+    if (!isScheduled(promotion.schedule, now)) continue;
+
+    for (const [lineId, units] of promotionUnits(promotion, lines)) {
+      const line = lines.find((l) => l.id === lineId)!;
+      const amount = round((units * line.unitPrice * promotion.rule.percent) / 100, decimals);
+      if (amount > 0 && amount > (best.get(lineId)?.amount ?? 0)) {
+        best.set(lineId, { promotionId: promotion.id, name: promotion.name, units, amount });
+      }
+    }
+  }
+
+  const prices: Record<string, LinePrice> = {};
+  for (const line of lines) {
+    const gross = round(line.quantity * line.unitPrice, decimals);
+    const promotion = line.locked ? line.promotion : best.get(line.id);
+    if (line.adjusted) {
+      prices[line.id] = { promotion, discountAmount: 0, total: 0 };
+      continue;
+    }
+    const promotionAmount = Math.min(promotion?.amount ?? 0, gross);
+    const manual = discountAmount(line.discount, gross - promotionAmount, decimals);
+    const total = round(gross - promotionAmount - manual, decimals);
+    prices[line.id] = { promotion, discountAmount: round(promotionAmount + manual, decimals), total };
+  }
+  return prices;
+}
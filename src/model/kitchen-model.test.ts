@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { kitchenModel, urgencyOf } from './kitchen-model';
+import { KitchenTicket } from '@/services/kitchen-service';
+
+const SENT_AT = Date.parse('2024-01-01T12:00:00.000Z');
+const minutes = (n: number) => SENT_AT + n * 60000;
+
+function ticket(id: string, sentAt = SENT_AT): KitchenTicket {
+    return {
+        id,
+        orderNumber: `ORD-${id}`,
+        tableNumber: '4',
+        round: 1,
+        station: 'bar',
+        sentAt: new Date(sentAt).toISOString(),
+        status: 'open',
+        itemIds: ['a', 'b'],
+        items: {
+            a: { id: 'a', name: 'Espresso', quantity: 2, modifiers: [], done: false },
+            b: { id: 'b', name: 'Latte', quantity: 1, modifiers: [], done: false },
+        },
+    };
+}
+
+describe('kitchen-model', () => {
+    it('should color tickets by elapsed time', () => {
+        expect(urgencyOf(0)).toBe('fresh');
+        expect(urgencyOf(5)).toBe('waiting');
+        expect(urgencyOf(12)).toBe('late');
+    });
+
+    it('should order open tickets oldest first and age them with the clock', () => {
+        const model = kitchenModel();
+        model.sync([ticket('T2', minutes(3)), ticket('T1')], minutes(4));
+        expect(model.getData().openIds).toEqual(['T1', 'T2']);
+        expect(model.getData().tickets.T1.urgency).toBe('fresh');
+
+        const changes = model.tick(minutes(11));
+        expect(changes?.tickets?.T1).toMatchObject({ elapsed: 11, urgency: 'late' });
+        expect(model.getData().tickets.T2.urgency).toBe('waiting');
+    });
+
+    it('should mark a ticket ready once all items are done', () => {
+        const model = kitchenModel();
+        model.sync([ticket('T1')], minutes(1));
+
+        model.toggleItem('T1', 'a');
+        expect(model.getData().tickets.T1.ready).toBe(false);
+        model.toggleItem('T1', 'b');
+        expect(model.getData().tickets.T1.ready).toBe(true);
+        model.toggleItem('T1', 'b');
+        expect(model.getData().tickets.T1.ready).toBe(false);
+    });
+
+    it('should move bumped tickets to the recall list and back', () => {
+        const model = kitchenModel();
+        model.sync([ticket('T1'), ticket('T2', minutes(1))], minutes(2));
+
+        model.bump('T1');
+        expect(model.getData().openIds).toEqual(['T2']);
+        expect(model.getData().bumpedIds).toEqual(['T1']);
+
+        model.recall('T1');
+        expect(model.getData().openIds).toEqual(['T1', 'T2']);
+        expect(model.getData().bumpedIds).toEqual([]);
+    });
+
+    it('should drop tickets the server no longer has', () => {
+        const model = kitchenModel();
+        model.sync([ticket('T1'), ticket('T2')], minutes(1));
+        model.sync([ticket('T2')], minutes(2));
+        expect(Object.keys(model.getData().tickets)).toEqual(['T2']);
+        expect(model.getData().openIds).toEqual(['T2']);
+    });
+});
@@ -0,0 +1,162 @@
+import { ALL, DataBinding, Update } from "@/lib/data-model-types";
+import { anyChange, state } from "@/lib/data-model";
+import { KitchenTicket } from "@/services/kitchen-service";
+import { Station } from "@/types";
+
+// Data Types
+export type Urgency = "fresh" | "waiting" | "late";
+
+export type DisplayTicket = {
+  ticket: KitchenTicket;
+  ready: boolean; // Every item is done
+  elapsed: number; // Minutes since the round was sent, until it was bumped
+  urgency: Urgency;
+};
+
+export type KitchenPageData = {
+  tickets: Record<string, DisplayTicket>;
+  openIds: string[]; // Oldest first
+  bumpedIds: string[]; // Most recently bumped first, for recall
+  now: number; // Clock the elapsed times are computed against
+  showBumped: boolean;
+  station?: Station; // Station this display shows, all stations if not set
+  stations: Station[]; // Stations of the menus, for the station filter
+};
+
+// Minutes after which a ticket turns amber and red
+export const WAITING_MINUTES = 5;
+export const LATE_MINUTES = 10;
+
+export function emptyKitchen(station?: Station): KitchenPageData {
+  return { tickets: {}, openIds: [], bumpedIds: [], now: 0, showBumped: false, stations: [], ...(station ? { station } : {}) };
+}
+
+export function elapsedMinutes(ticket: KitchenTicket, now: number): number {
+  const end = ticket.bumpedAt ? Date.parse(ticket.bumpedAt) : now;
+  return Math.max(0, Math.floor((end - Date.parse(ticket.sentAt)) / 60000));
+}
+
+export function urgencyOf(elapsed: number): Urgency {
+  if (elapsed >= LATE_MINUTES) return "late";
+  if (elapsed >= WAITING_MINUTES) return "waiting";
+  return "fresh";
+}
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+/**
+ * Ticket order on the board and in the recall list
+ */
+function ticketIds(data: KitchenPageData): Update<KitchenPageData> {
+  const tickets = Object.values(data.tickets).map((t) => t.ticket);
+  const openIds = tickets
+    .filter((t) => t.status === "open")
+    .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+    .map((t) => t.id);
+  const bumpedIds = tickets
+    .filter((t) => t.status === "bumped")
+    .sort((a, b) => (b.bumpedAt ?? "").localeCompare(a.bumpedAt ?? ""))
+    .map((t) => t.id);
+
+  const changes: Update<KitchenPageData> = {};
+  if (!sameIds(openIds, data.openIds)) changes.openIds = [openIds];
+  if (!sameIds(bumpedIds, data.bumpedIds)) changes.bumpedIds = [bumpedIds];
+  return changes;
+}
+
+/**
+ * Display ticket for a ticket from the server
+ */
+export function toDisplayTicket(ticket: KitchenTicket, now: number): DisplayTicket {
+  const elapsed = elapsedMinutes(ticket, now);
+  return {
+    ticket,
+    ready: ticket.itemIds.every((id) => ticket.items[id]?.done),
+    elapsed,
+    urgency: urgencyOf(elapsed),
+  };
+}
+
+export function kitchenModel(data: KitchenPageData = emptyKitchen()) {
+  const bindings: DataBinding<KitchenPageData>[] = [
+    // A ticket is ready once all of its items are done
+    {
+      init: true,
+      onChange: ["tickets", ALL, "ticket"],
+      update(data: KitchenPageData, ticketId: string) {
+        const { ticket } = data.tickets[ticketId];
+        return { tickets: { [ticketId]: { ready: ticket.itemIds.every((id) => ticket.items[id]?.done) } } };
+      },
+    },
+    // Elapsed time moves with the clock, and stops when the ticket is bumped
+    {
+      init: true,
+      onChange: [{ tickets: anyChange, now: anyChange }],
+      update(data: KitchenPageData) {
+        const tickets: Record<string, Update<DisplayTicket>> = {};
+        for (const [id, { ticket }] of Object.entries(data.tickets)) {
+          const elapsed = elapsedMinutes(ticket, data.now);
+          tickets[id] = { elapsed, urgency: urgencyOf(elapsed) };
+        }
+        return { tickets };
+      },
+    },
+    {
+      init: true,
+      onChange: [{ tickets: anyChange }],
+      update: ticketIds,
+    },
+  ];
+
+  const model = state(bindings);
+  model.setData(data);
+
+  return {
+    getData() {
+      return data;
+    },
+    update(stmt: Update<KitchenPageData>) {
+      return model.update(stmt);
+    },
+    // Replace the tickets with the server's, keeping unchanged ones as they are
+    sync(tickets: KitchenTicket[], now = Date.now()) {
+      const byId = new Map(tickets.map((t) => [t.id, t]));
+      const changes: Record<string, Update<DisplayTicket> | [DisplayTicket] | []> = {};
+
+      for (const id of Object.keys(data.tickets)) {
+        if (!byId.has(id)) changes[id] = [];
+      }
+      for (const ticket of tickets) {
+        const current = data.tickets[ticket.id];
+        if (!current) {
+          changes[ticket.id] = [toDisplayTicket(ticket, now)];
+        } else if (JSON.stringify(current.ticket) !== JSON.stringify(ticket)) {
+          changes[ticket.id] = { ticket: [ticket] };
+        }
+      }
+      return model.update({ now, tickets: changes } as Update<KitchenPageData>);
+    },
+    setStations(stations: Station[]) {
+      if (sameIds(stations, data.stations)) return undefined;
+      return model.update({ stations: [stations] });
+    },
+    tick(now = Date.now()) {
+      return model.update({ now });
+    },
+    toggleItem(ticketId: string, itemId: string) {
+      if (!data.tickets[ticketId]?.ticket.items[itemId]) return undefined;
+      return model.update({ tickets: { [ticketId]: { ticket: { items: { [itemId]: { done: (done) => !done } } } } } });
+    },
+    bump(ticketId: string) {
+      if (!data.tickets[ticketId]) return undefined;
+      const bumpedAt = new Date(data.now || Date.now()).toISOString();
+      return model.update({ tickets: { [ticketId]: { ticket: { status: "bumped", bumpedAt } } } });
+    },
+    recall(ticketId: string) {
+      if (!data.tickets[ticketId]) return undefined;
+      return model.update({ tickets: { [ticketId]: { ticket: { status: "open", bumpedAt: [] } } } });
+    },
+  };
+}
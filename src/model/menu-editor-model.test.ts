@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addListEntry,
+    addMenuEntry,
+    addVariant,
+    draftIssues,
+    emptyMenuEditor,
+    menuEditorModel,
+    moveListEntry,
+    newEntryError,
+    removeMenuEntry,
+    removeVariant,
+    setItemPricing,
+    setItemSubMenu,
+    setMenuField,
+} from './menu-editor-model';
+import { Menu } from '@/types';
+
+function yogurtMenu(): Menu {
+    return {
+        id: 'index',
+        name: 'Menu',
+        currency: 'ALL',
+        items: {
+            yogurt: { id: 'yogurt', name: 'Yogurt', price: { groupId: 'size', prices: { mini: 200, large: 300 } }, constraints: {} },
+            honey: { id: 'honey', name: 'Honey', price: 50, constraints: { choiceId: 'topping' } },
+        },
+        itemGroups: { all: { id: 'all', name: 'All', itemIds: ['yogurt', 'honey'] } },
+        layout: [{ type: 'item-group', data: 'all' }],
+        variants: {
+            size: { id: 'size', selectedId: 'mini', variants: [{ id: 'mini', name: 'Mini' }, { id: 'large', name: 'Large' }] },
+        },
+        choices: { topping: { id: 'topping', min: 0, max: 1 } },
+    };
+}
+
+const toppings: Menu = {
+    id: 'toppings',
+    name: 'Toppings',
+    currency: 'ALL',
+    items: { nuts: { id: 'nuts', name: 'Nuts', price: 30, constraints: {} } },
+    itemGroups: { all: { id: 'all', name: 'All', itemIds: ['nuts'] } },
+    layout: [{ type: 'item-group', data: 'all' }],
+};
+
+describe('menu-editor-model', () => {
+    describe('editing a menu', () => {
+        it('should set and remove values without changing the menu it was given', () => {
+            const menu = yogurtMenu();
+            const edited = setMenuField(setMenuField(menu, ['items', 'honey', 'price'], 60), ['items', 'honey', 'constraints', 'choiceId'], undefined);
+
+            expect(edited.items.honey).toEqual({ id: 'honey', name: 'Honey', price: 60, constraints: {} });
+            expect(menu.items.honey.price).toBe(50);
+            expect(menu.items.honey.constraints.choiceId).toBe('topping');
+        });
+
+        it('should keep the price when switching between fixed and variant pricing', () => {
+            const fixed = setItemPricing(yogurtMenu(), 'yogurt', { kind: 'fixed' });
+            expect(fixed.items.yogurt.price).toBe(200);
+
+            const variants = setItemPricing(fixed, 'honey', { kind: 'variants', groupId: 'size' });
+            expect(variants.items.honey.price).toEqual({ groupId: 'size', prices: { mini: 50, large: 50 } });
+
+            expect(setItemPricing(fixed, 'honey', { kind: 'category' }).items.honey).not.toHaveProperty('price');
+        });
+
+        it('should remove the references to a removed entry', () => {
+            const withoutHoney = removeMenuEntry(yogurtMenu(), 'items', 'honey');
+            expect(withoutHoney.itemGroups.all.itemIds).toEqual(['yogurt']);
+
+            const withoutSizes = removeMenuEntry(yogurtMenu(), 'variants', 'size');
+            expect(withoutSizes.items.yogurt.price).toBe(200);
+
+            const withoutChoice = removeMenuEntry(yogurtMenu(), 'choices', 'topping');
+            expect(withoutChoice.items.honey.constraints).toEqual({});
+        });
+
+        it('should add and remove variants with their prices', () => {
+            const added = addVariant(yogurtMenu(), 'size', 'family');
+            expect(added.variants?.size.variants.map((v) => v.id)).toEqual(['mini', 'large', 'family']);
+
+            const removed = removeVariant(added, 'size', 'mini');
+            expect(removed.variants?.size.selectedId).toBe('large');
+            expect(removed.items.yogurt.price).toEqual({ groupId: 'size', prices: { large: 300 } });
+        });
+
+        it('should add included items as entries and group items as IDs', () => {
+            const menu = setItemSubMenu(yogurtMenu(), 'yogurt', 'toppings');
+            const included = addListEntry(menu, ['items', 'yogurt', 'subMenu', 'included'], 'nuts');
+            expect(included.items.yogurt.subMenu).toEqual({ menuId: 'toppings', included: [{ itemId: 'nuts' }] });
+
+            const grouped = addListEntry(addMenuEntry(menu, 'itemGroups', 'sweet'), ['itemGroups', 'sweet', 'itemIds'], 'honey');
+            expect(grouped.itemGroups.sweet).toEqual({ id: 'sweet', name: 'sweet', itemIds: ['honey'] });
+
+            expect(moveListEntry(menu, ['itemGroups', 'all', 'itemIds'], 1, -1).itemGroups.all.itemIds).toEqual(['honey', 'yogurt']);
+            expect(moveListEntry(menu, ['itemGroups', 'all', 'itemIds'], 1, 1)).toBe(menu);
+        });
+
+        it('should refuse IDs that are taken in any menu of the language', () => {
+            const menus = { index: yogurtMenu(), toppings };
+            expect(newEntryError(menus, menus.index, 'items', 'honey')).toBe("'honey' already exists");
+            expect(newEntryError(menus, menus.index, 'items', 'nuts')).toBe("'nuts' is already an item of 'toppings'");
+            expect(newEntryError(menus, menus.index, 'items', 'maple syrup')).toMatch('not a valid ID');
+            expect(newEntryError(menus, menus.index, 'items', 'MOD-MAPLE')).toBeUndefined();
+        });
+    });
+
+    describe('validation', () => {
+        it('should report errors the draft causes in other menus', () => {
+            const index = setItemSubMenu(yogurtMenu(), 'yogurt', 'toppings');
+            const menus = {
+                index: addListEntry(index, ['items', 'yogurt', 'subMenu', 'included'], 'nuts'),
+                toppings,
+            };
+            const draft = removeMenuEntry(toppings, 'items', 'nuts');
+
+            expect(draftIssues(menus, draft).map((issue) => [issue.menuId, issue.path])).toEqual([
+                ['index', 'items.yogurt.subMenu.included[0].itemId'],
+            ]);
+        });
+
+        it('should check every change and keep the saved menus until saving', () => {
+            const model = menuEditorModel(emptyMenuEditor());
+            model.loaded({ index: yogurtMenu() });
+            model.open('index');
+            model.setField(['variants', 'size', 'selectedId'], 'family');
+
+            const data = model.getData();
+            expect(data.dirty).toBe(true);
+            expect(data.issues.map((issue) => issue.path)).toEqual(['variants.size.selectedId']);
+            expect(data.menus.index.variants?.size.selectedId).toBe('mini');
+
+            model.switchTo('toppings');
+            expect(model.getData().error).toMatch('Save or discard');
+
+            model.revert();
+            expect(model.getData()).toMatchObject({ dirty: false, issues: [] });
+        });
+    });
+});
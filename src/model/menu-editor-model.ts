@@ -0,0 +1,333 @@
+import { Update } from "@/lib/data-model-types";
+import { state } from "@/lib/data-model";
+import { Choice, ItemGroup, Menu, MenuItem, VariantGroup, isVariantPricing } from "@/types";
+import { MenuIssue, validateMenus } from "./menu-validation";
+
+// Data Types
+// Parts of a menu whose entries are added and removed by ID
+export type MenuSection = "items" | "variants" | "choices" | "itemGroups";
+
+// Where a value is in a menu, e.g. ["items", "ITEM-1", "price"]
+export type MenuPath = (string | number)[];
+
+// How an item is priced: a category without a price, a fixed price, or a price per variant of a group
+export type ItemPricing = { kind: "category" } | { kind: "fixed" } | { kind: "variants"; groupId: string };
+
+export type MenuEditorPageData = {
+  menus: Record<string, Menu>; // Every menu of the language as saved, by ID
+  menuId?: string;
+  draft?: Menu; // The opened menu with the changes not saved yet
+  issues: MenuIssue[]; // Found in the draft, or caused by it in other menus
+  dirty: boolean;
+  loading: boolean;
+  saving: boolean;
+  saved: boolean;
+  error?: string;
+};
+
+export function emptyMenuEditor(): MenuEditorPageData {
+  return { menus: {}, issues: [], dirty: false, loading: true, saving: false, saved: false };
+}
+
+// Same characters as the IDs of the existing menus, e.g. "MOD-OAT-MILK" or "coffee-size"
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Copy of a menu with the value at a path set; undefined removes it
+ */
+export function setMenuField(menu: Menu, path: MenuPath, value: unknown): Menu {
+  return setIn(menu, path, value) as Menu;
+}
+
+function setIn(target: unknown, path: MenuPath, value: unknown): unknown {
+  const [key, ...rest] = path;
+  const copy: any = Array.isArray(target) ? [...target] : { ...(target as object) };
+  const next = rest.length === 0 ? value : setIn(copy[key] ?? (typeof rest[0] === "number" ? [] : {}), rest, value);
+  if (next === undefined && !Array.isArray(copy)) {
+    delete copy[key];
+  } else {
+    copy[key] = next;
+  }
+  return copy;
+}
+
+function getIn(target: unknown, path: MenuPath): unknown {
+  return path.reduce<any>((value, key) => value?.[key], target);
+}
+
+/**
+ * Change how an item is priced, keeping its price where possible
+ * A fixed price becomes the price of every variant and the other way round
+ * the price of the group's default variant becomes the fixed price
+ */
+export function setItemPricing(menu: Menu, itemId: string, pricing: ItemPricing): Menu {
+  const item = menu.items[itemId];
+  if (!item) return menu;
+
+  const current = typeof item.price === "number" ? item.price : isVariantPricing(item.price) ? defaultPrice(menu, item) : 0;
+  let price: MenuItem["price"];
+  if (pricing.kind === "fixed") {
+    price = current;
+  } else if (pricing.kind === "variants") {
+    const group = menu.variants?.[pricing.groupId];
+    price = {
+      groupId: pricing.groupId,
+      prices: Object.fromEntries((group?.variants ?? []).map((variant) => [variant.id, current])),
+    };
+  }
+  return setMenuField(menu, ["items", itemId, "price"], price);
+}
+
+function defaultPrice(menu: Menu, item: MenuItem): number {
+  if (!isVariantPricing(item.price)) return 0;
+  const selectedId = menu.variants?.[item.price.groupId]?.selectedId;
+  return (selectedId !== undefined ? item.price.prices[selectedId] : undefined) ?? Object.values(item.price.prices)[0] ?? 0;
+}
+
+/**
+ * Point an item's subMenu at another menu, or remove it
+ * The included items belong to the menu the subMenu leads to, so they are
+ * kept only while it stays the same
+ */
+export function setItemSubMenu(menu: Menu, itemId: string, menuId: string | undefined): Menu {
+  const subMenu = menu.items[itemId]?.subMenu;
+  if (!menu.items[itemId] || subMenu?.menuId === menuId) return menu;
+  return setMenuField(menu, ["items", itemId, "subMenu"], menuId ? { menuId, included: [] } : undefined);
+}
+
+/**
+ * Why an ID can't be used for a new entry, or undefined if it can
+ * Item IDs are looked up across all menus of a language, so they have to be
+ * unique among all of them
+ */
+export function newEntryError(menus: Record<string, Menu>, menu: Menu, section: MenuSection, id: string): string | undefined {
+  if (!ID_PATTERN.test(id)) {
+    return `'${id}' is not a valid ID, use letters, digits, '-' and '_'`;
+  }
+  if (menu[section]?.[id]) {
+    return `'${id}' already exists`;
+  }
+  if (section === "items") {
+    const other = Object.values(menus).find((m) => m.id !== menu.id && m.items[id]);
+    if (other) return `'${id}' is already an item of '${other.id}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Copy of a menu with a new, mostly empty entry
+ */
+export function addMenuEntry(menu: Menu, section: MenuSection, id: string): Menu {
+  const entries: Record<MenuSection, MenuItem | VariantGroup | Choice | ItemGroup> = {
+    items: { id, name: id, price: 0, constraints: {} },
+    variants: { id, name: id, variants: [], selectedId: "" },
+    choices: { id, name: id, min: 0, max: 1 },
+    itemGroups: { id, name: id, itemIds: [] },
+  };
+  return setMenuField(menu, [section, id], entries[section]);
+}
+
+/**
+ * Copy of a menu without an entry and the references to it within the menu
+ * - an item leaves its item groups
+ * - items priced by a removed variant group get the default variant's price
+ * - items of a removed choice no longer belong to one
+ * Item groups shown by the layout are left to the validation to report
+ */
+export function removeMenuEntry(menu: Menu, section: MenuSection, id: string): Menu {
+  let next = setMenuField(menu, [section, id], undefined);
+
+  if (section === "items") {
+    for (const [groupId, group] of Object.entries(next.itemGroups)) {
+      if (group.itemIds.includes(id)) {
+        next = setMenuField(next, ["itemGroups", groupId, "itemIds"], group.itemIds.filter((itemId) => itemId !== id));
+      }
+    }
+  }
+
+  for (const [itemId, item] of Object.entries(next.items)) {
+    if (section === "variants" && isVariantPricing(item.price) && item.price.groupId === id) {
+      next = setMenuField(next, ["items", itemId, "price"], defaultPrice(menu, item));
+    }
+    if (section === "choices" && item.constraints.choiceId === id) {
+      next = setMenuField(next, ["items", itemId, "constraints", "choiceId"], undefined);
+    }
+  }
+  return next;
+}
+
+/**
+ * Copy of a menu with a new variant in a group; the first variant becomes the default
+ * Items priced by the group have no price for it yet
+ */
+export function addVariant(menu: Menu, groupId: string, variantId: string): Menu {
+  const group = menu.variants?.[groupId];
+  if (!group) return menu;
+  return setMenuField(menu, ["variants", groupId], {
+    ...group,
+    variants: [...group.variants, { id: variantId, name: variantId }],
+    selectedId: group.variants.length === 0 ? variantId : group.selectedId,
+  });
+}
+
+/**
+ * Copy of a menu without a variant and the prices for it
+ */
+export function removeVariant(menu: Menu, groupId: string, variantId: string): Menu {
+  const group = menu.variants?.[groupId];
+  if (!group) return menu;
+
+  const variants = group.variants.filter((variant) => variant.id !== variantId);
+  const selectedId = group.selectedId === variantId ? (variants[0]?.id ?? "") : group.selectedId;
+  let next = setMenuField(menu, ["variants", groupId], { ...group, variants, selectedId });
+
+  for (const [itemId, item] of Object.entries(next.items)) {
+    if (isVariantPricing(item.price) && item.price.groupId === groupId) {
+      next = setMenuField(next, ["items", itemId, "price", "prices", variantId], undefined);
+    }
+  }
+  return next;
+}
+
+/**
+ * Copy of a menu with an item added to a list of item IDs: an item group's
+ * itemIds or an item's subMenu.included
+ */
+export function addListEntry(menu: Menu, path: MenuPath, itemId: string): Menu {
+  const list = (getIn(menu, path) as unknown[] | undefined) ?? [];
+  const entry = path[path.length - 1] === "included" ? { itemId } : itemId;
+  return setMenuField(menu, path, [...list, entry]);
+}
+
+export function removeListEntry(menu: Menu, path: MenuPath, index: number): Menu {
+  const list = (getIn(menu, path) as unknown[] | undefined) ?? [];
+  return setMenuField(
+    menu,
+    path,
+    list.filter((_, i) => i !== index),
+  );
+}
+
+/**
+ * Copy of a menu with a list entry moved up (-1) or down (1)
+ */
+export function moveListEntry(menu: Menu, path: MenuPath, index: number, offset: number): Menu {
+  const list = [...((getIn(menu, path) as unknown[] | undefined) ?? [])];
+  const to = index + offset;
+  if (index < 0 || index >= list.length || to < 0 || to >= list.length) return menu;
+  [list[index], list[to]] = [list[to], list[index]];
+  return setMenuField(menu, path, list);
+}
+
+/**
+ * Issues of the draft checked together with the other menus of the language
+ * Errors anywhere count, as the draft may break references of other menus
+ */
+export function draftIssues(menus: Record<string, Menu>, draft: Menu): MenuIssue[] {
+  const all = Object.values({ ...menus, [draft.id]: draft });
+  return validateMenus(all).filter((issue) => issue.severity === "error" || issue.menuId === draft.id);
+}
+
+export function hasErrors(issues: MenuIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+export function menuEditorModel(data: MenuEditorPageData) {
+  const model = state<MenuEditorPageData>([]);
+  model.setData(data);
+
+  // Every change to the draft is checked right away
+  const change = (draft: Menu) =>
+    model.update({ draft: [draft], issues: [draftIssues(data.menus, draft)], dirty: true, saved: false, error: [] });
+
+  const open = (menuId: string) => {
+    const menu = data.menus[menuId];
+    if (!menu) return model.update({ error: `Menu '${menuId}' not found` });
+    return model.update({
+      menuId,
+      draft: [menu],
+      issues: [draftIssues(data.menus, menu)],
+      dirty: false,
+      saved: false,
+      error: [],
+    });
+  };
+
+  return {
+    getData() {
+      return data;
+    },
+    update(stmt: Update<MenuEditorPageData>) {
+      return model.update(stmt);
+    },
+    // The language's menus as saved on the server
+    loaded(menus: Record<string, Menu>) {
+      return model.update({ menus: [menus], loading: false, error: [] });
+    },
+    open,
+    // Another menu is opened only once the changes are saved or discarded
+    switchTo(menuId: string) {
+      if (data.dirty && menuId !== data.menuId) {
+        return model.update({ error: `Save or discard the changes to '${data.menuId}' first` });
+      }
+      return open(menuId);
+    },
+    revert() {
+      return data.menuId ? open(data.menuId) : undefined;
+    },
+    setField(path: MenuPath, value: unknown) {
+      return data.draft ? change(setMenuField(data.draft, path, value)) : undefined;
+    },
+    setPricing(itemId: string, pricing: ItemPricing) {
+      return data.draft ? change(setItemPricing(data.draft, itemId, pricing)) : undefined;
+    },
+    setSubMenu(itemId: string, menuId: string | undefined) {
+      return data.draft ? change(setItemSubMenu(data.draft, itemId, menuId)) : undefined;
+    },
+    addEntry(section: MenuSection, id: string) {
+      if (!data.draft) return undefined;
+      const error = newEntryError(data.menus, data.draft, section, id);
+      return error ? model.update({ error }) : change(addMenuEntry(data.draft, section, id));
+    },
+    removeEntry(section: MenuSection, id: string) {
+      return data.draft ? change(removeMenuEntry(data.draft, section, id)) : undefined;
+    },
+    addVariant(groupId: string, variantId: string) {
+      if (!data.draft) return undefined;
+      if (!ID_PATTERN.test(variantId) || data.draft.variants?.[groupId]?.variants.some((v) => v.id === variantId)) {
+        return model.update({ error: `'${variantId}' can't be used as a variant ID` });
+      }
+      return change(addVariant(data.draft, groupId, variantId));
+    },
+    removeVariant(groupId: string, variantId: string) {
+      return data.draft ? change(removeVariant(data.draft, groupId, variantId)) : undefined;
+    },
+    addListEntry(path: MenuPath, itemId: string) {
+      return data.draft ? change(addListEntry(data.draft, path, itemId)) : undefined;
+    },
+    removeListEntry(path: MenuPath, index: number) {
+      return data.draft ? change(removeListEntry(data.draft, path, index)) : undefined;
+    },
+    moveListEntry(path: MenuPath, index: number, offset: number) {
+      return data.draft ? change(moveListEntry(data.draft, path, index, offset)) : undefined;
+    },
+    startSaving() {
+      return model.update({ saving: true, error: [] });
+    },
+    // The server's copy after saving becomes the saved menu
+    saved(menu: Menu) {
+      const menus = { ...data.menus, [menu.id]: menu };
+      return model.update({
+        menus: [menus],
+        draft: [menu],
+        issues: [draftIssues(menus, menu)],
+        dirty: false,
+        saving: false,
+        saved: true,
+      });
+    },
+    fail(error: string) {
+      return model.update({ loading: false, saving: false, error });
+    },
+  };
+}
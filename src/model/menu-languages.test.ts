@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { applyMenuEdit, compareMenuLanguages, localizeMenu, toSourceMenu } from './menu-languages';
+import { Menu } from '@/types';
+
+const languages = ['sq', 'en'];
+
+function coffeeMenu(names: { coffee: string; tea: string; menu: string }, itemIds: string[]): Menu {
+    return {
+        id: 'index',
+        name: names.menu,
+        currency: 'ALL',
+        items: {
+            coffee: { id: 'coffee', name: names.coffee, price: 100, constraints: {}, order: itemIds.indexOf('coffee') },
+            tea: { id: 'tea', name: names.tea, price: 80, constraints: {}, order: itemIds.indexOf('tea') },
+        },
+        itemGroups: { drinks: { id: 'drinks', name: 'Espresso Bar', itemIds } },
+        layout: [{ type: 'item-group', data: 'drinks' }],
+    };
+}
+
+const sq = coffeeMenu({ coffee: 'Kafe', tea: 'Çaj', menu: 'Menu' }, ['tea', 'coffee']);
+const en = coffeeMenu({ coffee: 'Coffee', tea: 'Tea', menu: 'Menu' }, ['coffee', 'tea']);
+
+describe('menu-languages', () => {
+    describe('compareMenuLanguages', () => {
+        it('should accept translated texts and groups sorted by their translated names', () => {
+            expect(compareMenuLanguages({ sq: [sq], en: [en] }, 'sq')).toEqual([]);
+        });
+
+        it('should report differing prices, missing items and untranslated texts', () => {
+            const broken: Menu = {
+                ...en,
+                items: { coffee: { ...en.items.coffee, name: '', price: 120 } },
+                itemGroups: { drinks: { ...en.itemGroups.drinks, itemIds: ['coffee'] } },
+            };
+
+            expect(compareMenuLanguages({ sq: [sq], en: [broken] }, 'sq').map(({ path, message }) => [path, message])).toEqual([
+                ['items.coffee.name', 'not translated'],
+                ['items.coffee.price', '120 differs from 100 in sq'],
+                ['items.tea', 'missing'],
+                ['itemGroups.drinks.itemIds', 'lists other items than in sq'],
+            ]);
+        });
+
+        it('should report menus missing in a language', () => {
+            const issues = compareMenuLanguages({ sq: [sq], en: [] }, 'sq');
+            expect(issues).toEqual([{ severity: 'error', lang: 'en', menuId: 'index', path: '', message: 'menu missing in en' }]);
+        });
+    });
+
+    describe('source menus', () => {
+        it('should write shared values once and texts per language', () => {
+            const source = toSourceMenu({ sq, en }) as any;
+            expect(source.name).toBe('Menu');
+            expect(source.items.coffee).toEqual({ id: 'coffee', name: { sq: 'Kafe', en: 'Coffee' }, price: 100, constraints: {} });
+            expect(source.itemGroups.drinks.itemIds).toEqual({ sq: ['tea', 'coffee'], en: ['coffee', 'tea'] });
+        });
+
+        it('should give back each language with items numbered in layout order', () => {
+            const source = toSourceMenu({ sq, en });
+            expect(localizeMenu(source, 'sq', languages)).toEqual(sq);
+            expect(localizeMenu(source, 'en', languages)).toEqual(en);
+        });
+
+        it('should fall back to the first language for a text not given in a language', () => {
+            const source = { ...toSourceMenu({ sq, en }), name: { sq: 'Menuja' } };
+            expect(localizeMenu(source, 'en', languages).name).toBe('Menuja');
+        });
+    });
+
+    describe('applyMenuEdit', () => {
+        it('should give every language the new structure and keep their texts', () => {
+            const edited: Menu = {
+                ...en,
+                items: {
+                    ...en.items,
+                    coffee: { ...en.items.coffee, name: 'Filter coffee', price: 120 },
+                    mocha: { id: 'mocha', name: 'Mocha', price: 150, constraints: {} },
+                },
+                itemGroups: { drinks: { ...en.itemGroups.drinks, itemIds: ['coffee', 'tea', 'mocha'] } },
+            };
+
+            const { source, menus } = applyMenuEdit(edited, 'en', { sq, en });
+
+            expect(menus.sq.items.coffee).toEqual({ ...sq.items.coffee, price: 120 });
+            expect(menus.sq.items.mocha).toEqual({ id: 'mocha', name: 'Mocha', price: 150, constraints: {}, order: 2 });
+            expect(menus.sq.itemGroups.drinks.itemIds).toEqual(['tea', 'coffee', 'mocha']);
+            expect(menus.en.items.coffee.name).toBe('Filter coffee');
+            expect(compareMenuLanguages({ sq: [menus.sq], en: [menus.en] }, 'sq')).toEqual([]);
+            expect(localizeMenu(source, 'en', languages)).toEqual(menus.en);
+        });
+    });
+});
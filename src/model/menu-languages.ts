@@ -0,0 +1,272 @@
+import { Cells, isDataCell, isLayoutCell, Menu } from "@/types";
+import { MenuIssue, MenuIssueSeverity } from "./menu-validation";
+
+// Data Types
+export type MenuLanguageIssue = MenuIssue & { lang: string };
+
+// Value given per language in a source menu, e.g. { "sq": "Kafe", "en": "Coffee", "it": "Caffè" }
+export type Localized<T> = Record<string, T>;
+
+// Menu in the single-source format: one file for all languages, in which texts
+// and the order of a group's items may be Localized; prices, variants and
+// constraints are written once. Item "order" is left out, it follows the layout
+export type SourceMenu = { id: string } & Record<string, unknown>;
+
+// Keys whose string values are translated
+const TEXT_KEYS = ["name", "description", "text", "alt"];
+
+// Texts expected to read differently in every language; names like "Espresso" often don't
+const SENTENCE_KEYS = ["description", "text", "alt"];
+
+type PathKey = string | number;
+
+// How a value at a path may differ between languages
+type ValueKind = "text" | "group-items" | "order" | "structure";
+
+function kindOf(path: PathKey[], value: unknown): ValueKind {
+  const [first, , third] = path;
+  if (path.length === 3 && first === "items" && third === "order") return "order";
+  if (path.length === 3 && first === "itemGroups" && third === "itemIds") return "group-items";
+  const last = path[path.length - 1];
+  return typeof last === "string" && TEXT_KEYS.includes(last) && typeof value === "string" ? "text" : "structure";
+}
+
+function formatPath(path: PathKey[]): string {
+  return path.map((key, i) => (typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`)).join("");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare the menus of every language with the base language's
+ * - menus, items and other entries missing or extra in a language
+ * - prices, variants, constraints and other structure that differ
+ * - texts missing, or descriptions left as in the base language
+ * Groups may list their items in a different order, e.g. sorted by translated name
+ */
+export function compareMenuLanguages(languages: Record<string, Menu[]>, baseLang: string): MenuLanguageIssue[] {
+  const issues: MenuLanguageIssue[] = [];
+  const baseMenus = new Map((languages[baseLang] ?? []).map((menu) => [menu.id, menu]));
+
+  for (const [lang, menus] of Object.entries(languages)) {
+    if (lang === baseLang) continue;
+    const byId = new Map(menus.map((menu) => [menu.id, menu]));
+
+    for (const [menuId, base] of baseMenus) {
+      const report = (severity: MenuIssueSeverity, path: PathKey[], message: string) =>
+        issues.push({ severity, lang, menuId, path: formatPath(path), message });
+
+      const menu = byId.get(menuId);
+      if (menu) {
+        diff(base, menu, [], baseLang, report);
+      } else {
+        report("error", [], `menu missing in ${lang}`);
+      }
+    }
+    for (const menuId of byId.keys()) {
+      if (!baseMenus.has(menuId)) {
+        issues.push({ severity: "error", lang, menuId, path: "", message: `menu missing in ${baseLang}` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function diff(
+  base: unknown,
+  other: unknown,
+  path: PathKey[],
+  baseLang: string,
+  report: (severity: MenuIssueSeverity, path: PathKey[], message: string) => void,
+): void {
+  const kind = kindOf(path, base);
+  if (kind === "order") return;
+
+  if (kind === "text") {
+    if (typeof other !== "string" || (other.trim() === "" && String(base).trim() !== "")) {
+      report("error", path, "not translated");
+    } else if (other === base && SENTENCE_KEYS.includes(String(path[path.length - 1]))) {
+      report("warning", path, `same as in ${baseLang}`);
+    }
+    return;
+  }
+
+  if (kind === "group-items" && Array.isArray(base) && Array.isArray(other)) {
+    if (!isEqual([...base].sort(), [...other].sort())) {
+      report("error", path, `lists other items than in ${baseLang}`);
+    }
+    return;
+  }
+
+  if (isRecord(base) && isRecord(other)) {
+    for (const key of Object.keys(base)) {
+      if (key in other) {
+        diff(base[key], other[key], [...path, key], baseLang, report);
+      } else if (kindOf([...path, key], base[key]) !== "order") {
+        report("error", [...path, key], "missing");
+      }
+    }
+    for (const key of Object.keys(other)) {
+      if (!(key in base)) report("error", [...path, key], `not in ${baseLang}`);
+    }
+  } else if (Array.isArray(base) && Array.isArray(other) && base.length === other.length) {
+    base.forEach((value, i) => diff(value, other[i], [...path, i], baseLang, report));
+  } else if (!isEqual(base, other)) {
+    report("error", path, `${JSON.stringify(other)} differs from ${JSON.stringify(base)} in ${baseLang}`);
+  }
+}
+
+/**
+ * Merge the language versions of a menu into its source
+ * The versions must not differ in structure - see compareMenuLanguages()
+ * @param menus - The menu in each language, the first language is the base
+ */
+export function toSourceMenu(menus: Record<string, Menu>): SourceMenu {
+  const langs = Object.keys(menus);
+  return merge(
+    langs.map((lang) => menus[lang]),
+    langs,
+    [],
+  ) as SourceMenu;
+}
+
+function merge(values: unknown[], langs: string[], path: PathKey[]): unknown {
+  const [base] = values;
+  const kind = kindOf(path, base);
+
+  if (kind === "text" || kind === "group-items") {
+    return values.every((value) => isEqual(value, base))
+      ? base
+      : Object.fromEntries(langs.map((lang, i) => [lang, values[i]]));
+  }
+  if (isRecord(base)) {
+    const merged: Record<string, unknown> = {};
+    for (const key of Object.keys(base)) {
+      if (kindOf([...path, key], base[key]) === "order") continue;
+      merged[key] = merge(
+        values.map((value) => (value as Record<string, unknown>)[key]),
+        langs,
+        [...path, key],
+      );
+    }
+    return merged;
+  }
+  if (Array.isArray(base)) {
+    return base.map((_, i) => merge(values.map((value) => (value as unknown[])[i]), langs, [...path, i]));
+  }
+  return base;
+}
+
+/**
+ * Whether a source value is given per language
+ */
+export function isLocalized(value: unknown, languages: string[]): value is Localized<unknown> {
+  if (!isRecord(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => languages.includes(key));
+}
+
+/**
+ * The menu of one language from its source
+ * Values given per language fall back to the first language when one is missing,
+ * and items are numbered in the order the layout shows them
+ */
+export function localizeMenu(source: SourceMenu, lang: string, languages: string[]): Menu {
+  const pick = (value: unknown): unknown => {
+    if (isLocalized(value, languages)) return value[lang] ?? value[languages[0]];
+    if (Array.isArray(value)) return value.map(pick);
+    if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, pick(v)]));
+    return value;
+  };
+  const menu = pick(source) as Menu;
+
+  const order = layoutOrder(menu);
+  const items: Menu["items"] = {};
+  for (const [id, item] of Object.entries(menu.items)) {
+    const { order: _, ...rest } = item;
+    items[id] = order.has(id) ? { ...rest, order: order.get(id) } : rest;
+  }
+  return { ...menu, items };
+}
+
+/**
+ * Position of each item in the layout's item groups, first appearance counts
+ */
+function layoutOrder(menu: Menu): Map<string, number> {
+  const order = new Map<string, number>();
+  const visit = (cells: Cells | undefined): void => {
+    if (cells == null) return;
+    if (Array.isArray(cells)) return cells.forEach(visit);
+    if (isLayoutCell(cells)) return visit(cells.cells);
+    if (isDataCell(cells) && cells.type === "item-group") {
+      for (const id of menu.itemGroups?.[cells.data as string]?.itemIds ?? []) {
+        if (!order.has(id)) order.set(id, order.size);
+      }
+    }
+  };
+  visit(menu.layout);
+  return order;
+}
+
+/**
+ * Apply a menu edited in one language to all languages
+ * The other languages take over the new structure (prices, items, variants,
+ * constraints...) and keep their own texts and group order where the edit left
+ * them in place; new texts start as the edited language's
+ * @param edited - The menu as edited
+ * @param lang - The language it was edited in
+ * @param versions - The menu as it was in each language, the first language is the base
+ * @returns The source menu and the menu of each language written from it
+ */
+export function applyMenuEdit(
+  edited: Menu,
+  lang: string,
+  versions: Record<string, Menu>,
+): { source: SourceMenu; menus: Record<string, Menu> } {
+  const languages = Object.keys(versions);
+  const merged: Record<string, Menu> = {};
+  for (const other of languages) {
+    merged[other] = other === lang ? edited : (carryOver(edited, versions[other], []) as Menu);
+  }
+
+  const source = toSourceMenu(merged);
+  return {
+    source,
+    menus: Object.fromEntries(languages.map((other) => [other, localizeMenu(source, other, languages)])),
+  };
+}
+
+function carryOver(edited: unknown, other: unknown, path: PathKey[]): unknown {
+  const kind = kindOf(path, edited);
+
+  if (kind === "text") {
+    return typeof other === "string" && other.trim() !== "" ? other : edited;
+  }
+  if (kind === "group-items" && Array.isArray(edited)) {
+    const kept = Array.isArray(other) ? other.filter((id) => edited.includes(id)) : [];
+    return [...kept, ...edited.filter((id) => !kept.includes(id))];
+  }
+  if (isRecord(edited)) {
+    const otherRecord = isRecord(other) ? other : {};
+    return Object.fromEntries(
+      Object.entries(edited).map(([key, value]) => [key, carryOver(value, otherRecord[key], [...path, key])]),
+    );
+  }
+  if (Array.isArray(edited)) {
+    // Entries with an ID (e.g. variants) are matched by it, others by position
+    const others = Array.isArray(other) ? other : [];
+    return edited.map((value, i) => {
+      const id = isRecord(value) && typeof value.id === "string" ? value.id : undefined;
+      const match = id !== undefined ? others.find((entry) => isRecord(entry) && entry.id === id) : others[i];
+      return carryOver(value, match, [...path, i]);
+    });
+  }
+  return edited;
+}
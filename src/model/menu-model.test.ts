@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { menuRefreshUpdate, menuStructureChanged, MenuModel, toDisplayMenu } from './menu-model';
+import { Menu } from '@/types';
+
+function coffeeMenu(): Menu {
+    return {
+        id: 'coffee-menu',
+        name: 'Coffee',
+        currency: 'ALL',
+        items: {
+            espresso: { id: 'espresso', name: 'Espresso', icon: '☕', price: { groupId: 'size', prices: { small: 100, large: 150 } }, constraints: {} },
+            water: { id: 'water', name: 'Water', price: 50, constraints: {} },
+            hot: { id: 'hot', name: 'Hot drinks', constraints: {} },
+        },
+        itemGroups: { all: { id: 'all', name: 'All', itemIds: ['espresso', 'water', 'hot'] } },
+        layout: [{ type: 'item-group', data: 'all' }],
+        variants: {
+            size: { id: 'size', selectedId: 'small', variants: [{ id: 'small', name: 'Small' }, { id: 'large', name: 'Large' }] },
+        },
+    };
+}
+
+describe('menu-model', () => {
+    describe('menuRefreshUpdate', () => {
+        it('should update names and prices for the selected variants', () => {
+            const model = new MenuModel();
+            model.setMenu(toDisplayMenu(coffeeMenu()));
+            model.update({ variants: { size: { selectedId: 'large' } } });
+
+            const fresh = coffeeMenu();
+            fresh.items.espresso.price = { groupId: 'size', prices: { small: 120, large: 180 } };
+            fresh.items.water.name = 'Still water';
+
+            const stmt = menuRefreshUpdate(model.data, fresh);
+            expect(Object.keys((stmt as { items: object }).items)).toEqual(['espresso', 'water']);
+
+            model.update(stmt!);
+            expect(model.data.items.espresso).toMatchObject({ price: 180, variantId: 'large' });
+            expect(model.data.items.water).toMatchObject({ price: 50, data: { name: 'Still water' } });
+        });
+
+        it('should leave items that changed more than their texts and prices', () => {
+            const data = toDisplayMenu(coffeeMenu());
+            const fresh = coffeeMenu();
+            fresh.items.water.constraints = { min: 1 };
+            fresh.items.hot.price = 80;
+            delete (fresh.items as Partial<Menu['items']>).espresso;
+
+            expect(menuRefreshUpdate(data, fresh)).toBeUndefined();
+            expect(menuRefreshUpdate(data, coffeeMenu())).toBeUndefined();
+        });
+    });
+
+    describe('menuStructureChanged', () => {
+        it('should ignore texts, prices and the selected variants', () => {
+            const model = new MenuModel();
+            model.setMenu(toDisplayMenu(coffeeMenu()));
+            model.update({ variants: { size: { selectedId: 'large' } } });
+
+            const fresh = coffeeMenu();
+            fresh.items.water.name = 'Still water';
+            fresh.items.espresso.price = { groupId: 'size', prices: { small: 120, large: 180 } };
+
+            expect(menuStructureChanged(model.data, fresh)).toBe(false);
+        });
+
+        it('should find items that changed more than their texts and prices', () => {
+            const data = toDisplayMenu(coffeeMenu());
+
+            const pricing = coffeeMenu();
+            pricing.items.water.price = { groupId: 'size', prices: { small: 50, large: 70 } };
+            expect(menuStructureChanged(data, pricing)).toBe(true);
+
+            const added = coffeeMenu();
+            added.items.tea = { id: 'tea', name: 'Tea', price: 80, constraints: {} };
+            expect(menuStructureChanged(data, added)).toBe(true);
+
+            const layout = coffeeMenu();
+            layout.itemGroups.all.itemIds = ['water', 'espresso', 'hot'];
+            expect(menuStructureChanged(data, layout)).toBe(true);
+        });
+    });
+});
@@ -31,6 +31,7 @@ export type DisplayMenuItem = {
   isCategory: boolean;
   isSingleChoice?: boolean; // Computed from choice definition (true if min=1 and max=1)
   isRequired?: boolean; // Computed from constraints (true if min >= 1)
+  available: boolean; // False when sold out for the day
 };
 
 export function toDisplayMenuItem(data: MenuItem, menu: DisplayMenu | Menu): DisplayMenuItem {
@@ -49,7 +50,7 @@ export function toDisplayMenuItem(data: MenuItem, menu: DisplayMenu | Menu): Dis
   const isCategory = data.price == null;
 
   const { price, variantId } = extractPricing(data, menu.variants);
-  return { data, price, variantId, quantity: 0, total: 0, isCategory, isSingleChoice, isRequired };
+  return { data, price, variantId, quantity: 0, total: 0, isCategory, isSingleChoice, isRequired, available: true };
 }
 
 export type DisplayMenu = Menu<DisplayMenuItem>;
@@ -87,9 +88,82 @@ export function toOrderItem(item: MenuItem, pageData: MenuPageData): OrderItem {
     unitPrice: price,
     quantity: 1,
     total: price,
+    status: "draft",
   };
 }
 
+/**
+ * Mark the menu's sold out items unavailable and all others available
+ */
+export function availabilityUpdate(soldOutIds: string[]): Update<MenuPageData> {
+  return { items: { [ALL]: { available: (_, item) => !soldOutIds.includes(item.data.id) } } };
+}
+
+// Item fields shown on the menu page that can change without rendering it again
+const LIVE_ITEM_FIELDS = ["name", "description", "icon", "price"] as const;
+
+function withoutLiveFields(item: MenuItem) {
+  const rest: Partial<MenuItem> = { ...item };
+  LIVE_ITEM_FIELDS.forEach((field) => delete rest[field]);
+  return JSON.stringify(rest);
+}
+
+function samePricingKind(a: MenuItem["price"], b: MenuItem["price"]) {
+  if (isVariantPricing(a) || isVariantPricing(b)) {
+    return isVariantPricing(a) && isVariantPricing(b) && a.groupId === b.groupId;
+  }
+  return (a == null) === (b == null);
+}
+
+// Menu fields that decide how the page is laid out; the selected variants belong to the page
+function menuShape(menu: Menu | MenuPageData) {
+  const { name, currency, itemGroups, layout, choices, variants, modifierMenu } = menu;
+  const variantGroups = Object.values(variants ?? {}).map((group) => ({ ...group, selectedId: undefined }));
+  return JSON.stringify({ name, currency, itemGroups, layout, choices, variantGroups, modifierMenu });
+}
+
+/**
+ * Whether a menu loaded again from the server changed more than
+ * menuRefreshUpdate can show: items added or removed, items changed beyond their
+ * texts and prices or their kind of price, or the menu's groups, layout,
+ * choices or variants. The page has to be rendered again for these
+ */
+export function menuStructureChanged(data: MenuPageData, fresh: Menu): boolean {
+  const ids = Object.keys(data.items);
+  if (ids.length !== Object.keys(fresh.items).length) return true;
+
+  for (const id of ids) {
+    const item = data.items[id].data;
+    const freshItem = fresh.items[id];
+    if (!freshItem || withoutLiveFields(freshItem) !== withoutLiveFields(item) || !samePricingKind(freshItem.price, item.price)) {
+      return true;
+    }
+  }
+  return menuShape(data) !== menuShape(fresh);
+}
+
+/**
+ * Show the names and prices of a menu loaded again from the server
+ * Prices follow the variants selected on the page. Items that were added,
+ * removed or changed otherwise are left as they are, see menuStructureChanged;
+ * undefined when nothing can be updated
+ */
+export function menuRefreshUpdate(data: MenuPageData, fresh: Menu): Update<MenuPageData> | undefined {
+  const items: Record<string, Update<DisplayMenuItem>> = {};
+
+  for (const [id, item] of Object.entries(data.items)) {
+    const freshItem = fresh.items[id];
+    if (!freshItem || JSON.stringify(freshItem) === JSON.stringify(item.data)) continue;
+    if (withoutLiveFields(freshItem) !== withoutLiveFields(item.data)) continue;
+    if (!samePricingKind(freshItem.price, item.data.price)) continue;
+
+    const { price, variantId } = extractPricing(freshItem, data.variants);
+    items[id] = { data: [freshItem], price, variantId };
+  }
+
+  return Object.keys(items).length > 0 ? { items } : undefined;
+}
+
 export type MenuPageData = DisplayMenu & {
   order?: OrderItem;
   quickOrder?: {
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { validateMenus } from './menu-validation';
+import { Menu, MenuItem } from '@/types';
+
+function item(id: string, extra: Partial<MenuItem> = {}): MenuItem {
+    return { id, name: id, price: 100, constraints: {}, ...extra };
+}
+
+function menu(id: string, items: MenuItem[], extra: Partial<Menu> = {}): Menu {
+    return {
+        id,
+        name: id,
+        currency: 'ALL',
+        items: Object.fromEntries(items.map((i) => [i.id, i])),
+        itemGroups: { all: { id: 'all', name: 'All', itemIds: items.map((i) => i.id) } },
+        layout: [{ type: 'item-group', data: 'all' }],
+        ...extra,
+    };
+}
+
+const options = menu('coffee-options', [
+    item('oat', { constraints: { choiceId: 'milk' } }),
+    item('soy', { constraints: { choiceId: 'milk' } }),
+], { choices: { milk: { id: 'milk', min: 1, max: 1 } } });
+
+describe('menu-validation', () => {
+    it('should accept menus whose references all resolve', () => {
+        const index = menu('index', [item('espresso', { subMenu: { menuId: 'coffee-options', included: [{ itemId: 'oat' }] } })]);
+        expect(validateMenus([index, options])).toEqual([]);
+    });
+
+    it('should report dangling references with their path', () => {
+        const index = menu('index', [
+            item('espresso', { subMenu: { menuId: 'coffee-options', included: [{ itemId: 'almond' }] } }),
+            item('tea', { subMenu: { menuId: 'tea-options', included: [] } }),
+        ], { layout: [{ type: 'item-group', data: 'all' }, { cells: [{ type: 'item-group', data: 'drinks' }] }] });
+        index.itemGroups.all.itemIds.push('latte');
+
+        expect(validateMenus([index, options]).map((issue) => issue.path)).toEqual([
+            'items.espresso.subMenu.included[0].itemId',
+            'items.tea.subMenu.menuId',
+            'itemGroups.all.itemIds[2]',
+            'layout[1].cells[0].data',
+        ]);
+    });
+
+    it('should report variant prices missing for a variant of the group', () => {
+        const index = menu('index', [item('yogurt', { price: { groupId: 'size', prices: { mini: 100 } } })], {
+            variants: { size: { id: 'size', selectedId: 'mini', variants: [{ id: 'mini', name: 'Mini' }, { id: 'family', name: 'Family' }] } },
+        });
+        expect(validateMenus([index])).toEqual([
+            { severity: 'error', menuId: 'index', path: 'items.yogurt.price.prices', message: "no price for variant 'family'" },
+        ]);
+    });
+
+    it('should report choices the items of the choice cannot satisfy', () => {
+        const index = menu('index', [item('espresso', { subMenu: { menuId: 'coffee-options', included: [] } })]);
+        const broken = { ...options, choices: { milk: { id: 'milk', min: 3 }, unused: { id: 'unused', min: 1 } } };
+        expect(validateMenus([index, broken]).map((issue) => issue.path)).toEqual(['choices.milk']);
+    });
+
+    it('should warn about menus the root menu does not lead to', () => {
+        const issues = validateMenus([menu('index', [item('espresso')]), options]);
+        expect(issues).toEqual([
+            { severity: 'warning', menuId: 'coffee-options', path: 'id', message: "no menu leads here from 'index'" },
+        ]);
+    });
+});
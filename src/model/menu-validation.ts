@@ -0,0 +1,176 @@
+import { Cells, isDataCell, isLayoutCell, Menu, MenuItem, isVariantPricing } from "@/types";
+
+// Data Types
+// Errors break the menu for guests and staff, warnings are worth a look
+export type MenuIssueSeverity = "error" | "warning";
+
+export type MenuIssue = {
+  severity: MenuIssueSeverity;
+  menuId: string;
+  path: string; // Where in the menu file, e.g. "items.ITEM-1.subMenu.menuId"
+  message: string;
+};
+
+// The menu the app opens, every other menu has to be reachable from it
+export const ROOT_MENU_ID = "index";
+
+/**
+ * Check the cross-references within and between the menus of one language
+ * - references to items, item groups, choices, variant groups and menus that don't exist
+ * - variant prices missing for a variant of the group
+ * - choices whose minimum can't be met by the items that belong to them
+ *   (a choice no item belongs to has no effect)
+ * - menus no subMenu leads to from the root menu
+ */
+export function validateMenus(menus: Menu[], rootMenuId = ROOT_MENU_ID): MenuIssue[] {
+  const byId = new Map(menus.map((menu) => [menu.id, menu]));
+  const issues: MenuIssue[] = [];
+
+  for (const menu of menus) {
+    const report = (severity: MenuIssueSeverity, path: string, message: string) =>
+      issues.push({ severity, menuId: menu.id, path, message });
+    const error = (path: string, message: string) => report("error", path, message);
+
+    for (const [key, item] of Object.entries(menu.items)) {
+      const at = `items.${key}`;
+      if (item.id !== key) {
+        error(`${at}.id`, `'${item.id}' differs from its key '${key}'`);
+      }
+      validateItem(menu, item, at, byId, error);
+    }
+
+    for (const [key, group] of Object.entries(menu.itemGroups ?? {})) {
+      group.itemIds.forEach((itemId, i) => {
+        if (!menu.items[itemId]) {
+          error(`itemGroups.${key}.itemIds[${i}]`, `'${itemId}' is not an item of this menu`);
+        }
+      });
+    }
+
+    for (const { cell, path } of dataCells(menu.layout, "layout")) {
+      if (cell.type === "item-group" && !menu.itemGroups?.[cell.data as string]) {
+        error(`${path}.data`, `'${cell.data}' is not an item group of this menu`);
+      }
+      if (cell.type === "variant-selection" && !menu.variants?.[cell.data as string]) {
+        error(`${path}.data`, `'${cell.data}' is not a variant group of this menu`);
+      }
+    }
+
+    for (const [key, group] of Object.entries(menu.variants ?? {})) {
+      if (!group.variants.some((variant) => variant.id === group.selectedId)) {
+        error(`variants.${key}.selectedId`, `'${group.selectedId}' is not a variant of the group`);
+      }
+    }
+
+    for (const [key, choice] of Object.entries(menu.choices ?? {})) {
+      const members = Object.values(menu.items).filter((item) => item.constraints?.choiceId === key).length;
+      const min = choice.min ?? 0;
+      if (choice.max !== undefined && min > choice.max) {
+        error(`choices.${key}`, `min ${min} is more than max ${choice.max}`);
+      } else if (members > 0 && min > members) {
+        error(`choices.${key}`, `min ${min} can't be met by the ${members} item(s) of the choice`);
+      }
+    }
+
+    for (const [key, promotion] of Object.entries(menu.promotions ?? {})) {
+      if (promotion.itemGroupId && !menu.itemGroups?.[promotion.itemGroupId]) {
+        error(`promotions.${key}.itemGroupId`, `'${promotion.itemGroupId}' is not an item group of this menu`);
+      }
+      (promotion.itemIds ?? []).forEach((itemId, i) => {
+        if (!menu.items[itemId]) {
+          error(`promotions.${key}.itemIds[${i}]`, `'${itemId}' is not an item of this menu`);
+        }
+      });
+    }
+  }
+
+  if (byId.has(rootMenuId)) {
+    const reachable = reachableMenus(byId, rootMenuId);
+    for (const menu of menus) {
+      if (!reachable.has(menu.id)) {
+        issues.push({ severity: "warning", menuId: menu.id, path: "id", message: `no menu leads here from '${rootMenuId}'` });
+      }
+    }
+  } else {
+    issues.push({ severity: "error", menuId: rootMenuId, path: "id", message: "the root menu is missing" });
+  }
+
+  return issues;
+}
+
+function validateItem(
+  menu: Menu,
+  item: MenuItem,
+  at: string,
+  byId: Map<string, Menu>,
+  error: (path: string, message: string) => void,
+): void {
+  const { min, max, choiceId } = item.constraints ?? {};
+  if (choiceId && !menu.choices?.[choiceId]) {
+    error(`${at}.constraints.choiceId`, `'${choiceId}' is not a choice of this menu`);
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    error(`${at}.constraints`, `min ${min} is more than max ${max}`);
+  }
+
+  if (isVariantPricing(item.price)) {
+    const group = menu.variants?.[item.price.groupId];
+    if (!group) {
+      error(`${at}.price.groupId`, `'${item.price.groupId}' is not a variant group of this menu`);
+    } else {
+      for (const variant of group.variants) {
+        if (item.price.prices[variant.id] === undefined) {
+          error(`${at}.price.prices`, `no price for variant '${variant.id}'`);
+        }
+      }
+    }
+  }
+
+  const subMenu = item.subMenu;
+  if (!subMenu) return;
+
+  const target = byId.get(subMenu.menuId);
+  if (!target) {
+    error(`${at}.subMenu.menuId`, `'${subMenu.menuId}' is not a menu`);
+    return;
+  }
+  (subMenu.included ?? []).forEach((included, i) => {
+    if (!target.items[included.itemId]) {
+      error(`${at}.subMenu.included[${i}].itemId`, `'${included.itemId}' is not an item of '${target.id}'`);
+    }
+  });
+  (subMenu.preUpdate ?? []).forEach((update, i) => {
+    for (const itemId of Object.keys(update.items ?? {})) {
+      if (!target.items[itemId]) {
+        error(`${at}.subMenu.preUpdate[${i}].items`, `'${itemId}' is not an item of '${target.id}'`);
+      }
+    }
+  });
+}
+
+/**
+ * Data cells anywhere in a layout, with their path
+ */
+function dataCells(cells: Cells | undefined, path: string): { cell: { type: string; data?: unknown }; path: string }[] {
+  if (cells == null) return [];
+  if (Array.isArray(cells)) return cells.flatMap((cell, i) => dataCells(cell, `${path}[${i}]`));
+  if (isLayoutCell(cells)) return dataCells(cells.cells, `${path}.cells`);
+  return isDataCell(cells) ? [{ cell: cells, path }] : [];
+}
+
+/**
+ * Menus the root menu leads to through subMenus
+ */
+function reachableMenus(byId: Map<string, Menu>, rootMenuId: string): Set<string> {
+  const reachable = new Set<string>();
+  const pending = [rootMenuId];
+  while (pending.length > 0) {
+    const menu = byId.get(pending.pop()!);
+    if (!menu || reachable.has(menu.id)) continue;
+    reachable.add(menu.id);
+    for (const item of Object.values(menu.items)) {
+      if (item.subMenu) pending.push(item.subMenu.menuId);
+    }
+  }
+  return reachable;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { orderHistoryModel, emptyOrderHistory, reopenOrder, summarizeOrder, today } from './order-history-model';
+import { orderReceipt } from './receipt-model';
+import { OrderItem } from './order-model';
+import { StoredOrder } from '@/services/order-history-service';
+
+const PAID_AT = '2024-05-01T20:15:00.000Z';
+
+function item(id: string, name: string, total: number): OrderItem {
+    return {
+        id,
+        menuItem: { id: name.toLowerCase(), name } as OrderItem['menuItem'],
+        currency: 'EUR',
+        quantity: 1,
+        price: total,
+        modifiers: [],
+        modifiersPrice: 0,
+        unitPrice: total,
+        total,
+        status: 'sent',
+        round: 1,
+    };
+}
+
+const stored: StoredOrder = {
+    id: 'ORD-1',
+    orderNumbers: ['ORD-1', 'ORD-2'],
+    tableNumber: '4',
+    sessionId: null,
+    status: 'paid',
+    currency: 'EUR',
+    total: 20,
+    discount: { kind: 'percent', value: 10, reason: 'loyalty' },
+    discountAmount: 2,
+    createdAt: '2024-05-01T19:30:00.000Z',
+    updatedAt: PAID_AT,
+    paidAt: PAID_AT,
+    itemIds: ['a', 'b', 'gone'],
+    items: { a: item('a', 'Pizza', 12), b: item('b', 'Wine', 8) },
+    rounds: [
+        { round: 1, orderNumber: 'ORD-1', sentAt: '2024-05-01T19:30:00.000Z', itemIds: ['a'], total: 12 },
+        { round: 2, orderNumber: 'ORD-2', sentAt: '2024-05-01T19:50:00.000Z', itemIds: ['b'], total: 8 },
+    ],
+    payments: [
+        { paymentId: 'P1', amount: 18, tenders: [{ id: 't1', method: 'card', amount: 18 }], change: 0, paidAt: PAID_AT },
+    ],
+};
+
+const charges = { taxRate: 0.2, taxMode: 'inclusive' as const, serviceFee: 0 };
+
+describe('order history model', () => {
+    it('should reopen a stored order as order page data', () => {
+        const data = reopenOrder(stored, charges);
+
+        expect(data.order).toMatchObject({
+            itemIds: ['a', 'b'],
+            total: 18,
+            status: 'closed',
+            round: 2,
+            orderNumber: 'ORD-2',
+            tableNumber: '4',
+            discountAmount: 2,
+        });
+        expect(data.order.sessionId).toBeUndefined();
+        expect(Object.keys(data.items)).toEqual(['a', 'b']);
+        expect(data.items.a).toEqual({ item: stored.items.a, expanded: false, flatMode: false });
+        expect(data.totals).toEqual({ subtotal: 18, service: 0, tax: 3, total: 18 });
+    });
+
+    it('should reopen orders that are still open as sent', () => {
+        expect(reopenOrder({ ...stored, status: 'open' }).order.status).toBe('sent');
+    });
+
+    it('should print a copy of the receipt with the last payment', () => {
+        const receipt = orderReceipt(reopenOrder(stored, charges), stored.payments[0], new Date(PAID_AT));
+
+        expect(receipt).toMatchObject({
+            kind: 'receipt',
+            copy: true,
+            orderNumber: 'ORD-2',
+            tableNumber: '4',
+            discount: 2,
+            totals: { total: 18 },
+            payment: { paymentId: 'P1' },
+        });
+        expect(receipt.lines.map((line) => [line.name, line.amount])).toEqual([['Pizza', 12], ['Wine', 8]]);
+    });
+
+    it('should summarize stored orders for the list', () => {
+        const summary = summarizeOrder(stored);
+        expect(summary).toMatchObject({ id: 'ORD-1', status: 'paid', itemCount: 3, roundCount: 2 });
+        expect(summary).not.toHaveProperty('items');
+        expect(summary).not.toHaveProperty('payments');
+    });
+
+    it('should sum voided and comped items and leave voids off the receipt', () => {
+        const voided = {
+            ...item('c', 'Soup', 0),
+            adjustment: { kind: 'void', reason: 'wrong-item', amount: 6, staff: 'Ana', approvedBy: 'Ben', at: PAID_AT },
+        } as const;
+        const withVoid = { ...stored, itemIds: ['a', 'b', 'c'], items: { ...stored.items, c: voided } };
+
+        expect(summarizeOrder(withVoid)).toMatchObject({ voidAmount: 6, compAmount: 0 });
+        const receipt = orderReceipt(reopenOrder(withVoid, charges), stored.payments[0], new Date(PAID_AT));
+        expect(receipt.lines.map((line) => line.name)).toEqual(['Pizza', 'Wine']);
+    });
+
+    it('should update the list entry and the opened order after a refund', () => {
+        const model = orderHistoryModel(emptyOrderHistory('EUR'));
+        model.sync([summarizeOrder(stored)]);
+        model.select(stored);
+
+        model.saved({ ...stored, status: 'refunded' });
+
+        expect(model.getData().orders['ORD-1'].status).toBe('refunded');
+        expect(model.getData().selected?.status).toBe('refunded');
+    });
+
+    it('should use the local date as today', () => {
+        expect(today(new Date(2024, 0, 5, 23, 30))).toBe('2024-01-05');
+    });
+});
@@ -0,0 +1,114 @@
+import { Update } from "@/lib/data-model-types";
+import { state } from "@/lib/data-model";
+import { getCurrencyFormat } from "@/lib/context";
+import { OrderFilter, StoredOrder, StoredOrderSummary } from "@/services/order-history-service";
+import { adjustmentTotals } from "./adjustment-model";
+import { DisplayItem, NO_CHARGES, Order, OrderCharges, OrderPageData, orderTotals } from "./order-model";
+
+// Data Types
+export type OrderHistoryPageData = {
+  orders: Record<string, StoredOrderSummary>;
+  orderIds: string[]; // Newest first, as listed by the server
+  filter: OrderFilter;
+  selected?: StoredOrder; // Order opened from the list, with its items and payments
+  currency: string;
+  charges: OrderCharges;
+  loading: boolean;
+  error?: string;
+};
+
+export function emptyOrderHistory(currency: string, charges = NO_CHARGES): OrderHistoryPageData {
+  return { orders: {}, orderIds: [], filter: {}, currency, charges, loading: false };
+}
+
+/**
+ * Today as an ISO date in the till's local time, the history's default filter
+ */
+export function today(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * List entry for a stored order
+ */
+export function summarizeOrder(stored: StoredOrder): StoredOrderSummary {
+  const { items, itemIds, rounds, payments, ...summary } = stored;
+  const adjusted = adjustmentTotals(Object.values(items));
+  return {
+    ...summary,
+    itemCount: itemIds.length,
+    roundCount: rounds.length,
+    voidAmount: adjusted.void,
+    compAmount: adjusted.comp,
+  };
+}
+
+/**
+ * A stored order as order page data, e.g. to reprint its receipt or refund it
+ * Sent orders come back as sent, paid and refunded ones as closed
+ */
+export function reopenOrder(stored: StoredOrder, charges = NO_CHARGES): OrderPageData {
+  const decimals = getCurrencyFormat(stored.currency).decimals;
+  const factor = Math.pow(10, decimals);
+  const itemIds = stored.itemIds.filter((id) => stored.items[id] != null);
+
+  const order: Order = {
+    itemIds,
+    total: Math.round((stored.total - (stored.discountAmount ?? 0)) * factor) / factor,
+    currency: stored.currency,
+    status: stored.status === "open" ? "sent" : "closed",
+    round: stored.rounds.length,
+    orderNumber: stored.orderNumbers[stored.orderNumbers.length - 1] ?? stored.id,
+    ...(stored.tableNumber ? { tableNumber: stored.tableNumber } : {}),
+    ...(stored.sessionId ? { sessionId: stored.sessionId } : {}),
+    ...(stored.discount ? { discount: stored.discount, discountAmount: stored.discountAmount ?? 0 } : {}),
+  };
+
+  const items: Record<string, DisplayItem> = {};
+  for (const id of itemIds) {
+    items[id] = { item: stored.items[id], expanded: false, flatMode: false };
+  }
+
+  return { order, items, currency: stored.currency, charges, totals: orderTotals(order, charges), promotions: [] };
+}
+
+export function orderHistoryModel(data: OrderHistoryPageData) {
+  const model = state<OrderHistoryPageData>([]);
+  model.setData(data);
+
+  return {
+    getData() {
+      return data;
+    },
+    update(stmt: Update<OrderHistoryPageData>) {
+      return model.update(stmt);
+    },
+    // A new filter reloads the list
+    setFilter(filter: OrderFilter) {
+      return model.update({ filter: [filter], loading: true, error: [] });
+    },
+    // Replace the list with the server's, newest first
+    sync(orders: StoredOrderSummary[]) {
+      return model.update({
+        orders: [Object.fromEntries(orders.map((order) => [order.id, order]))],
+        orderIds: [orders.map((order) => order.id)],
+        loading: false,
+        error: [],
+      });
+    },
+    fail(error: string) {
+      return model.update({ loading: false, error });
+    },
+    select(stored: StoredOrder | undefined) {
+      return model.update({ selected: stored ? [stored] : [] });
+    },
+    // The server's copy after a change, e.g. a refund
+    saved(stored: StoredOrder) {
+      return model.update({
+        ...(data.selected?.id === stored.id ? { selected: [stored] } : {}),
+        ...(data.orders[stored.id] ? { orders: { [stored.id]: [summarizeOrder(stored)] } } : {}),
+      } as Update<OrderHistoryPageData>);
+    },
+  };
+}
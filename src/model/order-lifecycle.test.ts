@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { update } from '@/lib/data-model';
+import { canTransition, canTransitionItem, findViolation, isNewRound } from './order-lifecycle';
+import { NO_CHARGES, OrderItem, OrderPageData } from './order-model';
+
+function orderItem(id: string, status: OrderItem['status']): OrderItem {
+    return {
+        id,
+        menuItem: { id: `menu-${id}`, name: id, constraints: {} },
+        currency: 'ALL',
+        quantity: 1,
+        price: 100,
+        modifiers: [],
+        modifiersPrice: 0,
+        unitPrice: 100,
+        total: 100,
+        status,
+    };
+}
+
+function pageData(status: OrderPageData['order']['status'], items: OrderItem[]): OrderPageData {
+    return {
+        order: { itemIds: items.map((i) => i.id), total: items.length * 100, currency: 'ALL', status, round: 1 },
+        items: Object.fromEntries(items.map((item) => [item.id, { item, expanded: false, flatMode: false }])),
+        currency: 'ALL',
+        charges: NO_CHARGES,
+        totals: { subtotal: items.length * 100, service: 0, tax: 0, total: items.length * 100 },
+        promotions: [],
+    };
+}
+
+describe('order-lifecycle', () => {
+    describe('transitions', () => {
+        it('should follow the lifecycle in order', () => {
+            expect(canTransition('draft', 'sent')).toBe(true);
+            expect(canTransition('sent', 'preparing')).toBe(true);
+            expect(canTransition('served', 'paid')).toBe(true);
+            expect(canTransition('paid', 'closed')).toBe(true);
+            expect(canTransition('sent', 'paid')).toBe(true);
+        });
+
+        it('should not skip or go backwards', () => {
+            expect(canTransition('draft', 'paid')).toBe(false);
+            expect(canTransition('closed', 'draft')).toBe(false);
+            expect(canTransitionItem('served', 'sent')).toBe(false);
+        });
+
+        it('should allow a new round on a sent order', () => {
+            expect(canTransition('served', 'sent')).toBe(true);
+            expect(isNewRound({ status: 'sent' }, { status: 'draft' })).toBe(true);
+            expect(isNewRound({ status: 'draft' }, { status: 'draft' })).toBe(false);
+        });
+    });
+
+    describe('findViolation', () => {
+        it('should accept changes to draft items', () => {
+            const data = pageData('sent', [orderItem('a', 'sent'), orderItem('b', 'draft')]);
+            const changes = update(data, { items: { b: { item: { quantity: 2 } } } });
+            expect(findViolation(changes!, data)).toBeUndefined();
+        });
+
+        it('should reject changes to sent items', () => {
+            const data = pageData('sent', [orderItem('a', 'sent')]);
+            const changes = update(data, { items: { a: { item: { quantity: 2 } } } });
+            expect(findViolation(changes!, data)).toContain('already sent');
+        });
+
+        it('should accept voiding or comping a sent item once', () => {
+            const data = pageData('sent', [orderItem('a', 'sent')]);
+            const adjustment = { kind: 'comp', reason: 'long-wait', amount: 100, staff: 'Ana', approvedBy: 'Ana', at: '' } as const;
+            const changes = update(data, { items: { a: { item: { adjustment: [adjustment], total: 0 } } } });
+            expect(findViolation(changes!, data)).toBeUndefined();
+
+            const again = update(data, { items: { a: { item: { adjustment: [{ ...adjustment, kind: 'void' }] } } } });
+            expect(findViolation(again!, data)).toContain('already sent');
+        });
+
+        it('should reject removing sent items', () => {
+            const data = pageData('sent', [orderItem('a', 'sent')]);
+            const changes = update(data, { items: { a: [] } });
+            expect(findViolation(changes!, data)).toContain('cannot be removed');
+        });
+
+        it('should reject invalid order transitions', () => {
+            const data = pageData('draft', [orderItem('a', 'draft')]);
+            const changes = update(data, { order: { status: 'paid' } });
+            expect(findViolation(changes!, data)).toBe('Order cannot go from draft to paid');
+        });
+
+        it('should reject new items on a paid order', () => {
+            const data = pageData('paid', [orderItem('a', 'served')]);
+            const changes = update(data, {
+                items: { b: [{ item: orderItem('b', 'draft'), expanded: false, flatMode: false }] },
+            });
+            expect(findViolation(changes!, data)).toContain('does not accept new items');
+        });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * Order Lifecycle
+ * Allowed status transitions for orders and order items
+ *
+ * draft → sent → preparing → served → paid → closed
+ *
+ * Guests may pay before the kitchen marks everything served, so any sent
+ * order can be paid.
+ *
+ * An order goes back to "sent" every time a new round of items is sent to
+ * the kitchen. Items keep their own status so items added after the first
+ * send can be told apart from the ones already in preparation.
+ */
+
+import { META, UpdateResult } from "@/lib/data-model-types";
+import type { OrderPageData } from "./order-model";
+
+export type OrderStatus = "draft" | "sent" | "preparing" | "served" | "paid" | "closed";
+export type OrderItemStatus = "draft" | "sent" | "preparing" | "served";
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  draft: ["sent"],
+  sent: ["sent", "preparing", "served", "paid"],
+  preparing: ["sent", "served", "paid"],
+  served: ["sent", "paid"],
+  paid: ["closed"],
+  closed: [],
+};
+
+export const ITEM_TRANSITIONS: Record<OrderItemStatus, OrderItemStatus[]> = {
+  draft: ["sent"],
+  sent: ["preparing", "served"],
+  preparing: ["served"],
+  served: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function canTransitionItem(from: OrderItemStatus, to: OrderItemStatus): boolean {
+  return ITEM_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Only draft items can be changed; sent items are read-only
+ */
+export function isEditable(item: { status?: OrderItemStatus }): boolean {
+  return (item.status ?? "draft") === "draft";
+}
+
+/**
+ * Items can only be added while the order is still open
+ */
+export function acceptsItems(order: { status?: OrderStatus }): boolean {
+  const status = order.status ?? "draft";
+  return status !== "paid" && status !== "closed";
+}
+
+/**
+ * A draft item on an order that was already sent belongs to the next round
+ */
+export function isNewRound(order: { status?: OrderStatus }, item: { status?: OrderItemStatus }): boolean {
+  return (order.status ?? "draft") !== "draft" && isEditable(item);
+}
+
+/**
+ * An update the lifecycle rules refuse, e.g. removing an item that was already sent
+ */
+export class LifecycleError extends Error {
+  name = "LifecycleError";
+}
+
+/**
+ * Check an update result against the lifecycle rules
+ * Returns a description of the first violation, or undefined if the update is allowed
+ */
+export function findViolation(result: UpdateResult<OrderPageData>, data: OrderPageData): string | undefined {
+  const orderChange = result.order;
+  if (orderChange && "status" in orderChange) {
+    const from = orderChange[META]?.status?.original ?? "draft";
+    if (!canTransition(from, data.order.status)) {
+      return `Order cannot go from ${from} to ${data.order.status}`;
+    }
+  }
+
+  const itemsChange = result.items;
+  if (!itemsChange) return undefined;
+
+  for (const id of Object.keys(itemsChange)) {
+    const change = itemsChange[id];
+    const meta = itemsChange[META]?.[id];
+    const original = meta?.original;
+    const current = data.items[id];
+
+    // Removed item
+    if (current == null) {
+      if (original && !isEditable(original.item)) {
+        return `Item ${id} was already sent and cannot be removed`;
+      }
+      continue;
+    }
+
+    // Added item
+    if (meta && original === undefined) {
+      if (!acceptsItems(data.order)) {
+        return `Order is ${data.order.status} and does not accept new items`;
+      }
+      continue;
+    }
+
+    const itemChange = change?.item;
+    if (!itemChange) continue;
+
+    if ("status" in itemChange) {
+      const from = itemChange[META]?.status?.original ?? "draft";
+      if (!canTransitionItem(from, current.item.status)) {
+        return `Item ${id} cannot go from ${from} to ${current.item.status}`;
+      }
+    } else if (!isEditable(current.item)) {
+      // A sent item is voided or comped once, which also zeroes its price
+      const adjusted = "adjustment" in itemChange && itemChange[META]?.adjustment?.original == null;
+      const allowed = adjusted ? ["round", "adjustment", "total", "discountAmount"] : ["round"];
+      const changed = Object.keys(itemChange).filter((key) => !allowed.includes(key));
+      if (changed.length > 0) {
+        return `Item ${id} was already sent and cannot be changed`;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { memoryBackend, setBackend } from '@/lib/storage';
+import {
+    computeTotals,
+    emptyOrder,
+    getOrder,
+    getOrderItem,
+    migrateOrderStorage,
+    OrderItem,
+    orderModel,
+    orderSync,
+    reconcileOrder,
+    reconcileStoredOrder,
+    pendingRound,
+    saveOrderItem,
+    soldOutUpdate,
+    stockLines,
+} from './order-model';
+import { LifecycleError } from './order-lifecycle';
+
+function draftItem(id: string, total: number): OrderItem {
+    return {
+        id,
+        menuItem: { id: `menu-${id}`, name: id, constraints: {} },
+        currency: 'ALL',
+        quantity: 1,
+        price: total,
+        modifiers: [],
+        modifiersPrice: 0,
+        unitPrice: total,
+        total,
+        status: 'draft',
+    };
+}
+
+describe('order-model', () => {
+    describe('computeTotals', () => {
+        it('should add exclusive tax on top of the subtotal and service charge', () => {
+            const totals = computeTotals(100, { taxRate: 0.2, taxMode: 'exclusive', serviceFee: 0.1 }, 2);
+            expect(totals).toEqual({ subtotal: 100, service: 10, tax: 22, total: 132 });
+        });
+
+        it('should take inclusive tax out of the total', () => {
+            const totals = computeTotals(1200, { taxRate: 0.2, taxMode: 'inclusive', serviceFee: 0 }, 0);
+            expect(totals).toEqual({ subtotal: 1200, service: 0, tax: 200, total: 1200 });
+        });
+
+        it('should round to the currency decimals', () => {
+            const totals = computeTotals(9.99, { taxRate: 0.07, taxMode: 'exclusive', serviceFee: 0.125 }, 2);
+            expect(totals).toEqual({ subtotal: 9.99, service: 1.25, tax: 0.79, total: 12.03 });
+        });
+    });
+
+    describe('reconcileOrder', () => {
+        const queued = { ...emptyOrder('EUR', '4'), queuedKeys: ['opt-1', 'opt-2'] };
+
+        it('should take the server number and session of an accepted round', () => {
+            const order = reconcileOrder(queued, 'opt-1', { accepted: true, orderNumber: 'ORD-7', sessionId: 'S1' });
+            expect(order).toMatchObject({ queuedKeys: ['opt-2'], orderNumber: 'ORD-7', sessionId: 'S1' });
+            expect(orderSync(order)).toBe('queued');
+            expect(orderSync(reconcileOrder(order, 'opt-2', { accepted: true, orderNumber: 'ORD-8' }))).toBe('synced');
+        });
+
+        it('should keep the session of an earlier round', () => {
+            const order = reconcileOrder({ ...queued, sessionId: 'S1' }, 'opt-1', { accepted: true, sessionId: 'S2' });
+            expect(order.sessionId).toBe('S1');
+        });
+
+        it('should keep the errors of a rejected round', () => {
+            const order = reconcileOrder({ ...queued, queuedKeys: ['opt-1'] }, 'opt-1', { accepted: false, errors: ['Price mismatch'] });
+            expect(order.queuedKeys).toEqual([]);
+            expect(order.syncErrors).toEqual(['Price mismatch']);
+            expect(orderSync(order)).toBe('rejected');
+        });
+
+        it('should put the items of a rejected round back to draft', () => {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            saveOrderItem(draftItem('a', 100));
+            saveOrderItem(draftItem('b', 50));
+            const model = orderModel();
+            model.transition('sent');
+            model.update({ order: { queuedKeys: [['opt-1']] } });
+
+            reconcileStoredOrder('main', 'opt-1', { accepted: false, errors: ['Price mismatch'] }, ['a', 'b']);
+
+            expect(getOrder()).toMatchObject({ status: 'draft', round: 0, queuedKeys: [], syncErrors: ['Price mismatch'] });
+            expect(getOrderItem('a')).toMatchObject({ status: 'draft' });
+            expect(getOrderItem('a')?.round).toBeUndefined();
+            expect(pendingRound(model.reload()).order.itemIds).toEqual(['a', 'b']);
+        });
+
+        it('should keep the earlier rounds of an order sent', () => {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            saveOrderItem(draftItem('a', 100));
+            const model = orderModel();
+            model.transition('sent');
+            saveOrderItem(draftItem('b', 50));
+            model.reload();
+            model.transition('sent');
+
+            reconcileStoredOrder('main', 'opt-1', { accepted: false, errors: ['Sold out'] }, ['b']);
+
+            expect(getOrder()).toMatchObject({ status: 'sent', round: 2 });
+            expect(getOrderItem('a')).toMatchObject({ status: 'sent', round: 1 });
+            expect(getOrderItem('b')).toMatchObject({ status: 'draft' });
+        });
+    });
+
+    describe('migrateOrderStorage', () => {
+        it('should move v5 orders out of the session into the order storage', () => {
+            setBackend('session', memoryBackend({
+                'order-v5-table-4': JSON.stringify({ itemIds: ['opt-1'], total: 95, currency: 'ALL', tableNumber: '4' }),
+                'order-v5-opt-1': JSON.stringify({ id: 'opt-1', quantity: 1, total: 95 }),
+            }));
+            setBackend('indexeddb', memoryBackend());
+
+            migrateOrderStorage();
+
+            expect(getOrder('table-4')).toMatchObject({ itemIds: ['opt-1'], total: 95, status: 'draft', round: 0 });
+            expect(getOrderItem('opt-1')).toMatchObject({ id: 'opt-1', status: 'draft' });
+        });
+    });
+
+    describe('saveOrderItem', () => {
+        it('should refuse to change an item that was already sent', () => {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            expect(saveOrderItem({ ...draftItem('a', 100), status: 'sent' })).toBeUndefined();
+
+            expect(saveOrderItem({ ...draftItem('a', 100), quantity: 2, total: 200 })).toBe('a was already sent and cannot be changed');
+            expect(getOrderItem('a')).toMatchObject({ quantity: 1, total: 100 });
+            expect(getOrder().total).toBe(100);
+        });
+    });
+
+    describe('remove', () => {
+        function modelWithItems() {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            saveOrderItem(draftItem('a', 100));
+            saveOrderItem(draftItem('b', 50));
+            return orderModel();
+        }
+
+        it('should remove a draft item with its store and put both back on undo', () => {
+            const model = modelWithItems();
+
+            model.remove('a');
+            expect(model.getData().order).toMatchObject({ itemIds: ['b'], total: 50 });
+            expect(getOrderItem('a')).toBeUndefined();
+
+            expect(model.undoRemove()).toBe(true);
+            expect(model.getData().order).toMatchObject({ itemIds: ['a', 'b'], total: 150 });
+            expect(getOrderItem('a')).toMatchObject({ id: 'a', total: 100 });
+            expect(getOrder().itemIds).toEqual(['a', 'b']);
+        });
+
+        it('should not undo a removal once the order changed again', () => {
+            const model = modelWithItems();
+
+            model.remove('a');
+            model.update({ items: { b: { item: { quantity: 2 } } } });
+
+            expect(model.undoRemove()).toBe(false);
+            expect(model.getData().order.itemIds).toEqual(['b']);
+        });
+    });
+
+    describe('update', () => {
+        it('should refuse a change the lifecycle does not allow and keep the order as it was', () => {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            saveOrderItem(draftItem('a', 100));
+            const model = orderModel();
+
+            expect(() => model.transition('paid')).toThrow(new LifecycleError('Order cannot go from draft to paid'));
+            expect(model.getData().order.status).toBe('draft');
+            expect(getOrder().status).toBe('draft');
+        });
+    });
+
+    describe('stock check', () => {
+        function modelWithSauce() {
+            setBackend('session', memoryBackend());
+            setBackend('indexeddb', memoryBackend());
+            saveOrderItem({
+                ...draftItem('a', 100),
+                quantity: 2,
+                modifiers: [
+                    { menuItemId: 'sauce', name: 'Sauce', quantity: 1, price: 0, modType: 'add' },
+                    { menuItemId: 'onion', name: 'Onion', quantity: 0, price: 0, modType: 'remove' },
+                ],
+            });
+            saveOrderItem(draftItem('b', 50));
+            return orderModel();
+        }
+
+        it('should check each item with the modifiers it adds', () => {
+            const model = modelWithSauce();
+            expect(stockLines(pendingRound(model.getData()))).toEqual([
+                { itemId: 'a', menuItemId: 'menu-a', quantity: 2, modifierIds: ['sauce'] },
+                { itemId: 'b', menuItemId: 'menu-b', quantity: 1, modifierIds: [] },
+            ]);
+        });
+
+        it('should flag sold out items and clear the flag once they are available', () => {
+            const model = modelWithSauce();
+
+            model.update(soldOutUpdate(model.getData(), ['a']));
+            expect(model.getData().items.a.soldOut).toBe(true);
+            expect(model.getData().items.b.soldOut).toBeUndefined();
+
+            expect(soldOutUpdate(model.getData(), ['a'])).toEqual({ items: {} });
+            model.update(soldOutUpdate(model.getData(), []));
+            expect(model.getData().items.a.soldOut).toBe(false);
+        });
+    });
+});
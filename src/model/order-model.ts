@@ -1,15 +1,30 @@
-import { createStore } from "@/lib/storage";
-import { ALL, DataBinding, Update } from "@/lib/data-model-types";
-import { MenuItem } from "@/types";
-import { state } from "@/lib/data-model";
+import { createStore, migrateStores, StorageType, versionedKey } from "@/lib/storage";
+import { ALL, DataBinding, Update, UpdateResult, WHERE } from "@/lib/data-model-types";
+import { MenuItem, Promotion } from "@/types";
+import { anyChange, state, undoUpdate } from "@/lib/data-model";
+import { getCurrencyFormat } from "@/lib/context";
+import { LifecycleError, OrderItemStatus, OrderStatus, canTransition, findViolation, isEditable, isNewRound } from "./order-lifecycle";
+import { AppliedPromotion, Discount, discountAmount, priceLines } from "./discount-model";
+import { AdjustmentDraft, ItemAdjustment } from "./adjustment-model";
 
 // Data Types
 export type Order = {
   itemIds: string[];
   total: number;
   currency: string;
+  status: OrderStatus;
+  round: number; // Number of rounds sent to the kitchen
+  tableNumber?: string; // Table the order is bound to
+  sessionId?: string; // ERP table session, set once the first round was sent
+  discount?: Discount; // Manual discount on the whole order
+  discountAmount?: number; // Amount taken off by the order discount
+  orderNumber?: string; // Server's number for the last round it accepted
+  queuedKeys?: string[]; // Idempotency keys of rounds waiting in the outbound queue
+  syncErrors?: string[]; // Why the server rejected a queued round
 };
 
+export type OrderSync = "queued" | "synced" | "rejected";
+
 export type OrderItem = {
   id: string;
   menuItem: MenuItem;
@@ -20,7 +35,14 @@ export type OrderItem = {
   modifiers: OrderModifier[];
   modifiersPrice: number;
   unitPrice: number;
-  total: number;
+  total: number; // After promotions and discounts
+  discount?: Discount; // Manual line discount
+  promotion?: AppliedPromotion; // Best promotion for the line, set by the order model
+  discountAmount?: number; // Promotion and line discount
+  status: OrderItemStatus;
+  round?: number; // Round in which the item was sent
+  notes?: string; // Special instructions for the kitchen
+  adjustment?: ItemAdjustment; // Void or comp of a sent item, its total is then 0
 };
 
 export type OrderModifier = {
@@ -35,6 +57,34 @@ export type DisplayItem = {
   item: OrderItem;
   expanded: boolean;
   flatMode: boolean;
+  newRound?: boolean; // Draft item added after the order was first sent
+  editingNote?: boolean;
+  editingDiscount?: boolean;
+  adjusting?: AdjustmentDraft; // Void or comp editor is open
+  soldOut?: boolean; // The last stock check found the item or a modifier sold out
+};
+
+export type OrderSubmission = {
+  status: "sending" | "sent" | "queued" | "failed" | "refused"; // refused: a change the order lifecycle does not allow
+  orderNumber?: string;
+  errors: string[];
+  warnings: string[];
+};
+
+export type TaxMode = "inclusive" | "exclusive";
+
+// Tax and service charge from /data/order.json
+export type OrderCharges = {
+  taxRate: number; // e.g. 0.2 for 20% VAT
+  taxMode: TaxMode; // Inclusive: menu prices already contain the tax
+  serviceFee: number; // Service charge as a share of the subtotal, e.g. 0.1
+};
+
+export type OrderTotals = {
+  subtotal: number; // Sum of the item totals (order.total)
+  service: number;
+  tax: number; // Tax contained in (inclusive) or added to (exclusive) the total
+  total: number; // Amount the guest pays
 };
 
 export type OrderPageData = {
@@ -42,9 +92,17 @@ export type OrderPageData = {
   items: Record<string, DisplayItem>;
   expandedId?: string;
   currency: string;
+  submission?: OrderSubmission;
+  charges: OrderCharges;
+  totals: OrderTotals; // Derived from order.total and charges
+  promotions: Promotion[]; // Promotions from the menus, with item IDs resolved
+  pricedAt?: number; // Set to re-evaluate time-based promotions, e.g. before sending
+  editingDiscount?: boolean; // Order discount editor is open
 };
 
 export const MAIN_ORDER_ID = "main";
+export const NO_CHARGES: OrderCharges = { taxRate: 0, taxMode: "inclusive", serviceFee: 0 };
+export const ACTIVE_TABLE_KEY = "active-table-v1";
 
 let idCounter = 0;
 export function generateOptimisticId(): string {
@@ -53,55 +111,233 @@ export function generateOptimisticId(): string {
   return `opt-${timestamp}-${counter}`;
 }
 
+// Orders, their bills and payments survive closing the tab
+export const ORDER_STORAGE: StorageType = "indexeddb";
+
 export function storageKey(id: string) {
-  return `order-v5-${id}`;
+  return versionedKey("order", 6, id);
 }
 
 export function getStore(id: string) {
-  return createStore(storageKey(id), "session");
+  return createStore(storageKey(id), ORDER_STORAGE);
+}
+
+/**
+ * Move orders from sessionStorage (order-v5-*) to the durable storage (order-v6-*)
+ * v6 orders and items always carry their lifecycle status
+ */
+export function migrateOrderStorage() {
+  migrateStores({
+    from: { prefix: "order-v5-", storage: "session" },
+    to: { prefix: storageKey(""), storage: ORDER_STORAGE },
+    migrate: (value) =>
+      Array.isArray(value.itemIds)
+        ? { ...value, status: value.status ?? "draft", round: value.round ?? 0 }
+        : { ...value, status: value.status ?? "draft" },
+  });
+}
+
+export function emptyOrder(currency: string, tableNumber?: string): Order {
+  return { itemIds: [], total: 0, currency, status: "draft", round: 0, ...(tableNumber ? { tableNumber } : {}) };
+}
+
+// Orders are keyed by table; without a table the single main order is used
+export function tableOrderId(tableNumber: string) {
+  return `table-${tableNumber}`;
+}
+
+export function getActiveTable(): string | undefined {
+  return createStore<string>(ACTIVE_TABLE_KEY, "session").get() ?? undefined;
+}
+
+export function setActiveTable(tableNumber: string | undefined) {
+  const store = createStore<string>(ACTIVE_TABLE_KEY, "session");
+  if (tableNumber) {
+    store.set(tableNumber);
+  } else {
+    store.remove();
+  }
+}
+
+export function activeOrderId() {
+  const tableNumber = getActiveTable();
+  return tableNumber ? tableOrderId(tableNumber) : MAIN_ORDER_ID;
 }
 
-export function getOrder() {
+export function getOrder(orderId = activeOrderId()) {
   // For now, use ALL as default currency - in production this should come from order config
-  return createStore(storageKey(MAIN_ORDER_ID), "session").get({ itemIds: [], total: 0, currency: "ALL" }) as Order;
+  const order = createStore<Order>(storageKey(orderId), ORDER_STORAGE).get(emptyOrder("ALL", getActiveTable()));
+  // Orders stored before the lifecycle was introduced are drafts
+  return { ...order, status: order.status ?? "draft", round: order.round ?? 0 };
 }
 
 export function getOrderItem(id: string) {
-  return createStore(storageKey(id), "session").get() as OrderItem | undefined;
+  const item = createStore<OrderItem>(storageKey(id), ORDER_STORAGE).get();
+  return item ? { ...item, status: item.status ?? "draft" } : undefined;
 }
 
-export function saveOrderItem(item: OrderItem) {
+/**
+ * Save an order item to the active order
+ * Returns why it was not saved, e.g. it was sent meanwhile from another screen
+ */
+export function saveOrderItem(item: OrderItem): string | undefined {
   // Generate ID if not provided
   if (!item.id) {
     item.id = generateOptimisticId();
   }
 
+  // Sent items are read-only
+  const existing = getOrderItem(item.id);
+  if (existing && !isEditable(existing)) {
+    return `${item.menuItem.name} was already sent and cannot be changed`;
+  }
+
   let delta = item.total;
-  createStore<OrderItem>(storageKey(item.id), "session").replace((old) => {
+  createStore<OrderItem>(storageKey(item.id), ORDER_STORAGE).replace((old) => {
     if (old != null) {
       delta = item.total - old.total;
     }
     return item;
   });
 
-  createStore<Order>(storageKey(MAIN_ORDER_ID), "session").replace((old) => {
+  createStore<Order>(storageKey(activeOrderId()), ORDER_STORAGE).replace((old) => {
     if (old == null) {
-      return { itemIds: [item.id], total: item.total, currency: item.currency };
+      return { ...emptyOrder(item.currency, getActiveTable()), itemIds: [item.id], total: item.total };
     }
 
     // Update currency if it's different (should typically match)
     const currency = old.currency || item.currency;
 
     if (!old.itemIds.includes(item.id)) {
-      return { itemIds: [...old.itemIds, item.id], total: old.total + delta, currency };
+      return { ...old, itemIds: [...old.itemIds, item.id], total: old.total + delta, currency };
     }
 
     return { ...old, total: old.total + delta, currency };
   });
+  return undefined;
+}
+
+// Remove an order and all of its item stores
+export function clearOrder(orderId = activeOrderId()) {
+  const order = getOrder(orderId);
+  order.itemIds.forEach((id) => getStore(id).remove());
+  getStore(orderId).remove();
+}
+
+/**
+ * Whether the order has items that were not sent to the kitchen yet
+ */
+export function hasUnsentItems(orderId = activeOrderId()): boolean {
+  const order = getOrder(orderId);
+  return order.status === "draft" || order.itemIds.some((id) => {
+    const item = getOrderItem(id);
+    return item != null && isEditable(item);
+  });
+}
+
+/**
+ * Move the stored order to another status without loading its model
+ * Returns why the transition is not allowed, or undefined once it is stored
+ */
+export function transitionOrder(orderId: string, status: OrderStatus): string | undefined {
+  const order = getOrder(orderId);
+  if (!canTransition(order.status, status)) {
+    return `Order cannot go from ${order.status} to ${status}`;
+  }
+  getStore(orderId).set({ ...order, status });
+  return undefined;
+}
+
+/**
+ * Whether the order's rounds reached the server; undefined until the first one was sent
+ */
+export function orderSync(order: Order): OrderSync | undefined {
+  if (order.queuedKeys && order.queuedKeys.length > 0) return "queued";
+  if (order.syncErrors && order.syncErrors.length > 0) return "rejected";
+  return order.orderNumber ? "synced" : undefined;
+}
+
+/**
+ * Server result of a queued round
+ */
+export type QueuedRoundResult =
+  | { accepted: true; orderNumber?: string; sessionId?: string }
+  | { accepted: false; errors: string[] };
+
+/**
+ * Order after the server answered a round that was queued while offline:
+ * the round leaves the queue and the order takes the server's number and ERP session
+ */
+export function reconcileOrder(order: Order, key: string, result: QueuedRoundResult): Order {
+  const queuedKeys = (order.queuedKeys ?? []).filter((k) => k !== key);
+  if (!result.accepted) {
+    return { ...order, queuedKeys, syncErrors: [...(order.syncErrors ?? []), ...result.errors] };
+  }
+  return {
+    ...order,
+    queuedKeys,
+    ...(result.orderNumber ? { orderNumber: result.orderNumber } : {}),
+    ...(result.sessionId && !order.sessionId ? { sessionId: result.sessionId } : {}),
+  };
+}
+
+/**
+ * Apply the server's answer for a queued round to the stored order
+ * The items of a rejected round go back to draft so they can be changed and sent again;
+ * an order with nothing else sent goes back to draft with them
+ * Orders that were cleared in the meantime are left alone
+ */
+export function reconcileStoredOrder(orderId: string, key: string, result: QueuedRoundResult, itemIds: string[]) {
+  const store = createStore<Order>(storageKey(orderId), ORDER_STORAGE);
+  const order = store.get();
+  if (!order) return;
+
+  const reconciled = reconcileOrder(order, key, result);
+  if (!result.accepted) {
+    for (const id of itemIds) {
+      const item = getOrderItem(id);
+      if (item) {
+        const { round: _, ...rest } = item;
+        getStore(id).set({ ...rest, status: "draft" });
+      }
+    }
+    const sent = order.itemIds.some((id) => {
+      const item = getOrderItem(id);
+      return item != null && !isEditable(item);
+    });
+    if (!sent) {
+      reconciled.status = "draft";
+      reconciled.round = 0;
+    }
+  }
+  store.set(reconciled);
+}
+
+/**
+ * Subtotal, service charge, tax and grand total, rounded to the currency's decimals
+ * The service charge is taxed like the items it is charged on
+ */
+export function computeTotals(subtotal: number, charges: OrderCharges, decimals: number): OrderTotals {
+  const factor = Math.pow(10, decimals);
+  const round = (amount: number) => Math.round(amount * factor) / factor;
+
+  const service = round(subtotal * charges.serviceFee);
+  const taxable = subtotal + service;
+  if (charges.taxMode === "inclusive") {
+    const tax = round(taxable - taxable / (1 + charges.taxRate));
+    return { subtotal, service, tax, total: round(taxable) };
+  }
+
+  const tax = round(taxable * charges.taxRate);
+  return { subtotal, service, tax, total: round(taxable + tax) };
+}
+
+export function orderTotals(order: Order, charges: OrderCharges): OrderTotals {
+  return computeTotals(order.total, charges, getCurrencyFormat(order.currency).decimals);
 }
 
-export function readOrderData() {
-  const order = getOrder();
+export function readOrderData(orderId = activeOrderId(), charges = NO_CHARGES, promotions: Promotion[] = []): OrderPageData {
+  const order = getOrder(orderId);
   const items: OrderPageData["items"] = {};
   for (const itemId of order.itemIds) {
     const item = getOrderItem(itemId);
@@ -113,20 +349,97 @@ export function readOrderData() {
       };
     }
   }
-  return { order, items, currency: order.currency };
+  return { order, items, currency: order.currency, charges, totals: orderTotals(order, charges), promotions };
+}
+
+/**
+ * Items that have not been sent yet, with an order summarizing just this round
+ */
+export function pendingRound(data: OrderPageData): Pick<OrderPageData, "order" | "items"> {
+  const items: OrderPageData["items"] = {};
+  let total = 0;
+  for (const id of data.order.itemIds) {
+    const displayItem = data.items[id];
+    if (displayItem && isEditable(displayItem.item)) {
+      items[id] = displayItem;
+      total += displayItem.item.total;
+    }
+  }
+  return { order: { ...data.order, itemIds: Object.keys(items), total }, items };
+}
+
+/**
+ * Lines of a round for the stock check - each item with the modifiers it adds
+ */
+export function stockLines(
+  round: Pick<OrderPageData, "order" | "items">,
+): { itemId: string; menuItemId: string; quantity: number; modifierIds: string[] }[] {
+  return round.order.itemIds.map((id) => {
+    const item = round.items[id].item;
+    return {
+      itemId: item.id,
+      menuItemId: item.menuItem.id,
+      quantity: item.quantity,
+      modifierIds: item.modifiers.filter((m) => m.quantity > 0).map((m) => m.menuItemId),
+    };
+  });
+}
+
+/**
+ * Flag the items the stock check found sold out and clear the others' flags
+ */
+export function soldOutUpdate(data: OrderPageData, soldOutItemIds: string[]): Update<OrderPageData> {
+  const items: Record<string, Update<DisplayItem>> = {};
+  for (const [id, displayItem] of Object.entries(data.items)) {
+    const soldOut = soldOutItemIds.includes(id);
+    if ((displayItem.soldOut ?? false) !== soldOut) {
+      items[id] = { soldOut };
+    }
+  }
+  return { items };
+}
+
+/**
+ * Line totals after promotions and line discounts, in order of the order's items
+ * Only changed fields are returned so unchanged lines are not stored again
+ */
+export function priceItems(data: OrderPageData, now = new Date()): Update<OrderPageData> {
+  const ids = [...data.order.itemIds, ...Object.keys(data.items).filter((id) => !data.order.itemIds.includes(id))];
+  const items = ids.map((id) => data.items[id]?.item).filter((item): item is OrderItem => item != null);
+  const decimals = getCurrencyFormat(data.currency).decimals;
+
+  const lines = items.map((item) => ({ ...item, menuItemId: item.menuItem.id, locked: !isEditable(item), adjusted: item.adjustment != null }));
+  const prices = priceLines(lines, data.promotions, now, decimals);
+
+  const changes: Record<string, Update<DisplayItem>> = {};
+  for (const item of items) {
+    const price = prices[item.id];
+    const itemChanges: Record<string, unknown> = {};
+    if (price.total !== item.total) itemChanges.total = price.total;
+    if (price.discountAmount !== (item.discountAmount ?? 0)) itemChanges.discountAmount = price.discountAmount;
+    if (JSON.stringify(price.promotion) !== JSON.stringify(item.promotion)) {
+      itemChanges.promotion = price.promotion ? [price.promotion] : [];
+    }
+    if (Object.keys(itemChanges).length > 0) {
+      changes[item.id] = { item: itemChanges } as Update<DisplayItem>;
+    }
+  }
+  return { items: changes };
 }
 
-export function orderModel() {
+export function orderModel(charges = NO_CHARGES, promotions: Promotion[] = []) {
   const bindings: DataBinding<OrderPageData>[] = [
+    // Promotions and discounts are evaluated across the whole order
     {
-      onChange: ["items", [ALL], "item", "quantity"],
-      update(displayItem: DisplayItem) {
-        const item = displayItem.item;
-        return { items: { [item.id]: { item: { total: item.quantity * item.unitPrice } } } };
+      init: true,
+      onChange: [{ items: anyChange, pricedAt: anyChange }],
+      update(data: OrderPageData) {
+        return priceItems(data);
       },
     },
     {
-      onChange: ["items"],
+      init: true,
+      onChange: [{ items: anyChange, order: { discount: anyChange } }],
       update(data: OrderPageData) {
         let total = 0;
         const orderIds = data.order.itemIds.filter((id) => data.items[id] != null);
@@ -137,7 +450,56 @@ export function orderModel() {
           }
           total += item.total;
         }
-        return { order: [{ itemIds: orderIds, total, currency: data.order.currency }] };
+        const decimals = getCurrencyFormat(data.currency).decimals;
+        const orderDiscount = discountAmount(data.order.discount, total, decimals);
+        const net = Math.round((total - orderDiscount) * Math.pow(10, decimals)) / Math.pow(10, decimals);
+        return { order: { itemIds: [orderIds], total: net, discountAmount: orderDiscount } };
+      },
+    },
+    // Tax and service charge follow the subtotal
+    {
+      init: true,
+      onChange: [{ order: { total: anyChange, currency: anyChange } }],
+      update(data: OrderPageData) {
+        return { totals: [orderTotals(data.order, data.charges)] };
+      },
+    },
+    // Sending a round moves all draft items to sent; kitchen progress cascades to items
+    {
+      onChange: [{ order: { status: anyChange, round: anyChange } }],
+      update(data: OrderPageData) {
+        const { status, round } = data.order;
+        if (status === "sent") {
+          return {
+            items: { [ALL]: { item: { [WHERE]: (item: OrderItem) => item.status === "draft", status: "sent", round } } },
+          };
+        }
+        if (status === "preparing") {
+          return {
+            items: { [ALL]: { item: { [WHERE]: (item: OrderItem) => item.status === "sent", status: "preparing" } } },
+          };
+        }
+        if (status === "served") {
+          return {
+            items: {
+              [ALL]: {
+                item: {
+                  [WHERE]: (item: OrderItem) => item.status === "sent" || item.status === "preparing",
+                  status: "served",
+                },
+              },
+            },
+          };
+        }
+        return {};
+      },
+    },
+    // Mark draft items added after the first send as a new round
+    {
+      init: true,
+      onChange: [{ order: { status: anyChange }, items: { [ALL]: { item: { status: anyChange } } } }],
+      update(data: OrderPageData) {
+        return { items: { [ALL]: { newRound: (_, displayItem) => isNewRound(data.order, displayItem.item) } } };
       },
     },
     // unset expandedId when expanded item is deleted
@@ -165,30 +527,81 @@ export function orderModel() {
     },
   ];
 
-  const data: OrderPageData = readOrderData();
+  const orderId = activeOrderId();
+  let data: OrderPageData = readOrderData(orderId, charges, promotions);
   const model = state(bindings);
-  model.setData(data);
+  // Last removal, undone until the next update
+  let removal: UpdateResult<OrderPageData> | undefined;
+
+  function persist(changes: UpdateResult<OrderPageData> | undefined) {
+    if (changes?.order) {
+      getStore(orderId).set(data.order);
+    }
+
+    if (changes?.items) {
+      Object.keys(changes.items).forEach((key) => {
+        const displayItem = data.items[key];
+        if (displayItem) {
+          getStore(key).set(displayItem.item);
+        } else {
+          getStore(key).remove();
+        }
+      });
+    }
+  }
+
+  // Items added on the menu pages are priced when the order is loaded;
+  // store the result so the bill and payment pages see the same totals
+  persist(model.setData(data));
 
   return {
     getData() {
       return data;
     },
+    // Re-read the order from storage, e.g. after it was cleared
+    reload() {
+      data = readOrderData(orderId, charges, data.promotions);
+      persist(model.setData(data));
+      return data;
+    },
+    // Throws a LifecycleError, with the order unchanged, for updates that break the order lifecycle
     update(stmt: Update<OrderPageData>) {
+      removal = undefined;
       const changes = model.update(stmt);
-      if (changes?.order) {
-        getStore(MAIN_ORDER_ID).set(data.order);
-      }
 
-      if (changes?.items) {
-        Object.keys(changes.items).forEach((key) => {
-          const displayItem = data.items[key];
-          if (displayItem) {
-            getStore(key).set(displayItem.item);
-          }
-        });
+      const violation = changes ? findViolation(changes, data) : undefined;
+      if (changes && violation) {
+        undoUpdate(data, changes);
+        throw new LifecycleError(violation);
       }
 
+      persist(changes);
       return changes;
     },
+    // Move the order to a new status; sending again starts a new round
+    transition(status: OrderStatus) {
+      if (status === "sent") {
+        return this.update({ order: { status, round: (round) => round + 1 } });
+      }
+      return this.update({ order: { status } });
+    },
+    // Remove an item that was not sent yet, with its store
+    remove(itemId: string) {
+      const changes = this.update({ items: { [itemId]: [] } });
+      removal = changes;
+      return changes;
+    },
+    // Put back the item removed last; nothing to undo once the order changed again
+    undoRemove() {
+      if (!removal) return false;
+      undoUpdate(data, removal);
+      persist(removal);
+      removal = undefined;
+      return true;
+    },
+    // Re-evaluate promotions, a happy hour may have started or ended
+    reprice() {
+      return this.update({ pricedAt: Date.now() });
+    },
   };
 }
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { memoryBackend, setBackend } from '@/lib/storage';
+import { emptyOrder, getOrder, getOrderItem, Order, OrderItem, storageKey } from './order-model';
+import { closeOrder, pressKey, quickTenders, readPaymentData, summarizeTenders } from './payment-model';
+
+function storeOrder(order: Order, items: OrderItem[]) {
+    const entries = items.map((value) => [storageKey(value.id), JSON.stringify(value)]);
+    setBackend('session', memoryBackend());
+    setBackend('indexeddb', memoryBackend({ [storageKey('table-4')]: JSON.stringify(order), ...Object.fromEntries(entries) }));
+}
+
+function item(id: string, status: OrderItem['status']): OrderItem {
+    return {
+        id,
+        menuItem: { id: `menu-${id}`, name: id, constraints: {} },
+        currency: 'ALL',
+        quantity: 1,
+        price: 100,
+        modifiers: [],
+        modifiersPrice: 0,
+        unitPrice: 100,
+        total: 100,
+        status,
+    };
+}
+
+describe('payment-model', () => {
+    describe('summarizeTenders', () => {
+        it('should give change for over-tendered cash', () => {
+            const summary = summarizeTenders(1350, [{ id: 't1', method: 'cash', amount: 2000 }], 0);
+            expect(summary).toEqual({ tendered: 2000, remaining: 0, change: 650 });
+        });
+
+        it('should combine cash and card lines', () => {
+            const summary = summarizeTenders(30, [
+                { id: 't1', method: 'card', amount: 20 },
+                { id: 't2', method: 'cash', amount: 5.5 },
+            ], 2);
+            expect(summary).toEqual({ tendered: 25.5, remaining: 4.5, change: 0 });
+        });
+    });
+
+    describe('quickTenders', () => {
+        it('should round the amount up to the denominations', () => {
+            expect(quickTenders(1350, [100, 200, 500, 1000, 2000, 5000])).toEqual([1400, 1500, 2000, 5000]);
+            expect(quickTenders(17.2, [1, 5, 10, 20, 50])).toEqual([18, 20, 50]);
+        });
+
+        it('should skip denominations the amount is already a multiple of', () => {
+            expect(quickTenders(1000, [100, 500, 1000, 2000])).toEqual([2000]);
+            expect(quickTenders(0, [100])).toEqual([]);
+        });
+    });
+
+    describe('pressKey', () => {
+        it('should build the entry from keys', () => {
+            expect(['1', '2', '.', '5'].reduce((entry, key) => pressKey(entry, key, 2), '')).toBe('12.5');
+            expect(pressKey('12', 'back', 2)).toBe('1');
+            expect(pressKey('0', '00', 2)).toBe('0');
+        });
+
+        it('should respect the currency decimals', () => {
+            expect(pressKey('12', '.', 0)).toBe('12');
+            expect(pressKey('1.25', '9', 2)).toBe('1.25');
+        });
+    });
+
+    describe('closeOrder', () => {
+        const order = { ...emptyOrder('ALL', '4'), itemIds: ['a', 'b'], total: 200 };
+
+        it('should close a sent order and remove it from storage', () => {
+            storeOrder({ ...order, status: 'served', round: 1 }, [item('a', 'served'), item('b', 'sent')]);
+
+            expect(closeOrder('table-4')).toBeUndefined();
+            expect(getOrder('table-4').itemIds).toEqual([]);
+            expect(getOrderItem('a')).toBeUndefined();
+        });
+
+        it('should block payment and keep an order with unsent items', () => {
+            storeOrder({ ...order, status: 'sent', round: 1 }, [item('a', 'sent'), item('b', 'draft')]);
+
+            expect(readPaymentData(undefined, 'table-4').unsent).toBe(true);
+            expect(closeOrder('table-4')).toBe('The order has items that were not sent');
+            expect(getOrder('table-4')).toMatchObject({ itemIds: ['a', 'b'], status: 'sent' });
+        });
+
+        it('should keep an order that cannot be closed', () => {
+            storeOrder({ ...order, status: 'closed', round: 1 }, [item('a', 'sent'), item('b', 'sent')]);
+
+            expect(closeOrder('table-4')).toBe('Order cannot go from closed to paid');
+            expect(getOrderItem('a')).toBeDefined();
+        });
+    });
+});
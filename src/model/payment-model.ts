@@ -0,0 +1,282 @@
+import { createStore, migrateStores } from "@/lib/storage";
+import { DataBinding, Update } from "@/lib/data-model-types";
+import { state } from "@/lib/data-model";
+import { getCurrencyFormat } from "@/lib/context";
+import {
+  activeOrderId,
+  clearOrder,
+  emptyOrder,
+  getActiveTable,
+  getOrder,
+  hasUnsentItems,
+  NO_CHARGES,
+  Order,
+  ORDER_STORAGE,
+  OrderCharges,
+  orderTotals,
+  setActiveTable,
+  transitionOrder,
+} from "./order-model";
+import { billStorageKey, computeChecks, readBillData } from "./bill-model";
+
+// Data Types
+export type TenderMethod = "cash" | "card";
+
+export type Tender = {
+  id: string;
+  method: TenderMethod;
+  amount: number;
+};
+
+export type PaymentRecord = {
+  paymentId: string;
+  check?: number; // Check of a split bill, undefined when paying the balance
+  amount: number;
+  tenders: Tender[];
+  change: number;
+  paidAt: string;
+};
+
+export type PaymentStatus = "processing" | "paid" | "failed";
+
+export type PaymentPageData = {
+  order: Order;
+  currency: string;
+  charges: OrderCharges;
+  check?: number;
+  amountDue: number;
+  tenders: Tender[];
+  entry: string; // Keypad input, e.g. "12.5"
+  tendered: number;
+  remaining: number;
+  change: number;
+  status?: PaymentStatus;
+  error?: string;
+  closed?: boolean; // The payment settled the whole order
+  historyError?: string; // Why the order history did not take the payment
+  unsent?: boolean; // Items are still waiting to be sent; payment is blocked until they are
+};
+
+export const KEYPAD_MAX_LENGTH = 9;
+
+export function paymentsStorageKey(orderId: string) {
+  return `payments-v1-${orderId}`;
+}
+
+/**
+ * Move payment records from sessionStorage to the order storage, same layout
+ */
+export function migratePaymentStorage() {
+  migrateStores({
+    from: { prefix: paymentsStorageKey(""), storage: "session" },
+    to: { prefix: paymentsStorageKey(""), storage: ORDER_STORAGE },
+  });
+}
+
+function round(amount: number, decimals: number) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Tendered total, what is still due and the change to hand back
+ * Only cash can be over-tendered; card lines are capped when added
+ */
+export function summarizeTenders(amountDue: number, tenders: Tender[], decimals: number) {
+  const tendered = round(tenders.reduce((sum, t) => sum + t.amount, 0), decimals);
+  const cash = tenders.filter((t) => t.method === "cash").reduce((sum, t) => sum + t.amount, 0);
+  const remaining = round(Math.max(0, amountDue - tendered), decimals);
+  const change = round(Math.min(cash, Math.max(0, tendered - amountDue)), decimals);
+  return { tendered, remaining, change };
+}
+
+/**
+ * Quick cash amounts: the amount due rounded up to each denomination
+ * e.g. 1.350 L → 1.400, 1.500, 2.000, 5.000
+ */
+export function quickTenders(amount: number, denominations: number[], limit = 4): number[] {
+  if (amount <= 0) return [];
+  const candidates = new Set<number>();
+  for (const denomination of denominations) {
+    const rounded = Math.ceil(amount / denomination) * denomination;
+    if (rounded > amount) {
+      candidates.add(rounded);
+    }
+  }
+  return [...candidates].sort((a, b) => a - b).slice(0, limit);
+}
+
+/**
+ * Apply a keypad key to the entry
+ * Keys are digits, "00", "." and "back"; decimals limit the fraction digits
+ */
+export function pressKey(entry: string, key: string, decimals: number): string {
+  if (key === "back") {
+    return entry.slice(0, -1);
+  }
+
+  if (key === ".") {
+    if (decimals === 0 || entry.includes(".")) return entry;
+    return (entry || "0") + ".";
+  }
+
+  if (!/^\d+$/.test(key)) return entry;
+
+  const next = entry === "0" ? key : entry + key;
+  const [, fraction] = next.split(".");
+  if ((fraction?.length ?? 0) > decimals || next.replace(".", "").length > KEYPAD_MAX_LENGTH) {
+    return entry;
+  }
+  return next.replace(/^0+(?=\d)/, "");
+}
+
+export function parseEntry(entry: string): number {
+  const value = parseFloat(entry);
+  return Number.isFinite(value) ? value : 0;
+}
+
+export function getPayments(orderId: string): PaymentRecord[] {
+  return createStore<PaymentRecord[]>(paymentsStorageKey(orderId), ORDER_STORAGE).get([]);
+}
+
+export function recordPayment(orderId: string, record: PaymentRecord) {
+  createStore<PaymentRecord[]>(paymentsStorageKey(orderId), ORDER_STORAGE).replace((old) => [...(old ?? []), record]);
+}
+
+export function clearPayments(orderId: string) {
+  createStore<PaymentRecord[]>(paymentsStorageKey(orderId), ORDER_STORAGE).remove();
+}
+
+export function paidChecks(orderId: string): number[] {
+  return getPayments(orderId)
+    .map((p) => p.check)
+    .filter((check): check is number => check != null);
+}
+
+export function paidTotal(orderId: string): number {
+  return getPayments(orderId).reduce((sum, p) => sum + p.amount, 0);
+}
+
+/**
+ * Whether a payment of this amount settles what is left of the order
+ */
+export function settlesOrder(orderId: string, amount: number, charges = NO_CHARGES): boolean {
+  const order = getOrder(orderId);
+  const decimals = getCurrencyFormat(order.currency).decimals;
+  return round(paidTotal(orderId) + amount, decimals) >= orderTotals(order, charges).total;
+}
+
+/**
+ * Close a fully paid order and free its table
+ * The order, its split and its payments are removed from storage
+ * Returns why the order cannot be closed; it is then left in storage
+ */
+export function closeOrder(orderId: string): string | undefined {
+  if (hasUnsentItems(orderId)) {
+    return "The order has items that were not sent";
+  }
+  const error = (getOrder(orderId).status === "paid" ? undefined : transitionOrder(orderId, "paid")) ?? transitionOrder(orderId, "closed");
+  if (error) return error;
+
+  const tableNumber = getOrder(orderId).tableNumber;
+  clearOrder(orderId);
+  clearPayments(orderId);
+  createStore(billStorageKey(orderId), ORDER_STORAGE).remove();
+  if (tableNumber && getActiveTable() === tableNumber) {
+    setActiveTable(undefined);
+  }
+  return undefined;
+}
+
+export function emptyPayment(currency: string, charges = NO_CHARGES): PaymentPageData {
+  return {
+    order: emptyOrder(currency),
+    currency,
+    charges,
+    amountDue: 0,
+    tenders: [],
+    entry: "",
+    tendered: 0,
+    remaining: 0,
+    change: 0,
+  };
+}
+
+/**
+ * Amount due for a check of the split bill, or the order's open balance
+ */
+export function readPaymentData(check?: number, orderId = activeOrderId(), charges = NO_CHARGES): PaymentPageData {
+  const order = getOrder(orderId);
+  const decimals = getCurrencyFormat(order.currency).decimals;
+  const { total } = orderTotals(order, charges);
+
+  let amountDue = round(total - paidTotal(orderId), decimals);
+  if (check != null) {
+    const bill = readBillData(orderId, charges);
+    const checks = computeChecks(bill.items, bill.split, decimals, total);
+    amountDue = paidChecks(orderId).includes(check) ? 0 : (checks[check]?.total ?? 0);
+  }
+
+  return {
+    ...emptyPayment(order.currency, charges),
+    order,
+    check,
+    amountDue: Math.max(0, amountDue),
+    remaining: Math.max(0, amountDue),
+    unsent: hasUnsentItems(orderId),
+  };
+}
+
+let tenderCounter = 0;
+
+export function paymentModel(check?: number, charges = NO_CHARGES) {
+  const bindings: DataBinding<PaymentPageData>[] = [
+    {
+      init: true,
+      onChange: ["tenders"],
+      update(data: PaymentPageData) {
+        const decimals = getCurrencyFormat(data.currency).decimals;
+        return summarizeTenders(data.amountDue, data.tenders, decimals);
+      },
+    },
+  ];
+
+  const orderId = activeOrderId();
+  const data = readPaymentData(check, orderId, charges);
+  const model = state(bindings);
+  model.setData(data);
+
+  const decimals = getCurrencyFormat(data.currency).decimals;
+
+  return {
+    orderId,
+    getData() {
+      return data;
+    },
+    update(stmt: Update<PaymentPageData>) {
+      return model.update(stmt);
+    },
+    press(key: string) {
+      return model.update({ entry: pressKey(data.entry, key, decimals) });
+    },
+    clearEntry() {
+      return model.update({ entry: "" });
+    },
+    // Add a tender line for the keypad entry, or for what is still due if the entry is empty
+    addTender(method: TenderMethod, amount?: number) {
+      let value = amount ?? (data.entry ? parseEntry(data.entry) : data.remaining);
+      // Card payments cannot exceed the amount still due
+      if (method === "card") {
+        value = Math.min(value, data.remaining);
+      }
+      value = round(value, decimals);
+      if (value <= 0) return undefined;
+
+      const tender: Tender = { id: `tender-${++tenderCounter}`, method, amount: value };
+      return model.update({ tenders: [[...data.tenders, tender]], entry: "", error: [] });
+    },
+    removeTender(id: string) {
+      return model.update({ tenders: [data.tenders.filter((t) => t.id !== id)] });
+    },
+  };
+}
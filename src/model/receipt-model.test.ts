@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { kitchenReceipt, ReceiptDocument } from './receipt-model';
+import { receiptEscPos, receiptHTML } from '@/components/receipt';
+import { createContext } from '@/lib/context';
+import { KitchenTicket } from '@/services/kitchen-service';
+
+const PRINTED_AT = new Date('2024-01-01T12:00:00.000Z');
+const context = createContext('en');
+
+const ticket: KitchenTicket = {
+    id: 'T1',
+    orderNumber: 'ORD-1',
+    tableNumber: '4',
+    round: 2,
+    station: 'bar',
+    sentAt: PRINTED_AT.toISOString(),
+    status: 'open',
+    itemIds: ['a', 'b'],
+    items: {
+        a: {
+            id: 'a',
+            name: 'Latte',
+            variant: 'Large',
+            quantity: 2,
+            modifiers: [
+                { menuItemId: 'sugar', name: 'Sugar', quantity: 0, price: 0, modType: 'remove' },
+                { menuItemId: 'oat-milk', name: 'Oat milk', quantity: 1, price: 0.5, modType: 'add' },
+            ],
+            notes: 'extra hot',
+            done: false,
+        },
+        b: { id: 'b', name: 'Espresso', quantity: 1, modifiers: [], done: true },
+    },
+};
+
+const receipt: ReceiptDocument = {
+    kind: 'receipt',
+    printedAt: PRINTED_AT.toISOString(),
+    tableNumber: '4',
+    lines: [
+        { quantity: 2, name: 'Latte', variant: 'Large', modifiers: [{ name: 'Oat milk', removed: false, price: 0.5 }], amount: 9 },
+        { quantity: 0, shared: 1 / 3, name: 'Crêpe', modifiers: [], amount: 2 },
+    ],
+    currency: 'EUR',
+    charges: { serviceFee: 0, taxRate: 0.2, taxMode: 'inclusive' },
+    totals: { subtotal: 11, service: 0, tax: 1.83, total: 11 },
+    payment: {
+        paymentId: 'P1',
+        amount: 11,
+        tenders: [{ id: 't1', method: 'cash', amount: 20 }],
+        change: 9,
+        paidAt: PRINTED_AT.toISOString(),
+    },
+};
+
+const text = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+describe('receipt-model', () => {
+    it('should turn a kitchen ticket into a receipt without prices', () => {
+        const doc = kitchenReceipt(ticket, PRINTED_AT);
+        expect(doc).toMatchObject({ kind: 'kitchen', tableNumber: '4', orderNumber: 'ORD-1', station: 'bar', round: 2 });
+        expect(doc.lines).toEqual([
+            {
+                quantity: 2,
+                name: 'Latte',
+                variant: 'Large',
+                modifiers: [
+                    { name: 'Sugar', removed: true, price: 0 },
+                    { name: 'Oat milk', removed: false, price: 0.5 },
+                ],
+                notes: 'extra hot',
+            },
+            { quantity: 1, name: 'Espresso', modifiers: [] },
+        ]);
+        expect(doc.totals).toBeUndefined();
+    });
+
+    it('should render items, taxes and tenders in the receipt currency', () => {
+        const page = receiptHTML(receipt, context);
+        expect(page).toContain('Latte (Large)');
+        expect(page).toContain('+ Oat milk 0,50€');
+        expect(page).toContain('1/3×');
+        expect(page).toContain('Tax 20% (included)');
+        expect(page).toContain('11,00€');
+        expect(page).toContain('Change');
+    });
+
+    it('should lay out ESC/POS lines in 48 columns', () => {
+        const lines = text(receiptEscPos(receipt, context)).split('\n');
+        const latte = lines.find((line) => line.includes('Latte'));
+        expect(latte).toBe(`2x Latte (Large)${' '.repeat(25)}9,00EUR`);
+        expect(latte).toHaveLength(48);
+        expect(lines.some((line) => line.includes('Thank you!'))).toBe(true);
+    });
+
+    it('should print kitchen tickets without amounts', () => {
+        const output = text(receiptEscPos(kitchenReceipt(ticket, PRINTED_AT), context));
+        expect(output).toContain('Bar');
+        expect(output).toContain('Table 4 - Round 2');
+        expect(output).toContain('   - Sugar');
+        expect(output).toContain('   extra hot');
+        expect(output).not.toContain('EUR');
+        expect(output).not.toContain('$');
+    });
+});
@@ -0,0 +1,186 @@
+import { getCurrencyFormat } from "@/lib/context";
+import { KitchenTicket } from "@/services/kitchen-service";
+import {
+  activeOrderId,
+  NO_CHARGES,
+  Order,
+  OrderCharges,
+  OrderItem,
+  OrderModifier,
+  OrderPageData,
+  OrderTotals,
+} from "./order-model";
+import { computeChecks, readBillData } from "./bill-model";
+import { PaymentRecord } from "./payment-model";
+
+// Data Types
+export type ReceiptKind = "receipt" | "kitchen";
+
+export type ReceiptModifier = {
+  name: string;
+  removed: boolean;
+  price: number; // Extra charge, 0 for free and removed modifiers
+};
+
+export type ReceiptLine = {
+  quantity: number;
+  shared?: number; // Share of the item on a split check, e.g. 1/3
+  name: string;
+  variant?: string;
+  modifiers: ReceiptModifier[];
+  notes?: string;
+  amount?: number; // Line total; kitchen tickets carry no prices
+  discount?: number; // Promotions and discounts already taken off the amount
+};
+
+export type ReceiptDocument = {
+  kind: ReceiptKind;
+  printedAt: string;
+  tableNumber?: string;
+  orderNumber?: string;
+  check?: number;
+  station?: string;
+  round?: number;
+  lines: ReceiptLine[];
+  currency?: string;
+  charges?: OrderCharges;
+  totals?: OrderTotals;
+  discount?: number; // Sum of the line and order discounts
+  payment?: PaymentRecord;
+  copy?: boolean; // Reprinted, e.g. from the order history
+};
+
+function round(amount: number, decimals: number) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+function receiptModifiers(modifiers: OrderModifier[]): ReceiptModifier[] {
+  return modifiers.map((modifier) => ({
+    name: modifier.name,
+    removed: modifier.quantity === 0,
+    price: modifier.quantity === 0 ? 0 : modifier.price,
+  }));
+}
+
+function orderLine(item: OrderItem): ReceiptLine {
+  return {
+    quantity: item.quantity,
+    name: item.menuItem.name,
+    ...(item.variant ? { variant: item.variant.name } : {}),
+    modifiers: receiptModifiers(item.modifiers ?? []),
+    ...(item.notes ? { notes: item.notes } : {}),
+  };
+}
+
+/**
+ * Priced lines of the whole order, with its line and order discounts
+ * Voided items are left out, comped items are listed without a charge
+ */
+function wholeOrder(order: Order, items: Record<string, OrderItem>, decimals: number) {
+  const lineDiscounts = order.itemIds.reduce((sum, id) => sum + (items[id]?.discountAmount ?? 0), 0);
+  return {
+    lines: order.itemIds
+      .filter((id) => items[id] && items[id].adjustment?.kind !== "void")
+      .map((id) => ({
+        ...orderLine(items[id]),
+        amount: items[id].total,
+        ...(items[id].discountAmount ? { discount: items[id].discountAmount } : {}),
+      })),
+    discount: round(lineDiscounts + (order.discountAmount ?? 0), decimals),
+  };
+}
+
+/**
+ * Guest receipt for a payment: the whole order, or one check of a split bill
+ * Tax and service charge of a check are its share of the order's
+ */
+export function paymentReceipt(
+  payment: PaymentRecord,
+  orderId = activeOrderId(),
+  charges = NO_CHARGES,
+  printedAt = new Date(),
+): ReceiptDocument {
+  const bill = readBillData(orderId, charges);
+  const { order, items, currency, totals } = bill;
+  const decimals = getCurrencyFormat(currency).decimals;
+  const base = {
+    kind: "receipt" as const,
+    printedAt: printedAt.toISOString(),
+    ...(order.tableNumber ? { tableNumber: order.tableNumber } : {}),
+    currency,
+    charges,
+    payment,
+  };
+
+  if (payment.check === undefined) {
+    return { ...base, ...wholeOrder(order, items, decimals), totals };
+  }
+
+  const check = computeChecks(items, bill.split, decimals, totals.total)[payment.check];
+  const share = totals.total > 0 && check ? check.total / totals.total : 0;
+  return {
+    ...base,
+    check: payment.check,
+    lines: (check?.lines ?? [])
+      .filter((line) => items[line.itemId].adjustment?.kind !== "void")
+      .map((line) => ({
+        ...orderLine(items[line.itemId]),
+        quantity: line.quantity,
+        ...(line.shared > 0 ? { shared: line.shared } : {}),
+        amount: line.amount,
+      })),
+    totals: {
+      subtotal: round(totals.subtotal * share, decimals),
+      service: round(totals.service * share, decimals),
+      tax: round(totals.tax * share, decimals),
+      total: check?.total ?? 0,
+    },
+  };
+}
+
+/**
+ * Copy of the receipt of a reopened order, e.g. from the order history
+ * Splits are not kept with past orders, so the copy shows the whole order
+ * @param payment - Payment whose tenders are printed, usually the last one
+ */
+export function orderReceipt(data: OrderPageData, payment?: PaymentRecord, printedAt = new Date()): ReceiptDocument {
+  const { order, currency, charges, totals } = data;
+  const items = Object.fromEntries(Object.entries(data.items).map(([id, displayItem]) => [id, displayItem.item]));
+  return {
+    kind: "receipt",
+    printedAt: printedAt.toISOString(),
+    ...(order.tableNumber ? { tableNumber: order.tableNumber } : {}),
+    ...(order.orderNumber ? { orderNumber: order.orderNumber } : {}),
+    currency,
+    charges,
+    ...(payment ? { payment } : {}),
+    ...wholeOrder(order, items, getCurrencyFormat(currency).decimals),
+    totals,
+    copy: true,
+  };
+}
+
+/**
+ * Kitchen ticket for a station's share of a sent round, without prices
+ */
+export function kitchenReceipt(ticket: KitchenTicket, printedAt = new Date()): ReceiptDocument {
+  return {
+    kind: "kitchen",
+    printedAt: printedAt.toISOString(),
+    ...(ticket.tableNumber ? { tableNumber: ticket.tableNumber } : {}),
+    orderNumber: ticket.orderNumber,
+    station: ticket.station,
+    round: ticket.round,
+    lines: ticket.itemIds
+      .map((id) => ticket.items[id])
+      .filter((item) => item != null)
+      .map((item) => ({
+        quantity: item.quantity,
+        name: item.name,
+        ...(item.variant ? { variant: item.variant } : {}),
+        modifiers: receiptModifiers(item.modifiers),
+        ...(item.notes ? { notes: item.notes } : {}),
+      })),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { memoryBackend, setBackend } from '@/lib/storage';
+import { createContext, hasPermission, StaffMember } from '@/lib/context';
+import {
+    canSignIn,
+    clearStaffSession,
+    emptyLogin,
+    getStaffSession,
+    isSessionExpired,
+    loginModel,
+    markRefreshed,
+    needsRefresh,
+    pressPinKey,
+    rememberPin,
+    saveStaffSession,
+    startSession,
+    touchSession,
+    unlockOffline,
+} from './staff-model';
+
+const manager: StaffMember = { id: 'm1', name: 'Ana', role: 'manager', permissions: ['void', 'discount', 'price-override', 'reopen'] };
+const cashier: StaffMember = { id: 'c1', name: 'Ben', role: 'cashier', permissions: [] };
+const SIGNED_IN_AT = new Date('2026-03-14T10:00:00Z');
+
+function minutesLater(minutes: number) {
+    return new Date(SIGNED_IN_AT.getTime() + minutes * 60 * 1000);
+}
+
+describe('staff-model', () => {
+    beforeEach(() => {
+        setBackend('session', memoryBackend());
+        setBackend('indexeddb', memoryBackend());
+    });
+
+    it('should enter PIN digits up to the maximum length', () => {
+        expect(pressPinKey('', '1')).toBe('1');
+        expect(pressPinKey('12', 'back')).toBe('1');
+        expect(pressPinKey('12', '.')).toBe('12');
+        expect(pressPinKey('12345678', '9')).toBe('12345678');
+    });
+
+    it('should sign in once the PIN is long enough', () => {
+        const model = loginModel(emptyLogin());
+        ['1', '2', '3'].forEach((key) => model.press(key));
+        expect(canSignIn(model.getData())).toBe(false);
+
+        model.press('4');
+        expect(canSignIn(model.getData())).toBe(true);
+
+        model.checking();
+        expect(canSignIn(model.getData())).toBe(false);
+        expect(model.press('5')).toBeUndefined();
+    });
+
+    it('should clear the PIN after a failed sign in', () => {
+        const model = loginModel({ pin: '1234' });
+        model.fail('Wrong PIN');
+        expect(model.getData()).toMatchObject({ pin: '', status: 'failed', error: 'Wrong PIN' });
+
+        model.press('5');
+        expect(model.getData()).toEqual({ pin: '5' });
+    });
+
+    it('should time out a session the till was not used for', () => {
+        const session = startSession({ token: 't', staff: manager, timeoutMinutes: 15 }, SIGNED_IN_AT);
+        saveStaffSession(session);
+
+        expect(isSessionExpired(session, minutesLater(14))).toBe(false);
+        expect(getStaffSession(minutesLater(15))).toBeNull();
+
+        touchSession(minutesLater(10));
+        expect(getStaffSession(minutesLater(20))?.staff).toEqual(manager);
+
+        clearStaffSession();
+        expect(getStaffSession(minutesLater(1))).toBeNull();
+    });
+
+    it('should refresh the server session only after the till was used', () => {
+        saveStaffSession(startSession({ token: 't', staff: cashier, timeoutMinutes: 15 }, SIGNED_IN_AT));
+        expect(needsRefresh(getStaffSession(minutesLater(5))!, minutesLater(5))).toBe(false);
+
+        touchSession(minutesLater(2));
+        expect(needsRefresh(getStaffSession(minutesLater(2))!, minutesLater(2))).toBe(true);
+
+        markRefreshed(minutesLater(3));
+        expect(needsRefresh(getStaffSession(minutesLater(5))!, minutesLater(5))).toBe(false);
+    });
+
+    it('should check permissions of the staff in the context', () => {
+        expect(hasPermission(createContext('en', undefined, manager), 'discount')).toBe(true);
+        expect(hasPermission(createContext('en', undefined, cashier), 'discount')).toBe(false);
+        expect(hasPermission(createContext('en'), 'void')).toBe(false);
+    });
+
+    it('should unlock offline with the PIN of staff who signed in on this till', async () => {
+        await rememberPin('2222', startSession({ token: 't', staff: manager, timeoutMinutes: 15 }, SIGNED_IN_AT));
+
+        const session = await unlockOffline('2222', minutesLater(30));
+        expect(session).toMatchObject({ token: '', staff: manager, timeoutMinutes: 15, lastActiveAt: minutesLater(30).toISOString() });
+        expect(await unlockOffline('1111', minutesLater(30))).toBeNull();
+    });
+});
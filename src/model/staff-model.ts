@@ -0,0 +1,195 @@
+import { Update } from "@/lib/data-model-types";
+import { state } from "@/lib/data-model";
+import { StaffMember } from "@/lib/context";
+import { createStore, versionedKey } from "@/lib/storage";
+
+// Data Types
+export type StaffSession = {
+  token: string; // Bearer token for the /api routes
+  staff: StaffMember;
+  timeoutMinutes: number; // Idle time before the till locks, as configured on the server
+  lastActiveAt: string; // Last tap or key press on this till
+  refreshedAt: string; // Last time the server extended the session
+};
+
+// Staff member who signed in on this till, so they can unlock it while the server
+// can't be reached; only a salted hash of the PIN is kept
+export type KnownStaff = {
+  staff: StaffMember;
+  timeoutMinutes: number;
+  salt: string; // Hex
+  pinHash: string; // PBKDF2-SHA-256 of the PIN and salt, hex
+};
+
+export type LoginStatus = "checking" | "failed";
+
+export type LoginPageData = {
+  pin: string; // Digits entered so far, never stored
+  status?: LoginStatus;
+  error?: string;
+};
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+// The server is asked to extend an active session at most this often
+const REFRESH_MS = 60 * 1000;
+
+// Slows down guessing a PIN from a stolen hash
+const PIN_HASH_ITERATIONS = 100000;
+
+// Each tab signs in on its own and forgets the session when it is closed
+const sessionStore = createStore<StaffSession>(versionedKey("staff-session", 1), "session");
+
+// Outlives the session: the till has to unlock after the idle timeout while offline
+const knownStaffStore = createStore<KnownStaff[]>(versionedKey("known-staff", 1), "indexeddb");
+
+export function emptyLogin(): LoginPageData {
+  return { pin: "" };
+}
+
+/**
+ * Session of a login answer, active from now
+ */
+export function startSession(
+  answer: { token: string; staff: StaffMember; timeoutMinutes: number },
+  now = new Date(),
+): StaffSession {
+  const { token, staff, timeoutMinutes } = answer;
+  return { token, staff, timeoutMinutes, lastActiveAt: now.toISOString(), refreshedAt: now.toISOString() };
+}
+
+/**
+ * The till locks once no one touched it for the session timeout
+ */
+export function isSessionExpired(session: StaffSession, now = new Date()): boolean {
+  return now.getTime() - Date.parse(session.lastActiveAt) >= session.timeoutMinutes * 60 * 1000;
+}
+
+/**
+ * Whether the till was used since the server last extended the session
+ */
+export function needsRefresh(session: StaffSession, now = new Date()): boolean {
+  return session.lastActiveAt > session.refreshedAt && now.getTime() - Date.parse(session.refreshedAt) >= REFRESH_MS;
+}
+
+/**
+ * The signed-in staff session, or null if no one is signed in or it timed out
+ */
+export function getStaffSession(now = new Date()): StaffSession | null {
+  const session = sessionStore.get();
+  return session && !isSessionExpired(session, now) ? session : null;
+}
+
+export function saveStaffSession(session: StaffSession) {
+  sessionStore.set(session);
+}
+
+export function clearStaffSession() {
+  sessionStore.remove();
+}
+
+/**
+ * Record a tap or key press, keeping the session alive
+ */
+export function touchSession(now = new Date()) {
+  const session = getStaffSession(now);
+  if (session) {
+    sessionStore.set({ ...session, lastActiveAt: now.toISOString() });
+  }
+}
+
+export function markRefreshed(now = new Date()) {
+  const session = sessionStore.get();
+  if (session) {
+    sessionStore.set({ ...session, refreshedAt: now.toISOString() });
+  }
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Web Crypto only exists on https and localhost, elsewhere the till can't unlock offline
+function canHashPins(): boolean {
+  return typeof globalThis.crypto?.subtle !== "undefined";
+}
+
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PIN_HASH_ITERATIONS },
+    key,
+    256,
+  );
+  return toHex(bits);
+}
+
+/**
+ * Remember the PIN of a staff member who just signed in, for unlocking the till offline
+ */
+export async function rememberPin(pin: string, session: StaffSession): Promise<void> {
+  if (!canHashPins()) return;
+
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const known: KnownStaff = { staff: session.staff, timeoutMinutes: session.timeoutMinutes, salt, pinHash: await hashPin(pin, salt) };
+  knownStaffStore.replace((list) => [...(list ?? []).filter((entry) => entry.staff.id !== known.staff.id), known]);
+}
+
+/**
+ * Session for the PIN of someone who signed in on this till before, while the server can't be reached
+ * It has no token, so the first /api answer once the server is back locks the till for a real sign-in
+ * @returns null when no one who signed in here has this PIN
+ */
+export async function unlockOffline(pin: string, now = new Date()): Promise<StaffSession | null> {
+  if (!canHashPins()) return null;
+
+  for (const known of knownStaffStore.get([])) {
+    if ((await hashPin(pin, known.salt)) === known.pinHash) {
+      return startSession({ token: "", staff: known.staff, timeoutMinutes: known.timeoutMinutes }, now);
+    }
+  }
+  return null;
+}
+
+/**
+ * PIN after a key of the login pad: a digit or "back"
+ */
+export function pressPinKey(pin: string, key: string): string {
+  if (key === "back") return pin.slice(0, -1);
+  if (!/^\d$/.test(key) || pin.length >= PIN_MAX_LENGTH) return pin;
+  return pin + key;
+}
+
+export function canSignIn(data: LoginPageData): boolean {
+  return data.status !== "checking" && data.pin.length >= PIN_MIN_LENGTH;
+}
+
+export function loginModel(data: LoginPageData) {
+  const model = state<LoginPageData>([]);
+  model.setData(data);
+
+  return {
+    getData() {
+      return data;
+    },
+    update(stmt: Update<LoginPageData>) {
+      return model.update(stmt);
+    },
+    press(key: string) {
+      if (data.status === "checking") return undefined;
+      return model.update({ pin: pressPinKey(data.pin, key), status: [], error: [] });
+    },
+    clear() {
+      return model.update({ pin: "", status: [], error: [] });
+    },
+    checking() {
+      return model.update({ status: "checking", error: [] });
+    },
+    // A wrong PIN is cleared so the next attempt starts over
+    fail(error: string) {
+      return model.update({ pin: "", status: "failed", error });
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Bill Page
+ * Splits the current order into checks
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as BillContentUI from "@/components/bill-content";
+import * as AppHeader from "@/components/app-header";
+import { styles as layoutStyles } from "@/components/app-layout";
+import { billModel, BillPageData, SHARED, sharedQuantity, SplitMode } from "@/model/bill-model";
+import { activeOrderId, getActiveTable, NO_CHARGES } from "@/model/order-model";
+import { paidChecks } from "@/model/payment-model";
+import { updateTableStatus } from "@/services/table-service";
+import { DataChange, Update } from "@/lib/data-model-types";
+
+// Template function - accepts data for static generation
+export function template(data: BillPageData, context: Context) {
+  const headerData: AppHeader.HeaderData = {
+    leftButton: {
+      type: "back",
+      onClick: () => dom(document.body).dispatch("navigate", { to: "order" }),
+    },
+  };
+
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <header class="${layoutStyles.header}">${AppHeader.template(headerData, context)}</header>
+      <main class="${layoutStyles.content}">${BillContentUI.template(data, context)}</main>
+    </div>
+  `;
+}
+
+// Hydrate function - loads the order from the session and attaches event handlers
+export function hydrate(container: Element, _data: BillPageData, context: Context) {
+  const node = dom(container);
+
+  // Hydrate header with navigation
+  const header = container.querySelector(`.${layoutStyles.header}`) as HTMLElement;
+  if (header) {
+    const headerData: AppHeader.HeaderData = {
+      leftButton: {
+        type: "back",
+        onClick: () => node.dispatch("navigate", { to: "order" }),
+      },
+      tableNumber: getActiveTable(),
+    };
+    AppHeader.hydrate(header, context, headerData);
+  }
+
+  // Load session data, with the checks already paid
+  const model = billModel(_data.charges ?? NO_CHARGES);
+  model.update({ paidChecks: [paidChecks(activeOrderId())] });
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    BillContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  // Opening the bill of a table means its guests asked for it, shown on the seatmap
+  const tableNumber = getActiveTable();
+  if (tableNumber && model.getData().order.itemIds.length > 0) {
+    updateTableStatus(tableNumber, "bill-requested").catch(console.error);
+  }
+
+  function runUpdate(stmt: Update<BillPageData>) {
+    const changes = model.update(stmt);
+    update(container, changes, model.getData(), context);
+  }
+
+  // Move one unit of an item and keep the line picked while units are left
+  function moveOne(itemId: string, from: number, to: number) {
+    const changes = model.move(itemId, from, to);
+    update(container, changes, model.getData(), context);
+
+    const data = model.getData();
+    const item = data.items[itemId];
+    const left = from === SHARED ? sharedQuantity(data.split, item) : (data.split.allocation[itemId]?.[from] ?? 0);
+    if (left <= 0) {
+      runUpdate({ selectedItemId: [], selectedCheck: [] });
+    }
+  }
+
+  node.on(BillContentUI.SET_SPLIT_MODE_EVENT, (data) => {
+    const changes = model.setMode(data.mode as SplitMode);
+    update(container, changes, model.getData(), context);
+  });
+
+  node.on(BillContentUI.ADD_CHECK_EVENT, () => {
+    const changes = model.setCount(model.getData().split.count + 1);
+    update(container, changes, model.getData(), context);
+  });
+
+  node.on(BillContentUI.REMOVE_CHECK_EVENT, () => {
+    const changes = model.setCount(model.getData().split.count - 1);
+    update(container, changes, model.getData(), context);
+  });
+
+  node.on(BillContentUI.PAY_CHECK_EVENT, (data) => {
+    node.dispatch("navigate", { to: "payment", check: Number(data.check) });
+  });
+
+  node.on(BillContentUI.PAY_BALANCE_EVENT, () => {
+    node.dispatch("navigate", { to: "payment" });
+  });
+
+  // Tap a line to pick it, tap it again to drop it
+  node.on(BillContentUI.SELECT_LINE_EVENT, (data) => {
+    const check = Number(data.check);
+    const current = model.getData();
+    if (current.selectedItemId === data.itemId && current.selectedCheck === check) {
+      runUpdate({ selectedItemId: [], selectedCheck: [] });
+    } else {
+      runUpdate({ selectedItemId: data.itemId, selectedCheck: check });
+    }
+  });
+
+  node.on(BillContentUI.MOVE_TO_CHECK_EVENT, (data) => {
+    const { selectedItemId, selectedCheck } = model.getData();
+    if (selectedItemId != null && selectedCheck != null) {
+      moveOne(selectedItemId, selectedCheck, Number(data.check));
+    }
+  });
+
+  // Drag a line onto another check to move one unit
+  const element = container as HTMLElement;
+  element.addEventListener("dragstart", (e) => {
+    const line = (e.target as Element).closest?.("[data-item-id][data-check]") as HTMLElement | null;
+    if (line && e.dataTransfer) {
+      e.dataTransfer.setData("text/plain", JSON.stringify({ itemId: line.dataset.itemId, check: Number(line.dataset.check) }));
+      e.dataTransfer.effectAllowed = "move";
+    }
+  });
+
+  element.addEventListener("dragover", (e) => {
+    const target = (e.target as Element).closest?.("[data-drop-target]") as HTMLElement | null;
+    if (target) {
+      e.preventDefault();
+      target.dataset.dragOver = "true";
+    }
+  });
+
+  element.addEventListener("dragleave", (e) => {
+    const target = (e.target as Element).closest?.("[data-drop-target]") as HTMLElement | null;
+    if (target && !target.contains(e.relatedTarget as Node)) {
+      delete target.dataset.dragOver;
+    }
+  });
+
+  element.addEventListener("drop", (e) => {
+    const target = (e.target as Element).closest?.("[data-drop-target]") as HTMLElement | null;
+    const payload = e.dataTransfer?.getData("text/plain");
+    if (!target || !payload) return;
+
+    e.preventDefault();
+    delete target.dataset.dragOver;
+    try {
+      const { itemId, check } = JSON.parse(payload);
+      moveOne(itemId, check, Number(target.dataset.check));
+    } catch {
+      // Not one of our lines
+    }
+  });
+}
+
+function update(
+  container: Element,
+  changes: DataChange<BillPageData> | undefined,
+  data: BillPageData,
+  context: Context,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      BillContentUI.update(contentContainer, changes, context, data);
+    }
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Kitchen Page
+ * Kitchen display of the rounds sent from the order page, for one station
+ * (/kitchen?station=bar) or all of them
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as KitchenContentUI from "@/components/kitchen-content";
+import * as KitchenTicketUI from "@/components/kitchen-ticket";
+import * as ReceiptUI from "@/components/receipt";
+import { styles as layoutStyles } from "@/components/app-layout";
+import { kitchenModel, KitchenPageData } from "@/model/kitchen-model";
+import { kitchenReceipt } from "@/model/receipt-model";
+import { bumpTicket, fetchTickets, KitchenTicket, recallTicket, setItemDone } from "@/services/kitchen-service";
+import { parseKitchenStation } from "./page-router";
+import { DataChange } from "@/lib/data-model-types";
+
+// How often tickets are fetched and the elapsed times move on
+const TICKET_REFRESH_MS = 10000;
+const CLOCK_TICK_MS = 30000;
+
+// Template function - accepts data for static generation
+export function template(data: KitchenPageData, context: Context) {
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <main class="${layoutStyles.content}">${KitchenContentUI.template(data, context)}</main>
+    </div>
+  `;
+}
+
+// Hydrate function - loads the tickets from the server and keeps them fresh
+export function hydrate(container: Element, _data: KitchenPageData, context: Context) {
+  const node = dom(container);
+  const station = parseKitchenStation();
+  const model = kitchenModel({ ..._data, now: Date.now(), ...(station ? { station } : {}) });
+
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    KitchenContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  const refreshTickets = async () => {
+    try {
+      const { tickets, stations } = await fetchTickets(station, context.lang);
+      update(container, model.setStations(stations), model.getData(), context);
+      update(container, model.sync(tickets), model.getData(), context);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+  refreshTickets();
+  setInterval(refreshTickets, TICKET_REFRESH_MS);
+  setInterval(() => update(container, model.tick(), model.getData(), context), CLOCK_TICK_MS);
+
+  // Changes are shown right away; the server's answer wins, a failure refetches
+  async function report(action: Promise<KitchenTicket>) {
+    try {
+      const ticket = await action;
+      const others = Object.values(model.getData().tickets)
+        .map((t) => t.ticket)
+        .filter((t) => t.id !== ticket.id);
+      update(container, model.sync([...others, ticket]), model.getData(), context);
+    } catch (error) {
+      console.error(error);
+      refreshTickets();
+    }
+  }
+
+  node.on(KitchenContentUI.SHOW_TICKETS_EVENT, (data) => {
+    update(container, model.update({ showBumped: data.show === "bumped" }), model.getData(), context);
+  });
+
+  node.on(KitchenTicketUI.TOGGLE_KITCHEN_ITEM_EVENT, (data) => {
+    const { ticketId, itemId } = data;
+    if (!ticketId || !itemId) return;
+
+    const changes = model.toggleItem(ticketId, itemId);
+    if (changes) {
+      update(container, changes, model.getData(), context);
+      const done = model.getData().tickets[ticketId].ticket.items[itemId].done;
+      report(setItemDone(ticketId, itemId, done));
+    }
+  });
+
+  node.on(KitchenTicketUI.BUMP_TICKET_EVENT, (data) => {
+    const changes = data.ticketId ? model.bump(data.ticketId) : undefined;
+    if (changes) {
+      update(container, changes, model.getData(), context);
+      report(bumpTicket(data.ticketId));
+    }
+  });
+
+  node.on(KitchenTicketUI.RECALL_TICKET_EVENT, (data) => {
+    const changes = data.ticketId ? model.recall(data.ticketId) : undefined;
+    if (changes) {
+      update(container, changes, model.getData(), context);
+      report(recallTicket(data.ticketId));
+    }
+  });
+
+  // Each station prints on the print server's printer of the same name
+  node.on(KitchenTicketUI.PRINT_TICKET_EVENT, (data) => {
+    const ticket = data.ticketId ? model.getData().tickets[data.ticketId]?.ticket : undefined;
+    if (ticket) {
+      ReceiptUI.printReceipt(kitchenReceipt(ticket), context, ticket.station);
+    }
+  });
+}
+
+function update(
+  container: Element,
+  changes: DataChange<KitchenPageData> | undefined,
+  data: KitchenPageData,
+  context: Context,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      KitchenContentUI.update(contentContainer, changes, context, data);
+    }
+  });
+}
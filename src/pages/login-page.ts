@@ -0,0 +1,96 @@
+/**
+ * Login Page
+ * Staff sign in with their PIN; a new PIN switches staff on a shared till
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as LoginContentUI from "@/components/login-content";
+import { styles as layoutStyles } from "@/components/app-layout";
+import { canSignIn, clearStaffSession, LoginPageData, loginModel, saveStaffSession } from "@/model/staff-model";
+import { login, logout } from "@/services/staff-service";
+import { loadPage, parseLoginNext, routes } from "./page-router";
+import { DataChange } from "@/lib/data-model-types";
+
+// Template function - accepts data for static generation
+export function template(data: LoginPageData, context: Context) {
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <main class="${layoutStyles.content}">${LoginContentUI.template(data, context)}</main>
+    </div>
+  `;
+}
+
+// Hydrate function - attaches the PIN pad; digits can be typed as well
+export function hydrate(container: Element, _data: LoginPageData, context: Context) {
+  const node = dom(container);
+  const model = loginModel({ ..._data });
+
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    LoginContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  const signIn = async () => {
+    if (!canSignIn(model.getData())) return;
+    const { pin } = model.getData();
+    update(container, model.checking(), model.getData(), context);
+
+    try {
+      saveStaffSession(await login(pin));
+      loadPage(parseLoginNext() ?? routes.home(), { replace: true });
+    } catch (error) {
+      update(container, model.fail(error instanceof Error ? error.message : String(error)), model.getData(), context);
+    }
+  };
+
+  node.on(LoginContentUI.PIN_KEY_EVENT, (data) => {
+    if (data.key) {
+      update(container, model.press(data.key), model.getData(), context);
+    }
+  });
+
+  node.on(LoginContentUI.CLEAR_PIN_EVENT, () => {
+    update(container, model.clear(), model.getData(), context);
+  });
+
+  node.on(LoginContentUI.SIGN_IN_EVENT, signIn);
+
+  node.on(LoginContentUI.SIGN_OUT_EVENT, () => {
+    logout().catch(console.error).finally(() => {
+      clearStaffSession();
+      loadPage(routes.login(), { replace: true });
+    });
+  });
+
+  document.addEventListener("keydown", (event) => {
+    if (/^\d$/.test(event.key)) {
+      update(container, model.press(event.key), model.getData(), context);
+    } else if (event.key === "Backspace") {
+      update(container, model.press("back"), model.getData(), context);
+    } else if (event.key === "Escape") {
+      update(container, model.clear(), model.getData(), context);
+    } else if (event.key === "Enter") {
+      signIn();
+    }
+  });
+}
+
+function update(
+  container: Element,
+  changes: DataChange<LoginPageData> | undefined,
+  data: LoginPageData,
+  context: Context,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      LoginContentUI.update(contentContainer, changes, context, data);
+    }
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Menu Editor Page
+ * Admins edit a menu (/menu-editor?menu=coffee-menu) with a live preview; the
+ * menu is checked against the other menus before it is saved in every
+ * language and the server loads the menus again
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context, hasPermission } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as MenuEditorContentUI from "@/components/menu-editor-content";
+import { styles as layoutStyles } from "@/components/app-layout";
+import { hasErrors, MenuEditorPageData, menuEditorModel, MenuSection } from "@/model/menu-editor-model";
+import { applyMenuEdit } from "@/model/menu-languages";
+import { ROOT_MENU_ID } from "@/model/menu-validation";
+import { fetchMenus, fetchMenuVersions, saveMenu } from "@/services/menu-editor-service";
+import { parseEditorMenuId, routes } from "./page-router";
+import { DataChange } from "@/lib/data-model-types";
+
+// Template function - accepts data for static generation
+export function template(data: MenuEditorPageData, context: Context) {
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <main class="${layoutStyles.content}">${MenuEditorContentUI.template(data, context)}</main>
+    </div>
+  `;
+}
+
+// Hydrate function - loads the menus of the page's language from the server
+export function hydrate(container: Element, _data: MenuEditorPageData, context: Context) {
+  // The server checks the permission again for every request
+  if (!hasPermission(context, "menu-edit")) return;
+
+  const node = dom(container);
+  const model = menuEditorModel({ ..._data });
+
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    MenuEditorContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  const show = (changes: DataChange<MenuEditorPageData> | undefined, typed = false) =>
+    update(container, changes, model.getData(), context, typed);
+
+  const showError = (error: unknown) => {
+    console.error(error);
+    show(model.fail(error instanceof Error ? error.message : String(error)));
+  };
+
+  // The opened menu is kept in the address, so a reload opens it again
+  const open = (menuId: string) => {
+    show(model.switchTo(menuId));
+    if (model.getData().menuId === menuId) {
+      window.history.replaceState(null, "", routes.menuEditor(menuId, context.lang));
+    }
+  };
+
+  (async () => {
+    try {
+      show(model.loaded(await fetchMenus(context.lang)));
+      open(parseEditorMenuId() ?? ROOT_MENU_ID);
+    } catch (error) {
+      showError(error);
+    }
+  })();
+
+  // Typed values only refresh the preview; pricing and sub menus change the form
+  container.addEventListener("input", (event) => {
+    const element = event.target as HTMLElement;
+    const pricing = MenuEditorContentUI.readPricing(element);
+    if (pricing) return show(model.setPricing(pricing.itemId, pricing.pricing));
+
+    const subMenu = MenuEditorContentUI.readSubMenu(element);
+    if (subMenu) return show(model.setSubMenu(subMenu.itemId, subMenu.menuId));
+
+    const field = MenuEditorContentUI.readField(element);
+    if (field) show(model.setField(field.path, field.value), true);
+  });
+
+  node.on(MenuEditorContentUI.OPEN_MENU_EVENT, () => {
+    const menuId = MenuEditorContentUI.readValue(container, "menu-id");
+    if (menuId) open(menuId);
+  });
+
+  node.on(MenuEditorContentUI.REVERT_MENU_EVENT, () => {
+    show(model.revert());
+  });
+
+  node.on(MenuEditorContentUI.ADD_ENTRY_EVENT, (data) => {
+    const section = data.section as MenuSection;
+    const id = MenuEditorContentUI.readValue(container, `new-${section}`);
+    if (id) show(model.addEntry(section, id));
+  });
+
+  node.on(MenuEditorContentUI.REMOVE_ENTRY_EVENT, (data) => {
+    if (data.section && data.id) show(model.removeEntry(data.section as MenuSection, data.id));
+  });
+
+  node.on(MenuEditorContentUI.ADD_VARIANT_EVENT, (data) => {
+    const variantId = MenuEditorContentUI.readValue(container, `new-variant:${data.groupId}`);
+    if (data.groupId && variantId) show(model.addVariant(data.groupId, variantId));
+  });
+
+  node.on(MenuEditorContentUI.REMOVE_VARIANT_EVENT, (data) => {
+    if (data.groupId && data.variantId) show(model.removeVariant(data.groupId, data.variantId));
+  });
+
+  node.on(MenuEditorContentUI.ADD_LIST_ENTRY_EVENT, (data) => {
+    const itemId = MenuEditorContentUI.readValue(container, `add:${data.list}`);
+    if (data.list && itemId) show(model.addListEntry(JSON.parse(data.list), itemId));
+  });
+
+  node.on(MenuEditorContentUI.REMOVE_LIST_ENTRY_EVENT, (data) => {
+    if (data.list) show(model.removeListEntry(JSON.parse(data.list), Number(data.index)));
+  });
+
+  node.on(MenuEditorContentUI.MOVE_LIST_ENTRY_EVENT, (data) => {
+    if (data.list) show(model.moveListEntry(JSON.parse(data.list), Number(data.index), Number(data.offset)));
+  });
+
+  // The menu is saved in every language from the current versions on the server;
+  // the other languages keep their texts
+  node.on(MenuEditorContentUI.SAVE_MENU_EVENT, async () => {
+    const { draft, dirty, saving, issues } = model.getData();
+    if (!draft || !dirty || saving || hasErrors(issues)) return;
+
+    show(model.startSaving());
+    try {
+      const versions = await fetchMenuVersions(draft.id);
+      if (!versions[context.lang]) {
+        throw new Error(`Menu '${draft.id}' has no ${context.lang} version`);
+      }
+      const { source, menus } = applyMenuEdit(draft, context.lang, versions);
+      const saved = await saveMenu(draft.id, menus, source);
+      show(model.saved(saved[context.lang] ?? menus[context.lang]));
+    } catch (error) {
+      showError(error);
+    }
+  });
+}
+
+function update(
+  container: Element,
+  changes: DataChange<MenuEditorPageData> | undefined,
+  data: MenuEditorPageData,
+  context: Context,
+  typed: boolean,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      MenuEditorContentUI.update(contentContainer, changes, context, data, typed);
+    }
+  });
+}
@@ -5,19 +5,32 @@
  * @see /component-guidelines.md for component patterns and conventions
  */
 
-import { Template } from "@/lib/template";
-import { Context } from "@/lib/context";
+import { render, Template } from "@/lib/template";
+import { Context, hasPermission } from "@/lib/context";
 import * as MenuPageContent from "@/components/menu-page-content";
 import * as ModifierPageContent from "@/components/modifier-page-content";
-import { MenuPageData, MenuModel, DisplayMenu, toDisplayMenuUpdate, toOrderItem } from "@/model/menu-model";
+import {
+  MenuPageData,
+  MenuModel,
+  DisplayMenu,
+  availabilityUpdate,
+  menuRefreshUpdate,
+  menuStructureChanged,
+  toDisplayMenu,
+  toDisplayMenuUpdate,
+  toOrderItem,
+} from "@/model/menu-model";
 import { DataChange, Update, UpdateResult } from "@/lib/data-model-types";
-import { MENU_ITEM_CLICK } from "@/components/menu-item";
+import { MENU_ITEM_CLICK, TOGGLE_SOLD_OUT_EVENT } from "@/components/menu-item";
 import { saveOrderItem, OrderItem } from "@/model/order-model";
 import { VARIANT_SELECT_EVENT } from "@/components/variant";
 import { ADD_TO_ORDER_EVENT, VIEW_ORDER_EVENT, SAVE_CHANGES_EVENT } from "@/components/app-bottom-bar";
-import { isSaleItem } from "@/types";
+import { isSaleItem, Menu } from "@/types";
 import { ALL, select, WHERE } from "tsqn";
 import { dom } from "@/lib/dom-node";
+import { setDataAttribute } from "@/lib/events";
+import { fetchSoldOut, setSoldOut, SoldOutEntry } from "@/services/availability-service";
+import { fetchMenuData, watchMenuVersion } from "@/services/menu-data-service";
 
 // Template function - delegates to appropriate page component
 export function template(displayMenu: DisplayMenu, context: Context): Template {
@@ -100,6 +113,47 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
   changes = model.updateAll(stmts, changes);
   update(container, changes, model.data, context);
 
+  // Sold out items come from the server; the menu stays usable without them
+  function showSoldOut(soldOut: SoldOutEntry[]) {
+    runUpdate(availabilityUpdate(soldOut.map((entry) => entry.menuItemId)));
+  }
+  fetchSoldOut().then(showSoldOut).catch(console.error);
+
+  // Menus can change on the server while the page is open, and a built page can
+  // be older than its menu; a version other than the loaded one is loaded again
+  const stopWatching = watchMenuVersion(() => {
+    fetchMenuData(menu.id, context.lang)
+      .then((fresh) => {
+        if (menuStructureChanged(model.data, fresh)) {
+          rerender(fresh);
+          return;
+        }
+        const stmt = menuRefreshUpdate(model.data, fresh);
+        if (stmt) runUpdate(stmt);
+      })
+      .catch(console.error);
+  });
+
+  // Render the page again in a new container, the handlers of this one go with it;
+  // the order being customized and the selected variants are kept in the page state
+  function rerender(fresh: Menu) {
+    stopWatching();
+    const next = container.cloneNode(false) as Element;
+    container.replaceWith(next);
+    const displayMenu = toDisplayMenu(fresh);
+    render(template(displayMenu, context), next);
+    hydrate(next, displayMenu, context);
+  }
+
+  // The 86 buttons are only shown to staff who may change availability
+  setDataAttribute(container as HTMLElement, "manage-availability", hasPermission(context, "availability") || undefined);
+
+  node.on(TOGGLE_SOLD_OUT_EVENT, (data) => {
+    const item = model.data.items[data.id];
+    if (!item) return;
+    setSoldOut(item.data.id, item.available, data.name).then(showSoldOut).catch(console.error);
+  });
+
   node.on(VARIANT_SELECT_EVENT, (data) => {
     runUpdate({ variants: { [data.variantGroupId]: { selectedId: data.variantId } } });
   });
@@ -107,6 +161,11 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
   node.on(MENU_ITEM_CLICK, (data) => {
     const item = model.data.items[data.id];
 
+    // Sold out items can't be picked, only deselected
+    if (item && !item.available && !item.selected) {
+      return;
+    }
+
     if (item?.data.subMenu) {
       const menuId = item.data.subMenu.menuId;
       if (isSaleItem(item.data)) {
@@ -125,6 +184,15 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
     }
   });
 
+  // An item sent meanwhile, e.g. from the order page in another tab, stays as it was sent
+  function save(order: OrderItem): boolean {
+    const error = saveOrderItem(order);
+    if (error) {
+      ModifierPageContent.showSaveError(container, error);
+    }
+    return error === undefined;
+  }
+
   node.on(VIEW_ORDER_EVENT, () => {
     node.dispatch("navigate", { to: "order" });
   });
@@ -133,7 +201,7 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
     const order = model.data.order;
     if (order) {
       const modifying = order.id.length > 0;
-      saveOrderItem(order);
+      if (!save(order)) return;
 
       // Check if we're in modify mode
       if (modifying) {
@@ -145,7 +213,7 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
       const quickOrder = model.data.quickOrder;
       if (quickOrder) {
         const orders = quickOrder.selectedIds.map((id) => toOrderItem(model.data.items[id].data, model.data));
-        orders.forEach((o) => saveOrderItem(o));
+        orders.forEach((o) => save(o));
 
         runUpdate({
           quickOrder: [],
@@ -158,8 +226,7 @@ export function hydrate(container: Element, menu: DisplayMenu, context: Context)
   // Handle save changes event (same as add to order, but for modify mode)
   node.on(SAVE_CHANGES_EVENT, () => {
     const order = model.data.order;
-    if (order) {
-      saveOrderItem(order);
+    if (order && save(order)) {
       node.dispatch("navigate", { to: "order" });
     }
   });
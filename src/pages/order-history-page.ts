@@ -0,0 +1,118 @@
+/**
+ * Order History Page
+ * Past orders from the server's order store; an order can be reopened to
+ * reprint its receipt or be refunded
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context, hasPermission } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as OrderHistoryContentUI from "@/components/order-history-content";
+import * as ReceiptUI from "@/components/receipt";
+import { styles as layoutStyles } from "@/components/app-layout";
+import { orderHistoryModel, OrderHistoryPageData, reopenOrder, today } from "@/model/order-history-model";
+import { orderReceipt } from "@/model/receipt-model";
+import { fetchOrders, fetchStoredOrder, StoredOrderStatus, updateStoredOrder } from "@/services/order-history-service";
+import { DataChange } from "@/lib/data-model-types";
+
+// Template function - accepts data for static generation
+export function template(data: OrderHistoryPageData, context: Context) {
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <main class="${layoutStyles.content}">${OrderHistoryContentUI.template(data, context)}</main>
+    </div>
+  `;
+}
+
+// Hydrate function - loads today's orders from the server
+export function hydrate(container: Element, _data: OrderHistoryPageData, context: Context) {
+  const node = dom(container);
+  const model = orderHistoryModel({ ..._data });
+
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    OrderHistoryContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  const showError = (error: unknown) => {
+    console.error(error);
+    update(container, model.fail(error instanceof Error ? error.message : String(error)), model.getData(), context);
+  };
+
+  const loadOrders = async () => {
+    try {
+      const orders = await fetchOrders(model.getData().filter);
+      update(container, model.sync(orders), model.getData(), context);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  update(container, model.setFilter({ from: today(), to: today() }), model.getData(), context);
+  loadOrders();
+
+  node.on(OrderHistoryContentUI.FILTER_ORDERS_EVENT, () => {
+    update(container, model.setFilter(OrderHistoryContentUI.readFilter()), model.getData(), context);
+    loadOrders();
+  });
+
+  node.on(OrderHistoryContentUI.SELECT_ORDER_EVENT, async (data) => {
+    if (!data.orderId) return;
+    try {
+      update(container, model.select(await fetchStoredOrder(data.orderId)), model.getData(), context);
+    } catch (error) {
+      showError(error);
+    }
+  });
+
+  node.on(OrderHistoryContentUI.CLOSE_ORDER_EVENT, () => {
+    update(container, model.select(undefined), model.getData(), context);
+  });
+
+  // The copy shows the tenders of the last payment
+  node.on(OrderHistoryContentUI.REPRINT_ORDER_EVENT, () => {
+    const { selected, charges } = model.getData();
+    if (selected) {
+      const payment = selected.payments[selected.payments.length - 1];
+      ReceiptUI.printReceipt(orderReceipt(reopenOrder(selected, charges), payment), context);
+    }
+  });
+
+  // Refunds and reopening need a manager; the server checks the permission again
+  const setStatus = async (orderId: string | undefined, status: StoredOrderStatus) => {
+    if (!orderId) return;
+    try {
+      const stored = await updateStoredOrder(orderId, { status });
+      update(container, model.saved(stored), model.getData(), context);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  node.on(OrderHistoryContentUI.REFUND_ORDER_EVENT, (data) => {
+    if (hasPermission(context, "void")) setStatus(data.orderId, "refunded");
+  });
+
+  // Reopening marks a paid or refunded order as open again
+  node.on(OrderHistoryContentUI.REOPEN_ORDER_EVENT, (data) => {
+    if (hasPermission(context, "reopen")) setStatus(data.orderId, "open");
+  });
+}
+
+function update(
+  container: Element,
+  changes: DataChange<OrderHistoryPageData> | undefined,
+  data: OrderHistoryPageData,
+  context: Context,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      OrderHistoryContentUI.update(contentContainer, changes, context, data);
+    }
+  });
+}
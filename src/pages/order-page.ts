@@ -7,15 +7,41 @@
 
 import { html } from "@/lib/template";
 import { STATE_UPDATE_EVENT } from "@/lib/events";
-import { Context } from "@/lib/context";
+import { Context, hasPermission } from "@/lib/context";
 import { dom } from "@/lib/dom-node";
 import * as OrderContentUI from "@/components/order-content";
 import * as OrderItemUI from "@/components/order-item";
+import * as OrderTotalsUI from "@/components/order-totals";
+import * as DiscountEditorUI from "@/components/discount-editor";
+import * as AdjustmentEditorUI from "@/components/adjustment-editor";
 import * as AppHeader from "@/components/app-header";
 import * as AppBottomBar from "@/components/app-bottom-bar";
+import * as OrderSubmissionUI from "@/components/order-submission";
+import * as UndoSnackbarUI from "@/components/undo-snackbar";
 import { styles as layoutStyles } from "@/components/app-layout";
-import { orderModel, OrderPageData } from "@/model/order-model";
-import { DataChange } from "@/lib/data-model-types";
+import {
+  activeOrderId,
+  generateOptimisticId,
+  getActiveTable,
+  getOrder,
+  NO_CHARGES,
+  orderModel,
+  OrderPageData,
+  orderSync,
+  pendingRound,
+  soldOutUpdate,
+  stockLines,
+} from "@/model/order-model";
+import { Discount } from "@/model/discount-model";
+import { LifecycleError } from "@/model/order-lifecycle";
+import { AdjustmentKind, canAdjust } from "@/model/adjustment-model";
+import { DataChange, Update } from "@/lib/data-model-types";
+import { sendOrder } from "@/services/order-service";
+import { adjustStoredItem } from "@/services/order-history-service";
+import { enqueueRound, isOffline } from "@/services/order-queue";
+import { StockResult, validateStock } from "@/services/availability-service";
+import { fetchPromotions, watchMenuVersion } from "@/services/menu-data-service";
+import { AppEvents, listen } from "@/lib/dom-events";
 
 // Template function - accepts data for static generation
 export function template(data: OrderPageData, context: Context) {
@@ -30,6 +56,8 @@ export function template(data: OrderPageData, context: Context) {
     <div class="${layoutStyles.pageContainer}">
       <header class="${layoutStyles.header}">${AppHeader.template(headerData, context)}</header>
       <main class="${layoutStyles.content}">${OrderContentUI.template(data, context)}</main>
+      <div class="${OrderSubmissionUI.classes.container}">${OrderSubmissionUI.template(data.submission, context, data.order)}</div>
+      <div class="${UndoSnackbarUI.classes.container}"></div>
       <div class="${layoutStyles.bottomBar}">${AppBottomBar.template("send-order", context)}</div>
     </div>
   `;
@@ -47,67 +75,108 @@ export function hydrate(container: Element, _data: OrderPageData, context: Conte
         type: "add",
         onClick: () => node.dispatch('navigate', { to: 'home' }),
       },
+      tableNumber: getActiveTable(),
     };
     AppHeader.hydrate(header, context, headerData);
   }
 
   // Load session data
-  const model = orderModel();
+  const model = orderModel(_data.charges ?? NO_CHARGES, _data.promotions ?? []);
   const sessionData = model.getData();
 
   // Only update if we have actual order items (not empty state)
   if (sessionData.order.itemIds.length > 0) {
-    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
-    if (contentContainer) {
-      OrderContentUI.init(contentContainer, sessionData, context);
-    }
+    renderOrder(container, sessionData, context);
+  }
 
-    // Update bottom bar with actual counts
-    const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`) as HTMLElement;
-    if (bottomBar) {
-      AppBottomBar.update(
-        bottomBar,
-        {
-          quantity: sessionData.order.itemIds.length,
-          price: sessionData.order.total,
-        },
-        context,
-      );
+  // Rounds queued while offline, or rejected once the network came back
+  const submissionContainer = container.querySelector(`.${OrderSubmissionUI.classes.container}`);
+  if (submissionContainer) {
+    OrderSubmissionUI.update(submissionContainer, sessionData.submission, context, sessionData.order);
+  }
+
+  // The order is locked while it is being sent
+  const isLocked = () => model.getData().submission?.status === "sending";
+
+  // Changes the order lifecycle refuses are shown in the submission banner
+  function apply(change: () => DataChange<OrderPageData> | undefined): DataChange<OrderPageData> | undefined {
+    let changes: DataChange<OrderPageData> | undefined;
+    try {
+      changes = change();
+    } catch (error) {
+      if (!(error instanceof LifecycleError)) throw error;
+      changes = model.update({ submission: [{ status: "refused", errors: [error.message], warnings: [] }] });
+      update(container, changes, model.getData(), context);
+      return undefined;
     }
+    update(container, changes, model.getData(), context);
+    return changes;
+  }
+
+  function runUpdate(stmt: Update<OrderPageData>) {
+    apply(() => model.update(stmt));
   }
 
   // Attach event handlers
   node.on(STATE_UPDATE_EVENT, (data) => {
-    const changes = model.update(data);
-    update(container, changes, model.getData(), context);
+    if (isLocked()) return;
+    runUpdate(data);
   });
 
   // Handle increase quantity event
   node.on(OrderItemUI.INCREASE_QUANTITY_EVENT, (data) => {
     const itemId = data.itemId;
-    if (itemId) {
-      const changes = model.update({
+    if (itemId && !isLocked()) {
+      runUpdate({
         items: { [itemId]: { item: { quantity: (q) => q + 1 } } },
       });
-      update(container, changes, model.getData(), context);
     }
   });
 
   // Handle decrease quantity event
   node.on(OrderItemUI.DECREASE_QUANTITY_EVENT, (data) => {
     const itemId = data.itemId;
-    if (itemId) {
-      const changes = model.update({
+    if (itemId && !isLocked()) {
+      runUpdate({
         items: { [itemId]: { item: { quantity: (q) => Math.max(1, q - 1) } } },
       });
-      update(container, changes, model.getData(), context);
     }
   });
 
+  // Remove a draft item - with the expanded view's button or by swiping it away - and offer to undo it
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`);
+  if (contentContainer) {
+    OrderItemUI.initSwipeToRemove(contentContainer);
+  }
+
+  const snackbar = container.querySelector(`.${UndoSnackbarUI.classes.container}`);
+  let snackbarTimer: ReturnType<typeof setTimeout> | undefined;
+  const showSnackbar = (message: string | undefined) => {
+    clearTimeout(snackbarTimer);
+    if (snackbar) UndoSnackbarUI.update(snackbar, message, context);
+    if (message) snackbarTimer = setTimeout(() => showSnackbar(undefined), UndoSnackbarUI.UNDO_TIMEOUT_MS);
+  };
+
+  node.on(OrderItemUI.REMOVE_ITEM_EVENT, (data) => {
+    const displayItem = data.itemId ? model.getData().items[data.itemId] : undefined;
+    if (!displayItem || isLocked()) return;
+
+    if (apply(() => model.remove(displayItem.item.id))) {
+      showSnackbar(UndoSnackbarUI.removedMessage(displayItem.item.menuItem.name, context));
+    }
+  });
+
+  node.on(UndoSnackbarUI.UNDO_EVENT, () => {
+    if (!isLocked() && model.undoRemove()) {
+      renderOrder(container, model.getData(), context);
+    }
+    showSnackbar(undefined);
+  });
+
   // Handle modify item event
   node.on(OrderItemUI.MODIFY_ITEM_EVENT, (data) => {
     const itemId = data.itemId;
-    if (itemId) {
+    if (itemId && !isLocked()) {
       // Get the order item and navigate to modify it
       const displayItem = model.getData().items[itemId];
       if (displayItem) {
@@ -127,19 +196,298 @@ export function hydrate(container: Element, _data: OrderPageData, context: Conte
   // Handle toggle events - update expanded state in model
   node.on(OrderItemUI.TOGGLE_ITEM_EVENT, (data) => {
     const stmt = { expandedId: (current?: string) => (current === data.itemId ? undefined : data.itemId) };
-    const changes = model.update(stmt);
-    update(container, changes, model.getData(), context);
+    runUpdate(stmt);
   });
 
-  // Handle comment item event
+  // Handle comment item event - toggle the inline note editor
   node.on(OrderItemUI.COMMENT_ITEM_EVENT, (data) => {
+    const itemId = data.itemId;
+    if (itemId && !isLocked()) {
+      runUpdate({ items: { [itemId]: { editingNote: (editing) => !editing } } });
+    }
+  });
+
+  node.on(OrderItemUI.SAVE_NOTE_EVENT, (data) => {
+    const itemId = data.itemId;
+    if (itemId && !isLocked()) {
+      const notes = OrderItemUI.readNote(itemId);
+      runUpdate({ items: { [itemId]: { editingNote: false, item: { notes: notes ? notes : [] } } } });
+    }
+  });
+
+  node.on(OrderItemUI.CANCEL_NOTE_EVENT, (data) => {
     const itemId = data.itemId;
     if (itemId) {
-      // For now, just log - can be expanded to show comment dialog
-      console.log('Comment requested for item:', itemId);
-      // TODO: Implement comment functionality
+      runUpdate({ items: { [itemId]: { editingNote: false } } });
+    }
+  });
+
+  // Discounts - data-target is an item ID or the whole order; only staff with the permission give them
+  const mayDiscount = () => !isLocked() && hasPermission(context, "discount");
+
+  node.on(OrderItemUI.DISCOUNT_ITEM_EVENT, (data) => {
+    const itemId = data.itemId;
+    if (itemId && mayDiscount()) {
+      runUpdate({ items: { [itemId]: { editingDiscount: (editing) => !editing } } });
+    }
+  });
+
+  node.on(OrderTotalsUI.DISCOUNT_ORDER_EVENT, () => {
+    if (mayDiscount()) {
+      runUpdate({ editingDiscount: (editing) => !editing });
+    }
+  });
+
+  node.on(DiscountEditorUI.APPLY_DISCOUNT_EVENT, (data) => {
+    if (data.target && mayDiscount()) {
+      const discount = DiscountEditorUI.readDiscount(data.target);
+      runUpdate(discountUpdate(data.target, discount ? [discount] : []));
+    }
+  });
+
+  node.on(DiscountEditorUI.REMOVE_DISCOUNT_EVENT, (data) => {
+    if (data.target && mayDiscount()) {
+      runUpdate(discountUpdate(data.target, []));
+    }
+  });
+
+  node.on(DiscountEditorUI.CANCEL_DISCOUNT_EVENT, (data) => {
+    if (data.target === DiscountEditorUI.ORDER_TARGET) {
+      runUpdate({ editingDiscount: false });
+    } else if (data.target) {
+      runUpdate({ items: { [data.target]: { editingDiscount: false } } });
+    }
+  });
+
+  // Voids and comps of sent items are recorded by the server first;
+  // staff who may not void need a manager's PIN
+  const startAdjustment = (kind: AdjustmentKind) => (data: { itemId?: string }) => {
+    const displayItem = data.itemId ? model.getData().items[data.itemId] : undefined;
+    if (data.itemId && displayItem && canAdjust(displayItem.item) && !isLocked()) {
+      runUpdate({ items: { [data.itemId]: { editingDiscount: false, adjusting: [{ kind }] } } });
+    }
+  };
+
+  node.on(OrderItemUI.VOID_ITEM_EVENT, startAdjustment("void"));
+  node.on(OrderItemUI.COMP_ITEM_EVENT, startAdjustment("comp"));
+
+  node.on(AdjustmentEditorUI.CANCEL_ADJUSTMENT_EVENT, (data) => {
+    if (data.itemId && model.getData().items[data.itemId]?.adjusting?.status !== "approving") {
+      runUpdate({ items: { [data.itemId]: { adjusting: [] } } });
+    }
+  });
+
+  node.on(AdjustmentEditorUI.APPLY_ADJUSTMENT_EVENT, async (data) => {
+    const itemId = data.itemId;
+    const draft = itemId ? model.getData().items[itemId]?.adjusting : undefined;
+    if (!itemId || !draft || draft.status === "approving") return;
+
+    const { kind } = draft;
+    const { reason, managerPin } = AdjustmentEditorUI.readAdjustment(itemId, kind);
+    const fail = (error: string) => runUpdate({ items: { [itemId]: { adjusting: [{ kind, reason, error }] } } });
+
+    const { order } = model.getData();
+    if (!reason) return fail(AdjustmentEditorUI.messages.reasonRequired(context));
+    if (!managerPin && !hasPermission(context, "void")) return fail(AdjustmentEditorUI.messages.pinRequired(context));
+    if (orderSync(order) !== "synced" || !order.orderNumber) return fail(AdjustmentEditorUI.messages.notSynced(context));
+
+    runUpdate({ items: { [itemId]: { adjusting: [{ kind, reason, status: "approving" }] } } });
+    try {
+      const adjustment = await adjustStoredItem(order.orderNumber, itemId, { kind, reason, managerPin });
+      runUpdate({ items: { [itemId]: { adjusting: [], item: { adjustment: [adjustment] } } } });
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  // Handle send order event - submit the pending round and mark it as sent
+  // Once everything was sent the bottom bar leads to the bill
+  node.on(AppBottomBar.VIEW_BILL_EVENT, () => {
+    node.dispatch('navigate', { to: 'bill' });
+  });
+
+  node.on(AppBottomBar.SEND_ORDER_EVENT, async () => {
+    if (isLocked()) return;
+
+    // Happy hours may have started or ended since the items were added
+    apply(() => model.reprice());
+    const round = pendingRound(model.getData());
+    if (round.order.itemIds.length === 0) return;
+
+    runUpdate({ submission: [{ status: "sending", errors: [], warnings: [] }] });
+
+    // Retries of this round reuse the key, so the server takes it only once
+    const key = generateOptimisticId();
+    const queued = model.getData().order.queuedKeys ?? [];
+
+    // Rounds queue up behind earlier ones still waiting for the network
+    if (queued.length > 0 || !navigator.onLine) {
+      queueRound(key, round);
+      return;
+    }
+
+    // Items sold out since they were added stay in the order, flagged
+    const unavailable = await checkStock(round);
+    runUpdate(soldOutUpdate(model.getData(), unavailable.map((result) => result.itemId ?? "")));
+    if (unavailable.length > 0) {
+      const errors = unavailable.map((result) => soldOutMessage(round, result));
+      runUpdate({ submission: [{ status: "failed", errors, warnings: [] }] });
+      return;
+    }
+
+    try {
+      const response = await sendOrder(round, context.lang, key);
+      const errors = response.validation?.errors ?? [];
+      const warnings = response.validation?.warnings ?? [];
+
+      if (response.success) {
+        const sent = apply(() => model.transition("sent"));
+        // The rejected round was sent again
+        runUpdate({ order: { syncErrors: [] } });
+        // Later rounds and the payment go to the same ERP session
+        if (response.erp?.sessionId && !model.getData().order.sessionId) {
+          runUpdate({ order: { sessionId: response.erp.sessionId } });
+        }
+        if (response.orderNumber) {
+          runUpdate({ order: { orderNumber: response.orderNumber } });
+        }
+        // A refused status change stays in the banner
+        if (sent) {
+          runUpdate({ submission: [{ status: "sent", orderNumber: response.orderNumber, errors: [], warnings }] });
+        }
+      } else {
+        if (errors.length === 0 && response.message) {
+          errors.push(response.message);
+        }
+        runUpdate({ submission: [{ status: "failed", errors, warnings }] });
+      }
+    } catch (error) {
+      if (isOffline(error)) {
+        queueRound(key, round);
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      runUpdate({ submission: [{ status: "failed", errors: [message], warnings: [] }] });
     }
   });
+
+  // The server checks stock again when the round arrives, so a failed check doesn't hold it up
+  async function checkStock(round: Pick<OrderPageData, "order" | "items">): Promise<StockResult[]> {
+    try {
+      return await validateStock(stockLines(round));
+    } catch (error) {
+      console.error("Stock check failed:", error);
+      return [];
+    }
+  }
+
+  // Names the sold out item, or its sold out modifiers
+  function soldOutMessage(round: Pick<OrderPageData, "order" | "items">, result: StockResult): string {
+    const item = round.items[result.itemId ?? ""]?.item;
+    const soldOut = result.soldOut ?? [];
+    const names =
+      !item || soldOut.includes(item.menuItem.id)
+        ? [item?.menuItem.name ?? result.menuItemId]
+        : item.modifiers.filter((m) => soldOut.includes(m.menuItemId)).map((m) => `${m.name} (${item.menuItem.name})`);
+    return names.map((name) => OrderSubmissionUI.soldOutMessage(name, context)).join(", ");
+  }
+
+  // The round counts as sent; the kitchen gets it once the queue reaches the server
+  function queueRound(key: string, round: Pick<OrderPageData, "order" | "items">) {
+    try {
+      enqueueRound({ key, orderId: activeOrderId(), round, language: context.lang, staffId: context.staff?.id });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      runUpdate({ submission: [{ status: "failed", errors: [message], warnings: [] }] });
+      return;
+    }
+
+    apply(() => model.transition("sent"));
+    runUpdate({ order: { queuedKeys: [[...(model.getData().order.queuedKeys ?? []), key]], syncErrors: [] } });
+    runUpdate({ submission: [{ status: "queued", errors: [], warnings: [] }] });
+  }
+
+  // Promotions come with the menus; a new menu version can add, change or end them
+  watchMenuVersion(() => {
+    fetchPromotions(context.lang)
+      .then((promotions) => runUpdate({ promotions: [promotions], pricedAt: Date.now() }))
+      .catch(console.error);
+  });
+
+  // A queued round reached the server, take over its number and ERP session
+  listen(document.body, AppEvents.ORDER_SYNCED, (data: { orderId: string; accepted: boolean }) => {
+    if (data.orderId !== activeOrderId()) return;
+
+    // The items of a rejected round are drafts again, show them as editable
+    if (!data.accepted) {
+      const reloaded = model.reload();
+      renderOrder(container, reloaded, context);
+      const submissionContainer = container.querySelector(`.${OrderSubmissionUI.classes.container}`);
+      if (submissionContainer) {
+        OrderSubmissionUI.update(submissionContainer, reloaded.submission, context, reloaded.order);
+      }
+      return;
+    }
+
+    const stored = getOrder(data.orderId);
+    runUpdate({
+      order: {
+        queuedKeys: [stored.queuedKeys ?? []],
+        syncErrors: [stored.syncErrors ?? []],
+        ...(stored.orderNumber ? { orderNumber: stored.orderNumber } : {}),
+        ...(stored.sessionId ? { sessionId: stored.sessionId } : {}),
+      },
+    });
+    const sync = orderSync(stored);
+    runUpdate({
+      submission: sync === "synced" ? [{ status: "sent", orderNumber: stored.orderNumber, errors: [], warnings: [] }] : [],
+    });
+  });
+}
+
+/**
+ * Set or clear the discount of an item or the whole order and close its editor
+ */
+function discountUpdate(target: string, discount: [Discount] | []): Update<OrderPageData> {
+  if (target === DiscountEditorUI.ORDER_TARGET) {
+    return { editingDiscount: false, order: { discount } };
+  }
+  return { items: { [target]: { editingDiscount: false, item: { discount } } } };
+}
+
+/**
+ * Render order content and bottom bar totals from session data
+ */
+function renderOrder(container: Element, data: OrderPageData, context: Context) {
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    OrderContentUI.init(contentContainer, data, context);
+  }
+
+  const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`) as HTMLElement;
+  if (bottomBar) {
+    AppBottomBar.update(bottomBar, bottomBarData(data), context);
+  }
+}
+
+/**
+ * Bottom bar sends the pending round, or opens the bill when nothing is left to send
+ */
+function bottomBarData(data: OrderPageData): AppBottomBar.BottomBarData {
+  const mode = data.order.status !== "draft" && pendingRound(data).order.itemIds.length === 0 ? "view-bill" : "send-order";
+  return {
+    mode,
+    quantity: data.order.itemIds.length,
+    price: data.totals.total,
+    disabled: mode === "send-order" && !canSend(data),
+  };
+}
+
+/**
+ * The send button is enabled when there is a pending round and nothing in flight
+ */
+function canSend(data: OrderPageData): boolean {
+  return data.submission?.status !== "sending" && pendingRound(data).order.itemIds.length > 0;
 }
 
 function update(
@@ -156,15 +504,30 @@ function update(
       OrderContentUI.update(contentContainer, changes, context, data);
     }
 
-    if (changes.order) {
+    if (changes.order || changes.totals) {
       const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`) as HTMLElement;
       if (bottomBar) {
-        const stmt: any = { price: changes.order.total };
-        if (Array.isArray(changes.order.itemIds)) {
+        const stmt: Partial<AppBottomBar.BottomBarData> = { price: data.totals.total };
+        if (Array.isArray(changes.order?.itemIds)) {
           stmt.quantity = changes.order.itemIds.length;
         }
         AppBottomBar.update(bottomBar, stmt, context);
       }
     }
+
+    const syncChanged = changes.order && ("queuedKeys" in changes.order || "syncErrors" in changes.order);
+    if ("submission" in changes || syncChanged) {
+      const submissionContainer = container.querySelector(`.${OrderSubmissionUI.classes.container}`);
+      if (submissionContainer) {
+        OrderSubmissionUI.update(submissionContainer, data.submission, context, data.order);
+      }
+    }
+
+    if (changes.items || "submission" in changes) {
+      const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`);
+      if (bottomBar) {
+        AppBottomBar.update(bottomBar, bottomBarData(data), context);
+      }
+    }
   });
 }
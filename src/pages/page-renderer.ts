@@ -11,6 +11,12 @@
 import { Menu } from "@/types";
 import { DisplayMenu } from "@/model/menu-model";
 import { OrderPageData } from "@/model/order-model";
+import { BillPageData } from "@/model/bill-model";
+import { PaymentPageData } from "@/model/payment-model";
+import { KitchenPageData } from "@/model/kitchen-model";
+import { OrderHistoryPageData } from "@/model/order-history-model";
+import { MenuEditorPageData } from "@/model/menu-editor-model";
+import { getStaffSession, LoginPageData } from "@/model/staff-model";
 import { PageStaticData, TablesPageData } from "@/types/page-data";
 import { render } from "@/lib/template";
 import { getCurrentLanguage } from "@/lib/language";
@@ -18,6 +24,13 @@ import { createContext, Context, getCurrencyFormat } from "@/lib/context";
 import * as MenuPage from "./menu-page";
 import * as OrderPage from "./order-page";
 import * as TablesPage from "./tables-page";
+import * as BillPage from "./bill-page";
+import * as PaymentPage from "./payment-page";
+import * as KitchenPage from "./kitchen-page";
+import * as OrderHistoryPage from "./order-history-page";
+import * as MenuEditorPage from "./menu-editor-page";
+import * as LoginPage from "./login-page";
+import { navigate } from "./page-router";
 
 /**
  * Page Renderer
@@ -29,16 +42,29 @@ class PageRenderer {
    * Get context for current environment
    * @param data Optional menu or order data to extract currency from
    */
-  getContext(data?: Menu | DisplayMenu | OrderPageData | TablesPageData): Context {
+  getContext(
+    data?:
+      | Menu
+      | DisplayMenu
+      | OrderPageData
+      | TablesPageData
+      | BillPageData
+      | PaymentPageData
+      | KitchenPageData
+      | OrderHistoryPageData
+      | MenuEditorPageData
+      | LoginPageData,
+  ): Context {
     const lang = getCurrentLanguage();
+    const staff = getStaffSession()?.staff;
 
     // Check for currency in the data (not applicable to TablesPageData)
     if (data && 'currency' in data && data.currency) {
       const currencyFormat = getCurrencyFormat(data.currency);
-      return createContext(lang, currencyFormat);
+      return createContext(lang, currencyFormat, staff);
     }
 
-    return createContext(lang);
+    return createContext(lang, undefined, staff);
   }
 
   /**
@@ -52,6 +78,18 @@ class PageRenderer {
       render(OrderPage.template(pageData.data, context), container);
     } else if (pageData.type === "tables") {
       render(TablesPage.template(pageData.data, context), container);
+    } else if (pageData.type === "bill") {
+      render(BillPage.template(pageData.data, context), container);
+    } else if (pageData.type === "payment") {
+      render(PaymentPage.template(pageData.data, context), container);
+    } else if (pageData.type === "kitchen") {
+      render(KitchenPage.template(pageData.data, context), container);
+    } else if (pageData.type === "history") {
+      render(OrderHistoryPage.template(pageData.data, context), container);
+    } else if (pageData.type === "menu-editor") {
+      render(MenuEditorPage.template(pageData.data, context), container);
+    } else if (pageData.type === "login") {
+      render(LoginPage.template(pageData.data, context), container);
     } else {
       render(MenuPage.template(pageData.data, context), container);
     }
@@ -61,6 +99,12 @@ class PageRenderer {
    * Hydrate a page with event handlers and session data
    */
   hydratePage(container: Element, pageData: PageStaticData): void {
+    // Every page but the login needs a signed-in staff member
+    if (pageData.type !== "login" && !getStaffSession()) {
+      navigate.toLogin(window.location.pathname + window.location.search, { replace: true });
+      return;
+    }
+
     // Get context with appropriate currency
     const context = this.getContext(pageData.data);
 
@@ -68,6 +112,18 @@ class PageRenderer {
       OrderPage.hydrate(container, pageData.data, context);
     } else if (pageData.type === "tables") {
       TablesPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "bill") {
+      BillPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "payment") {
+      PaymentPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "kitchen") {
+      KitchenPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "history") {
+      OrderHistoryPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "menu-editor") {
+      MenuEditorPage.hydrate(container, pageData.data, context);
+    } else if (pageData.type === "login") {
+      LoginPage.hydrate(container, pageData.data, context);
     } else {
       MenuPage.hydrate(container, pageData.data, context);
     }
@@ -5,6 +5,7 @@
  */
 
 import { Language, getCurrentLanguage, buildLanguageUrl } from "@/lib/language";
+import { flushStorage } from "@/lib/storage";
 
 /**
  * Route definitions - centralized route constants
@@ -12,7 +13,14 @@ import { Language, getCurrentLanguage, buildLanguageUrl } from "@/lib/language";
 export const ROUTES = {
   HOME: "/",
   ORDER: "/order",
+  BILL: "/bill",
+  PAYMENT: "/payment",
+  KITCHEN: "/kitchen",
+  HISTORY: "/history",
+  MENU_EDITOR: "/menu-editor",
+  LOGIN: "/login",
   TABLES: "/tables",
+  TABLES_FLOOR: (floorId: string) => `/tables/${floorId}`,
   MENU: (menuId: string) => `/${menuId}`,
 } as const;
 
@@ -42,6 +50,22 @@ export function buildRoute(
   return url;
 }
 
+/**
+ * Load another page once the storage writes made so far are stored;
+ * every navigation is a full page load, which would cut them off
+ */
+export function loadPage(url: string, options?: { replace?: boolean }): void {
+  flushStorage()
+    .catch(console.error)
+    .then(() => {
+      if (options?.replace) {
+        window.location.replace(url);
+      } else {
+        window.location.href = url;
+      }
+    });
+}
+
 /**
  * Navigate to a route
  * @param path - The path to navigate to
@@ -55,13 +79,7 @@ export function navigateTo(
     replace?: boolean;
   },
 ): void {
-  const url = buildRoute(path, options);
-
-  if (options?.replace) {
-    window.location.replace(url);
-  } else {
-    window.location.href = url;
-  }
+  loadPage(buildRoute(path, options), options);
 }
 
 /**
@@ -70,7 +88,17 @@ export function navigateTo(
 export const routes = {
   home: (lang?: Language) => buildRoute(ROUTES.HOME, { language: lang }),
   order: (lang?: Language) => buildRoute(ROUTES.ORDER, { language: lang }),
+  bill: (lang?: Language) => buildRoute(ROUTES.BILL, { language: lang }),
+  payment: (lang?: Language) => buildRoute(ROUTES.PAYMENT, { language: lang }),
+  kitchen: (lang?: Language) => buildRoute(ROUTES.KITCHEN, { language: lang }),
+  kitchenStation: (station: string, lang?: Language) =>
+    buildRoute(`${ROUTES.KITCHEN}?station=${encodeURIComponent(station)}`, { language: lang }),
+  history: (lang?: Language) => buildRoute(ROUTES.HISTORY, { language: lang }),
+  menuEditor: (menuId?: string, lang?: Language) =>
+    buildRoute(menuId ? `${ROUTES.MENU_EDITOR}?menu=${encodeURIComponent(menuId)}` : ROUTES.MENU_EDITOR, { language: lang }),
+  login: (lang?: Language) => buildRoute(ROUTES.LOGIN, { language: lang }),
   tables: (lang?: Language) => buildRoute(ROUTES.TABLES, { language: lang }),
+  tablesFloor: (floorId: string, lang?: Language) => buildRoute(ROUTES.TABLES_FLOOR(floorId), { language: lang }),
   menu: (menuId: string, lang?: Language) => buildRoute(ROUTES.MENU(menuId), { language: lang }),
 } as const;
 
@@ -82,12 +110,29 @@ export const navigate = {
 
   toOrder: (options?: { language?: Language; replace?: boolean }) => navigateTo(ROUTES.ORDER, options),
 
+  toBill: (options?: { language?: Language; replace?: boolean }) => navigateTo(ROUTES.BILL, options),
+
+  // Pay one check of a split bill, or the order's balance without a check
+  toPayment: (check?: number, options?: { language?: Language; replace?: boolean }) =>
+    navigateTo(check != null ? `${ROUTES.PAYMENT}?check=${check}` : ROUTES.PAYMENT, options),
+
   toTables: (options?: { language?: Language; replace?: boolean }) => navigateTo(ROUTES.TABLES, options),
 
+  // Sign in, then go on to the page the till was on
+  toLogin: (next?: string, options?: { language?: Language; replace?: boolean }) =>
+    navigateTo(next ? `${ROUTES.LOGIN}?next=${encodeURIComponent(next)}` : ROUTES.LOGIN, options),
+
+  toTablesFloor: (floorId: string, options?: { language?: Language; replace?: boolean }) =>
+    navigateTo(ROUTES.TABLES_FLOOR(floorId), options),
+
   toMenu: (menuId: string, options?: { language?: Language; replace?: boolean }) =>
     navigateTo(ROUTES.MENU(menuId), options),
 
-  back: () => window.history.back(),
+  back: () => {
+    flushStorage()
+      .catch(console.error)
+      .then(() => window.history.back());
+  },
 } as const;
 
 /**
@@ -125,13 +170,128 @@ export function isOrderPage(path?: string): boolean {
 }
 
 /**
- * Check if a path is the tables page
+ * Check if a path is the bill page
+ * @param path - The path to check (defaults to current path)
+ */
+export function isBillPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/bill";
+}
+
+/**
+ * Check if a path is the payment page
+ * @param path - The path to check (defaults to current path)
+ */
+export function isPaymentPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/payment";
+}
+
+/**
+ * Parse the check to pay from the payment page query
+ * Returns undefined when paying the order's balance
+ * @param search - The query string (defaults to current query)
+ */
+export function parsePaymentCheck(search?: string): number | undefined {
+  const query = search ?? window.location.search;
+  const check = new URLSearchParams(query).get("check");
+  const index = check != null ? parseInt(check, 10) : NaN;
+  return Number.isInteger(index) && index >= 0 ? index : undefined;
+}
+
+/**
+ * Check if a path is the kitchen display
+ * @param path - The path to check (defaults to current path)
+ */
+export function isKitchenPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/kitchen";
+}
+
+/**
+ * Parse the station from the kitchen display query
+ * Returns undefined when the display shows all stations
+ * @param search - The query string (defaults to current query)
+ */
+export function parseKitchenStation(search?: string): string | undefined {
+  const query = search ?? window.location.search;
+  return new URLSearchParams(query).get("station") || undefined;
+}
+
+/**
+ * Check if a path is the order history
+ * @param path - The path to check (defaults to current path)
+ */
+export function isHistoryPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/history";
+}
+
+/**
+ * Check if a path is the menu editor
+ * @param path - The path to check (defaults to current path)
+ */
+export function isMenuEditorPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/menu-editor";
+}
+
+/**
+ * Parse the menu to open from the menu editor query
+ * Returns undefined when the editor opens the root menu
+ * @param search - The query string (defaults to current query)
+ */
+export function parseEditorMenuId(search?: string): string | undefined {
+  const query = search ?? window.location.search;
+  return new URLSearchParams(query).get("menu") || undefined;
+}
+
+/**
+ * Check if a path is the staff login
+ * @param path - The path to check (defaults to current path)
+ */
+export function isLoginPage(path?: string): boolean {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  return cleanPath === "/login";
+}
+
+/**
+ * Parse the page to go on to after signing in
+ * Only paths of this site are accepted
+ * @param search - The query string (defaults to current query)
+ */
+export function parseLoginNext(search?: string): string | undefined {
+  const query = search ?? window.location.search;
+  const next = new URLSearchParams(query).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") && !next.startsWith("/\\") ? next : undefined;
+}
+
+/**
+ * Check if a path is the tables page (any floor)
  * @param path - The path to check (defaults to current path)
  */
 export function isTablesPage(path?: string): boolean {
   const targetPath = path ?? window.location.pathname;
   const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
-  return cleanPath === "/tables";
+  return cleanPath === "/tables" || cleanPath.startsWith("/tables/");
+}
+
+/**
+ * Parse floor ID from a tables page path
+ * Returns null for /tables, which shows the default floor
+ * @param path - The path to parse (defaults to current path)
+ */
+export function parseFloorId(path?: string): string | null {
+  const targetPath = path ?? window.location.pathname;
+  const cleanPath = targetPath.replace(/^\/(sq|en|it)/, "");
+  const match = cleanPath.match(/^\/tables\/([^/]+)/);
+  return match ? match[1] : null;
 }
 
 /**
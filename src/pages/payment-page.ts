@@ -0,0 +1,218 @@
+/**
+ * Payment Page
+ * Captures cash and card tenders for a check or the order's balance
+ *
+ * @see /component-guidelines.md for component patterns and conventions
+ */
+
+import { html } from "@/lib/template";
+import { Context } from "@/lib/context";
+import { dom } from "@/lib/dom-node";
+import * as PaymentContentUI from "@/components/payment-content";
+import * as ReceiptUI from "@/components/receipt";
+import * as AppHeader from "@/components/app-header";
+import * as AppBottomBar from "@/components/app-bottom-bar";
+import { styles as layoutStyles } from "@/components/app-layout";
+import {
+  closeOrder,
+  getPayments,
+  paymentModel,
+  PaymentPageData,
+  recordPayment,
+  settlesOrder,
+  TenderMethod,
+} from "@/model/payment-model";
+import { getActiveTable, NO_CHARGES } from "@/model/order-model";
+import { paymentReceipt, ReceiptDocument } from "@/model/receipt-model";
+import { processPayment } from "@/services/payment-service";
+import { updateStoredOrder } from "@/services/order-history-service";
+import { parsePaymentCheck } from "./page-router";
+import { DataChange, Update } from "@/lib/data-model-types";
+
+// Template function - accepts data for static generation
+export function template(data: PaymentPageData, context: Context) {
+  const headerData: AppHeader.HeaderData = {
+    leftButton: {
+      type: "back",
+      onClick: () => dom(document.body).dispatch("navigate", { to: "bill" }),
+    },
+  };
+
+  return html`
+    <div class="${layoutStyles.pageContainer}">
+      <header class="${layoutStyles.header}">${AppHeader.template(headerData, context)}</header>
+      <main class="${layoutStyles.content}">${PaymentContentUI.template(data, context)}</main>
+      <div class="${layoutStyles.bottomBar}">${AppBottomBar.template("complete-payment", context)}</div>
+    </div>
+  `;
+}
+
+// Hydrate function - reads the amount due from the session and attaches event handlers
+export function hydrate(container: Element, _data: PaymentPageData, context: Context) {
+  const node = dom(container);
+
+  // Hydrate header with navigation
+  const header = container.querySelector(`.${layoutStyles.header}`) as HTMLElement;
+  if (header) {
+    const headerData: AppHeader.HeaderData = {
+      leftButton: {
+        type: "back",
+        onClick: () => node.dispatch("navigate", { to: "bill" }),
+      },
+      tableNumber: getActiveTable(),
+    };
+    AppHeader.hydrate(header, context, headerData);
+  }
+
+  // Load session data
+  const model = paymentModel(parsePaymentCheck(), _data.charges ?? NO_CHARGES);
+  const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+  if (contentContainer) {
+    PaymentContentUI.init(contentContainer, model.getData(), context);
+  }
+
+  const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`) as HTMLElement;
+  if (bottomBar) {
+    AppBottomBar.update(bottomBar, bottomBarData(model.getData()), context);
+  }
+
+  // Captured when the payment goes through, before a closing payment clears the order
+  let receipt: ReceiptDocument | undefined;
+
+  function runUpdate(stmt: Update<PaymentPageData>) {
+    const changes = model.update(stmt);
+    update(container, changes, model.getData(), context);
+  }
+
+  node.on(PaymentContentUI.KEYPAD_EVENT, (data) => {
+    if (data.key) {
+      update(container, model.press(data.key), model.getData(), context);
+    }
+  });
+
+  node.on(PaymentContentUI.CLEAR_ENTRY_EVENT, () => {
+    update(container, model.clearEntry(), model.getData(), context);
+  });
+
+  node.on(PaymentContentUI.ADD_TENDER_EVENT, (data) => {
+    update(container, model.addTender(data.method as TenderMethod), model.getData(), context);
+  });
+
+  node.on(PaymentContentUI.QUICK_TENDER_EVENT, (data) => {
+    update(container, model.addTender("cash", Number(data.amount)), model.getData(), context);
+  });
+
+  node.on(PaymentContentUI.REMOVE_TENDER_EVENT, (data) => {
+    if (data.tenderId) {
+      update(container, model.removeTender(data.tenderId), model.getData(), context);
+    }
+  });
+
+  // After the last check the order is closed, so go back to the tables
+  node.on(PaymentContentUI.PAYMENT_DONE_EVENT, () => {
+    const { closed, order } = model.getData();
+    if (!closed) {
+      node.dispatch("navigate", { to: "bill" });
+    } else {
+      node.dispatch("navigate", { to: order.tableNumber ? "tables" : "home" });
+    }
+  });
+
+  node.on(PaymentContentUI.PRINT_RECEIPT_EVENT, () => {
+    if (receipt) {
+      ReceiptUI.printReceipt(receipt, context);
+    }
+  });
+
+  node.on(AppBottomBar.COMPLETE_PAYMENT_EVENT, async () => {
+    const current = model.getData();
+    if (!canComplete(current)) return;
+
+    const { orderId } = model;
+    const final = settlesOrder(orderId, current.amountDue, current.charges);
+    runUpdate({ status: "processing", error: [] });
+
+    try {
+      const response = await processPayment({
+        sessionId: current.order.sessionId,
+        tableNumber: current.order.tableNumber,
+        amount: current.amountDue,
+        tenders: current.tenders,
+        final,
+      });
+
+      if (response.success) {
+        const change = response.change ?? current.change;
+        const record = {
+          paymentId: response.paymentId ?? `local-${Date.now()}`,
+          check: current.check,
+          amount: current.amountDue,
+          tenders: current.tenders,
+          change,
+          paidAt: new Date().toISOString(),
+        };
+        recordPayment(orderId, record);
+        receipt = paymentReceipt(record, orderId, current.charges);
+        // The order history keeps the payments; orders still queued offline have no number yet
+        if (current.order.orderNumber) {
+          updateStoredOrder(current.order.orderNumber, {
+            payments: getPayments(orderId),
+            ...(final ? { status: "paid" as const } : {}),
+          }).catch((error) => {
+            runUpdate({ historyError: error instanceof Error ? error.message : String(error) });
+          });
+        }
+        // The payment went through either way; a failed close keeps the order open with the reason
+        const error = final ? closeOrder(orderId) : undefined;
+        runUpdate({ status: "paid", change, closed: final && !error, ...(error ? { error } : {}) });
+      } else {
+        runUpdate({ status: "failed", error: response.message || response.error || "" });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      runUpdate({ status: "failed", error: message });
+    }
+  });
+}
+
+/**
+ * Bottom bar shows the tender lines and the change due
+ */
+function bottomBarData(data: PaymentPageData): AppBottomBar.BottomBarData {
+  return {
+    mode: "complete-payment",
+    quantity: data.tenders.length,
+    price: data.change,
+    disabled: !canComplete(data),
+  };
+}
+
+/**
+ * A payment can be completed once the order was sent and the tenders cover the amount due
+ */
+function canComplete(data: PaymentPageData): boolean {
+  return !data.unsent && data.status !== "processing" && data.status !== "paid" && data.amountDue > 0 && data.remaining <= 0;
+}
+
+function update(
+  container: Element,
+  changes: DataChange<PaymentPageData> | undefined,
+  data: PaymentPageData,
+  context: Context,
+) {
+  if (!changes) return;
+
+  requestAnimationFrame(() => {
+    const contentContainer = container.querySelector(`.${layoutStyles.content}`) as HTMLElement;
+    if (contentContainer) {
+      PaymentContentUI.update(contentContainer, changes, context, data);
+    }
+
+    if (changes.tenders || "status" in changes) {
+      const bottomBar = container.querySelector(`.${layoutStyles.bottomBar}`);
+      if (bottomBar) {
+        AppBottomBar.update(bottomBar, bottomBarData(data), context);
+      }
+    }
+  });
+}
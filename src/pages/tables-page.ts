@@ -4,22 +4,53 @@
  * With map-like pan/zoom functionality
  */
 
-import { Template, html } from "@/lib/template";
-import { Context } from "@/lib/context";
+import { Template, html, unsafeHTML, attributes } from "@/lib/template";
+import { Context, createTranslation, withContext } from "@/lib/context";
 import { TablesPageData } from "@/types/page-data";
-import { SeatmapViewer } from "@/components/seatmap-viewer";
+import { SeatmapViewer, TableOverlay } from "@/components/seatmap-viewer";
+import { dom } from "@/lib/dom-node";
+import { routes } from "@/pages/page-router";
+import { getActiveTable, getOrder, setActiveTable, tableOrderId } from "@/model/order-model";
+import { fetchTableStatus, TableState, TableStatus, updateTableStatus } from "@/services/table-service";
+
+// How often the table status is refreshed from the server
+const STATUS_REFRESH_MS = 15000;
+
+const statusLabels: Record<TableStatus, ReturnType<typeof createTranslation>> = {
+  free: createTranslation({ sq: "E lirë", en: "Free", it: "Libero" }),
+  occupied: createTranslation({ sq: "E zënë", en: "Occupied", it: "Occupato" }),
+  "order-sent": createTranslation({ sq: "Porosi e dërguar", en: "Order sent", it: "Ordine inviato" }),
+  "bill-requested": createTranslation({ sq: "Kërkohet fatura", en: "Bill requested", it: "Conto richiesto" }),
+  "needs-cleaning": createTranslation({ sq: "Për pastrim", en: "Needs cleaning", it: "Da pulire" }),
+};
+
+const guestsLabel = createTranslation({ sq: "mysafirë", en: "guests", it: "ospiti" });
+const seatGuestsLabel = createTranslation({ sq: "Sa mysafirë?", en: "How many guests?", it: "Quanti ospiti?" });
+const skipGuestsLabel = createTranslation({ sq: "Kalo", en: "Skip", it: "Salta" });
+
+// Guest counts offered when seating a table
+const GUEST_COUNTS = [1, 2, 3, 4, 5, 6, 7, 8];
 import "@/components/seatmap-viewer.css";
 
 // Template function - renders the SVG with viewer controls
-export function template(data: TablesPageData, _context: Context): Template {
+export function template(data: TablesPageData, context: Context): Template {
   return html`
     <div class="tables-page" style="width: 100%; height: 100vh; display: flex; flex-direction: column; margin: 0; padding: 0;">
       <header class="tables-header" style="padding: 0.75rem 1rem; background: white; border-bottom: 1px solid #ddd; flex-shrink: 0;">
         <h1 style="font-size: 1.5rem; margin: 0;">${data.name}</h1>
+        ${data.floors.length > 1 ? html`
+          <nav class="tables-floor-tabs">
+            ${data.floors.map((floor) => html`
+              <a class="tables-floor-tab" href="${routes.tablesFloor(floor.id, context.lang)}" ${floor.id === data.id ? attributes('aria-current="page"') : ""}>
+                ${floor.name}
+              </a>
+            `)}
+          </nav>
+        ` : ""}
       </header>
       <div class="seatmap-viewer-container" style="flex: 1; position: relative; overflow: hidden; width: 100%;">
         <div class="seatmap-viewer" style="width: 100%; height: 100%;">
-          ${data.svgContent}
+          ${unsafeHTML(data.svgContent)}
         </div>
         <div class="seatmap-controls">
           <button class="seatmap-control-btn zoom-in" title="Zoom In"></button>
@@ -30,13 +61,30 @@ export function template(data: TablesPageData, _context: Context): Template {
         <div class="seatmap-status">
           Zoom: <span class="zoom-level">100%</span>
         </div>
+        <div class="seatmap-legend">
+          ${(Object.keys(statusLabels) as TableStatus[]).map((status) => html`
+            <span class="seatmap-legend-item">
+              <span class="seatmap-legend-swatch" data-status="${status}"></span>
+              ${statusLabels[status](context)}
+            </span>
+          `)}
+        </div>
       </div>
+      <dialog class="tables-guests-dialog">
+        <form method="dialog">
+          <h2 class="tables-guests-title">${seatGuestsLabel(context)}</h2>
+          <div class="tables-guests-options">
+            ${GUEST_COUNTS.map((count) => html`<button class="tables-guests-option" value="${count}">${count}</button>`)}
+          </div>
+          <button class="tables-guests-skip" value="0">${skipGuestsLabel(context)}</button>
+        </form>
+      </dialog>
     </div>
   `;
 }
 
 // Hydrate function - sets up pan/zoom interactions
-export function hydrate(container: Element, _data: TablesPageData, _context: Context) {
+export function hydrate(container: Element, _data: TablesPageData, context: Context) {
   const viewerContainer = container.querySelector('.seatmap-viewer') as HTMLElement;
   
   if (!viewerContainer) {
@@ -112,27 +160,91 @@ export function hydrate(container: Element, _data: TablesPageData, _context: Con
     }
   });
   
+  // Live table status, refreshed periodically
+  let statuses: Record<string, TableState> = {};
+  const refreshStatus = async () => {
+    try {
+      statuses = await fetchTableStatus();
+    } catch (error) {
+      console.error(error);
+    }
+    viewer.setTableStatus(toOverlays(statuses, context));
+  };
+  refreshStatus();
+  setInterval(refreshStatus, STATUS_REFRESH_MS);
+  
   // Add table click handlers
   const tables = viewerContainer.querySelectorAll('[id^="table-"]');
   tables.forEach(table => {
+    // Mark the table whose order is currently open
+    if (getActiveTable() && tableNumberOf(table) === getActiveTable()) {
+      table.classList.add('selected');
+    }
+
     table.addEventListener('click', (e) => {
       e.stopPropagation();
       
+      const tableNumber = tableNumberOf(table);
+      if (!tableNumber) return;
+      
+      // Tapping a table that needs cleaning marks it as cleaned
+      if (statuses[tableNumber]?.status === "needs-cleaning") {
+        updateTableStatus(tableNumber, "free")
+          .then((state) => {
+            statuses[tableNumber] = state;
+            viewer.setTableStatus(toOverlays(statuses, context));
+          })
+          .catch((error) => console.error(error));
+        return;
+      }
+
       // Remove previous selection
       tables.forEach(t => t.classList.remove('selected'));
       
       // Add selection to clicked table
       table.classList.add('selected');
       
-      // Get table info from data attributes
-      const tableNumber = table.getAttribute('data-number');
-      const capacity = table.getAttribute('data-capacity');
-      
-      console.log(`Table ${tableNumber} selected (capacity: ${capacity})`);
-      
-      // Here you could dispatch an event or update UI with table info
+      // Open (or resume) the order bound to this table
+      const hasItems = getOrder(tableOrderId(tableNumber)).itemIds.length > 0;
+      const seated = (statuses[tableNumber]?.status ?? "free") !== "free" || hasItems;
+      if (seated) {
+        openTable(tableNumber, hasItems);
+      } else {
+        seatGuests(tableNumber);
+      }
     });
   });
+
+  function openTable(tableNumber: string, hasItems: boolean) {
+    setActiveTable(tableNumber);
+    dom(document.body).dispatch('navigate', { to: hasItems ? 'order' : 'home' });
+  }
+
+  // A free table is seated with the number of guests before its order is taken
+  const guestsDialog = container.querySelector('.tables-guests-dialog') as HTMLDialogElement | null;
+  let seatingTable: string | null = null;
+
+  function seatGuests(tableNumber: string) {
+    if (!guestsDialog?.showModal) return openTable(tableNumber, false);
+    seatingTable = tableNumber;
+    guestsDialog.returnValue = "";
+    guestsDialog.showModal();
+  }
+
+  guestsDialog?.addEventListener('close', () => {
+    const tableNumber = seatingTable;
+    seatingTable = null;
+    // Closed without an answer, e.g. with Escape: the table stays free
+    if (!tableNumber || guestsDialog.returnValue === "") {
+      document.querySelectorAll('.seatmap-viewer .selected').forEach((t) => t.classList.remove('selected'));
+      return;
+    }
+
+    const guestCount = Number(guestsDialog.returnValue);
+    updateTableStatus(tableNumber, "occupied", guestCount || undefined)
+      .catch((error) => console.error(error))
+      .finally(() => openTable(tableNumber, false));
+  });
   
   // Initial view: fill width for better default presentation
   setTimeout(() => {
@@ -141,4 +253,43 @@ export function hydrate(container: Element, _data: TablesPageData, _context: Con
   }, 100);
   
   console.log("Seatmap viewer initialized with pan/zoom controls");
-}
\ No newline at end of file
+}
+
+// Table number from the table element or, for table groups, its shape
+function tableNumberOf(table: Element): string | null {
+  return table.getAttribute('data-number') ?? table.querySelector('[data-number]')?.getAttribute('data-number') ?? null;
+}
+
+// Combine the server status with orders still being taken on this device
+function toOverlays(statuses: Record<string, TableState>, context: Context): Record<string, TableOverlay> {
+  const { formatPrice } = withContext(context);
+  const overlays: Record<string, TableOverlay> = {};
+  const tableNumbers = new Set(Object.keys(statuses));
+  document.querySelectorAll('.seatmap-viewer [data-number]').forEach((table) => {
+    tableNumbers.add(table.getAttribute('data-number')!);
+  });
+
+  tableNumbers.forEach((tableNumber) => {
+    const state = statuses[tableNumber];
+    const localOrder = getOrder(tableOrderId(tableNumber));
+    let status = state?.status ?? "free";
+    let openTotal = state?.openTotal ?? 0;
+
+    // A draft order on this device means the table is taken
+    if (status === "free" && localOrder.itemIds.length > 0) {
+      status = "occupied";
+      openTotal = localOrder.total;
+    }
+    if (status === "free") return;
+
+    const badge = [
+      state?.guestCount ? `${state.guestCount} ${guestsLabel(context)}` : "",
+      openTotal > 0 ? formatPrice(openTotal) : "",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    overlays[tableNumber] = { status, badge };
+  });
+
+  return overlays;
+}
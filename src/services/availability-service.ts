@@ -0,0 +1,85 @@
+/**
+ * Availability Service
+ * Reads and changes the items sold out today ("86" list) and checks order
+ * lines against it before they are sent
+ */
+
+import { apiFetch } from "./staff-service";
+
+/**
+ * Item or modifier sold out for the rest of the day
+ */
+export interface SoldOutEntry {
+  menuItemId: string;
+  name: string;
+  by: string; // Staff member who marked it
+  at: string;
+  date: string; // Service day, YYYY-MM-DD
+}
+
+/**
+ * Order line as checked by /api/validateStock
+ */
+export interface StockRequestLine {
+  itemId: string;
+  menuItemId: string;
+  quantity: number;
+  modifierIds: string[];
+}
+
+/**
+ * Answer for one line of /api/validateStock
+ */
+export interface StockResult {
+  itemId?: string;
+  menuItemId: string;
+  requested: number;
+  isAvailable: boolean;
+  soldOut?: string[]; // IDs of the item or modifiers that are sold out
+}
+
+/**
+ * Fetch the items sold out today
+ */
+export async function fetchSoldOut(): Promise<SoldOutEntry[]> {
+  const response = await apiFetch("/api/availability");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch availability: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body.soldOut ?? [];
+}
+
+/**
+ * Mark an item or modifier sold out for the day, or available again
+ * @returns The items sold out now
+ */
+export async function setSoldOut(menuItemId: string, soldOut: boolean, name?: string): Promise<SoldOutEntry[]> {
+  const response = await apiFetch(`/api/availability/${encodeURIComponent(menuItemId)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ soldOut, name }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to change availability: ${response.statusText}`);
+  }
+  return body.soldOut ?? [];
+}
+
+/**
+ * Check order lines against the items sold out today
+ * @returns The lines that cannot be served
+ */
+export async function validateStock(lines: StockRequestLine[]): Promise<StockResult[]> {
+  const response = await apiFetch("/api/validateStock", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items: lines }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to check stock: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return ((body.items ?? []) as StockResult[]).filter((result) => !result.isAvailable);
+}
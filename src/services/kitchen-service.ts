@@ -0,0 +1,101 @@
+/**
+ * Kitchen Service
+ * Reads the tickets shown on the kitchen display and reports bumps and finished items
+ */
+
+import { OrderModifier } from "@/model/order-model";
+import { Station } from "@/types";
+import { apiFetch } from "./staff-service";
+
+export type KitchenTicketStatus = "open" | "bumped";
+
+/**
+ * Item to prepare, as sent with a round
+ */
+export interface KitchenItem {
+  id: string;
+  name: string;
+  icon?: string;
+  variant?: string;
+  quantity: number;
+  modifiers: OrderModifier[];
+  notes?: string;
+  done: boolean;
+}
+
+/**
+ * One station's share of a sent round
+ */
+export interface KitchenTicket {
+  id: string;
+  orderNumber: string;
+  tableNumber: string | null;
+  round: number;
+  station: Station;
+  sentAt: string;
+  status: KitchenTicketStatus;
+  bumpedAt?: string;
+  itemIds: string[];
+  items: Record<string, KitchenItem>;
+}
+
+async function postTicketAction(path: string, action: string, body?: unknown): Promise<KitchenTicket> {
+  const response = await apiFetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to ${action}: ${response.statusText}`);
+  }
+  const result = await response.json();
+  return result.ticket;
+}
+
+/**
+ * Tickets on the board and the stations of the menus
+ */
+export interface KitchenBoard {
+  tickets: KitchenTicket[];
+  stations: Station[];
+}
+
+/**
+ * Fetch the open tickets and the recently bumped ones
+ * @param station - Only the tickets of this station, all if not given
+ * @param language - Language of the menus the stations are read from
+ */
+export async function fetchTickets(station: Station | undefined, language: string): Promise<KitchenBoard> {
+  const query = new URLSearchParams({ language });
+  if (station) {
+    query.set("station", station);
+  }
+  const response = await apiFetch(`/api/kitchen/tickets?${query}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch kitchen tickets: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return { tickets: body.tickets ?? [], stations: body.stations ?? [] };
+}
+
+/**
+ * Take a ticket off the board once everything on it went out
+ */
+export function bumpTicket(ticketId: string): Promise<KitchenTicket> {
+  return postTicketAction(`/api/kitchen/tickets/${encodeURIComponent(ticketId)}/bump`, "bump ticket");
+}
+
+/**
+ * Put a bumped ticket back on the board
+ */
+export function recallTicket(ticketId: string): Promise<KitchenTicket> {
+  return postTicketAction(`/api/kitchen/tickets/${encodeURIComponent(ticketId)}/recall`, "recall ticket");
+}
+
+/**
+ * Mark an item of a ticket as done or not done
+ */
+export function setItemDone(ticketId: string, itemId: string, done: boolean): Promise<KitchenTicket> {
+  const path = `/api/kitchen/tickets/${encodeURIComponent(ticketId)}/items/${encodeURIComponent(itemId)}/done`;
+  return postTicketAction(path, "update ticket item", { done });
+}
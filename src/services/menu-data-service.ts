@@ -4,12 +4,30 @@
  * Separates data concerns from navigation logic
  */
 
-import { Menu } from "@/types";
+import { Menu, Promotion } from "@/types";
 import { toDisplayMenu } from "@/model/menu-model";
-import { OrderPageData } from "@/model/order-model";
-import { PageStaticData, TablesPageData } from "@/types/page-data";
+import { emptyOrder, NO_CHARGES, OrderCharges, OrderPageData, orderTotals } from "@/model/order-model";
+import { FloorIndex, PageStaticData, TablesPageData } from "@/types/page-data";
 import { getCurrentLanguage, Language, parseLanguageFromUrl } from "@/lib/language";
-import { isOrderPage, isTablesPage, parseMenuId } from "@/pages/page-router";
+import {
+  isBillPage,
+  isHistoryPage,
+  isKitchenPage,
+  isLoginPage,
+  isMenuEditorPage,
+  isOrderPage,
+  isPaymentPage,
+  isTablesPage,
+  parseFloorId,
+  parseMenuId,
+} from "@/pages/page-router";
+import { emptyBill } from "@/model/bill-model";
+import { emptyPayment } from "@/model/payment-model";
+import { emptyKitchen } from "@/model/kitchen-model";
+import { emptyOrderHistory } from "@/model/order-history-model";
+import { emptyMenuEditor } from "@/model/menu-editor-model";
+import { emptyLogin } from "@/model/staff-model";
+import { apiFetch } from "./staff-service";
 
 /**
  * Get menu JSON filename from menu ID
@@ -50,11 +68,56 @@ export async function fetchPageData(path: string): Promise<PageStaticData> {
     };
   }
 
+  // Check if this is the bill page - the order itself is read from the session
+  if (isBillPage(path)) {
+    const config = await fetchOrderConfig();
+    return {
+      type: "bill",
+      data: emptyBill(config.currency, orderCharges(config)),
+    };
+  }
+
+  // Check if this is the payment page - the amount due is read from the session
+  if (isPaymentPage(path)) {
+    const config = await fetchOrderConfig();
+    return {
+      type: "payment",
+      data: emptyPayment(config.currency, orderCharges(config)),
+    };
+  }
+
+  // Check if this is the kitchen display - tickets are fetched from the server
+  if (isKitchenPage(path)) {
+    return {
+      type: "kitchen",
+      data: emptyKitchen(),
+    };
+  }
+
+  // Check if this is the order history - orders are fetched from the server
+  if (isHistoryPage(path)) {
+    const config = await fetchOrderConfig();
+    return {
+      type: "history",
+      data: emptyOrderHistory(config.currency, orderCharges(config)),
+    };
+  }
+
+  // Check if this is the menu editor - menus are fetched from the server
+  if (isMenuEditorPage(path)) {
+    return { type: "menu-editor", data: emptyMenuEditor() };
+  }
+
+  // Check if this is the staff login
+  if (isLoginPage(path)) {
+    return { type: "login", data: emptyLogin() };
+  }
+
   // Check if this is the tables page
   if (isTablesPage(path)) {
     return {
       type: "tables",
-      data: await fetchTablesData(),
+      data: await fetchTablesData(parseFloorId(path)),
     };
   }
 
@@ -70,6 +133,18 @@ export async function fetchPageData(path: string): Promise<PageStaticData> {
   };
 }
 
+// Menu version of the menus and promotions this page loaded, undefined for
+// pages built with their data, which can be older than any version
+let loadedVersion: number | undefined;
+
+// The server names the menu version it answered with
+function rememberVersion(response: Response) {
+  const version = Number(response.headers.get("X-Menu-Version"));
+  if (version > 0) {
+    loadedVersion = version;
+  }
+}
+
 /**
  * Fetch raw menu data from server
  * @param menuId - The menu ID ('index' for root menu)
@@ -78,51 +153,124 @@ export async function fetchPageData(path: string): Promise<PageStaticData> {
 export async function fetchMenuData(menuId: string | null, language: Language): Promise<Menu> {
   // Get data path - server handles fallback to default language
   const dataPath = getMenuDataPath(menuId, language);
-  const response = await fetch(dataPath);
+  // Menus change while the app is open, the browser checks its copy every time
+  const response = await fetch(dataPath, { cache: "no-cache" });
 
   if (!response.ok) {
     throw new Error(`Failed to load menu: ${response.statusText}`);
   }
 
+  rememberVersion(response);
   return response.json();
 }
 
+/**
+ * Call onVersion whenever the server's menu version differs from the one the
+ * page loaded or was last told about, checked on connecting and whenever the
+ * menu files change; the browser connects again by itself after a disconnect
+ * @returns A function that stops listening
+ */
+export function watchMenuVersion(onVersion: (version: number) => void): () => void {
+  if (typeof EventSource === "undefined") return () => {};
+
+  let current = loadedVersion;
+  const events = new EventSource("/api/menu/events");
+  events.addEventListener("menu-version", (event) => {
+    const { version } = JSON.parse((event as MessageEvent).data);
+    if (version === current) return;
+    current = version;
+    onVersion(version);
+  });
+  return () => events.close();
+}
+
+/**
+ * Order configuration from /data/order.json
+ */
+export type OrderConfig = OrderCharges & { currency: string };
+
 /**
  * Fetch order configuration
+ * Missing charges default to no tax and no service charge
  */
-export async function fetchOrderConfig(): Promise<{ currency: string; taxRate: number; serviceFee: number }> {
+export async function fetchOrderConfig(): Promise<OrderConfig> {
   const response = await fetch('/data/order.json');
   if (!response.ok) {
     // Fallback to default if config doesn't exist
-    return { currency: 'ALL', taxRate: 0, serviceFee: 0 };
+    return { currency: 'ALL', ...NO_CHARGES };
   }
-  return response.json();
+  return { ...NO_CHARGES, ...(await response.json()) };
+}
+
+/**
+ * Tax and service charge part of the order configuration
+ */
+export function orderCharges(config: OrderConfig): OrderCharges {
+  const { taxRate, taxMode, serviceFee } = config;
+  return { taxRate, taxMode, serviceFee };
+}
+
+/**
+ * Fetch the promotions of all menus in a language
+ * Falls back to no promotions if the server does not provide them
+ * @param language - The language of the promotion names
+ */
+export async function fetchPromotions(language: Language = getCurrentLanguage()): Promise<Promotion[]> {
+  const response = await apiFetch(`/api/promotions?language=${language}`);
+  if (!response.ok) {
+    return [];
+  }
+  rememberVersion(response);
+  const body = await response.json();
+  return body.promotions ?? [];
 }
 
 /**
  * Create empty order page data
  */
 export async function createEmptyOrderData(): Promise<OrderPageData> {
-  const config = await fetchOrderConfig();
+  const [config, promotions] = await Promise.all([fetchOrderConfig(), fetchPromotions().catch(() => [])]);
+  const order = emptyOrder(config.currency);
+  const charges = orderCharges(config);
   return {
-    order: { itemIds: [], total: 0, currency: config.currency },
+    order,
     items: {},
     currency: config.currency,
+    charges,
+    totals: orderTotals(order, charges),
+    promotions,
   };
 }
 
 /**
- * Fetch tables/seatmap data
+ * Fetch the seatmap floor index
+ */
+export async function fetchFloorIndex(): Promise<FloorIndex> {
+  const response = await fetch("/data/seatmap/index.json");
+  if (!response.ok) {
+    // Fall back to the single main floor
+    return { defaultFloor: "main-floor", floors: [{ id: "main-floor", name: "Main Floor" }] };
+  }
+  return response.json();
+}
+
+/**
+ * Fetch tables/seatmap data for a floor
+ * @param floorId - The floor to show (defaults to the index's default floor)
  */
-export async function fetchTablesData(): Promise<TablesPageData> {
-  const response = await fetch("/data/seatmap/main-floor.json");
+export async function fetchTablesData(floorId?: string | null): Promise<TablesPageData> {
+  const index = await fetchFloorIndex();
+  const id = floorId ?? index.defaultFloor;
+  const response = await fetch(`/data/seatmap/${id}.json`);
   if (!response.ok) {
     // Return a default empty tables page if file doesn't exist yet
     return {
-      id: "main-floor",
-      name: "Main Floor",
-      svgContent: '<svg viewBox="0 0 800 600" xmlns="http://www.w3.org/2000/svg"><text x="400" y="300" text-anchor="middle">No seatmap data available</text></svg>'
+      id,
+      name: index.floors.find((floor) => floor.id === id)?.name ?? id,
+      svgContent: '<svg viewBox="0 0 800 600" xmlns="http://www.w3.org/2000/svg"><text x="400" y="300" text-anchor="middle">No seatmap data available</text></svg>',
+      floors: index.floors,
     };
   }
-  return response.json();
+  const floor = await response.json();
+  return { ...floor, floors: index.floors };
 }
@@ -0,0 +1,51 @@
+/**
+ * Menu Editor Service
+ * Reads the menus from the server's menu cache and writes edited menus back
+ * to the menu files, which the server then loads again
+ */
+
+import { Menu } from "@/types";
+import { Language } from "@/lib/language";
+import { SourceMenu } from "@/model/menu-languages";
+import { apiFetch } from "./staff-service";
+
+/**
+ * Fetch every menu of a language, by ID
+ */
+export async function fetchMenus(language: Language): Promise<Record<string, Menu>> {
+  const response = await apiFetch(`/api/menus?language=${language}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to fetch menus: ${response.statusText}`);
+  }
+  return body.menus ?? {};
+}
+
+/**
+ * Fetch a menu in every language, by language
+ */
+export async function fetchMenuVersions(menuId: string): Promise<Record<string, Menu>> {
+  const response = await apiFetch(`/api/menus/${encodeURIComponent(menuId)}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to fetch menu: ${response.statusText}`);
+  }
+  return body.menus ?? {};
+}
+
+/**
+ * Write a menu in every language and its source
+ * @returns The menu in each language as the server loaded it again
+ */
+export async function saveMenu(menuId: string, menus: Record<string, Menu>, source: SourceMenu): Promise<Record<string, Menu>> {
+  const response = await apiFetch(`/api/menus/${encodeURIComponent(menuId)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ menus, source }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to save menu: ${response.statusText}`);
+  }
+  return body.menus ?? {};
+}
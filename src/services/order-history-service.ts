@@ -0,0 +1,152 @@
+/**
+ * Order History Service
+ * Reads past orders from the server's order store and records their payments and refunds
+ */
+
+import { OrderItem } from "@/model/order-model";
+import { Discount } from "@/model/discount-model";
+import { PaymentRecord } from "@/model/payment-model";
+import { AdjustmentKind, AdjustmentReason, ItemAdjustment } from "@/model/adjustment-model";
+import { apiFetch } from "./staff-service";
+
+export type StoredOrderStatus = "open" | "paid" | "refunded";
+
+/**
+ * One round of a stored order, as sent to the kitchen
+ */
+export interface StoredRound {
+  round: number;
+  orderNumber: string;
+  sentAt: string;
+  staff?: string; // Staff member who took the round
+  itemIds: string[];
+  total: number;
+}
+
+/**
+ * Order in a history list, without its items
+ */
+export interface StoredOrderSummary {
+  id: string;
+  orderNumbers: string[]; // Number of every round, the first one is the order's ID
+  tableNumber: string | null;
+  sessionId: string | null;
+  status: StoredOrderStatus;
+  currency: string;
+  total: number; // Item totals after line discounts, before the order discount
+  discount?: Discount;
+  discountAmount?: number;
+  createdAt: string;
+  updatedAt: string;
+  paidAt?: string;
+  refundedAt?: string;
+  itemCount: number;
+  roundCount: number;
+  voidAmount: number; // Line totals of voided items, already off the total
+  compAmount: number; // Line totals of comped items, already off the total
+}
+
+/**
+ * Stored order with everything needed to reopen it
+ */
+export interface StoredOrder extends Omit<StoredOrderSummary, "itemCount" | "roundCount" | "voidAmount" | "compAmount"> {
+  itemIds: string[];
+  items: Record<string, OrderItem>;
+  rounds: StoredRound[];
+  payments: PaymentRecord[];
+}
+
+/**
+ * History filter; dates are ISO dates (YYYY-MM-DD), both inclusive
+ */
+export interface OrderFilter {
+  from?: string;
+  to?: string;
+  table?: string;
+  status?: StoredOrderStatus;
+}
+
+/**
+ * Fields a client may change on a stored order
+ */
+export type StoredOrderChanges = Partial<Pick<StoredOrder, "status" | "payments" | "tableNumber">>;
+
+/**
+ * Query string for a filter, without the empty fields
+ */
+export function filterQuery(filter: OrderFilter): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) {
+      query.set(key, value);
+    }
+  }
+  return query.toString();
+}
+
+/**
+ * Fetch the orders matching a filter, newest first
+ */
+export async function fetchOrders(filter: OrderFilter = {}): Promise<StoredOrderSummary[]> {
+  const query = filterQuery(filter);
+  const response = await apiFetch(query ? `/api/orders?${query}` : "/api/orders");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch orders: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body.orders ?? [];
+}
+
+/**
+ * Fetch one order with its items and payments
+ * @param id - The order's ID or the number of any of its rounds
+ */
+export async function fetchStoredOrder(id: string): Promise<StoredOrder> {
+  const response = await apiFetch(`/api/orders/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch order: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body.order;
+}
+
+/**
+ * Record payments or a refund on a stored order
+ * Throws with the server's message, e.g. for a missing permission
+ * @param id - The order's ID or the number of any of its rounds
+ */
+export async function updateStoredOrder(id: string, changes: StoredOrderChanges): Promise<StoredOrder> {
+  const response = await apiFetch(`/api/orders/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to update order: ${response.statusText}`);
+  }
+  return body.order;
+}
+
+/**
+ * Void or comp a sent item
+ * Throws with the server's message, e.g. for a missing or wrong manager PIN
+ * @param id - The order's ID or the number of any of its rounds
+ * @param managerPin - Needed when the signed-in staff member may not void
+ */
+export async function adjustStoredItem(
+  id: string,
+  itemId: string,
+  request: { kind: AdjustmentKind; reason: AdjustmentReason; managerPin?: string },
+): Promise<ItemAdjustment> {
+  const response = await apiFetch(`/api/orders/${encodeURIComponent(id)}/items/${encodeURIComponent(itemId)}/adjustment`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to ${request.kind} item: ${response.statusText}`);
+  }
+  return body.adjustment;
+}
@@ -0,0 +1,96 @@
+/**
+ * Order Queue
+ * Rounds sent while offline wait in IndexedDB and go out once the network is back.
+ * Every round carries an idempotency key, so a retry of a round the server did
+ * receive (the answer got lost) returns the first answer instead of a second order.
+ */
+
+import { Language } from "@/lib/language";
+import { AppEvents, dispatch } from "@/lib/dom-events";
+import { OrderPageData, QueuedRoundResult, reconcileStoredOrder } from "@/model/order-model";
+import { createStore, versionedKey } from "@/lib/storage";
+import { sendOrder } from "./order-service";
+
+export type QueuedRound = {
+  key: string; // Idempotency key, an optimistic ID
+  orderId: string; // Local order the round belongs to
+  round: Pick<OrderPageData, "order" | "items">;
+  language: Language;
+  staffId?: string; // Staff member who took the round, whoever is signed in may send it
+  queuedAt: string;
+  attempts: number;
+};
+
+const RETRY_MS = 30000;
+
+// Opened by openStorage() before the queue starts
+const queueStore = createStore<QueuedRound[]>(versionedKey("order-queue", 2), "indexeddb");
+
+let flushing = false;
+
+/**
+ * A failed request that never reached the server, as opposed to an error answer
+ */
+export function isOffline(error: unknown): boolean {
+  return (typeof navigator !== "undefined" && !navigator.onLine) || error instanceof TypeError;
+}
+
+export function enqueueRound(round: Omit<QueuedRound, "queuedAt" | "attempts">): void {
+  queueStore.replace((rounds) => [...(rounds ?? []), { ...round, queuedAt: new Date().toISOString(), attempts: 0 }]);
+}
+
+/**
+ * Queued rounds, oldest first so rounds reach the kitchen in the order they were sent
+ */
+export function listQueued(): QueuedRound[] {
+  return queueStore.get([]);
+}
+
+function replaceQueued(key: string, round?: QueuedRound) {
+  queueStore.replace((rounds) =>
+    (rounds ?? []).flatMap((queued) => (queued.key !== key ? [queued] : round ? [round] : [])),
+  );
+}
+
+/**
+ * Send the queued rounds, stopping at the first one that still can't get through
+ * Rejected rounds leave the queue; their errors are kept on the order and their items are drafts again
+ * Each answer is written to its order and announced with AppEvents.ORDER_SYNCED
+ */
+export async function flushQueue(): Promise<void> {
+  if (flushing) return;
+  flushing = true;
+
+  try {
+    for (const queued of listQueued()) {
+      let result: QueuedRoundResult;
+      try {
+        const response = await sendOrder(queued.round, queued.language, queued.key, queued.staffId);
+        result = response.success
+          ? { accepted: true, orderNumber: response.orderNumber, sessionId: response.erp?.sessionId }
+          : { accepted: false, errors: response.validation?.errors.length ? response.validation.errors : [response.message ?? ""] };
+      } catch (error) {
+        // Later rounds wait too, the kitchen gets them in order
+        replaceQueued(queued.key, { ...queued, attempts: queued.attempts + 1 });
+        if (!isOffline(error)) console.error(error);
+        return;
+      }
+
+      reconcileStoredOrder(queued.orderId, queued.key, result, queued.round.order.itemIds);
+      replaceQueued(queued.key);
+      dispatch(document.body, AppEvents.ORDER_SYNCED, { orderId: queued.orderId, key: queued.key, accepted: result.accepted });
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+/**
+ * Retry the queue now, whenever the browser comes back online, and every 30s
+ */
+export function startOrderQueue(): void {
+  const flush = () => flushQueue().catch(console.error);
+  window.addEventListener("online", flush);
+  setInterval(flush, RETRY_MS);
+  flush();
+}
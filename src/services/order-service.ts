@@ -0,0 +1,64 @@
+/**
+ * Order Service
+ * Submits the current order to the server for validation and processing
+ */
+
+import { OrderPageData } from "@/model/order-model";
+import { Language } from "@/lib/language";
+import { apiFetch } from "./staff-service";
+
+/**
+ * Validation report returned by /api/sendOrder
+ */
+export interface OrderValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  totalCalculated: number;
+}
+
+/**
+ * Response body of /api/sendOrder (both success and validation failure)
+ */
+export interface SendOrderResponse {
+  success: boolean;
+  orderNumber?: string;
+  message?: string;
+  validation?: OrderValidation;
+  erp?: { orderId: string; sessionId: string; orderNumber: string; status: string } | null;
+  timestamp?: string;
+  replayed?: boolean; // Answer of an earlier request with the same idempotency key
+}
+
+/**
+ * Send order to the server
+ * Resolves with the server response for accepted and rejected orders alike,
+ * throws only when the request fails or the server returns an unexpected error
+ * @param data - The order page data (order and items)
+ * @param language - Language the order items were created in
+ * @param idempotencyKey - Sending the same round again with this key returns the first answer
+ * @param staffId - Staff member who took the round, when someone else may be signed in by now
+ */
+export async function sendOrder(
+  data: Pick<OrderPageData, "order" | "items">,
+  language: Language,
+  idempotencyKey?: string,
+  staffId?: string,
+): Promise<SendOrderResponse> {
+  const response = await apiFetch("/api/sendOrder", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}) },
+    body: JSON.stringify({ order: data.order, items: data.items, language, tableNumber: data.order.tableNumber, staffId }),
+  });
+
+  // Validation failures come back as 400 with a validation report
+  if (response.ok || response.status === 400) {
+    const body = await response.json();
+    if (body.validation || body.success !== undefined) {
+      return body as SendOrderResponse;
+    }
+    throw new Error(body.error || `Failed to send order: ${response.statusText}`);
+  }
+
+  throw new Error(`Failed to send order: ${response.statusText}`);
+}
@@ -0,0 +1,53 @@
+/**
+ * Payment Service
+ * Posts captured payments to the server
+ */
+
+import { Tender } from "@/model/payment-model";
+import { apiFetch } from "./staff-service";
+
+/**
+ * Payment request for /api/erp/payments/process
+ */
+export interface PaymentRequest {
+  sessionId?: string;
+  tableNumber?: string;
+  amount: number;
+  tenders: Tender[];
+  final: boolean; // Whether this payment settles the whole order
+}
+
+/**
+ * Response body of /api/erp/payments/process
+ */
+export interface PaymentResponse {
+  success: boolean;
+  paymentId?: string;
+  amount?: number;
+  tendered?: number;
+  change?: number;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Process a payment
+ * Resolves with the server response for accepted and rejected payments alike,
+ * throws only when the request fails or the server returns an unexpected error
+ * @param request - Amount due and the tender lines covering it
+ */
+export async function processPayment(request: PaymentRequest): Promise<PaymentResponse> {
+  const response = await apiFetch("/api/erp/payments/process", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  // Rejected payments come back as 400 with an error message
+  if (response.ok || response.status === 400) {
+    return (await response.json()) as PaymentResponse;
+  }
+
+  const body = await response.json().catch(() => ({}));
+  throw new Error(body.message || body.error || `Failed to process payment: ${response.statusText}`);
+}
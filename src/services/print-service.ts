@@ -0,0 +1,50 @@
+/**
+ * Print Service
+ * Sends ESC/POS byte streams to the local print server through /api/print
+ */
+
+import { apiFetch } from "./staff-service";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Print raw ESC/POS bytes
+ * Throws when no print server is configured or the printer can't be reached,
+ * so callers can fall back to the browser's print dialog
+ * @param bytes - Command stream, e.g. from receiptEscPos()
+ * @param printer - Printer name known to the print server, its default if not given
+ */
+export async function printEscPos(bytes: Uint8Array, printer?: string): Promise<void> {
+  const response = await apiFetch("/api/print", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: toBase64(bytes), ...(printer ? { printer } : {}) }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to print: ${response.statusText}`);
+  }
+}
+
+/**
+ * Print an HTML page through the browser's print dialog
+ * The page goes into a hidden frame so the app stays where it is
+ */
+export function printHTML(page: string): void {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = page;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,95 @@
+/**
+ * Staff Service
+ * Signs staff in and out and sends the session's token with every /api request
+ */
+
+import { StaffMember } from "@/lib/context";
+import { AppEvents, dispatch } from "@/lib/dom-events";
+import {
+  clearStaffSession,
+  getStaffSession,
+  markRefreshed,
+  rememberPin,
+  StaffSession,
+  startSession,
+  unlockOffline,
+} from "@/model/staff-model";
+
+/**
+ * Session as answered by /api/auth/login and /api/auth/session
+ */
+export interface StaffSessionAnswer {
+  token: string;
+  staff: StaffMember;
+  expiresAt: string;
+  timeoutMinutes: number;
+}
+
+/**
+ * fetch() for the /api routes, with the signed-in staff member's token
+ * A 401 means the server ended the session, so the till locks
+ */
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const session = getStaffSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set("Authorization", `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 401 && session) {
+    clearStaffSession();
+    dispatch(document.body, AppEvents.SESSION_ENDED);
+  }
+  return response;
+}
+
+/**
+ * Sign in with a PIN
+ * While the server can't be reached, staff who signed in on this till before unlock it offline
+ * Throws with the server's message for a wrong PIN or too many attempts
+ */
+export async function login(pin: string): Promise<StaffSession> {
+  let response: Response;
+  try {
+    response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pin }),
+    });
+  } catch (error) {
+    const session = await unlockOffline(pin);
+    if (session) return session;
+    console.error(error);
+    throw new Error("Server unreachable: only staff who signed in on this till before can unlock it");
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to sign in: ${response.statusText}`);
+  }
+  const session = startSession(body.session as StaffSessionAnswer);
+  await rememberPin(pin, session).catch(console.error);
+  return session;
+}
+
+/**
+ * End the session on the server; the local session is cleared by the caller
+ */
+export async function logout(): Promise<void> {
+  const response = await apiFetch("/api/auth/logout", { method: "POST" });
+  if (!response.ok) {
+    throw new Error(`Failed to sign out: ${response.statusText}`);
+  }
+}
+
+/**
+ * Extend the session on the server while the till is in use
+ */
+export async function refreshSession(): Promise<void> {
+  const response = await apiFetch("/api/auth/session");
+  if (!response.ok) {
+    throw new Error(`Failed to refresh session: ${response.statusText}`);
+  }
+  markRefreshed();
+}
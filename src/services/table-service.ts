@@ -0,0 +1,51 @@
+/**
+ * Table Service
+ * Reads and updates the live status of tables shown on the seatmap
+ */
+
+import { apiFetch } from "./staff-service";
+
+export type TableStatus = "free" | "occupied" | "order-sent" | "bill-requested" | "needs-cleaning";
+
+/**
+ * Status of a single table as tracked by the server
+ */
+export interface TableState {
+  status: TableStatus;
+  guestCount: number;
+  openTotal: number;
+  currency: string | null;
+  updatedAt?: string;
+}
+
+/**
+ * Fetch the status of all tables, keyed by table number
+ * Tables the server has no record of are free
+ */
+export async function fetchTableStatus(): Promise<Record<string, TableState>> {
+  const response = await apiFetch("/api/tables/status");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch table status: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body.tables ?? {};
+}
+
+/**
+ * Set a table's status: seated with its guests, bill requested or cleaned
+ * @param tableNumber - The table number as shown on the seatmap
+ * @param status - The new status
+ * @param guestCount - Number of guests, asked when the table is seated
+ */
+export async function updateTableStatus(tableNumber: string, status: TableStatus, guestCount?: number): Promise<TableState> {
+  const response = await apiFetch(`/api/tables/${encodeURIComponent(tableNumber)}/status`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ status, guestCount }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update table status: ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body.table;
+}
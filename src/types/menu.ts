@@ -17,8 +17,16 @@ export interface ItemGroup {
   itemIds: string[];
   description?: string;
   icon?: string;
+  station?: Station; // Station for the group's items that set none themselves
 }
 
+/**
+ * Preparation station a sent item is routed to, e.g. "bar", "kitchen" or "crepes"
+ * Items without a station of their own or of a group inherit the station of the
+ * item whose subMenu leads to their menu, and default to "kitchen"
+ */
+export type Station = string;
+
 /**
  * Menu container with three-layer architecture
  */
@@ -39,6 +47,7 @@ export interface Menu<T = MenuItem> {
   // Supporting definitions
   choices?: Record<string, Choice>; // Choice definitions referenced by items via choiceId
   variants?: Record<string, VariantGroup>; // Variant definitions referenced by items
+  promotions?: Record<string, Promotion>; // Promotions on this menu's items
   modifierMenu?: boolean; // If true, requires an OrderItem in the stack to display
 }
 
@@ -80,6 +89,9 @@ export interface MenuItem {
 
   // Navigation
   subMenu?: SubMenu;
+
+  // Kitchen routing - inherited by the items of the subMenu
+  station?: Station;
   
   // Display order - assigned based on layout traversal during generation
   order?: number;
@@ -139,6 +151,36 @@ export interface VariantPricing {
   prices: VariantPrice; // Price for each variant ID
 }
 
+/**
+ * Promotion rule
+ * - nth-item: every nth unit of the promoted items gets the discount ("2nd coffee half price")
+ * - percent: every unit gets the discount (e.g. during happy hour)
+ */
+export type PromotionRule = { type: "nth-item"; nth: number; percent: number } | { type: "percent"; percent: number };
+
+/**
+ * Weekly time window a promotion is active in; "to" before "from" spans midnight
+ */
+export interface PromotionSchedule {
+  days?: number[]; // 0 = Sunday ... 6 = Saturday, every day if omitted
+  from: string; // "HH:MM"
+  to: string; // "HH:MM"
+  timeZone?: string; // Restaurant's IANA time zone from menu-config.json, the device's if omitted
+}
+
+/**
+ * Rule-based promotion on menu items
+ * Applies to the items of an item group in the same menu and/or explicit item IDs
+ */
+export interface Promotion {
+  id: string;
+  name: string;
+  itemGroupId?: string;
+  itemIds?: string[];
+  rule: PromotionRule;
+  schedule?: PromotionSchedule; // Always active if omitted
+}
+
 /**
  * Type guards
  */
@@ -4,6 +4,12 @@
 
 import { DisplayMenu } from "@/model/menu-model";
 import { OrderPageData } from "@/model/order-model";
+import { BillPageData } from "@/model/bill-model";
+import { PaymentPageData } from "@/model/payment-model";
+import { KitchenPageData } from "@/model/kitchen-model";
+import { OrderHistoryPageData } from "@/model/order-history-model";
+import { MenuEditorPageData } from "@/model/menu-editor-model";
+import { LoginPageData } from "@/model/staff-model";
 
 /**
  * Tables page data structure
@@ -12,6 +18,23 @@ export interface TablesPageData {
   id: string;
   name: string;
   svgContent: string;  // Full SVG as string
+  floors: FloorSummary[];  // All floors, for the floor switcher
+}
+
+/**
+ * Floor entry in the seatmap index
+ */
+export interface FloorSummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * Seatmap index file structure (/data/seatmap/index.json)
+ */
+export interface FloorIndex {
+  defaultFloor: string;
+  floors: FloorSummary[];
 }
 
 /**
@@ -20,7 +43,13 @@ export interface TablesPageData {
 export type PageStaticData = 
   | { type: "order"; data: OrderPageData }
   | { type: "menu"; data: DisplayMenu }
-  | { type: "tables"; data: TablesPageData };
+  | { type: "tables"; data: TablesPageData }
+  | { type: "bill"; data: BillPageData }
+  | { type: "payment"; data: PaymentPageData }
+  | { type: "kitchen"; data: KitchenPageData }
+  | { type: "history"; data: OrderHistoryPageData }
+  | { type: "menu-editor"; data: MenuEditorPageData }
+  | { type: "login"; data: LoginPageData };
 
 /**
  * Global window type for preloaded data